@@ -14,16 +14,24 @@ import type * as claudeNode from "../claudeNode.js";
 import type * as compression from "../compression.js";
 import type * as context from "../context.js";
 import type * as contextMapImport from "../contextMapImport.js";
+import type * as conversations from "../conversations.js";
+import type * as costLedger from "../costLedger.js";
 import type * as counters from "../counters.js";
 import type * as features from "../features.js";
 import type * as generations from "../generations.js";
 import type * as http from "../http.js";
 import type * as lib_auth from "../lib/auth.js";
+import type * as lib_brainstormContext from "../lib/brainstormContext.js";
 import type * as lib_contentHash from "../lib/contentHash.js";
+import type * as lib_conversations from "../lib/conversations.js";
+import type * as lib_costLedger from "../lib/costLedger.js";
 import type * as lib_context from "../lib/context.js";
 import type * as lib_featureFlags from "../lib/featureFlags.js";
 import type * as lib_langfuse from "../lib/langfuse.js";
+import type * as lib_memoryDraft from "../lib/memoryDraft.js";
 import type * as lib_memoryRendering from "../lib/memoryRendering.js";
+import type * as lib_mockLLM from "../lib/mockLLM.js";
+import type * as lib_providerStreams from "../lib/providerStreams.js";
 import type * as lib_resolve from "../lib/resolve.js";
 import type * as lib_selfTalkDetector from "../lib/selfTalkDetector.js";
 import type * as lib_skills from "../lib/skills.js";
@@ -37,6 +45,7 @@ import type * as metrics from "../metrics.js";
 import type * as migrations from "../migrations.js";
 import type * as migrations_migrateIsDraftToContextMode from "../migrations/migrateIsDraftToContextMode.js";
 import type * as projects from "../projects.js";
+import type * as providersNode from "../providersNode.js";
 import type * as research from "../research.js";
 import type * as sessions from "../sessions.js";
 import type * as skillExport from "../skillExport.js";
@@ -60,16 +69,24 @@ declare const fullApi: ApiFromModules<{
   compression: typeof compression;
   context: typeof context;
   contextMapImport: typeof contextMapImport;
+  conversations: typeof conversations;
+  costLedger: typeof costLedger;
   counters: typeof counters;
   features: typeof features;
   generations: typeof generations;
   http: typeof http;
   "lib/auth": typeof lib_auth;
+  "lib/brainstormContext": typeof lib_brainstormContext;
   "lib/contentHash": typeof lib_contentHash;
+  "lib/conversations": typeof lib_conversations;
+  "lib/costLedger": typeof lib_costLedger;
   "lib/context": typeof lib_context;
   "lib/featureFlags": typeof lib_featureFlags;
   "lib/langfuse": typeof lib_langfuse;
+  "lib/memoryDraft": typeof lib_memoryDraft;
   "lib/memoryRendering": typeof lib_memoryRendering;
+  "lib/mockLLM": typeof lib_mockLLM;
+  "lib/providerStreams": typeof lib_providerStreams;
   "lib/resolve": typeof lib_resolve;
   "lib/selfTalkDetector": typeof lib_selfTalkDetector;
   "lib/skills": typeof lib_skills;
@@ -83,6 +100,7 @@ declare const fullApi: ApiFromModules<{
   migrations: typeof migrations;
   "migrations/migrateIsDraftToContextMode": typeof migrations_migrateIsDraftToContextMode;
   projects: typeof projects;
+  providersNode: typeof providersNode;
   research: typeof research;
   sessions: typeof sessions;
   skillExport: typeof skillExport;
@@ -1,9 +1,10 @@
 import { query, mutation, internalQuery, internalMutation } from "./_generated/server"
+import { internal } from "./_generated/api"
 import type { MutationCtx } from "./_generated/server"
 import { v } from "convex/values"
 import type { Doc, Id } from "./_generated/dataModel"
 import { zoneValidator, type Zone } from "./lib/validators"
-import { countTokens, DEFAULT_TOKEN_MODEL } from "./lib/tokenizer"
+import { countTokens, DEFAULT_TOKEN_MODEL, getSessionTokenModel, getTokenModel } from "./lib/tokenizer"
 import { computeContentHash } from "./lib/contentHash"
 import { canAccessSession, requireSessionAccess, getOptionalUserId } from "./lib/auth"
 import { resolveBlocks } from "./lib/resolve"
@@ -80,6 +81,47 @@ export const listBySessionInternal = internalQuery({
   },
 })
 
+// Blocks recounted per recountTokens batch (keeps each mutation well under limits)
+const RECOUNT_BATCH_SIZE = 100
+
+// Internal: recount tokens on a session's blocks with its current tokenizer.
+// Scheduled by sessions.setActiveModel; walks the session in batches, rescheduling
+// itself until done. Blocks already counted with the tokenizer are skipped.
+export const recountTokens = internalMutation({
+  args: {
+    sessionId: v.id("sessions"),
+    cursor: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const tokenModel = await getSessionTokenModel(ctx, args.sessionId)
+
+    const page = await ctx.db
+      .query("blocks")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .paginate({ numItems: RECOUNT_BATCH_SIZE, cursor: args.cursor ?? null })
+
+    const stale = page.page.filter((b) => b.tokenModel !== tokenModel)
+    const lookup = await fetchCanonicalLookup(ctx, stale)
+    for (const block of stale) {
+      // Linked blocks count their canonical's content
+      const content = block.refBlockId
+        ? lookup.get(String(block.refBlockId))?.content ?? ""
+        : block.content
+      await ctx.db.patch(block._id, {
+        tokens: countTokens(content, tokenModel),
+        tokenModel,
+      })
+    }
+
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.blocks.recountTokens, {
+        sessionId: args.sessionId,
+        cursor: page.continueCursor,
+      })
+    }
+  },
+})
+
 // Get next position for a zone within a session
 // NOTE: Uses .first() instead of .collect() to avoid fetching all blocks (N+1 prevention)
 async function getNextPosition(
@@ -212,8 +254,9 @@ export const create = mutation({
     const position = await getNextPosition(ctx, args.sessionId, zone)
     const now = Date.now()
 
-    // Count tokens for the content
-    const tokens = countTokens(args.content)
+    // Count tokens for the content with the session's tokenizer
+    const tokenModel = getTokenModel(session.activeModel)
+    const tokens = countTokens(args.content, tokenModel)
     const contentHash = computeContentHash(args.content)
 
     // Update session's updatedAt
@@ -231,7 +274,7 @@ export const create = mutation({
       // Token tracking
       tokens,
       originalTokens: tokens,
-      tokenModel: DEFAULT_TOKEN_MODEL,
+      tokenModel,
       contentHash,
     })
 
@@ -426,8 +469,8 @@ export const update = mutation({
     if (args.content !== undefined) {
       updates.content = args.content
       // Recount tokens when content changes
-      updates.tokens = countTokens(args.content)
-      updates.tokenModel = DEFAULT_TOKEN_MODEL
+      updates.tokenModel = await getSessionTokenModel(ctx, block.sessionId)
+      updates.tokens = countTokens(args.content, updates.tokenModel)
       updates.contentHash = computeContentHash(args.content)
     }
     if (args.type !== undefined) {
@@ -493,6 +536,10 @@ export const remove = mutation({
         })
       }
 
+      if (block.compressionOriginalId) {
+        await ctx.db.delete(block.compressionOriginalId)
+      }
+
       // Update session's updatedAt before deleting
       await ctx.db.patch(block.sessionId, { updatedAt: Date.now() })
 
@@ -530,6 +577,24 @@ export const setContextMode = mutation({
   },
 })
 
+// Pin a block so the session's budget policy never compresses or drafts it
+export const setPinned = mutation({
+  args: {
+    id: v.id("blocks"),
+    isPinned: v.boolean(),
+  },
+  handler: async (ctx, args) => {
+    const block = await ctx.db.get(args.id)
+    if (!block) throw new Error("Block not found")
+
+    await requireSessionAccess(ctx, block.sessionId)
+
+    // Store unpinned as undefined, like the default context mode
+    await ctx.db.patch(args.id, { isPinned: args.isPinned || undefined })
+    return args.id
+  },
+})
+
 // Unlink a referenced block — copy canonical content and make it a regular block
 export const unlink = mutation({
   args: { id: v.id("blocks") },
@@ -549,7 +614,7 @@ export const unlink = mutation({
       refBlockId: undefined,
       tokens,
       originalTokens: tokens,
-      tokenModel: DEFAULT_TOKEN_MODEL,
+      tokenModel: canonical?.tokenModel ?? DEFAULT_TOKEN_MODEL,
       updatedAt: Date.now(),
     })
 
@@ -559,6 +624,111 @@ export const unlink = mutation({
 
 // ============ Compression mutations ============
 
+type CompressionOriginal = Pick<Doc<"compressionOriginals">, "kind" | "sources">
+
+/**
+ * The uncompressed state behind a block, detaching it from the block. A block
+ * compressed before contributes its stored originals (in-place ones follow the
+ * block's current zone and position), so revert always returns to the text as
+ * it was before any compression.
+ */
+async function takeCompressionOriginal(
+  ctx: MutationCtx,
+  block: Doc<"blocks">
+): Promise<CompressionOriginal> {
+  const existing = block.compressionOriginalId ? await ctx.db.get(block.compressionOriginalId) : null
+  if (existing) {
+    await ctx.db.delete(existing._id)
+    return existing.kind === "compress"
+      ? { kind: "compress", sources: existing.sources.map((s) => ({ ...s, zone: block.zone, position: block.position })) }
+      : { kind: existing.kind, sources: existing.sources }
+  }
+  return {
+    kind: "compress",
+    sources: [{
+      content: block.content,
+      type: block.type,
+      zone: block.zone,
+      position: block.position,
+      createdAt: block.createdAt,
+      tokens: block.tokens,
+      originalTokens: block.originalTokens,
+      tokenModel: block.tokenModel,
+      contentHash: block.contentHash,
+      metadata: block.metadata,
+      contextMode: block.contextMode,
+    }],
+  }
+}
+
+/**
+ * Uncompressed content behind a compressed or merged block; null when none was kept.
+ */
+export const getCompressionOriginal = query({
+  args: { blockId: v.id("blocks") },
+  handler: async (ctx, args): Promise<Doc<"compressionOriginals"> | null> => {
+    const block = await ctx.db.get(args.blockId)
+    if (!block?.compressionOriginalId) return null
+    if (!(await canAccessSession(ctx, block.sessionId))) return null
+    return await ctx.db.get(block.compressionOriginalId)
+  },
+})
+
+/**
+ * Undo compression: restore the original content in place, or recreate the
+ * merged source blocks in their former zones and positions and delete the
+ * merged block.
+ */
+export const revertCompression = mutation({
+  args: { blockId: v.id("blocks") },
+  handler: async (ctx, args): Promise<{ restoredBlockIds: Id<"blocks">[] }> => {
+    const block = await ctx.db.get(args.blockId)
+    if (!block) throw new Error("Block not found")
+    await requireSessionAccess(ctx, block.sessionId)
+
+    const original = block.compressionOriginalId ? await ctx.db.get(block.compressionOriginalId) : null
+    if (!original) throw new Error("The original content of this block was not kept")
+
+    const now = Date.now()
+    const restoredBlockIds: Id<"blocks">[] = []
+    if (original.kind === "compress") {
+      const [source] = original.sources
+      await ctx.db.patch(args.blockId, {
+        content: source.content,
+        tokens: source.tokens,
+        originalTokens: source.originalTokens,
+        tokenModel: source.tokenModel,
+        contentHash: source.contentHash,
+        isCompressed: undefined,
+        compressionStrategy: undefined,
+        compressionRatio: undefined,
+        compressedAt: undefined,
+        mergedFromCount: undefined,
+        compressionOriginalId: undefined,
+        updatedAt: now,
+      })
+      restoredBlockIds.push(args.blockId)
+    } else {
+      for (const source of original.sources) {
+        restoredBlockIds.push(await ctx.db.insert("blocks", {
+          sessionId: block.sessionId,
+          ...source,
+          updatedAt: now,
+        }))
+      }
+      await ctx.db.delete(args.blockId)
+    }
+    await ctx.db.delete(original._id)
+
+    await ctx.db.patch(block.sessionId, { updatedAt: now })
+    for (const zone of new Set([block.zone, ...original.sources.map((s) => s.zone)])) {
+      await invalidateClaudeSession(ctx, block.sessionId, zone)
+    }
+
+    return { restoredBlockIds }
+  },
+})
+
 /**
  * Compress a single block in-place.
  * Replaces the block's content with compressed version and updates metadata.
@@ -581,6 +751,17 @@ export const compress = mutation({
     await requireSessionAccess(ctx, block.sessionId)
 
     const now = Date.now()
+    // Count with the session's tokenizer rather than the compression estimate
+    const tokenModel = await getSessionTokenModel(ctx, block.sessionId)
+
+    // Keep the uncompressed content for show-original / revert
+    const original = await takeCompressionOriginal(ctx, block)
+    const compressionOriginalId = await ctx.db.insert("compressionOriginals", {
+      blockId: args.blockId,
+      sessionId: block.sessionId,
+      ...original,
+      createdAt: now,
+    })
 
     // Update block with compressed content and metadata
     await ctx.db.patch(args.blockId, {
@@ -594,9 +775,11 @@ export const compress = mutation({
       compressedAt: now,
 
       // Token tracking - keep originalTokens, update current tokens
-      tokens: args.compressedTokens,
+      tokens: countTokens(args.compressedContent, tokenModel),
+      tokenModel,
       // If originalTokens wasn't set, set it now
       originalTokens: block.originalTokens || args.originalTokens,
+      compressionOriginalId,
 
       updatedAt: now,
     })
@@ -612,7 +795,8 @@ export const compress = mutation({
 
 /**
  * Compress and merge multiple blocks into a single compressed block.
- * Creates a new block with merged content and deletes the original blocks.
+ * Creates a new block with merged content and deletes the original blocks,
+ * keeping them in compressionOriginals so the merge can be reverted.
  */
 export const compressAndMerge = mutation({
   args: {
@@ -650,6 +834,8 @@ export const compressAndMerge = mutation({
     }
 
     const now = Date.now()
+    // Count with the session's tokenizer rather than the compression estimate
+    const tokenModel = await getSessionTokenModel(ctx, sessionId)
 
     // Create new merged block
     const newBlockId = await ctx.db.insert("blocks", {
@@ -667,14 +853,28 @@ export const compressAndMerge = mutation({
       mergedFromCount: args.blockIds.length,
 
       // Token tracking
-      tokens: args.compressedTokens,
+      tokens: countTokens(args.compressedContent, tokenModel),
       originalTokens: args.originalTokens,
-      tokenModel: DEFAULT_TOKEN_MODEL,
+      tokenModel,
 
       createdAt: now,
       updatedAt: now,
     })
 
+    // Keep the sources (uncompressed, in merge order) for revert
+    const sources: CompressionOriginal["sources"] = []
+    for (const block of blocks) {
+      sources.push(...(await takeCompressionOriginal(ctx, block!)).sources)
+    }
+    const compressionOriginalId = await ctx.db.insert("compressionOriginals", {
+      blockId: newBlockId,
+      sessionId,
+      kind: "merge",
+      sources,
+      createdAt: now,
+    })
+    await ctx.db.patch(newBlockId, { compressionOriginalId })
+
     // Delete all original blocks
     await Promise.all(args.blockIds.map((id) => ctx.db.delete(id)))
 
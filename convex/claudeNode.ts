@@ -8,6 +8,7 @@
  *
  * Environment variables:
  * - CLAUDE_CODE_PATH: Path to Claude Code CLI executable (optional, defaults to "claude")
+ * - MOCK_LLM_ENABLED: Replace the SDK with the scripted mock (offline development, e2e)
  */
 
 import { action } from "./_generated/server"
@@ -22,17 +23,17 @@ import {
   assembleContextWithConversation,
   assembleSystemPromptWithContext,
   formatPromptForSDK,
-  NO_TOOLS_SUFFIX,
-  NO_SELF_TALK_SUFFIX,
-  VALIDATION_SUFFIX,
   RESEARCH_SUFFIX,
   LOCAL_RESEARCH_SUFFIX,
 } from "./lib/context"
-import { SelfTalkDetector } from "./lib/selfTalkDetector"
+import { SelfTalkDetector, getSelfTalkMarkers } from "./lib/selfTalkDetector"
 import { getActiveSkillsContent } from "./lib/skills"
-import { renderMemoryBlock } from "./lib/memoryRendering"
+import { buildBrainstormSystemPrompt, loadBrainstormContext } from "./lib/brainstormContext"
+import { parseResponseSchema } from "./lib/structuredOutput"
 import { createGeneration, flushLangfuse } from "./lib/langfuse"
-import { isClaudeCodeEnabled, isLocalResearchEnabled } from "./lib/featureFlags"
+import { recordActionCost } from "./lib/costLedger"
+import { isClaudeCodeEnabled, isLocalResearchEnabled, isMockLLMEnabled } from "./lib/featureFlags"
+import { mockAgentQuery } from "./lib/mockLLM"
 
 // Get Claude Code executable path by trying to locate it
 export const getClaudeCodePath = (): string | undefined => {
@@ -73,13 +74,25 @@ export const getClaudeCodePath = (): string | undefined => {
   return undefined
 }
 
+/**
+ * Agent SDK query(), or the scripted mock when MOCK_LLM_ENABLED=true.
+ * Callers only iterate the message stream, which the mock reproduces.
+ */
+export const agentQuery = (params: Parameters<typeof claudeQuery>[0]) =>
+  isMockLLMEnabled() ? mockAgentQuery(params) : claudeQuery(params)
+
 /**
  * Check if Claude Code CLI is available.
  * Returns disabled status if CLAUDE_CODE_ENABLED feature flag is false.
+ * Always healthy when the scripted mock stands in for it.
  */
 export const checkHealth = action({
   args: {},
   handler: async (): Promise<{ ok: boolean; error?: string; version?: string; disabled?: boolean }> => {
+    if (isMockLLMEnabled()) {
+      return { ok: true, version: "scripted mock (MOCK_LLM_ENABLED)" }
+    }
+
     // Check feature flag first
     if (!isClaudeCodeEnabled()) {
       return {
@@ -158,6 +171,10 @@ export const streamBrainstormMessage = action({
     activeSkillIds: v.optional(v.array(v.string())), // Ephemeral skill IDs to inject
     model: v.optional(v.string()), // Claude model override (e.g. "claude-sonnet-4-5-20250929")
     isValidation: v.optional(v.boolean()), // Validation mode — include validation criteria blocks + suffix
+    isolated: v.optional(v.boolean()), // Compare mode — don't resume or store the session's Claude SDK session
+    selfTalkMarkers: v.optional(v.array(v.string())), // User-configured markers, added to the defaults
+    snapshotId: v.optional(v.id("snapshots")), // Replay — use the snapshot's blocks instead of the session's
+    outputSchema: v.optional(v.string()), // Structured output — JSON Schema the reply must match
   },
   handler: async (ctx, args): Promise<void> => {
     const throttleMs = args.throttleMs ?? 100
@@ -165,54 +182,23 @@ export const streamBrainstormMessage = action({
     const disableAgentBehavior = args.disableAgentBehavior ?? true
     const preventSelfTalk = args.preventSelfTalk ?? true
     const isValidation = args.isValidation ?? false
+    const isolated = args.isolated ?? false
     const contextMode = isValidation ? "validation" as const : "brainstorm" as const
 
     // Check for existing Claude session (enables prompt caching on turn 2+)
-    const session = await ctx.runQuery(internal.generations.getSessionInternal, {
-      sessionId: args.sessionId,
-    })
-    // Validation mode always needs fresh context assembly (criteria blocks differ)
-    const existingClaudeSessionId = isValidation ? undefined : session?.claudeSessionId
-
-    // Get blocks for context assembly (use internal query to bypass auth in scheduled actions)
-    const blocks = await ctx.runQuery(internal.blocks.listBySessionInternal, {
-      sessionId: args.sessionId,
-    })
-
-    // Fetch memory entries if session belongs to a project
-    let renderedMemory: string | undefined
-    if (session?.projectId) {
-      const memoryEntries = await ctx.runQuery(
-        internal.memoryEntries.listByProjectInternal,
-        { projectId: session.projectId }
-      )
-      if (memoryEntries.length > 0) {
-        const sessionTags = session.sessionTags ?? []
-        const pinnedIds = new Set(session.pinnedMemories ?? [])
-        const pinnedEntries = memoryEntries.filter((e) => pinnedIds.has(e._id))
-
-        renderedMemory = renderMemoryBlock(memoryEntries, sessionTags, pinnedEntries)
-      }
-    }
+    const { session, blocks, renderedMemory } = await loadBrainstormContext(ctx, args.sessionId, args.snapshotId)
+    // Validation mode always needs fresh context assembly (criteria blocks differ).
+    // Isolated (compare) runs must not continue a session another model's reply may follow.
+    const existingClaudeSessionId = isValidation || isolated ? undefined : session?.claudeSessionId
 
     // System prompt is the same for both fresh and resume paths
-    let systemPrompt: string | undefined = assembleSystemPromptWithContext(blocks, renderedMemory, contextMode)
-    if (disableAgentBehavior) {
-      systemPrompt = (systemPrompt ?? "") + NO_TOOLS_SUFFIX
-    }
-    if (preventSelfTalk) {
-      systemPrompt = (systemPrompt ?? "") + NO_SELF_TALK_SUFFIX
-    }
-    if (isValidation) {
-      const validationPromptBlock = blocks.find(
-        (b) => b.type === "validation_prompt" && b.zone === "PERMANENT" && (b.contextMode ?? "default") !== "draft"
-      )
-      if (validationPromptBlock) {
-        systemPrompt = (systemPrompt ?? "") + "\n\n" + validationPromptBlock.content
-      } else {
-        systemPrompt = (systemPrompt ?? "") + VALIDATION_SUFFIX
-      }
-    }
+    // The SDK has no JSON mode: a structured-output schema is prompted and validated by the client
+    let systemPrompt = buildBrainstormSystemPrompt(blocks, renderedMemory, {
+      disableAgentBehavior,
+      preventSelfTalk,
+      isValidation,
+      outputSchema: args.outputSchema ? parseResponseSchema(args.outputSchema).schema : undefined,
+    })
 
     let prompt: string
 
@@ -272,7 +258,10 @@ export const streamBrainstormMessage = action({
     const stderrChunks: string[] = []
 
     // Self-talk detection (when preventSelfTalk is enabled)
-    const selfTalkDetector = preventSelfTalk ? new SelfTalkDetector() : null
+    const selfTalkDetector = preventSelfTalk
+      ? new SelfTalkDetector(getSelfTalkMarkers("claude", args.selfTalkMarkers))
+      : null
+    let selfTalk: { marker: string; position: number; detectedAt: number } | undefined
 
     // Helper to check if generation was cancelled via DB flag
     const isCancelled = async (): Promise<boolean> => {
@@ -297,7 +286,7 @@ export const streamBrainstormMessage = action({
     try {
       let hasReceivedStreamEvents = false
 
-      for await (const message of claudeQuery({
+      for await (const message of agentQuery({
         prompt,
         options: {
           abortController,
@@ -328,11 +317,11 @@ export const streamBrainstormMessage = action({
               if (selfTalkDetector) {
                 const detection = selfTalkDetector.feed(delta.text)
                 if (detection) {
-                  // Add the clean portion before the marker
-                  if (detection.cleanText) {
-                    buffer += detection.cleanText
-                    fullText += detection.cleanText
-                  }
+                  // Add the clean portion before the marker; the final text is cut at the marker
+                  // (part of a marker split across chunks may already be flushed)
+                  buffer += detection.cleanText
+                  fullText = (fullText + delta.text).slice(0, detection.position)
+                  selfTalk = { marker: detection.marker, position: detection.position, detectedAt: Date.now() }
                   // Flush what we have, then abort
                   console.warn(
                     `[Claude Brainstorm] Self-talk detected: model generated "${detection.marker}" ` +
@@ -397,13 +386,13 @@ export const streamBrainstormMessage = action({
 
           // Capture and store Claude session ID + resolved model
           const claudeSessionId = msg.session_id as string | undefined
-          if (claudeSessionId && !existingClaudeSessionId) {
+          if (claudeSessionId && !existingClaudeSessionId && !isolated) {
             await ctx.runMutation(internal.generations.setClaudeSessionId, {
               sessionId: args.sessionId,
               claudeSessionId,
             })
           }
-          if (resolvedModel) {
+          if (resolvedModel && !isolated) {
             await ctx.runMutation(internal.generations.setClaudeResolvedModel, {
               sessionId: args.sessionId,
               model: resolvedModel,
@@ -438,10 +427,13 @@ export const streamBrainstormMessage = action({
       // Mark as complete with usage stats (no auto-save to blocks)
       await ctx.runMutation(internal.generations.completeWithUsage, {
         generationId: args.generationId,
+        finalText: selfTalk ? fullText : undefined,
         inputTokens,
         outputTokens,
         costUsd,
         durationMs,
+        model: resolvedModel,
+        selfTalk,
       })
 
       // Complete LangFuse trace
@@ -566,7 +558,7 @@ export const runResearchAction = action({
     try {
       let hasReceivedStreamEvents = false
 
-      for await (const message of claudeQuery({
+      for await (const message of agentQuery({
         prompt,
         options: {
           abortController,
@@ -632,6 +624,15 @@ export const runResearchAction = action({
       const gen = await ctx.runQuery(internal.generations.getInternal, { generationId: args.generationId })
 
       if (gen?.status === "cancelled") {
+        // Spent all the same
+        await recordActionCost(ctx, {
+          sessionId: args.sessionId,
+          provider: "claude-research",
+          model: resolvedModel,
+          inputTokens,
+          outputTokens,
+          costUsd,
+        })
         trace.complete({ text: fullText, inputTokens, outputTokens, costUsd, durationMs, resolvedModel })
         await flushLangfuse()
         return
@@ -643,7 +644,7 @@ export const runResearchAction = action({
       })
       await ctx.runMutation(internal.generations.completeWithUsage, {
         generationId: args.generationId,
-        inputTokens, outputTokens, costUsd, durationMs,
+        inputTokens, outputTokens, costUsd, durationMs, model: resolvedModel,
       })
       trace.complete({ text: fullText, inputTokens, outputTokens, costUsd, durationMs, resolvedModel })
       await flushLangfuse()
@@ -8,11 +8,17 @@
 import { action } from "./_generated/server"
 import { v } from "convex/values"
 import { api } from "./_generated/api"
-import { query as claudeQuery } from "@anthropic-ai/claude-agent-sdk"
+import { agentQuery } from "./claudeNode"
 import { execSync } from "child_process"
 import * as fs from "fs"
 import * as os from "os"
 import { createGeneration, flushLangfuse } from "./lib/langfuse"
+import { compressStatistical } from "./lib/extractiveSummary"
+import { checkFidelity, formatFidelityShortfall, type FidelityReport } from "./lib/compressionFidelity"
+import { recordActionCost, requireActionBudget } from "./lib/costLedger"
+
+// Compressed length target (original / compressed) for every strategy
+const TARGET_RATIO = 2.0
 
 // Get Claude Code executable path by trying to locate it
 const getClaudeCodePath = (): string | undefined => {
@@ -61,6 +67,7 @@ export const compressWithClaudeCode = action({
   args: {
     blockId: v.id("blocks"),
     strategy: v.string(), // "semantic" | "structural" | "statistical"
+    minFidelity: v.optional(v.number()), // 0-1; don't save below this share of kept facts
   },
   handler: async (ctx, args) => {
     console.log(`[Compression Server] Starting single block compression: ${args.blockId}`)
@@ -88,6 +95,43 @@ export const compressWithClaudeCode = action({
       throw new Error("Block has no content")
     }
 
+    // Extractive compression runs right here, without Claude Code
+    if (args.strategy === "statistical") {
+      const compressedContent = compressStatistical(block.content, { targetRatio: TARGET_RATIO })
+      const compressedTokens = estimateTokens(compressedContent)
+      const compressionRatio = originalTokens / compressedTokens
+      if (compressionRatio < 1.2) {
+        throw new Error(`Compression ratio ${compressionRatio.toFixed(2)}x is below minimum 1.2x`)
+      }
+      const fidelity = checkFidelity(block.content, compressedContent)
+      if (isBelowMinFidelity(fidelity, args.minFidelity)) {
+        console.warn(`[Compression Server] ${formatFidelityShortfall(fidelity, args.minFidelity!)}`)
+        return { success: false, blockId: args.blockId, originalTokens, compressedTokens, compressionRatio, tokensSaved: 0, fidelity }
+      }
+
+      await ctx.runMutation(api.blocks.compress, {
+        blockId: args.blockId,
+        compressedContent,
+        originalTokens,
+        compressedTokens,
+        compressionRatio,
+        strategy: args.strategy,
+      })
+      console.log(`[Compression Server] Statistical compression: ${compressionRatio.toFixed(2)}x`)
+
+      return {
+        success: true,
+        blockId: args.blockId,
+        originalTokens,
+        compressedTokens,
+        compressionRatio,
+        tokensSaved: originalTokens - compressedTokens,
+        fidelity,
+      }
+    }
+
+    await requireActionBudget(ctx, block.sessionId)
+
     // Build compression prompt based on strategy
     const prompt = buildCompressionPrompt({
       content: block.content,
@@ -135,7 +179,7 @@ export const compressWithClaudeCode = action({
       // Race between compression and timeout
       await Promise.race([
         (async () => {
-          for await (const message of claudeQuery({
+          for await (const message of agentQuery({
             prompt,
             options: {
               allowedTools: [], // Text-only mode
@@ -174,6 +218,8 @@ export const compressWithClaudeCode = action({
         })(),
         timeoutPromise,
       ])
+      // Spent whether or not the result is usable
+      await recordActionCost(ctx, { sessionId: block.sessionId, provider: "claude", inputTokens, outputTokens, costUsd })
 
       compressedContent = compressedContent.trim()
 
@@ -200,6 +246,15 @@ export const compressWithClaudeCode = action({
           `[Compression Server] Warning: Compression quality ${(quality * 100).toFixed(0)}% is below recommended 60%`
         )
       }
+      const fidelity = checkFidelity(block.content, compressedContent)
+      if (isBelowMinFidelity(fidelity, args.minFidelity)) {
+        // Not saved; the report goes back so the client can list the lost facts
+        const shortfall = formatFidelityShortfall(fidelity, args.minFidelity!)
+        console.warn(`[Compression Server] ${shortfall}`)
+        trace.error(shortfall)
+        await flushLangfuse()
+        return { success: false, blockId: args.blockId, originalTokens, compressedTokens, compressionRatio, tokensSaved: 0, fidelity }
+      }
 
       // Save compression result to database
       await ctx.runMutation(api.blocks.compress, {
@@ -234,6 +289,7 @@ export const compressWithClaudeCode = action({
         compressedTokens,
         compressionRatio,
         tokensSaved: originalTokens - compressedTokens,
+        fidelity,
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error)
@@ -294,6 +350,28 @@ export const compressAndMergeWithClaudeCode = action({
       )
     }
 
+    // Extractive compression runs right here, without Claude Code
+    if (args.strategy === "statistical") {
+      const compressedContent = compressStatistical(combinedContent, { targetRatio: TARGET_RATIO })
+      const compressedTokens = estimateTokens(compressedContent)
+      const compressionRatio = originalTokens / compressedTokens
+      if (compressionRatio < 1.2) {
+        throw new Error(`Compression ratio ${compressionRatio.toFixed(2)}x is below minimum 1.2x`)
+      }
+      console.log(`[Compression Server Merge] Statistical compression: ${compressionRatio.toFixed(2)}x`)
+
+      return {
+        success: true,
+        compressedContent,
+        originalTokens,
+        compressedTokens,
+        compressionRatio,
+        tokensSaved: originalTokens - compressedTokens,
+      }
+    }
+
+    await requireActionBudget(ctx, validBlocks[0].sessionId)
+
     // Build compression prompt
     const prompt = buildCompressionPrompt({
       content: combinedContent,
@@ -338,7 +416,7 @@ export const compressAndMergeWithClaudeCode = action({
       // Race between compression and timeout
       await Promise.race([
         (async () => {
-          for await (const message of claudeQuery({
+          for await (const message of agentQuery({
             prompt,
             options: {
               allowedTools: [],
@@ -377,6 +455,14 @@ export const compressAndMergeWithClaudeCode = action({
         })(),
         timeoutPromise,
       ])
+      // Spent whether or not the result is usable
+      await recordActionCost(ctx, {
+        sessionId: validBlocks[0].sessionId,
+        provider: "claude",
+        inputTokens,
+        outputTokens,
+        costUsd,
+      })
 
       compressedContent = compressedContent.trim()
 
@@ -433,6 +519,94 @@ export const compressAndMergeWithClaudeCode = action({
   },
 })
 
+/**
+ * Summarize older brainstorm turns using Claude Code CLI (server-side).
+ * The client builds the prompt (see src/lib/llm/rollingSummary.ts) and saves the result.
+ */
+export const summarizeWithClaudeCode = action({
+  args: {
+    sessionId: v.id("sessions"),
+    prompt: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ summary: string }> => {
+    const session = await ctx.runQuery(api.sessions.get, { id: args.sessionId })
+    if (!session) {
+      throw new Error("Session not found")
+    }
+    await requireActionBudget(ctx, args.sessionId)
+
+    const startTime = Date.now()
+    const trace = createGeneration(
+      "conversation-summary",
+      {
+        sessionId: args.sessionId,
+        provider: "claude",
+        model: "claude-code",
+      },
+      {
+        messages: [{ role: "user", content: args.prompt }],
+        prompt: args.prompt,
+      }
+    )
+
+    try {
+      let summary = ""
+      let inputTokens: number | undefined
+      let outputTokens: number | undefined
+      let costUsd: number | undefined
+
+      for await (const message of agentQuery({
+        prompt: args.prompt,
+        options: {
+          allowedTools: [],
+          maxTurns: 1,
+          pathToClaudeCodeExecutable: getClaudeCodePath(),
+          includePartialMessages: false,
+        },
+      })) {
+        const msg = message as Record<string, unknown>
+        if (msg.type === "assistant") {
+          const msgContent = msg.message as Record<string, unknown> | undefined
+          const content = msgContent?.content as Array<Record<string, unknown>> | undefined
+          for (const block of content ?? []) {
+            if (block.type === "text" && typeof block.text === "string") {
+              summary += block.text
+            }
+          }
+        }
+        if (msg.type === "result") {
+          const usage = msg.usage as Record<string, unknown> | undefined
+          inputTokens = usage?.input_tokens as number | undefined
+          outputTokens = usage?.output_tokens as number | undefined
+          costUsd = msg.total_cost_usd as number | undefined
+        }
+      }
+      await recordActionCost(ctx, { sessionId: args.sessionId, provider: "claude", inputTokens, outputTokens, costUsd })
+
+      summary = summary.trim()
+      if (!summary) {
+        throw new Error("Claude Code returned empty response")
+      }
+
+      trace.complete({
+        text: summary,
+        inputTokens,
+        outputTokens,
+        costUsd,
+        durationMs: Date.now() - startTime,
+      })
+      await flushLangfuse()
+
+      return { summary }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      trace.error(errorMessage)
+      await flushLangfuse()
+      throw new Error(`Claude Code summarization failed: ${errorMessage}`)
+    }
+  },
+})
+
 /**
  * Build compression prompt for Claude Code CLI.
  */
@@ -444,7 +618,7 @@ function buildCompressionPrompt(options: {
 }): string {
   const { content, originalTokens, contentType } = options
 
-  const targetRatio = 2.0
+  const targetRatio = TARGET_RATIO
   const targetTokens = Math.ceil(originalTokens / targetRatio)
 
   return `You are a compression specialist. Your task is to compress the following ${contentType} content while preserving all essential information.
@@ -465,6 +639,13 @@ COMPRESSION REQUIREMENTS:
 COMPRESSED VERSION:`
 }
 
+/**
+ * Whether a compression keeps fewer facts than minFidelity, in which case it isn't saved.
+ */
+function isBelowMinFidelity(fidelity: FidelityReport, minFidelity?: number): boolean {
+  return minFidelity !== undefined && fidelity.score < minFidelity
+}
+
 /**
  * Estimate token count (approximate: chars / 4).
  */
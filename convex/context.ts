@@ -4,14 +4,19 @@
 
 import { query } from "./_generated/server"
 import { v } from "convex/values"
-import { assembleContext, extractSystemPromptFromBlocks, type ContextMessage } from "./lib/context"
-import { countTokens } from "./lib/tokenizer"
+import {
+  assembleAnthropicPrompt,
+  assembleContext,
+  extractSystemPromptFromBlocks,
+  type ContextMessage,
+} from "./lib/context"
+import { countTokens, getSessionTokenModel } from "./lib/tokenizer"
 import { canAccessSession } from "./lib/auth"
 
 /**
  * Format for context export.
  */
-export type ExportFormat = "plain" | "markdown" | "xml"
+export type ExportFormat = "plain" | "markdown" | "xml" | "anthropic"
 
 /**
  * Format messages as plain text.
@@ -53,7 +58,9 @@ function formatXml(messages: ContextMessage[]): string {
 export const getAssembled = query({
   args: {
     sessionId: v.id("sessions"),
-    format: v.optional(v.union(v.literal("plain"), v.literal("markdown"), v.literal("xml"))),
+    format: v.optional(
+      v.union(v.literal("plain"), v.literal("markdown"), v.literal("xml"), v.literal("anthropic"))
+    ),
     includePromptPlaceholder: v.optional(v.boolean()),
   },
   handler: async (ctx, args) => {
@@ -98,12 +105,22 @@ export const getAssembled = query({
       case "xml":
         text = formatXml(messagesToFormat)
         break
+      case "anthropic":
+        // Messages API body with cache_control breakpoints after PERMANENT and STABLE
+        text = JSON.stringify(
+          assembleAnthropicPrompt(blocks, [], promptPlaceholder, {
+            systemPrompt,
+          }),
+          null,
+          2
+        )
+        break
       default:
         text = formatPlain(messagesToFormat)
     }
 
-    // Calculate token count
-    const tokens = countTokens(text)
+    // Calculate token count with the session's tokenizer
+    const tokens = countTokens(text, await getSessionTokenModel(ctx, args.sessionId))
 
     return {
       text,
@@ -154,10 +171,11 @@ export const getPreview = query({
       return mode !== "draft" && mode !== "validation"
     })
 
+    const tokenModel = await getSessionTokenModel(ctx, args.sessionId)
     for (const block of activeBlocks) {
       const zone = block.zone as keyof typeof zones
       zones[zone].blocks++
-      zones[zone].tokens += block.tokens ?? countTokens(block.content)
+      zones[zone].tokens += block.tokens ?? countTokens(block.content, tokenModel)
     }
 
     // Sort and build content for each zone
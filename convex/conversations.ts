@@ -0,0 +1,291 @@
+/**
+ * Conversations - Named brainstorm threads persisted per session.
+ *
+ * Each session can hold several threads. The brainstorm hook keeps the open
+ * thread in local state and syncs edits back with replaceTail, so threads
+ * follow the user across browsers and survive cleared storage.
+ *
+ * Messages form a tree: edits and retries add siblings rather than replacing
+ * history. Positions are creation order, and the conversation records which
+ * branch is selected (activeLeafId).
+ *
+ * A server-side generation (Claude Code, server-side OpenRouter/Ollama) keeps
+ * running when the tab closes. The thread records it as pendingGeneration until
+ * its reply lands, so the hook can resubscribe after a reload.
+ */
+
+import { mutation, query } from "./_generated/server"
+import type { MutationCtx } from "./_generated/server"
+import { v } from "convex/values"
+import type { Doc, Id } from "./_generated/dataModel"
+import { canAccessSession, requireSessionAccess } from "./lib/auth"
+import { getAccessibleConversation, requireConversationAccess } from "./lib/conversations"
+import { computeContentHash } from "./lib/contentHash"
+import { contextManifestValidator } from "./lib/validators"
+import { countTokens, getSessionTokenModel } from "./lib/tokenizer"
+import { getNextPosition } from "./skills"
+
+const messageValidator = v.object({
+  clientId: v.string(),
+  parentClientId: v.optional(v.union(v.string(), v.null())),
+  role: v.union(v.literal("user"), v.literal("assistant")),
+  content: v.string(),
+  timestamp: v.number(),
+  savedAsBlockId: v.optional(v.id("blocks")),
+  contextManifest: v.optional(contextManifestValidator),
+})
+
+type MessageInput = typeof messageValidator.type
+
+// Insert messages starting at a position and return the new count
+async function insertMessages(
+  ctx: MutationCtx,
+  conversation: Doc<"conversations">,
+  fromPosition: number,
+  messages: MessageInput[]
+): Promise<number> {
+  for (const [i, message] of messages.entries()) {
+    await ctx.db.insert("messages", {
+      ...message,
+      conversationId: conversation._id,
+      sessionId: conversation.sessionId,
+      position: fromPosition + i,
+    })
+  }
+  return fromPosition + messages.length
+}
+
+// ============ Queries ============
+
+/**
+ * List a session's threads, most recently updated first.
+ */
+export const list = query({
+  args: { sessionId: v.id("sessions") },
+  handler: async (ctx, args) => {
+    if (!(await canAccessSession(ctx, args.sessionId))) return []
+
+    return await ctx.db
+      .query("conversations")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .order("desc")
+      .collect()
+  },
+})
+
+/**
+ * Messages in a thread, in order.
+ */
+export const getMessages = query({
+  args: { conversationId: v.id("conversations") },
+  handler: async (ctx, args) => {
+    const conversation = await getAccessibleConversation(ctx, args.conversationId)
+    if (!conversation) return null
+
+    return await ctx.db
+      .query("messages")
+      .withIndex("by_conversation", (q) => q.eq("conversationId", args.conversationId))
+      .collect()
+  },
+})
+
+// ============ Mutations ============
+
+/**
+ * Create a thread, optionally with initial messages (used to migrate
+ * conversations from localStorage).
+ */
+export const create = mutation({
+  args: {
+    sessionId: v.id("sessions"),
+    name: v.string(),
+    messages: v.optional(v.array(messageValidator)),
+    activeLeafId: v.optional(v.string()),
+  },
+  handler: async (ctx, args): Promise<Id<"conversations">> => {
+    await requireSessionAccess(ctx, args.sessionId)
+    const session = await ctx.db.get(args.sessionId)
+    if (!session) throw new Error("Session not found")
+
+    const now = Date.now()
+    const conversationId = await ctx.db.insert("conversations", {
+      sessionId: args.sessionId,
+      userId: session.userId,
+      name: args.name.trim() || "Untitled thread",
+      messageCount: 0,
+      activeLeafId: args.activeLeafId,
+      createdAt: now,
+      updatedAt: now,
+    })
+
+    if (args.messages?.length) {
+      const conversation = await ctx.db.get(conversationId)
+      const messageCount = await insertMessages(ctx, conversation!, 0, args.messages)
+      await ctx.db.patch(conversationId, { messageCount })
+    }
+
+    return conversationId
+  },
+})
+
+/**
+ * Rename a thread.
+ */
+export const rename = mutation({
+  args: {
+    id: v.id("conversations"),
+    name: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await requireConversationAccess(ctx, args.id)
+    const name = args.name.trim()
+    if (!name) throw new Error("Thread name cannot be empty")
+
+    await ctx.db.patch(args.id, { name, updatedAt: Date.now() })
+  },
+})
+
+/**
+ * Delete a thread and its messages.
+ */
+export const remove = mutation({
+  args: { id: v.id("conversations") },
+  handler: async (ctx, args) => {
+    await requireConversationAccess(ctx, args.id)
+
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_conversation", (q) => q.eq("conversationId", args.id))
+      .collect()
+    for (const message of messages) {
+      await ctx.db.delete(message._id)
+    }
+
+    await ctx.db.delete(args.id)
+  },
+})
+
+/**
+ * Replace every message from `fromPosition` onward and record the selected branch.
+ *
+ * The client diffs its local thread against what it last synced and sends the
+ * changed tail: new branches send only the new messages, while in-place changes
+ * (e.g. marking a message saved) resend from the first changed message. Switching
+ * branches sends no messages, only the new leaf.
+ */
+export const replaceTail = mutation({
+  args: {
+    conversationId: v.id("conversations"),
+    fromPosition: v.number(),
+    messages: v.array(messageValidator),
+    activeLeafId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const conversation = await requireConversationAccess(ctx, args.conversationId)
+
+    const stale = await ctx.db
+      .query("messages")
+      .withIndex("by_conversation", (q) =>
+        q.eq("conversationId", args.conversationId).gte("position", args.fromPosition)
+      )
+      .collect()
+    for (const message of stale) {
+      await ctx.db.delete(message._id)
+    }
+
+    const fromPosition = Math.min(args.fromPosition, conversation.messageCount)
+    const messageCount = await insertMessages(ctx, conversation, fromPosition, args.messages)
+    await ctx.db.patch(args.conversationId, {
+      messageCount,
+      activeLeafId: args.activeLeafId,
+      updatedAt: Date.now(),
+    })
+  },
+})
+
+/**
+ * Save a thread's rolling summary: create or update its WORKING note block and
+ * record the last message it covers. Returns the block id.
+ *
+ * Clears the Claude session so the next turn is assembled fresh, with the
+ * summary block in place of the folded turns.
+ */
+export const saveSummary = mutation({
+  args: {
+    id: v.id("conversations"),
+    content: v.string(),
+    summarizedThroughId: v.string(),
+  },
+  handler: async (ctx, args): Promise<Id<"blocks">> => {
+    const conversation = await requireConversationAccess(ctx, args.id)
+    const { sessionId } = conversation
+
+    const now = Date.now()
+    const tokenModel = await getSessionTokenModel(ctx, sessionId)
+    const tokens = countTokens(args.content, tokenModel)
+    const contentHash = computeContentHash(args.content)
+
+    // Reuse the existing block unless the user deleted it
+    const existing = conversation.summaryBlockId ? await ctx.db.get(conversation.summaryBlockId) : null
+    let blockId: Id<"blocks">
+    if (existing) {
+      blockId = existing._id
+      await ctx.db.patch(blockId, { content: args.content, tokens, tokenModel, contentHash, updatedAt: now })
+    } else {
+      blockId = await ctx.db.insert("blocks", {
+        sessionId,
+        content: args.content,
+        type: "note",
+        zone: "WORKING",
+        position: await getNextPosition(ctx, sessionId, "WORKING"),
+        createdAt: now,
+        updatedAt: now,
+        tokens,
+        originalTokens: tokens,
+        tokenModel,
+        contentHash,
+      })
+    }
+
+    await ctx.db.patch(args.id, {
+      summaryBlockId: blockId,
+      summarizedThroughId: args.summarizedThroughId,
+    })
+    await ctx.db.patch(sessionId, { claudeSessionId: undefined, updatedAt: now })
+
+    return blockId
+  },
+})
+
+/**
+ * Record the server-side generation a thread is waiting on.
+ */
+export const setPendingGeneration = mutation({
+  args: {
+    id: v.id("conversations"),
+    generationId: v.id("generations"),
+    replyToId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await requireConversationAccess(ctx, args.id)
+    await ctx.db.patch(args.id, {
+      pendingGeneration: { generationId: args.generationId, replyToId: args.replyToId },
+    })
+  },
+})
+
+/**
+ * Forget a thread's pending generation once its reply is handled. Ignores a
+ * generation the thread has since replaced.
+ */
+export const clearPendingGeneration = mutation({
+  args: {
+    id: v.id("conversations"),
+    generationId: v.id("generations"),
+  },
+  handler: async (ctx, args) => {
+    const conversation = await requireConversationAccess(ctx, args.id)
+    if (conversation.pendingGeneration?.generationId !== args.generationId) return
+    await ctx.db.patch(args.id, { pendingGeneration: undefined })
+  },
+})
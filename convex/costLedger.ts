@@ -0,0 +1,136 @@
+/**
+ * Cost ledger - LLM spend per session, project and user.
+ *
+ * Server-side generations are recorded by generations.completeWithUsage;
+ * other server-side model calls (compression, summaries, memory drafts) by
+ * `recordInternal`; client-side provider calls report their usage through `record`.
+ * Rollups and budget evaluation live in lib/costLedger.ts.
+ */
+
+import { mutation, query, internalMutation, internalQuery } from "./_generated/server"
+import { v } from "convex/values"
+import type { Doc } from "./_generated/dataModel"
+import {
+  canAccessProject,
+  canAccessSession,
+  getOptionalUserId,
+  requireSessionAccess,
+} from "./lib/auth"
+import {
+  formatBudgetMessage,
+  getProjectBudget,
+  getSessionBudget,
+  recordCostEntry,
+  summarizeCosts,
+  type BudgetStatus,
+  type CostSummary,
+} from "./lib/costLedger"
+
+function withMessage(status: BudgetStatus | null) {
+  return status ? { ...status, message: formatBudgetMessage(status) } : null
+}
+
+const usageArgs = {
+  sessionId: v.id("sessions"),
+  provider: v.string(),
+  model: v.optional(v.string()),
+  inputTokens: v.optional(v.number()),
+  outputTokens: v.optional(v.number()),
+  costUsd: v.optional(v.number()),
+}
+
+/**
+ * Record usage from a client-side provider call (OpenRouter/Ollama in the browser).
+ */
+export const record = mutation({
+  args: usageArgs,
+  handler: async (ctx, args) => {
+    await requireSessionAccess(ctx, args.sessionId)
+    await recordCostEntry(ctx, args)
+  },
+})
+
+/**
+ * Record usage from a server-side model call outside a generation.
+ */
+export const recordInternal = internalMutation({
+  args: usageArgs,
+  handler: async (ctx, args) => {
+    await recordCostEntry(ctx, args)
+  },
+})
+
+/**
+ * Daily or monthly spend with provider and model breakdowns.
+ * Scoped to a session, a project, or (with neither) the current user.
+ */
+export const summarize = query({
+  args: {
+    sessionId: v.optional(v.id("sessions")),
+    projectId: v.optional(v.id("projects")),
+    granularity: v.union(v.literal("day"), v.literal("month")),
+    since: v.optional(v.number()), // Only entries at or after this timestamp
+  },
+  handler: async (ctx, args): Promise<CostSummary | null> => {
+    const since = args.since ?? 0
+    let entries: Doc<"costEntries">[]
+
+    if (args.sessionId) {
+      const sessionId = args.sessionId
+      if (!(await canAccessSession(ctx, sessionId))) return null
+      entries = await ctx.db
+        .query("costEntries")
+        .withIndex("by_session", (q) => q.eq("sessionId", sessionId).gte("createdAt", since))
+        .collect()
+    } else if (args.projectId) {
+      const projectId = args.projectId
+      if (!(await canAccessProject(ctx, projectId))) return null
+      entries = await ctx.db
+        .query("costEntries")
+        .withIndex("by_project", (q) => q.eq("projectId", projectId).gte("createdAt", since))
+        .collect()
+    } else {
+      const userId = await getOptionalUserId(ctx)
+      if (!userId) return null
+      entries = await ctx.db
+        .query("costEntries")
+        .withIndex("by_user", (q) => q.eq("userId", userId).gte("createdAt", since))
+        .collect()
+    }
+
+    return summarizeCosts(entries, args.granularity)
+  },
+})
+
+/**
+ * Budget status of the session's project with a display message,
+ * or null when it has no caps.
+ */
+export const getBudgetStatus = query({
+  args: { sessionId: v.id("sessions") },
+  handler: async (ctx, args) => {
+    if (!(await canAccessSession(ctx, args.sessionId))) return null
+    return withMessage(await getSessionBudget(ctx, args.sessionId))
+  },
+})
+
+/**
+ * Budget status of the session's project for actions (no auth context needed).
+ */
+export const getBudgetStatusInternal = internalQuery({
+  args: { sessionId: v.id("sessions") },
+  handler: async (ctx, args) => {
+    return withMessage(await getSessionBudget(ctx, args.sessionId))
+  },
+})
+
+/**
+ * Budget status of a project with a display message, or null when it has no caps.
+ */
+export const getProjectBudgetStatus = query({
+  args: { projectId: v.id("projects") },
+  handler: async (ctx, args) => {
+    if (!(await canAccessProject(ctx, args.projectId))) return null
+    return withMessage(await getProjectBudget(ctx, args.projectId))
+  },
+})
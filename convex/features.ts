@@ -17,6 +17,9 @@ export const getFlags = query({
       oauthEnabled: FEATURES.OAUTH_ENABLED,
       skillScanEnabled: FEATURES.SKILL_SCAN_ENABLED,
       localResearchEnabled: FEATURES.LOCAL_RESEARCH_ENABLED,
+      mockLLMEnabled: FEATURES.MOCK_LLM_ENABLED,
+      serverOpenRouterEnabled: FEATURES.SERVER_OPENROUTER_ENABLED,
+      serverOllamaEnabled: FEATURES.SERVER_OLLAMA_ENABLED,
     }
   },
 })
@@ -8,11 +8,16 @@
  */
 
 import { mutation, query, internalMutation, internalQuery } from "./_generated/server"
-import { api } from "./_generated/api"
+import { api, internal } from "./_generated/api"
 import { v } from "convex/values"
-import { countTokens, DEFAULT_TOKEN_MODEL } from "./lib/tokenizer"
-import { canAccessSession } from "./lib/auth"
+import type { Doc } from "./_generated/dataModel"
+import { countTokens, getSessionTokenModel } from "./lib/tokenizer"
+import { canAccessSession, getOptionalUserId, requireSessionAccess } from "./lib/auth"
 import { computeContentHash } from "./lib/contentHash"
+import { formatBudgetMessage, getSessionBudget, recordCostEntry } from "./lib/costLedger"
+import { selfTalkEventValidator } from "./lib/validators"
+import { summarizeSelfTalk, type SelfTalkModelStats } from "./lib/selfTalkDetector"
+import { parseResponseSchema } from "./lib/structuredOutput"
 
 /**
  * Create a new generation record.
@@ -97,6 +102,8 @@ export const completeWithUsage = internalMutation({
     outputTokens: v.optional(v.number()),
     costUsd: v.optional(v.number()),
     durationMs: v.optional(v.number()),
+    model: v.optional(v.string()), // Model that actually served the request
+    selfTalk: v.optional(selfTalkEventValidator), // Reply was truncated at a role marker
   },
   handler: async (ctx, args) => {
     const generation = await ctx.db.get(args.generationId)
@@ -118,7 +125,21 @@ export const completeWithUsage = internalMutation({
       totalTokens,
       costUsd: args.costUsd,
       durationMs: args.durationMs,
+      model: args.model,
+      selfTalk: args.selfTalk,
     })
+
+    if (args.costUsd !== undefined || totalTokens !== undefined) {
+      await recordCostEntry(ctx, {
+        sessionId: generation.sessionId,
+        provider: generation.provider,
+        model: args.model,
+        inputTokens: args.inputTokens,
+        outputTokens: args.outputTokens,
+        costUsd: args.costUsd,
+        generationId: args.generationId,
+      })
+    }
   },
 })
 
@@ -144,6 +165,35 @@ export const fail = internalMutation({
   },
 })
 
+/**
+ * Record a browser-streamed reply that was truncated for self-talk.
+ * Client-side providers don't stream through a generation, so this stores a
+ * completed one carrying the detection, alongside server-side generations.
+ */
+export const recordClientSelfTalk = mutation({
+  args: {
+    sessionId: v.id("sessions"),
+    provider: v.string(),
+    model: v.optional(v.string()),
+    text: v.string(), // Reply as kept (cut before the marker)
+    selfTalk: selfTalkEventValidator,
+  },
+  handler: async (ctx, args) => {
+    await requireSessionAccess(ctx, args.sessionId)
+    const now = Date.now()
+    return await ctx.db.insert("generations", {
+      sessionId: args.sessionId,
+      provider: args.provider,
+      status: "complete",
+      text: args.text,
+      model: args.model,
+      selfTalk: args.selfTalk,
+      createdAt: now,
+      updatedAt: now,
+    })
+  },
+})
+
 /**
  * Cancel a streaming generation.
  * Sets status to "cancelled" so the server action stops writing chunks.
@@ -195,6 +245,26 @@ export const get = query({
   },
 })
 
+/**
+ * Get several generations by ID (compare mode streams one per model).
+ * Generations the caller can't access are omitted.
+ */
+export const getMany = query({
+  args: {
+    generationIds: v.array(v.id("generations")),
+  },
+  handler: async (ctx, args) => {
+    const results: Doc<"generations">[] = []
+    for (const generationId of args.generationIds) {
+      const generation = await ctx.db.get(generationId)
+      if (generation && (await canAccessSession(ctx, generation.sessionId))) {
+        results.push(generation)
+      }
+    }
+    return results
+  },
+})
+
 /**
  * Get the latest generation for a session.
  * Useful for resuming UI state after refresh.
@@ -237,12 +307,42 @@ export const getLatestForSession = query({
   },
 })
 
+/**
+ * Self-talk detections across the current user's sessions, per provider and model.
+ */
+export const getSelfTalkStats = query({
+  args: {},
+  handler: async (ctx): Promise<SelfTalkModelStats[]> => {
+    const userId = await getOptionalUserId(ctx)
+    if (!userId) return []
+
+    const sessions = await ctx.db
+      .query("sessions")
+      .withIndex("by_user", (q) => q.eq("userId", userId))
+      .collect()
+    const events: Parameters<typeof summarizeSelfTalk>[0] = []
+    for (const session of sessions) {
+      const generations = await ctx.db
+        .query("generations")
+        .withIndex("by_session", (q) => q.eq("sessionId", session._id))
+        .filter((q) => q.neq(q.field("selfTalk"), undefined))
+        .collect()
+      for (const generation of generations) {
+        if (generation.selfTalk) {
+          events.push({ provider: generation.provider, model: generation.model, selfTalk: generation.selfTalk })
+        }
+      }
+    }
+    return summarizeSelfTalk(events)
+  },
+})
+
 /**
  * Start a brainstorm streaming generation.
  *
  * This mutation:
  * 1. Creates a generation record
- * 2. Schedules the Claude brainstorm streaming action
+ * 2. Schedules the streaming action (Claude Code, or server-side OpenRouter/Ollama)
  * 3. Returns the generation ID immediately for client subscription
  *
  * Accepts conversation history. Does NOT auto-save to blocks —
@@ -263,19 +363,79 @@ export const startBrainstormGeneration = mutation({
     activeSkillIds: v.optional(v.array(v.string())), // Ephemeral skill IDs to inject
     model: v.optional(v.string()), // Claude model override
     isValidation: v.optional(v.boolean()), // Validation mode — include validation criteria blocks + suffix
+    isolated: v.optional(v.boolean()), // Compare mode — fresh context, leaves the session's Claude SDK session alone
+    // Provider to run on the backend (default Claude Code); OpenRouter/Ollama need deployment config
+    provider: v.optional(v.union(v.literal("claude"), v.literal("openrouter"), v.literal("ollama"))),
+    selfTalkMarkers: v.optional(v.array(v.string())), // User-configured self-talk markers
+    // Replay — run against a snapshot's blocks instead of the session's (implies isolated)
+    snapshotId: v.optional(v.id("snapshots")),
+    // Structured output — JSON Schema (as JSON text) the reply must match
+    outputSchema: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
+    await requireSessionAccess(ctx, args.sessionId)
+
+    const provider = args.provider ?? "claude"
+    const isolated = args.isolated || args.snapshotId !== undefined
+
+    // Reject a malformed schema before scheduling anything
+    if (args.outputSchema) {
+      parseResponseSchema(args.outputSchema)
+    }
+
+    if (args.snapshotId) {
+      const snapshot = await ctx.db.get(args.snapshotId)
+      if (!snapshot || snapshot.sessionId !== args.sessionId) {
+        throw new Error("Snapshot not found")
+      }
+    }
+
+    // Refuse once the session's project is over its hard cap (soft-cap warnings come from
+    // costLedger.getBudgetStatus)
+    const budget = await getSessionBudget(ctx, args.sessionId)
+    if (budget?.state === "exceeded") {
+      throw new Error(formatBudgetMessage(budget))
+    }
+
+    // A compare turn diverges from the SDK session; the next regular turn starts fresh
+    // from the client's conversation history (which includes whichever reply was kept)
+    if (isolated && provider === "claude") {
+      const session = await ctx.db.get(args.sessionId)
+      if (session?.claudeSessionId) {
+        await ctx.db.patch(args.sessionId, { claudeSessionId: undefined })
+      }
+    }
+
     // Create generation record
     const now = Date.now()
     const generationId = await ctx.db.insert("generations", {
       sessionId: args.sessionId,
-      provider: "claude",
+      provider,
       status: "streaming",
       text: "",
       createdAt: now,
       updatedAt: now,
     })
 
+    if (provider !== "claude") {
+      await ctx.scheduler.runAfter(0, internal.providersNode.streamBrainstormMessage, {
+        generationId,
+        sessionId: args.sessionId,
+        provider,
+        conversationHistory: args.conversationHistory,
+        newMessage: args.newMessage,
+        disableAgentBehavior: args.disableAgentBehavior ?? true,
+        preventSelfTalk: args.preventSelfTalk ?? true,
+        activeSkillIds: args.activeSkillIds,
+        model: args.model,
+        isValidation: args.isValidation,
+        selfTalkMarkers: args.selfTalkMarkers,
+        snapshotId: args.snapshotId,
+        outputSchema: args.outputSchema,
+      })
+      return { generationId }
+    }
+
     // Schedule the streaming action to run immediately
     // System prompt is now extracted from blocks by the action
     await ctx.scheduler.runAfter(0, api.claudeNode.streamBrainstormMessage, {
@@ -288,6 +448,10 @@ export const startBrainstormGeneration = mutation({
       activeSkillIds: args.activeSkillIds,
       model: args.model,
       isValidation: args.isValidation,
+      isolated,
+      selfTalkMarkers: args.selfTalkMarkers,
+      snapshotId: args.snapshotId,
+      outputSchema: args.outputSchema,
     })
 
     return { generationId }
@@ -370,6 +534,8 @@ export const saveBrainstormMessage = mutation({
     content: v.string(),
     role: v.union(v.literal("user"), v.literal("assistant")),
     zone: v.union(v.literal("PERMANENT"), v.literal("STABLE"), v.literal("WORKING")),
+    // Smart save: a piece of a split reply keeps its own type (code, document, note)
+    type: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     if (!args.content.trim()) {
@@ -390,10 +556,11 @@ export const saveBrainstormMessage = mutation({
     )
 
     // Create block with message content
-    // Use user_message or assistant_message type based on role
+    // Use user_message or assistant_message type based on role, unless given
     const now = Date.now()
-    const tokens = countTokens(args.content)
-    const blockType = args.role === "user" ? "user_message" : "assistant_message"
+    const tokenModel = await getSessionTokenModel(ctx, args.sessionId)
+    const tokens = countTokens(args.content, tokenModel)
+    const blockType = args.type ?? (args.role === "user" ? "user_message" : "assistant_message")
 
     return await ctx.db.insert("blocks", {
       sessionId: args.sessionId,
@@ -406,7 +573,7 @@ export const saveBrainstormMessage = mutation({
       // Token tracking
       tokens,
       originalTokens: tokens,
-      tokenModel: DEFAULT_TOKEN_MODEL,
+      tokenModel,
       contentHash: computeContentHash(args.content),
     })
   },
@@ -0,0 +1,120 @@
+/**
+ * Brainstorm context loading shared by the server-side generation actions
+ * (Claude Code in claudeNode.ts, OpenRouter/Ollama in providersNode.ts).
+ */
+
+import type { ActionCtx } from "../_generated/server"
+import type { Doc, Id } from "../_generated/dataModel"
+import { internal } from "../_generated/api"
+import {
+  assembleSystemPromptWithContext,
+  NO_TOOLS_SUFFIX,
+  NO_SELF_TALK_SUFFIX,
+  VALIDATION_SUFFIX,
+} from "./context"
+import { renderMemoryBlock } from "./memoryRendering"
+import { buildSchemaInstruction, type JsonSchema } from "./structuredOutput"
+
+export interface BrainstormContext {
+  session: Doc<"sessions"> | null
+  blocks: Doc<"blocks">[]
+  /** Rendered project memory, if the session belongs to a project with entries */
+  renderedMemory?: string
+}
+
+export interface BrainstormPromptOptions {
+  disableAgentBehavior: boolean
+  preventSelfTalk: boolean
+  isValidation: boolean
+  /** Structured output by prompting, for providers without a native JSON mode */
+  outputSchema?: JsonSchema
+}
+
+/**
+ * A snapshot's serialized blocks in block shape, so context assembly can use them.
+ * The ids are synthetic (snapshot id + index); nothing is written back.
+ */
+function snapshotBlocks(snapshot: Doc<"snapshots">): Doc<"blocks">[] {
+  return snapshot.blocks.map((block, i) => ({
+    ...block,
+    _id: `${snapshot._id}:${i}` as Id<"blocks">,
+    _creationTime: snapshot.createdAt,
+    sessionId: snapshot.sessionId,
+    createdAt: snapshot.createdAt,
+    updatedAt: snapshot.createdAt,
+  }))
+}
+
+/**
+ * Load the session, its blocks and rendered project memory.
+ * With a snapshot id (conversation replay), the snapshot's blocks stand in for the session's.
+ * Uses internal queries so it works from scheduled actions (no auth context).
+ */
+export async function loadBrainstormContext(
+  ctx: ActionCtx,
+  sessionId: Id<"sessions">,
+  snapshotId?: Id<"snapshots">
+): Promise<BrainstormContext> {
+  const session = await ctx.runQuery(internal.generations.getSessionInternal, { sessionId })
+  let blocks: Doc<"blocks">[]
+  if (snapshotId) {
+    const snapshot = await ctx.runQuery(internal.snapshots.getInternal, { id: snapshotId })
+    if (!snapshot || snapshot.sessionId !== sessionId) {
+      throw new Error("Snapshot not found")
+    }
+    blocks = snapshotBlocks(snapshot)
+  } else {
+    blocks = await ctx.runQuery(internal.blocks.listBySessionInternal, { sessionId })
+  }
+
+  let renderedMemory: string | undefined
+  if (session?.projectId) {
+    const memoryEntries = await ctx.runQuery(
+      internal.memoryEntries.listByProjectInternal,
+      { projectId: session.projectId }
+    )
+    if (memoryEntries.length > 0) {
+      const sessionTags = session.sessionTags ?? []
+      const pinnedIds = new Set(session.pinnedMemories ?? [])
+      const pinnedEntries = memoryEntries.filter((e: Doc<"memoryEntries">) => pinnedIds.has(e._id))
+
+      renderedMemory = renderMemoryBlock(memoryEntries, sessionTags, pinnedEntries)
+    }
+  }
+
+  return { session, blocks, renderedMemory }
+}
+
+/**
+ * System prompt for a brainstorm turn: PERMANENT blocks and memory, plus the
+ * behaviour suffixes and, in validation mode, the validation prompt. A
+ * structured-output schema goes last so it governs the reply format.
+ */
+export function buildBrainstormSystemPrompt(
+  blocks: Doc<"blocks">[],
+  renderedMemory: string | undefined,
+  options: BrainstormPromptOptions
+): string | undefined {
+  const contextMode = options.isValidation ? "validation" as const : "brainstorm" as const
+  let systemPrompt = assembleSystemPromptWithContext(blocks, renderedMemory, contextMode)
+  if (options.disableAgentBehavior) {
+    systemPrompt = (systemPrompt ?? "") + NO_TOOLS_SUFFIX
+  }
+  if (options.preventSelfTalk) {
+    systemPrompt = (systemPrompt ?? "") + NO_SELF_TALK_SUFFIX
+  }
+  if (options.isValidation) {
+    const validationPromptBlock = blocks.find(
+      (b) => b.type === "validation_prompt" && b.zone === "PERMANENT" && (b.contextMode ?? "default") !== "draft"
+    )
+    if (validationPromptBlock) {
+      systemPrompt = (systemPrompt ?? "") + "\n\n" + validationPromptBlock.content
+    } else {
+      systemPrompt = (systemPrompt ?? "") + VALIDATION_SUFFIX
+    }
+  }
+  if (options.outputSchema) {
+    systemPrompt = (systemPrompt ?? "") + buildSchemaInstruction(options.outputSchema)
+  }
+  return systemPrompt
+}
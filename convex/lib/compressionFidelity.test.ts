@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest"
+import { checkFidelity, extractFacts, formatFidelityShortfall } from "./compressionFidelity"
+
+const original = [
+  "# Storage decision",
+  "",
+  "We moved the session store to Convex Cloud on 2024-05-01. The decision was made by Priya Natarajan.",
+  "Latency dropped from 1,200 ms to 45 ms, a 96% improvement. See https://docs.convex.dev/database.",
+  "The `getSession` query and the load_blocks helper now call ctx.db.query() directly.",
+  "",
+  "1. Ship it",
+].join("\n")
+
+const texts = (kind: string) => extractFacts(original).filter((f) => f.kind === kind).map((f) => f.text)
+
+describe("extractFacts", () => {
+  it("finds each kind of fact", () => {
+    expect(texts("heading")).toEqual(["Storage decision"])
+    expect(texts("url")).toEqual(["https://docs.convex.dev/database"])
+    expect(texts("date")).toEqual(["2024-05-01"])
+    expect(texts("number")).toEqual(["1,200", "45", "96%"])
+    expect(texts("identifier")).toEqual(["getSession", "load_blocks", "ctx.db.query"])
+    expect(texts("entity")).toEqual(["Convex Cloud", "Priya Natarajan"])
+  })
+
+  it("skips capitalized sentence starters and list markers", () => {
+    const facts = extractFacts("The cache works. It is fast.\n\n1. Done\n2. Also done")
+    expect(facts).toEqual([])
+  })
+
+  it("reads written-out dates", () => {
+    expect(extractFacts("Released on March 3, 2025 and again 4 Jun 2025.").map((f) => f.text)).toEqual([
+      "March 3, 2025",
+      "4 Jun 2025",
+    ])
+  })
+})
+
+describe("checkFidelity", () => {
+  it("scores a faithful compression at 1", () => {
+    const compressed =
+      "## Storage decision\nStore → Convex cloud (2024-05-01, by priya natarajan). Latency 1200 ms → 45 ms (96%), " +
+      "docs.convex.dev/database/. getSession, load_blocks use ctx.db.query()."
+    const report = checkFidelity(original, compressed)
+    expect(report.lost).toEqual([])
+    expect(report.score).toBe(1)
+  })
+
+  it("lists the facts a compression dropped", () => {
+    const report = checkFidelity(original, "# Storage decision\nMoved to Convex Cloud; latency fell to 45 ms.")
+    expect(report.lost.map((f) => f.text)).toEqual([
+      "https://docs.convex.dev/database",
+      "2024-05-01",
+      "getSession",
+      "load_blocks",
+      "ctx.db.query",
+      "1,200",
+      "96%",
+      "Priya Natarajan",
+    ])
+    expect(report.kept).toBe(3)
+    expect(report.score).toBeCloseTo(3 / 11)
+  })
+
+  it("matches whole numbers only", () => {
+    expect(checkFidelity("Costs 12 dollars", "Costs 2012 dollars").lost).toEqual([{ kind: "number", text: "12" }])
+  })
+
+  it("treats text without facts as fully kept", () => {
+    expect(checkFidelity("just some words here", "")).toEqual({ total: 0, kept: 0, score: 1, lost: [] })
+  })
+})
+
+describe("formatFidelityShortfall", () => {
+  it("names the first lost facts", () => {
+    const report = checkFidelity("Ids 1 2 3 4 5 6 7", "")
+    expect(formatFidelityShortfall(report, 0.8)).toBe(
+      "Fidelity 0% is below the 80% threshold (lost: 1, 2, 3, 4, 5, +2 more)"
+    )
+  })
+})
@@ -0,0 +1,147 @@
+/**
+ * Compression fidelity: which facts of the original survive compression.
+ *
+ * Facts are named entities, numbers, dates, URLs, code identifiers and
+ * headings pulled out with patterns (no LLM). A fact is kept when it appears
+ * in the compressed text as a whole word, ignoring case, thousands separators
+ * and a URL's scheme or trailing slash; the report lists the ones that don't.
+ *
+ * Shared by the compression actions and the browser (no Convex dependencies).
+ */
+
+export type FactKind = "heading" | "url" | "date" | "number" | "identifier" | "entity"
+
+export interface Fact {
+  kind: FactKind
+  text: string
+}
+
+export interface FidelityReport {
+  /** Facts found in the original */
+  total: number
+  kept: number
+  /** kept / total; 1 when the original has no facts */
+  score: number
+  lost: Fact[]
+}
+
+const MONTH = "(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|Jun(?:e)?|Jul(?:y)?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)"
+
+const HEADING = /^ {0,3}#{1,6}\s+(.+?)(?:\s+#+)?\s*$/gm
+const URL = /\bhttps?:\/\/[^\s<>()[\]"'`]+/g
+const DATE = new RegExp(
+  [
+    "\\b\\d{4}-\\d{2}-\\d{2}\\b",
+    "\\b\\d{1,2}\\/\\d{1,2}\\/\\d{2,4}\\b",
+    `\\b${MONTH}\\.? \\d{1,2}(?:st|nd|rd|th)?,? \\d{4}\\b`,
+    `\\b\\d{1,2} ${MONTH} \\d{4}\\b`,
+    `\\b${MONTH} \\d{4}\\b`,
+  ].join("|"),
+  "g"
+)
+const NUMBER = /(?<![\w.])\d[\d,]*(?:\.\d+)?%?/g
+const INLINE_CODE = /`([^`\n]{1,60})`/g
+// Dotted calls, camelCase, PascalCase with an inner capital, snake_case
+const IDENTIFIER = /\b(?:[A-Za-z_]\w*(?:\.[A-Za-z_]\w*)+(?=\()|[a-z]+[A-Z][A-Za-z0-9]*|[A-Z][a-z0-9]+[A-Z][A-Za-z0-9]*|[a-z][a-z0-9]*_[a-z0-9_]+)\b/g
+const ENTITY = /\b[A-Z][A-Za-z0-9-]*(?: [A-Z][A-Za-z0-9-]*)*\b/g
+
+// Capitalized only because they start a sentence
+const SENTENCE_STARTERS = new Set([
+  "A", "An", "The", "This", "That", "These", "Those", "It", "We", "I", "You", "They",
+  "He", "She", "If", "When", "Then", "So", "But", "And", "Or", "In", "On", "At", "For",
+  "To", "With", "As", "By", "Of", "From", "All", "Each", "Some", "No", "Not", "Yes",
+  "Use", "Keep", "Add", "See", "Note", "Also", "After", "Before", "Once", "There",
+])
+
+// Strip trailing sentence punctuation a URL pattern picks up
+const cleanUrl = (url: string) => url.replace(/[.,;:!?]+$/, "")
+
+/**
+ * Facts in a text, deduplicated (case-insensitively) per kind, in order of
+ * first appearance.
+ */
+export function extractFacts(text: string): Fact[] {
+  const facts: Fact[] = []
+  const seen = new Set<string>()
+  const add = (kind: FactKind, value: string) => {
+    const trimmed = value.trim()
+    const key = `${kind}:${trimmed.toLowerCase()}`
+    if (!trimmed || seen.has(key)) return
+    seen.add(key)
+    facts.push({ kind, text: trimmed })
+  }
+
+  for (const match of text.matchAll(HEADING)) add("heading", match[1])
+
+  // Blank out each kind once taken, so a URL's digits aren't numbers too
+  let rest = text.replace(HEADING, " ")
+  const take = (pattern: RegExp, kind: FactKind, clean: (s: string) => string = (s) => s) => {
+    rest = rest.replace(pattern, (match) => {
+      add(kind, clean(match))
+      return " "
+    })
+  }
+  take(URL, "url", cleanUrl)
+  take(DATE, "date")
+  rest = rest.replace(INLINE_CODE, (_, code: string) => {
+    add("identifier", code)
+    return " "
+  })
+  take(IDENTIFIER, "identifier")
+  // List markers ("1.", "2)") aren't facts
+  rest = rest.replace(/^\s*\d+[.)]\s/gm, " ")
+  take(NUMBER, "number", (n) => n.replace(/,$/, ""))
+
+  for (const match of rest.matchAll(ENTITY)) {
+    const words = match[0].split(" ")
+    // A sentence's first word is capitalized anyway: drop it if it's a common
+    // word, and don't count a lone first word unless it's an acronym or CamelCase
+    const startsSentence = /(?:^|[.!?:]|\n\s*(?:[-*+>]\s*)?)\s*$/.test(rest.slice(0, match.index))
+    if (SENTENCE_STARTERS.has(words[0])) words.shift()
+    else if (startsSentence && words.length === 1 && !/[A-Z0-9]/.test(words[0].slice(1))) continue
+    if (words.length === 0 || words.join("").length < 2) continue
+    add("entity", words.join(" "))
+  }
+  return facts
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/(\d),(?=\d{3}\b)/g, "$1")
+    .replace(/\s+/g, " ")
+}
+
+function factPattern(fact: Fact): RegExp {
+  let text = normalize(fact.text)
+  if (fact.kind === "url") text = text.replace(/^https?:\/\//, "").replace(/\/$/, "")
+  const body = escapeRegExp(text).replace(/ /g, "\\s+")
+  return new RegExp(`(?<![\\w])${body}(?![\\w])`)
+}
+
+/**
+ * Check which facts of the original made it into the compressed text.
+ */
+export function checkFidelity(original: string, compressed: string): FidelityReport {
+  const facts = extractFacts(original)
+  const haystack = normalize(compressed)
+  const lost = facts.filter((fact) => !factPattern(fact).test(haystack))
+  const kept = facts.length - lost.length
+  return {
+    total: facts.length,
+    kept,
+    score: facts.length === 0 ? 1 : kept / facts.length,
+    lost,
+  }
+}
+
+/**
+ * Error message for a compression below the fidelity threshold, naming the first lost facts.
+ */
+export function formatFidelityShortfall(report: FidelityReport, threshold: number): string {
+  const names = report.lost.slice(0, 5).map((f) => f.text)
+  const more = report.lost.length > names.length ? `, +${report.lost.length - names.length} more` : ""
+  return `Fidelity ${Math.round(report.score * 100)}% is below the ${Math.round(threshold * 100)}% threshold (lost: ${names.join(", ")}${more})`
+}
@@ -6,6 +6,7 @@ import {
   extractSystemPromptFromBlocks,
   assembleContext,
   assembleContextWithConversation,
+  assembleAnthropicPrompt,
   assembleSystemPromptWithContext,
   estimateTokenCount,
   getContextStats,
@@ -488,3 +489,76 @@ describe("formatPromptForSDK", () => {
     expect(sysIdx).toBeLessThan(convIdx)
   })
 })
+
+describe("assembleAnthropicPrompt", () => {
+  it("places cache breakpoints after the system array and the STABLE zone", () => {
+    const blocks = [
+      createBlock({ content: "Permanent info", zone: "PERMANENT" }),
+      createBlock({ content: "Stable info", zone: "STABLE" }),
+      createBlock({ content: "Working info", zone: "WORKING" }),
+    ]
+    const result = assembleAnthropicPrompt(blocks, [], "Hello", { systemPrompt: "You are helpful" })
+
+    expect(result.system).toEqual([
+      { type: "text", text: "You are helpful" },
+      { type: "text", text: "Permanent info", cache_control: { type: "ephemeral" } },
+    ])
+    expect(result.messages).toHaveLength(1)
+    expect(result.messages[0].role).toBe("user")
+    expect(result.messages[0].content).toEqual([
+      { type: "text", text: "Reference Material:\n\nStable info", cache_control: { type: "ephemeral" } },
+      { type: "text", text: "Current Context:\n\nWorking info" },
+      { type: "text", text: "Hello" },
+    ])
+  })
+
+  it("omits system when there is no system prompt or PERMANENT content", () => {
+    const blocks = [createBlock({ content: "Working info", zone: "WORKING" })]
+    const result = assembleAnthropicPrompt(blocks, [], "Hello")
+    expect(result.system).toBeUndefined()
+    expect(result.messages[0].content.every((b) => !b.cache_control)).toBe(true)
+  })
+
+  it("alternates roles across conversation history", () => {
+    const blocks = [createBlock({ content: "Stable info", zone: "STABLE" })]
+    const history = [
+      { role: "user" as const, content: "First" },
+      { role: "assistant" as const, content: "Reply" },
+    ]
+    const result = assembleAnthropicPrompt(blocks, history, "Second")
+
+    expect(result.messages.map((m) => m.role)).toEqual(["user", "assistant", "user"])
+    expect(result.messages[0].content.map((b) => b.text)).toEqual([
+      "Reference Material:\n\nStable info",
+      "First",
+    ])
+    expect(result.messages[2].content).toEqual([{ type: "text", text: "Second" }])
+  })
+
+  it("skips system_prompt blocks and draft-excluded blocks", () => {
+    const blocks = [
+      createBlock({ content: "Prompt block", zone: "PERMANENT", type: "system_prompt" }),
+      createBlock({ content: "Draft only", zone: "STABLE", contextMode: "draft" }),
+    ]
+    const result = assembleAnthropicPrompt(blocks, [], "Hello", { mode: "validation" })
+    expect(result.system).toBeUndefined()
+    expect(result.messages).toEqual([{ role: "user", content: [{ type: "text", text: "Hello" }] }])
+  })
+
+  it("drops an empty new message", () => {
+    const blocks = [createBlock({ content: "Working info", zone: "WORKING" })]
+    const result = assembleAnthropicPrompt(blocks, [], "")
+    expect(result.messages[0].content).toHaveLength(1)
+  })
+
+  it("drops empty history entries", () => {
+    const history = [
+      { role: "user" as const, content: "First" },
+      { role: "assistant" as const, content: "  " },
+    ]
+    const result = assembleAnthropicPrompt([], history, "Second")
+    expect(result.messages).toEqual([
+      { role: "user", content: [{ type: "text", text: "First" }, { type: "text", text: "Second" }] },
+    ])
+  })
+})
@@ -61,6 +61,38 @@ export interface ConversationMessage {
   content: string
 }
 
+/**
+ * Group blocks by zone for assembly, sorted by position.
+ * system_prompt blocks are skipped — callers extract them via extractSystemPromptFromBlocks().
+ */
+function groupBlocksByZone(
+  blocks: Doc<"blocks">[],
+  mode: "brainstorm" | "validation"
+): Record<Zone, Doc<"blocks">[]> {
+  const byZone: Record<Zone, Doc<"blocks">[]> = {
+    PERMANENT: [],
+    STABLE: [],
+    WORKING: [],
+  }
+
+  for (const block of blocks) {
+    if (block.type === "system_prompt" || isBlockExcluded(block, mode)) {
+      continue
+    }
+    const zone = block.zone as Zone
+    if (byZone[zone]) {
+      byZone[zone].push(block)
+    }
+  }
+
+  // Sort each zone by position (ascending)
+  for (const zone of Object.keys(byZone) as Zone[]) {
+    byZone[zone].sort((a, b) => a.position - b.position)
+  }
+
+  return byZone
+}
+
 /**
  * Extract the active system prompt from blocks.
  * The first system_prompt block in the PERMANENT zone (by position) is active.
@@ -101,29 +133,7 @@ export function assembleContext(
   mode: "brainstorm" | "validation" = "brainstorm"
 ): ContextMessage[] {
   const messages: ContextMessage[] = []
-
-  // Group blocks by zone, excluding system_prompt blocks (handled separately by caller)
-  const byZone: Record<Zone, Doc<"blocks">[]> = {
-    PERMANENT: [],
-    STABLE: [],
-    WORKING: [],
-  }
-
-  for (const block of blocks) {
-    // Skip system_prompt blocks - caller extracts them via extractSystemPromptFromBlocks()
-    if (block.type === "system_prompt" || isBlockExcluded(block, mode)) {
-      continue
-    }
-    const zone = block.zone as Zone
-    if (byZone[zone]) {
-      byZone[zone].push(block)
-    }
-  }
-
-  // Sort each zone by position (ascending)
-  for (const zone of Object.keys(byZone) as Zone[]) {
-    byZone[zone].sort((a, b) => a.position - b.position)
-  }
+  const byZone = groupBlocksByZone(blocks, mode)
 
   // 1. PERMANENT zone as system message (most stable, cached)
   const permanentContent = byZone.PERMANENT.map((b) => b.content).join("\n\n")
@@ -226,29 +236,7 @@ export function assembleContextWithConversation(
   mode: "brainstorm" | "validation" = "brainstorm"
 ): ContextMessage[] {
   const messages: ContextMessage[] = []
-
-  // Group blocks by zone, excluding system_prompt blocks (handled separately by caller)
-  const byZone: Record<Zone, Doc<"blocks">[]> = {
-    PERMANENT: [],
-    STABLE: [],
-    WORKING: [],
-  }
-
-  for (const block of blocks) {
-    // Skip system_prompt blocks - caller extracts them via extractSystemPromptFromBlocks()
-    if (block.type === "system_prompt" || isBlockExcluded(block, mode)) {
-      continue
-    }
-    const zone = block.zone as Zone
-    if (byZone[zone]) {
-      byZone[zone].push(block)
-    }
-  }
-
-  // Sort each zone by position (ascending)
-  for (const zone of Object.keys(byZone) as Zone[]) {
-    byZone[zone].sort((a, b) => a.position - b.position)
-  }
+  const byZone = groupBlocksByZone(blocks, mode)
 
   // 1. PERMANENT zone as system message (most stable, cached)
   const permanentContent = byZone.PERMANENT.map((b) => b.content).join("\n\n")
@@ -302,6 +290,127 @@ export function assembleContextWithConversation(
   return messages
 }
 
+/**
+ * Anthropic prompt-caching marker. "ephemeral" is the only cache type the
+ * Messages API supports (5-minute TTL, refreshed on every hit).
+ */
+export interface CacheControl {
+  type: "ephemeral"
+}
+
+export interface AnthropicTextBlock {
+  type: "text"
+  text: string
+  cache_control?: CacheControl
+}
+
+export interface AnthropicMessage {
+  role: "user" | "assistant"
+  content: AnthropicTextBlock[]
+}
+
+/**
+ * Request body fragment for the Anthropic Messages API (`system` + `messages`).
+ */
+export interface AnthropicPrompt {
+  system?: AnthropicTextBlock[]
+  messages: AnthropicMessage[]
+}
+
+const EPHEMERAL_CACHE: CacheControl = { type: "ephemeral" }
+
+/**
+ * Assemble blocks and conversation history into an Anthropic Messages API payload
+ * with cache_control breakpoints.
+ *
+ * Same order as assembleContextWithConversation():
+ * System prompt → PERMANENT → STABLE → WORKING → Active Skills → Conversation → New message
+ *
+ * Breakpoints (2 of the 4 the API allows):
+ * 1. End of the system array (system prompt + PERMANENT zone)
+ * 2. End of the STABLE zone reference material
+ *
+ * Everything after the STABLE breakpoint is re-sent uncached, so editing WORKING
+ * blocks or continuing the conversation keeps the PERMANENT/STABLE prefix warm.
+ * Consecutive user segments are merged into one message with multiple text blocks
+ * so roles strictly alternate.
+ *
+ * @param blocks - All blocks for the session. Must have resolved content (refBlockId blocks hydrated via resolveBlocks).
+ * @param conversationHistory - Previous messages in the conversation
+ * @param newMessage - The new user message
+ * @param options.systemPrompt - Provider system prompt (system_prompt block, memory, suffixes), placed before PERMANENT
+ * @param options.activeSkillsContent - Optional formatted skill text to inject
+ */
+export function assembleAnthropicPrompt(
+  blocks: Doc<"blocks">[],
+  conversationHistory: ConversationMessage[],
+  newMessage: string,
+  options: {
+    systemPrompt?: string
+    activeSkillsContent?: string
+    mode?: "brainstorm" | "validation"
+  } = {}
+): AnthropicPrompt {
+  const byZone = groupBlocksByZone(blocks, options.mode ?? "brainstorm")
+
+  // 1. System prompt + PERMANENT zone → system array (breakpoint 1)
+  const system: AnthropicTextBlock[] = []
+  if (options.systemPrompt) {
+    system.push({ type: "text", text: options.systemPrompt })
+  }
+  const permanentContent = byZone.PERMANENT.map((b) => b.content).join("\n\n")
+  if (permanentContent) {
+    system.push({ type: "text", text: permanentContent })
+  }
+  if (system.length > 0) {
+    system[system.length - 1].cache_control = EPHEMERAL_CACHE
+  }
+
+  const messages: AnthropicMessage[] = []
+  const pushText = (role: "user" | "assistant", text: string, cache = false) => {
+    const block: AnthropicTextBlock = cache
+      ? { type: "text", text, cache_control: EPHEMERAL_CACHE }
+      : { type: "text", text }
+    const last = messages[messages.length - 1]
+    if (last && last.role === role) {
+      last.content.push(block)
+    } else {
+      messages.push({ role, content: [block] })
+    }
+  }
+
+  // 2. STABLE zone as reference material (breakpoint 2)
+  const stableContent = byZone.STABLE.map((b) => b.content).join("\n\n")
+  if (stableContent) {
+    pushText("user", `Reference Material:\n\n${stableContent}`, true)
+  }
+
+  // 3. WORKING zone — dynamic, never cached
+  const workingContent = byZone.WORKING.map((b) => b.content).join("\n\n")
+  if (workingContent) {
+    pushText("user", `Current Context:\n\n${workingContent}`)
+  }
+
+  // 4. Active skills
+  if (options.activeSkillsContent) {
+    pushText("user", `Active Skills:\n\n${options.activeSkillsContent}`)
+  }
+
+  // 5. Conversation history (a reply stopped before any text has no content to send)
+  for (const msg of conversationHistory) {
+    if (msg.content.trim()) {
+      pushText(msg.role, msg.content)
+    }
+  }
+
+  // 6. New user message (always last; the API rejects empty text blocks)
+  if (newMessage) {
+    pushText("user", newMessage)
+  }
+
+  return system.length > 0 ? { system, messages } : { messages }
+}
+
 /**
  * Assemble the full system prompt from all PERMANENT zone blocks.
  *
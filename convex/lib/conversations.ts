@@ -0,0 +1,59 @@
+/**
+ * Brainstorm conversation helpers shared by conversations.ts and session cleanup.
+ */
+
+import type { MutationCtx, QueryCtx } from "../_generated/server"
+import type { Doc, Id } from "../_generated/dataModel"
+import { canAccessSession } from "./auth"
+
+/**
+ * Load a conversation the current user can access, or null.
+ */
+export async function getAccessibleConversation(
+  ctx: QueryCtx | MutationCtx,
+  conversationId: Id<"conversations">
+): Promise<Doc<"conversations"> | null> {
+  const conversation = await ctx.db.get(conversationId)
+  if (!conversation) return null
+  if (!(await canAccessSession(ctx, conversation.sessionId))) return null
+  return conversation
+}
+
+/**
+ * Load a conversation, throwing if it doesn't exist or isn't accessible.
+ */
+export async function requireConversationAccess(
+  ctx: QueryCtx | MutationCtx,
+  conversationId: Id<"conversations">
+): Promise<Doc<"conversations">> {
+  const conversation = await getAccessibleConversation(ctx, conversationId)
+  if (!conversation) {
+    throw new Error("Conversation not found or access denied")
+  }
+  return conversation
+}
+
+/**
+ * Delete every conversation and message in a session. Returns the number of conversations.
+ */
+export async function deleteSessionConversations(
+  ctx: MutationCtx,
+  sessionId: Id<"sessions">
+): Promise<number> {
+  const messages = await ctx.db
+    .query("messages")
+    .withIndex("by_session", (q) => q.eq("sessionId", sessionId))
+    .collect()
+  for (const message of messages) {
+    await ctx.db.delete(message._id)
+  }
+
+  const conversations = await ctx.db
+    .query("conversations")
+    .withIndex("by_session", (q) => q.eq("sessionId", sessionId))
+    .collect()
+  for (const conversation of conversations) {
+    await ctx.db.delete(conversation._id)
+  }
+  return conversations.length
+}
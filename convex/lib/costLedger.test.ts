@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest"
+import {
+  evaluateBudget,
+  formatBudgetMessage,
+  periodKey,
+  periodStart,
+  summarizeCosts,
+  type CostEntryLike,
+} from "./costLedger"
+
+const jan1 = Date.UTC(2026, 0, 1, 10)
+const jan2 = Date.UTC(2026, 0, 2, 23, 59)
+const feb3 = Date.UTC(2026, 1, 3, 0, 5)
+
+const entries: CostEntryLike[] = [
+  { provider: "openrouter", model: "openai/gpt-4o", inputTokens: 100, outputTokens: 20, costUsd: 0.5, createdAt: jan1 },
+  { provider: "claude", model: "claude-sonnet-4-6", inputTokens: 50, outputTokens: 10, costUsd: 1, createdAt: jan2 },
+  { provider: "openrouter", model: "openai/gpt-4o", inputTokens: 10, costUsd: 0.25, createdAt: feb3 },
+  { provider: "ollama", costUsd: 0, createdAt: feb3 },
+]
+
+describe("periodKey / periodStart", () => {
+  it("keys by UTC day or month", () => {
+    expect(periodKey(jan2, "day")).toBe("2026-01-02")
+    expect(periodKey(jan2, "month")).toBe("2026-01")
+  })
+
+  it("returns the start of the UTC day or month", () => {
+    expect(periodStart("day", jan2)).toBe(Date.UTC(2026, 0, 2))
+    expect(periodStart("month", feb3)).toBe(Date.UTC(2026, 1, 1))
+  })
+})
+
+describe("summarizeCosts", () => {
+  it("totals every entry", () => {
+    const summary = summarizeCosts(entries, "month")
+    expect(summary.total).toEqual({ costUsd: 1.75, inputTokens: 160, outputTokens: 30, calls: 4 })
+  })
+
+  it("groups by period, oldest first", () => {
+    expect(summarizeCosts(entries, "month").periods.map((p) => [p.period, p.costUsd, p.calls])).toEqual([
+      ["2026-01", 1.5, 2],
+      ["2026-02", 0.25, 2],
+    ])
+    expect(summarizeCosts(entries, "day").periods.map((p) => p.period)).toEqual([
+      "2026-01-01",
+      "2026-01-02",
+      "2026-02-03",
+    ])
+  })
+
+  it("breaks down by provider and model, most expensive first", () => {
+    const summary = summarizeCosts(entries, "month")
+    expect(summary.byProvider.map((p) => [p.provider, p.costUsd])).toEqual([
+      ["claude", 1],
+      ["openrouter", 0.75],
+      ["ollama", 0],
+    ])
+    expect(summary.byModel[1]).toEqual({
+      provider: "openrouter",
+      model: "openai/gpt-4o",
+      costUsd: 0.75,
+      inputTokens: 110,
+      outputTokens: 20,
+      calls: 2,
+    })
+    expect(summary.byModel[2].model).toBe("unknown")
+  })
+
+  it("handles no entries", () => {
+    expect(summarizeCosts([], "day")).toEqual({
+      total: { costUsd: 0, inputTokens: 0, outputTokens: 0, calls: 0 },
+      periods: [],
+      byProvider: [],
+      byModel: [],
+    })
+  })
+})
+
+describe("evaluateBudget", () => {
+  const caps = { period: "month" as const, softUsd: 4, hardUsd: 5 }
+
+  it("is ok below the soft cap", () => {
+    expect(evaluateBudget(3.99, caps).state).toBe("ok")
+  })
+
+  it("warns at the soft cap", () => {
+    expect(evaluateBudget(4, caps).state).toBe("warning")
+  })
+
+  it("is exceeded at the hard cap", () => {
+    expect(evaluateBudget(5, caps).state).toBe("exceeded")
+  })
+
+  it("allows either cap to be unset", () => {
+    expect(evaluateBudget(100, { period: "day", softUsd: 1 }).state).toBe("warning")
+    expect(evaluateBudget(100, { period: "day" }).state).toBe("ok")
+  })
+})
+
+describe("formatBudgetMessage", () => {
+  it("describes exceeded and warning states", () => {
+    expect(formatBudgetMessage(evaluateBudget(5.021, { period: "month", hardUsd: 5 }))).toBe(
+      "Project budget exceeded: $5.02 of $5.00 this month"
+    )
+    expect(formatBudgetMessage(evaluateBudget(1.5, { period: "day", softUsd: 1 }))).toBe(
+      "Project spend is $1.50 today, past the $1.00 warning threshold"
+    )
+  })
+})
@@ -0,0 +1,270 @@
+/**
+ * Cost ledger — rollups of LLM spend and project budget caps.
+ *
+ * Every generation with usage (server-side, via completeWithUsage), every other
+ * server-side model call (recordActionCost) and every client-side provider call
+ * (costLedger.record) adds a costEntries row. These
+ * helpers aggregate entries into daily/monthly totals with provider and model
+ * breakdowns, and evaluate a project's spend against its soft/hard caps.
+ * Periods use UTC so totals don't shift with the viewer's timezone.
+ */
+
+import type { ActionCtx, MutationCtx, QueryCtx } from "../_generated/server"
+import type { Id } from "../_generated/dataModel"
+import { internal } from "../_generated/api"
+
+export type CostGranularity = "day" | "month"
+
+export interface CostCaps {
+  /** Window the caps apply to (the current UTC day or month) */
+  period: CostGranularity
+  /** Warn once spend reaches this amount (USD) */
+  softUsd?: number
+  /** Refuse new generations once spend reaches this amount (USD) */
+  hardUsd?: number
+}
+
+/** The fields of a costEntries row the rollups need */
+export interface CostEntryLike {
+  provider: string
+  model?: string
+  inputTokens?: number
+  outputTokens?: number
+  costUsd: number
+  createdAt: number
+}
+
+export interface CostTotals {
+  costUsd: number
+  inputTokens: number
+  outputTokens: number
+  calls: number
+}
+
+export interface CostPeriodTotals extends CostTotals {
+  /** "YYYY-MM-DD" or "YYYY-MM" */
+  period: string
+}
+
+export interface CostModelTotals extends CostTotals {
+  provider: string
+  model: string
+}
+
+export interface CostSummary {
+  total: CostTotals
+  /** Oldest period first */
+  periods: CostPeriodTotals[]
+  /** Most expensive first */
+  byProvider: Array<CostTotals & { provider: string }>
+  /** Most expensive first */
+  byModel: CostModelTotals[]
+}
+
+export type BudgetState = "ok" | "warning" | "exceeded"
+
+export interface BudgetStatus {
+  state: BudgetState
+  period: CostGranularity
+  spentUsd: number
+  softUsd?: number
+  hardUsd?: number
+}
+
+/**
+ * Period key for a timestamp: "YYYY-MM-DD" (day) or "YYYY-MM" (month), UTC.
+ */
+export function periodKey(timestamp: number, granularity: CostGranularity): string {
+  const iso = new Date(timestamp).toISOString()
+  return granularity === "day" ? iso.slice(0, 10) : iso.slice(0, 7)
+}
+
+/**
+ * Start of the UTC day or month containing `now`.
+ */
+export function periodStart(granularity: CostGranularity, now: number): number {
+  const date = new Date(now)
+  return granularity === "day"
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+    : Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)
+}
+
+function emptyTotals(): CostTotals {
+  return { costUsd: 0, inputTokens: 0, outputTokens: 0, calls: 0 }
+}
+
+function addEntry(totals: CostTotals, entry: CostEntryLike): void {
+  totals.costUsd += entry.costUsd
+  totals.inputTokens += entry.inputTokens ?? 0
+  totals.outputTokens += entry.outputTokens ?? 0
+  totals.calls += 1
+}
+
+/**
+ * Roll entries up into per-period totals and provider/model breakdowns.
+ */
+export function summarizeCosts(entries: CostEntryLike[], granularity: CostGranularity): CostSummary {
+  const total = emptyTotals()
+  const periods = new Map<string, CostPeriodTotals>()
+  const providers = new Map<string, CostTotals & { provider: string }>()
+  const models = new Map<string, CostModelTotals>()
+
+  for (const entry of entries) {
+    addEntry(total, entry)
+
+    const key = periodKey(entry.createdAt, granularity)
+    let period = periods.get(key)
+    if (!period) {
+      period = { period: key, ...emptyTotals() }
+      periods.set(key, period)
+    }
+    addEntry(period, entry)
+
+    let provider = providers.get(entry.provider)
+    if (!provider) {
+      provider = { provider: entry.provider, ...emptyTotals() }
+      providers.set(entry.provider, provider)
+    }
+    addEntry(provider, entry)
+
+    const model = entry.model ?? "unknown"
+    const modelKey = `${entry.provider}\u0000${model}`
+    let modelTotals = models.get(modelKey)
+    if (!modelTotals) {
+      modelTotals = { provider: entry.provider, model, ...emptyTotals() }
+      models.set(modelKey, modelTotals)
+    }
+    addEntry(modelTotals, entry)
+  }
+
+  return {
+    total,
+    periods: [...periods.values()].sort((a, b) => a.period.localeCompare(b.period)),
+    byProvider: [...providers.values()].sort((a, b) => b.costUsd - a.costUsd),
+    byModel: [...models.values()].sort((a, b) => b.costUsd - a.costUsd),
+  }
+}
+
+/**
+ * Compare spend in the current period against a project's caps.
+ */
+export function evaluateBudget(spentUsd: number, caps: CostCaps): BudgetStatus {
+  const status: BudgetStatus = {
+    state: "ok",
+    period: caps.period,
+    spentUsd,
+    softUsd: caps.softUsd,
+    hardUsd: caps.hardUsd,
+  }
+  if (caps.hardUsd !== undefined && spentUsd >= caps.hardUsd) {
+    status.state = "exceeded"
+  } else if (caps.softUsd !== undefined && spentUsd >= caps.softUsd) {
+    status.state = "warning"
+  }
+  return status
+}
+
+/**
+ * Human-readable budget message, e.g. "Project budget exceeded: $5.02 of $5.00 this month".
+ */
+export function formatBudgetMessage(status: BudgetStatus): string {
+  const window = status.period === "day" ? "today" : "this month"
+  const spent = `$${status.spentUsd.toFixed(2)}`
+  if (status.state === "exceeded") {
+    return `Project budget exceeded: ${spent} of $${status.hardUsd?.toFixed(2)} ${window}`
+  }
+  if (status.state === "warning") {
+    return `Project spend is ${spent} ${window}, past the $${status.softUsd?.toFixed(2)} warning threshold`
+  }
+  return `Project spend is ${spent} ${window}`
+}
+
+/**
+ * Add a ledger entry for an LLM call, attributed to the session's project and owner.
+ */
+export async function recordCostEntry(
+  ctx: MutationCtx,
+  entry: {
+    sessionId: Id<"sessions">
+    provider: string
+    model?: string
+    inputTokens?: number
+    outputTokens?: number
+    costUsd?: number
+    generationId?: Id<"generations">
+  }
+): Promise<void> {
+  const session = await ctx.db.get(entry.sessionId)
+  if (!session) return
+
+  await ctx.db.insert("costEntries", {
+    ...entry,
+    costUsd: entry.costUsd ?? 0,
+    projectId: session.projectId,
+    userId: session.userId,
+    createdAt: Date.now(),
+  })
+}
+
+/**
+ * Spend in the project's current cap period, evaluated against its caps.
+ * Null when the project has no caps.
+ */
+export async function getProjectBudget(
+  ctx: QueryCtx | MutationCtx,
+  projectId: Id<"projects">
+): Promise<BudgetStatus | null> {
+  const project = await ctx.db.get(projectId)
+  if (!project?.costCaps) return null
+
+  const since = periodStart(project.costCaps.period, Date.now())
+  const entries = await ctx.db
+    .query("costEntries")
+    .withIndex("by_project", (q) => q.eq("projectId", projectId).gte("createdAt", since))
+    .collect()
+  const spentUsd = entries.reduce((sum, e) => sum + e.costUsd, 0)
+
+  return evaluateBudget(spentUsd, project.costCaps)
+}
+
+/**
+ * Budget status of the project a session belongs to.
+ * Null when the session has no project or the project has no caps.
+ */
+export async function getSessionBudget(
+  ctx: QueryCtx | MutationCtx,
+  sessionId: Id<"sessions">
+): Promise<BudgetStatus | null> {
+  const session = await ctx.db.get(sessionId)
+  if (!session?.projectId) return null
+  return await getProjectBudget(ctx, session.projectId)
+}
+
+/**
+ * Refuse an action's model call once the session's project is over its hard cap.
+ * Generations are checked when they start (generations.startBrainstormGeneration).
+ */
+export async function requireActionBudget(ctx: ActionCtx, sessionId: Id<"sessions">): Promise<void> {
+  const budget = await ctx.runQuery(internal.costLedger.getBudgetStatusInternal, { sessionId })
+  if (budget?.state === "exceeded") {
+    throw new Error(budget.message)
+  }
+}
+
+/**
+ * Add a ledger entry for an action's model call, if it reported usage.
+ */
+export async function recordActionCost(
+  ctx: ActionCtx,
+  entry: {
+    sessionId: Id<"sessions">
+    provider: string
+    model?: string
+    inputTokens?: number
+    outputTokens?: number
+    costUsd?: number
+  }
+): Promise<void> {
+  if (entry.costUsd === undefined && entry.inputTokens === undefined && entry.outputTokens === undefined) return
+  await ctx.runMutation(internal.costLedger.recordInternal, entry)
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest"
+import { compressStatistical } from "./extractiveSummary"
+
+const article = [
+  "# Storage decision",
+  "",
+  "We compared several storage backends for the session store. The session store keeps blocks, zones and snapshots for every session. " +
+    "It is read on every brainstorm turn, so read latency matters more than write throughput. " +
+    "Honestly the discussion went on for quite a while and covered a lot of ground. " +
+    "Everyone agreed that the meeting room was too warm and the coffee was not great either.",
+  "",
+  "## Options",
+  "",
+  "- Convex with reactive queries",
+  "- SQLite behind a small API",
+  "",
+  "Convex won because reactive queries remove the polling layer entirely. " +
+    "The polling layer was the source of most stale-context bugs in the store. " +
+    "In the end it felt like a fairly natural choice that nobody really objected to.",
+  "",
+  "```ts",
+  "const store = createStore()",
+  "```",
+].join("\n")
+
+describe("compressStatistical", () => {
+  it("stays within the target ratio", () => {
+    for (const targetRatio of [1.5, 2, 3]) {
+      const compressed = compressStatistical(article, { targetRatio })
+      expect(compressed.length).toBeLessThanOrEqual(Math.ceil(article.length / targetRatio))
+    }
+  })
+
+  it("keeps headings and list items, drops filler sentences", () => {
+    const compressed = compressStatistical(article, { targetRatio: 2 })
+    expect(compressed).toContain("# Storage decision")
+    expect(compressed).toContain("## Options")
+    expect(compressed).toContain("- Convex with reactive queries")
+    expect(compressed).toContain("- SQLite behind a small API")
+    expect(compressed).not.toContain("coffee was not great")
+  })
+
+  it("keeps sentences verbatim and in their original order", () => {
+    const compressed = compressStatistical(article, { targetRatio: 1.5 })
+    const sentences = compressed.split(/\n+|(?<=\.) /).filter((s) => s && !s.startsWith("#") && !s.startsWith("-"))
+    let last = -1
+    for (const sentence of sentences) {
+      const position = article.indexOf(sentence, last + 1)
+      expect(position).toBeGreaterThan(-1)
+      last = position
+    }
+  })
+
+  it("prefers units with numbers and names", () => {
+    const text = [
+      "The weather was pleasant and everyone seemed to be in a cheerful mood that day.",
+      "Latency dropped from 340 ms to 45 ms after the cache landed.",
+      "It was a fairly ordinary afternoon without anything remarkable to report at all.",
+      "The rollout was approved by Priya and shipped on the second attempt.",
+    ].join(" ")
+    const compressed = compressStatistical(text, { targetRatio: 2 })
+    expect(compressed).toContain("340 ms to 45 ms")
+    expect(compressed).toContain("approved by Priya")
+  })
+
+  it("compresses long texts", () => {
+    const topics = ["cache", "queue", "schema", "index", "session", "worker", "replica"]
+    for (const count of [500, 3000]) {
+      const text = Array.from(
+        { length: count },
+        (_, i) => `The ${topics[i % 7]} service talks to the ${topics[(i * 3) % 7]} layer through the gateway.`
+      ).join(" ")
+      const compressed = compressStatistical(text, { targetRatio: 2 })
+      expect(compressed.length).toBeGreaterThan(0)
+      expect(compressed.length).toBeLessThanOrEqual(Math.ceil(text.length / 2))
+    }
+  })
+
+  it("is deterministic", () => {
+    expect(compressStatistical(article)).toBe(compressStatistical(article))
+  })
+})
@@ -0,0 +1,236 @@
+/**
+ * Statistical compression: an extractive summary that keeps whole sentences,
+ * list items, tables and code fences and drops the rest. Nothing is reworded,
+ * so the result is reproducible and every kept line is verbatim.
+ *
+ * Units are scored by TextRank over TF-IDF cosine similarity (how central a
+ * unit is to the text), blended with its mean TF-IDF weight (how specific it
+ * is). Headings are always kept. List items and units with numbers or names
+ * are protected: they're chosen before anything else, and only lose out when
+ * they alone exceed the budget for the target ratio.
+ *
+ * Pure and dependency-free: the compression actions and the browser both use it.
+ */
+
+import { FENCE_OPEN, findFenceEnd } from "./markdownFences"
+
+export interface ExtractiveOptions {
+  /** Original length divided by compressed length; defaults to 2 */
+  targetRatio?: number
+}
+
+type SectionKind = "heading" | "paragraph" | "list" | "fence" | "table"
+
+interface Section {
+  kind: SectionKind
+  units: string[]
+}
+
+interface Unit {
+  section: number
+  index: number
+  text: string
+  protected: boolean
+  score: number
+}
+
+const DEFAULT_TARGET_RATIO = 2
+const DAMPING = 0.85
+const ITERATIONS = 30
+// Beyond this many units TextRank is skipped and units are scored on specificity alone
+const MAX_RANKED_UNITS = 2000
+
+const HEADING = /^ {0,3}#{1,6}\s+\S/
+const LIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+\S/
+const TABLE_ROW = /^\s*\|.*\|\s*$/
+// A sentence ends at . ! or ? followed by whitespace and an upper-case letter, digit or quote
+const SENTENCE_BREAK = /(?<=[.!?])\s+(?=[A-Z0-9"'([])/
+
+const STOP_WORDS = new Set([
+  "the", "and", "for", "are", "but", "not", "you", "all", "any", "can", "has", "had",
+  "was", "were", "her", "his", "its", "our", "out", "one", "two", "who", "how", "why",
+  "this", "that", "these", "those", "with", "from", "into", "than", "then", "them",
+  "they", "there", "their", "what", "when", "where", "which", "while", "will", "would",
+  "should", "could", "have", "been", "being", "also", "only", "just", "more", "most",
+  "some", "such", "very", "about", "over", "after", "before", "each", "other", "does",
+])
+
+const NUMBER = /\d/
+// Capitalized or all-caps words past the first word of the unit
+const NAME = /(?<=\S\s+)\b(?:[A-Z][a-z]+[A-Za-z0-9]*|[A-Z]{2,}[A-Za-z0-9]*)\b/
+
+function parseSections(content: string): Section[] {
+  const lines = content.replace(/\r\n?/g, "\n").split("\n")
+  const sections: Section[] = []
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]
+    if (line.trim() === "") continue
+
+    if (HEADING.test(line)) {
+      sections.push({ kind: "heading", units: [line.trim()] })
+      continue
+    }
+
+    if (FENCE_OPEN.test(line)) {
+      const { end } = findFenceEnd(lines, i)
+      sections.push({ kind: "fence", units: [lines.slice(i, end + 1).join("\n")] })
+      i = end
+      continue
+    }
+
+    if (TABLE_ROW.test(line)) {
+      const rows = [line]
+      while (i + 1 < lines.length && TABLE_ROW.test(lines[i + 1])) rows.push(lines[++i])
+      sections.push({ kind: "table", units: [rows.join("\n")] })
+      continue
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const items = [line]
+      // Items and their indented continuation lines, up to a blank line or other block
+      while (i + 1 < lines.length && lines[i + 1].trim() !== "" && !HEADING.test(lines[i + 1]) && !FENCE_OPEN.test(lines[i + 1])) {
+        const next = lines[++i]
+        if (LIST_ITEM.test(next)) items.push(next)
+        else items[items.length - 1] += `\n${next}`
+      }
+      sections.push({ kind: "list", units: items })
+      continue
+    }
+
+    const paragraph = [line.trim()]
+    while (
+      i + 1 < lines.length &&
+      lines[i + 1].trim() !== "" &&
+      ![HEADING, FENCE_OPEN, TABLE_ROW, LIST_ITEM].some((pattern) => pattern.test(lines[i + 1]))
+    ) {
+      paragraph.push(lines[++i].trim())
+    }
+    sections.push({ kind: "paragraph", units: paragraph.join(" ").split(SENTENCE_BREAK) })
+  }
+  return sections
+}
+
+function terms(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9_]+/g) ?? []).filter((t) => t.length > 2 && !STOP_WORDS.has(t))
+}
+
+// TF-IDF vectors, one per unit
+function weigh(units: string[]): Array<Map<string, number>> {
+  const counts = units.map((text) => {
+    const tf = new Map<string, number>()
+    for (const term of terms(text)) tf.set(term, (tf.get(term) ?? 0) + 1)
+    return tf
+  })
+  const df = new Map<string, number>()
+  for (const tf of counts) for (const term of tf.keys()) df.set(term, (df.get(term) ?? 0) + 1)
+  return counts.map((tf) => {
+    const vector = new Map<string, number>()
+    for (const [term, n] of tf) vector.set(term, n * (Math.log(units.length / df.get(term)!) + 1))
+    return vector
+  })
+}
+
+// Cosine similarity edges; only units sharing a term are linked, so the graph stays sparse
+function similarityGraph(vectors: Array<Map<string, number>>): Array<Array<{ to: number; weight: number }>> {
+  const norms = vectors.map((v) => Math.sqrt([...v.values()].reduce((sum, w) => sum + w * w, 0)))
+  const postings = new Map<string, number[]>()
+  vectors.forEach((vector, i) => {
+    for (const term of vector.keys()) {
+      const units = postings.get(term)
+      if (units) units.push(i)
+      else postings.set(term, [i])
+    }
+  })
+
+  return vectors.map((vector, i) => {
+    const dots = new Map<number, number>()
+    for (const [term, weight] of vector) {
+      for (const j of postings.get(term)!) {
+        if (j !== i) dots.set(j, (dots.get(j) ?? 0) + weight * vectors[j].get(term)!)
+      }
+    }
+    return [...dots].map(([j, dot]) => ({ to: j, weight: dot / (norms[i] * norms[j]) }))
+  })
+}
+
+// PageRank over the weighted similarity graph
+function textRank(vectors: Array<Map<string, number>>): number[] {
+  const n = vectors.length
+  const edges = similarityGraph(vectors)
+  const outWeight = edges.map((row) => row.reduce((sum, edge) => sum + edge.weight, 0))
+  let rank = new Array<number>(n).fill(1 / n)
+  for (let iteration = 0; iteration < ITERATIONS; iteration++) {
+    const next = new Array<number>(n).fill((1 - DAMPING) / n)
+    edges.forEach((row, j) => {
+      if (outWeight[j] === 0) return
+      for (const { to, weight } of row) next[to] += DAMPING * (weight / outWeight[j]) * rank[j]
+    })
+    rank = next
+  }
+  return rank
+}
+
+const normalize = (values: number[]) => {
+  const max = Math.max(...values)
+  return values.map((v) => (max > 0 ? v / max : 0))
+}
+
+function scoreUnits(sections: Section[]): Unit[] {
+  const units: Unit[] = []
+  sections.forEach((section, s) => {
+    if (section.kind === "heading") return
+    section.units.forEach((text, index) => {
+      const isProtected = section.kind === "list" || NUMBER.test(text) || NAME.test(text)
+      units.push({ section: s, index, text, protected: isProtected, score: 0 })
+    })
+  })
+
+  const vectors = weigh(units.map((u) => u.text))
+  const rank = units.length > MAX_RANKED_UNITS ? units.map(() => 0) : normalize(textRank(vectors))
+  const salience = normalize(
+    vectors.map((v) => (v.size === 0 ? 0 : [...v.values()].reduce((sum, w) => sum + w, 0) / v.size))
+  )
+  units.forEach((unit, i) => {
+    // Lead sentences carry a paragraph's topic
+    const lead = sections[unit.section].kind === "paragraph" && unit.index === 0 ? 0.1 : 0
+    unit.score = 0.5 * rank[i] + 0.5 * salience[i] + lead
+  })
+  return units
+}
+
+/**
+ * Compress content using the statistical (extractive) strategy.
+ */
+export function compressStatistical(content: string, options: ExtractiveOptions = {}): string {
+  const targetRatio = Math.max(1, options.targetRatio ?? DEFAULT_TARGET_RATIO)
+  const sections = parseSections(content)
+  const units = scoreUnits(sections)
+
+  // Length budget in characters (tokens are estimated from characters); +1 per unit for its separator
+  const headings = sections.filter((s) => s.kind === "heading")
+  let remaining = Math.ceil(content.trim().length / targetRatio) - headings.reduce((sum, s) => sum + s.units[0].length + 2, 0)
+
+  // Protected units first, then by score; position breaks ties so the result is stable
+  const ranked = [...units].sort(
+    (a, b) => Number(b.protected) - Number(a.protected) || b.score - a.score || a.section - b.section || a.index - b.index
+  )
+  const kept = new Set<Unit>()
+  for (const unit of ranked) {
+    const cost = unit.text.length + 1
+    if (cost <= remaining) {
+      kept.add(unit)
+      remaining -= cost
+    }
+  }
+
+  return sections
+    .map((section, s) => {
+      if (section.kind === "heading") return section.units[0]
+      const texts = units.filter((u) => u.section === s && kept.has(u)).map((u) => u.text)
+      if (texts.length === 0) return null
+      return section.kind === "paragraph" ? texts.join(" ") : texts.join("\n")
+    })
+    .filter((text): text is string => text !== null)
+    .join("\n\n")
+}
@@ -5,7 +5,8 @@
  * - Local: Claude Code enabled, OAuth disabled (password auth only)
  * - Cloud: Claude Code disabled, OAuth enabled
  *
- * Ollama and OpenRouter are always client-side and don't need feature flags.
+ * Ollama and OpenRouter run client-side by default. Configuring them on the
+ * deployment (OPENROUTER_API_KEY, OLLAMA_URL) also enables server-side generation.
  */
 
 /**
@@ -45,6 +46,31 @@ export function isLocalResearchEnabled(): boolean {
   return process.env.LOCAL_RESEARCH_ENABLED === "true"
 }
 
+/**
+ * Check if the scripted mock LLM replaces Claude Code on the backend.
+ * Defaults to false (disabled) if not explicitly set to "true".
+ * For offline development and e2e tests — see convex/lib/mockLLM.ts.
+ */
+export function isMockLLMEnabled(): boolean {
+  return process.env.MOCK_LLM_ENABLED === "true"
+}
+
+/**
+ * Check if OpenRouter can run server-side generations.
+ * Enabled when OPENROUTER_API_KEY is set on the deployment.
+ */
+export function isServerOpenRouterEnabled(): boolean {
+  return !!process.env.OPENROUTER_API_KEY
+}
+
+/**
+ * Check if Ollama can run server-side generations.
+ * Enabled when OLLAMA_URL is set (the server must be reachable from the Convex backend).
+ */
+export function isServerOllamaEnabled(): boolean {
+  return !!process.env.OLLAMA_URL
+}
+
 /**
  * All feature flags.
  */
@@ -61,4 +87,13 @@ export const FEATURES = {
   get LOCAL_RESEARCH_ENABLED() {
     return isLocalResearchEnabled()
   },
+  get MOCK_LLM_ENABLED() {
+    return isMockLLMEnabled()
+  },
+  get SERVER_OPENROUTER_ENABLED() {
+    return isServerOpenRouterEnabled()
+  },
+  get SERVER_OLLAMA_ENABLED() {
+    return isServerOllamaEnabled()
+  },
 }
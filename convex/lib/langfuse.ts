@@ -77,7 +77,7 @@ export async function flushLangfuse(): Promise<void> {
  */
 export interface TraceMetadata {
   sessionId: string
-  provider: "claude" | "ollama"
+  provider: "claude" | "ollama" | "openrouter"
   model?: string
   userId?: string
 }
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest"
+import { FENCE_OPEN, findFenceEnd, splitFences } from "./markdownFences"
+
+describe("FENCE_OPEN", () => {
+  it("matches backtick and tilde openers with their language", () => {
+    expect("```ts".match(FENCE_OPEN)?.[2]).toBe("ts")
+    expect("   ~~~~ python extra".match(FENCE_OPEN)?.[2]).toBe("python")
+    expect(FENCE_OPEN.test("    ```")).toBe(false)
+    expect(FENCE_OPEN.test("``")).toBe(false)
+  })
+})
+
+describe("findFenceEnd", () => {
+  it("needs a closer of the same character, at least as long", () => {
+    const lines = ["````md", "```", "~~~~", "````", "after"]
+    expect(findFenceEnd(lines, 0)).toEqual({ end: 3, closed: true })
+  })
+
+  it("runs an unclosed fence to the end", () => {
+    expect(findFenceEnd(["```", "code", "more"], 0)).toEqual({ end: 2, closed: false })
+  })
+})
+
+describe("splitFences", () => {
+  it("alternates text and fenced code", () => {
+    const lines = ["intro", "```js", "let a = 1", "```", "middle", "~~~", "open"]
+    expect(splitFences(lines)).toEqual([
+      { fence: false, lines: ["intro"] },
+      { fence: true, lines: ["```js", "let a = 1", "```"], closed: true },
+      { fence: false, lines: ["middle"] },
+      { fence: true, lines: ["~~~", "open"], closed: false },
+    ])
+  })
+})
@@ -0,0 +1,53 @@
+/**
+ * Markdown fenced code blocks, as CommonMark reads them: an opener of three or
+ * more backticks or tildes (indented at most three spaces), closed by a line of
+ * at least as many of the same character. An unclosed fence runs to the end.
+ *
+ * Shared by extractive summaries, structural compression and smart save.
+ * Pure and dependency-free: the Convex actions and the browser both use it.
+ */
+
+/** Fence opener; group 1 is the marker, group 2 the first word of the info string (the language) */
+export const FENCE_OPEN = /^ {0,3}(`{3,}|~{3,})\s*([^\s`]*)/
+
+export interface FenceSegment {
+  fence: boolean
+  lines: string[]
+  /** Whether a fence has its closing line */
+  closed?: boolean
+}
+
+/**
+ * End of the fence opened at `lines[start]`: the index of its closing line,
+ * or of the last line when it isn't closed.
+ */
+export function findFenceEnd(lines: string[], start: number): { end: number; closed: boolean } {
+  const marker = lines[start].match(FENCE_OPEN)?.[1]
+  if (!marker) return { end: start, closed: false }
+  const close = new RegExp(`^ {0,3}${marker[0] === "`" ? "`" : "~"}{${marker.length},}\\s*$`)
+  for (let i = start + 1; i < lines.length; i++) {
+    if (close.test(lines[i])) return { end: i, closed: true }
+  }
+  return { end: lines.length - 1, closed: false }
+}
+
+/**
+ * Split lines into alternating text and fenced code segments.
+ */
+export function splitFences(lines: string[]): FenceSegment[] {
+  const segments: FenceSegment[] = []
+  let text: string[] = []
+  for (let i = 0; i < lines.length; i++) {
+    if (!FENCE_OPEN.test(lines[i])) {
+      text.push(lines[i])
+      continue
+    }
+    if (text.length > 0) segments.push({ fence: false, lines: text })
+    text = []
+    const { end, closed } = findFenceEnd(lines, i)
+    segments.push({ fence: true, lines: lines.slice(i, end + 1), closed })
+    i = end
+  }
+  if (text.length > 0) segments.push({ fence: false, lines: text })
+  return segments
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest"
+import { buildMemoryDraftPrompt, memoryDraftSchema, parseMemoryDraft } from "./memoryDraft"
+
+const types = [
+  { name: "character", icon: "👤" },
+  { name: "place", icon: "📍" },
+]
+
+describe("buildMemoryDraftPrompt", () => {
+  it("lists schema types and existing entries", () => {
+    const { systemPrompt, prompt } = buildMemoryDraftPrompt(
+      types,
+      [{ type: "character", title: "Renn", content: "A smuggler", tags: ["#renn"] }],
+      "Renn grew up in the docks"
+    )
+    expect(systemPrompt).toContain("- character (👤)")
+    expect(systemPrompt).toContain('[character] "Renn" — A smuggler')
+    expect(prompt).toContain("Renn grew up in the docks")
+  })
+
+  it("notes when there are no existing entries", () => {
+    const { systemPrompt } = buildMemoryDraftPrompt(types, [], "text")
+    expect(systemPrompt).toContain("(no existing entries)")
+  })
+})
+
+describe("memoryDraftSchema", () => {
+  it("limits the type to the project's memory types", () => {
+    expect(memoryDraftSchema(types).properties?.type.enum).toEqual(["character", "place"])
+  })
+})
+
+describe("parseMemoryDraft", () => {
+  it("parses JSON wrapped in markdown fences", () => {
+    const reply = '```json\n{"type": "place", "title": "The Docks", "content": "Harbour district", "tags": ["#docks"], "duplicateWarning": null}\n```'
+    expect(parseMemoryDraft(reply, "text", types)).toEqual({
+      type: "place",
+      title: "The Docks",
+      content: "Harbour district",
+      tags: ["#docks"],
+      duplicateWarning: undefined,
+    })
+  })
+
+  it("finds the JSON when the model adds prose around it", () => {
+    const reply = 'Here is the draft:\n{"type": "character", "title": "Renn", "content": "Smuggler", "tags": []}'
+    expect(parseMemoryDraft(reply, "text", types)).toMatchObject({ type: "character", title: "Renn" })
+  })
+
+  it("falls back to the selection when the reply isn't JSON", () => {
+    const draft = parseMemoryDraft("Sure! Here's a draft.", "First line\nSecond line", types)
+    expect(draft).toEqual({
+      type: "character",
+      title: "First line",
+      content: "First line\nSecond line",
+      tags: [],
+    })
+  })
+})
@@ -0,0 +1,101 @@
+/**
+ * Memory draft prompting — builds the drafting prompt and parses the model's JSON reply.
+ * Provider-agnostic: used by the Claude Code action and mirrored client-side for
+ * registry providers (src/lib/llm/memoryDraft.ts).
+ */
+
+import { extractJson, type JsonSchema } from "./structuredOutput"
+
+export interface MemoryDraft {
+  type: string
+  title: string
+  content: string
+  tags: string[]
+  duplicateWarning?: string
+}
+
+/**
+ * JSON Schema of a draft reply; the type must be one of the project's memory types.
+ */
+export function memoryDraftSchema(schemaTypes: Array<{ name: string }>): JsonSchema {
+  return {
+    title: "Memory draft",
+    type: "object",
+    required: ["type", "title", "content", "tags"],
+    properties: {
+      type: { type: "string", enum: schemaTypes.map((t) => t.name) },
+      title: { type: "string" },
+      content: { type: "string" },
+      tags: { type: "array", items: { type: "string" } },
+      duplicateWarning: { type: ["string", "null"] },
+    },
+  }
+}
+
+/**
+ * Build the system prompt and user prompt for drafting a memory entry.
+ * The reply format comes from memoryDraftSchema(): a native JSON mode or
+ * the schema instruction, added by the caller.
+ */
+export function buildMemoryDraftPrompt(
+  schemaTypes: Array<{ name: string; icon: string }>,
+  entries: Array<{ type: string; title: string; content: string; tags: string[] }>,
+  selectedText: string
+): { systemPrompt: string; prompt: string } {
+  const typesDescription = schemaTypes
+    .map((t) => `- ${t.name} (${t.icon}): use for ${t.name}-related knowledge`)
+    .join("\n")
+
+  const existingEntriesText = entries.length > 0
+    ? entries.map((e) =>
+        `[${e.type}] "${e.title}" — ${e.content}\n  Tags: ${e.tags.join(", ")}`
+      ).join("\n\n")
+    : "(no existing entries)"
+
+  const systemPrompt = `You are a memory entry drafting assistant. Given selected text from a conversation, create a structured memory entry for the project's knowledge base.
+
+Available memory types:
+${typesDescription}
+
+Existing entries:
+${existingEntriesText}
+
+Rules:
+- Pick the most appropriate type from the available types
+- Write a concise, specific title (not just the first line of the selection)
+- Distill the content — extract the insight, don't just copy the text verbatim
+- Reuse existing tags where they fit. Use lowercase, #-prefixed tags
+- If a very similar entry already exists, include a duplicateWarning suggesting the user update that entry instead, otherwise null`
+
+  const prompt = `Draft a memory entry from this selected text:\n\n${selectedText}`
+
+  return { systemPrompt, prompt }
+}
+
+/**
+ * Parse the model's reply into a draft. Finds the JSON in fences or prose; falls back to
+ * the raw selection (first schema type, first line as title) if there is none.
+ */
+export function parseMemoryDraft(
+  responseText: string,
+  selectedText: string,
+  schemaTypes: Array<{ name: string }>
+): MemoryDraft {
+  const extracted = extractJson(responseText)
+  if ("error" in extracted || typeof extracted.value !== "object" || extracted.value === null) {
+    return {
+      type: schemaTypes[0]?.name ?? "note",
+      title: selectedText.slice(0, 60).split("\n")[0],
+      content: selectedText,
+      tags: [],
+    }
+  }
+  const parsed = extracted.value as Partial<Record<keyof MemoryDraft, unknown>>
+  return {
+    type: typeof parsed.type === "string" ? parsed.type : schemaTypes[0]?.name ?? "note",
+    title: typeof parsed.title === "string" ? parsed.title : "Untitled",
+    content: typeof parsed.content === "string" ? parsed.content : selectedText,
+    tags: Array.isArray(parsed.tags) ? parsed.tags : [],
+    duplicateWarning: typeof parsed.duplicateWarning === "string" ? parsed.duplicateWarning : undefined,
+  }
+}
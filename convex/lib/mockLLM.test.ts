@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest"
+import {
+  chunkMockText,
+  getMockUsage,
+  mockAgentQuery,
+  selectMockResponse,
+  streamMockResponse,
+  DEFAULT_MOCK_SCRIPT,
+  type MockScript,
+} from "./mockLLM"
+
+const script: MockScript = {
+  defaults: { chunkSize: 5 },
+  responses: [
+    { match: "alpha", text: "Alpha reply" },
+    { match: "/be+ta/i", text: "Beta reply" },
+    { match: "boom", text: "Partial reply", error: "exploded", errorAfterChunks: 1 },
+    { match: "priced", text: "1234", usage: { inputTokens: 10, costUsd: 0.5 } },
+    { text: "Fallback reply" },
+  ],
+}
+
+async function collect(stream: AsyncGenerator<string, unknown, unknown>) {
+  const chunks: string[] = []
+  let next = await stream.next()
+  while (!next.done) {
+    chunks.push(next.value)
+    next = await stream.next()
+  }
+  return { chunks, result: next.value }
+}
+
+describe("selectMockResponse", () => {
+  it("matches substrings case-insensitively", () => {
+    expect(selectMockResponse(script, "Tell me about ALPHA").text).toBe("Alpha reply")
+  })
+
+  it("matches /regex/ patterns", () => {
+    expect(selectMockResponse(script, "beeeta").text).toBe("Beta reply")
+  })
+
+  it("prefers the match closest to the end of the input", () => {
+    expect(selectMockResponse(script, "USER: alpha\n\nUSER: beta").text).toBe("Beta reply")
+    expect(selectMockResponse(script, "USER: beta\n\nUSER: alpha").text).toBe("Alpha reply")
+  })
+
+  it("falls back to the response without a pattern", () => {
+    expect(selectMockResponse(script, "nothing here").text).toBe("Fallback reply")
+  })
+
+  it("echoes the input when the script has no fallback", () => {
+    expect(selectMockResponse({ responses: [] }, "hello").text).toBe("Mock response to: hello")
+  })
+})
+
+describe("chunkMockText", () => {
+  it("splits into fixed-size chunks", () => {
+    expect(chunkMockText("abcdefg", 3)).toEqual(["abc", "def", "g"])
+  })
+
+  it("returns the whole text for chunkSize 0", () => {
+    expect(chunkMockText("abcdefg", 0)).toEqual(["abcdefg"])
+  })
+})
+
+describe("getMockUsage", () => {
+  it("estimates unset fields at ~4 chars per token", () => {
+    const usage = getMockUsage(script, { text: "12345678" }, "1234")
+    expect(usage).toMatchObject({ inputTokens: 1, outputTokens: 2, costUsd: 0 })
+  })
+
+  it("keeps scripted numbers", () => {
+    const usage = getMockUsage(script, script.responses[3], "priced")
+    expect(usage).toMatchObject({ inputTokens: 10, outputTokens: 1, costUsd: 0.5 })
+  })
+
+  it("derives cost from script pricing", () => {
+    const priced: MockScript = { ...script, pricing: { input: 0.01, output: 0.1 } }
+    expect(getMockUsage(priced, { text: "12345678" }, "1234").costUsd).toBeCloseTo(0.21)
+  })
+})
+
+describe("streamMockResponse", () => {
+  it("streams the scripted text in chunks", async () => {
+    const { chunks, result } = await collect(streamMockResponse(script, "alpha"))
+    expect(chunks).toEqual(["Alpha", " repl", "y"])
+    expect(result).toMatchObject({ text: "Alpha reply", model: "mock-scripted" })
+  })
+
+  it("throws the scripted error after the configured chunks", async () => {
+    const chunks: string[] = []
+    await expect(async () => {
+      for await (const chunk of streamMockResponse(script, "boom")) {
+        chunks.push(chunk)
+      }
+    }).rejects.toThrow("Mock error: exploded")
+    expect(chunks).toEqual(["Parti"])
+  })
+
+  it("stops with an AbortError when the signal is aborted", async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const slow: MockScript = { responses: [{ text: "slow", latencyMs: 1000 }] }
+    await expect(streamMockResponse(slow, "x", controller.signal).next()).rejects.toMatchObject({
+      name: "AbortError",
+    })
+  })
+})
+
+describe("mockAgentQuery", () => {
+  it("emits SDK-shaped stream events, assistant message and result", async () => {
+    const messages = []
+    for await (const message of mockAgentQuery({ prompt: "Draft a memory entry from this selected text" })) {
+      messages.push(message)
+    }
+    const deltas = messages.filter((m) => m.type === "stream_event")
+    const assistant = messages.find((m) => m.type === "assistant")
+    const result = messages.find((m) => m.type === "result")
+
+    expect(deltas.length).toBeGreaterThan(1)
+    expect(assistant?.message.content[0].text).toContain("Mock memory entry")
+    expect(result?.session_id).toBe("mock-session")
+    expect(result?.usage.output_tokens).toBeGreaterThan(0)
+  })
+
+  it("matches research mode from the system prompt", () => {
+    const response = selectMockResponse(
+      DEFAULT_MOCK_SCRIPT,
+      "RESEARCH MODE: You have access to WebSearch...\n\nCompare vector databases"
+    )
+    expect(response.text).toContain("Research Findings")
+  })
+})
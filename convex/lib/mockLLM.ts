@@ -0,0 +1,257 @@
+/**
+ * Scripted mock LLM — deterministic responses for offline development and e2e tests.
+ *
+ * Responses come from a script (e2e/fixtures/mock-llm.json unless MOCK_LLM_SCRIPT
+ * holds a JSON override). Each response can set its own chunking, latency, usage
+ * and a mid-stream error. mockAgentQuery() yields the same message shapes as the
+ * Agent SDK's query(), so Convex actions swap it in for Claude Code when
+ * MOCK_LLM_ENABLED=true. Mirrored client-side in src/lib/llm/mock.ts.
+ */
+
+import defaultScript from "../../e2e/fixtures/mock-llm.json"
+
+export interface MockUsage {
+  inputTokens?: number
+  outputTokens?: number
+  cacheReadTokens?: number
+  cacheWriteTokens?: number
+  costUsd?: number
+}
+
+export interface MockStreamOptions {
+  /** Characters per streamed chunk (0 = whole reply in one chunk) */
+  chunkSize?: number
+  /** Delay before each chunk */
+  latencyMs?: number
+}
+
+export interface MockResponse extends MockStreamOptions {
+  /**
+   * Case-insensitive substring, or "/pattern/flags" for a regex.
+   * Omit for the fallback response.
+   */
+  match?: string
+  text: string
+  /** Fail the stream with this message */
+  error?: string
+  /** Chunks streamed before the error is thrown (default 0) */
+  errorAfterChunks?: number
+  /** Reported usage; unset fields are estimated from the text (~4 chars/token) */
+  usage?: MockUsage
+}
+
+export interface MockScript {
+  defaults?: MockStreamOptions
+  /** USD per token, used to derive costUsd when a response doesn't set one */
+  pricing?: { input: number; output: number }
+  responses: MockResponse[]
+}
+
+export interface MockResult {
+  text: string
+  model: string
+  usage: Required<Pick<MockUsage, "inputTokens" | "outputTokens" | "costUsd">> &
+    Pick<MockUsage, "cacheReadTokens" | "cacheWriteTokens">
+}
+
+export const MOCK_MODEL = "mock-scripted"
+
+export const DEFAULT_MOCK_SCRIPT: MockScript = defaultScript
+
+/**
+ * Load the mock script: MOCK_LLM_SCRIPT (JSON) if set, otherwise the fixture file.
+ */
+export function loadMockScript(): MockScript {
+  const override = process.env.MOCK_LLM_SCRIPT
+  if (!override) return DEFAULT_MOCK_SCRIPT
+  try {
+    return JSON.parse(override) as MockScript
+  } catch {
+    throw new Error("MOCK_LLM_SCRIPT is not valid JSON")
+  }
+}
+
+/**
+ * End offset of the pattern's first match in the input, or -1 if it doesn't match.
+ */
+function findMatchEnd(pattern: string, input: string): number {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/)
+  if (regex) {
+    const found = new RegExp(regex[1], regex[2]).exec(input)
+    return found ? found.index + found[0].length : -1
+  }
+  const index = input.toLowerCase().indexOf(pattern.toLowerCase())
+  return index === -1 ? -1 : index + pattern.length
+}
+
+/**
+ * Pick the scripted response for an input.
+ *
+ * When several patterns match, the one matching closest to the end of the input
+ * wins — the newest message outranks context and history. Ties go to script order.
+ * Falls back to the first response without a pattern, then to an echo.
+ */
+export function selectMockResponse(script: MockScript, input: string): MockResponse {
+  let best: MockResponse | undefined
+  let bestEnd = -1
+  for (const response of script.responses) {
+    if (response.match === undefined) continue
+    const end = findMatchEnd(response.match, input)
+    if (end > bestEnd) {
+      best = response
+      bestEnd = end
+    }
+  }
+  if (best) return best
+
+  const fallback = script.responses.find((r) => r.match === undefined)
+  return fallback ?? { text: `Mock response to: ${input.trim().slice(-200)}` }
+}
+
+/**
+ * Split text into fixed-size chunks.
+ */
+export function chunkMockText(text: string, chunkSize: number): string[] {
+  if (chunkSize <= 0 || text.length <= chunkSize) return [text]
+  const chunks: string[] = []
+  for (let i = 0; i < text.length; i += chunkSize) {
+    chunks.push(text.slice(i, i + chunkSize))
+  }
+  return chunks
+}
+
+/**
+ * Usage for a response, estimating whatever the script doesn't specify.
+ */
+export function getMockUsage(
+  script: MockScript,
+  response: MockResponse,
+  input: string
+): MockResult["usage"] {
+  const inputTokens = response.usage?.inputTokens ?? Math.ceil(input.length / 4)
+  const outputTokens = response.usage?.outputTokens ?? Math.ceil(response.text.length / 4)
+  const costUsd = response.usage?.costUsd ??
+    (script.pricing
+      ? inputTokens * script.pricing.input + outputTokens * script.pricing.output
+      : 0)
+  return {
+    inputTokens,
+    outputTokens,
+    cacheReadTokens: response.usage?.cacheReadTokens,
+    cacheWriteTokens: response.usage?.cacheWriteTokens,
+    costUsd,
+  }
+}
+
+// Same error fetch() throws on abort, so callers' AbortError handling applies
+function abortError(): Error {
+  return new DOMException("Mock stream aborted", "AbortError")
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError())
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer)
+      reject(abortError())
+    }, { once: true })
+  })
+}
+
+/**
+ * Stream the scripted response for an input.
+ * Returns an async generator of text chunks; throws the scripted error, if any.
+ */
+export async function* streamMockResponse(
+  script: MockScript,
+  input: string,
+  signal?: AbortSignal
+): AsyncGenerator<string, MockResult, unknown> {
+  const response = selectMockResponse(script, input)
+  const chunkSize = response.chunkSize ?? script.defaults?.chunkSize ?? 0
+  const latencyMs = response.latencyMs ?? script.defaults?.latencyMs ?? 0
+
+  const chunks = chunkMockText(response.text, chunkSize)
+  const errorAt = response.error !== undefined ? (response.errorAfterChunks ?? 0) : -1
+  let text = ""
+
+  for (let i = 0; i < chunks.length; i++) {
+    if (i === errorAt) {
+      throw new Error(`Mock error: ${response.error}`)
+    }
+    if (latencyMs > 0) {
+      await sleep(latencyMs, signal)
+    } else if (signal?.aborted) {
+      throw abortError()
+    }
+    text += chunks[i]
+    yield chunks[i]
+  }
+  if (errorAt >= chunks.length) {
+    throw new Error(`Mock error: ${response.error}`)
+  }
+
+  return { text, model: MOCK_MODEL, usage: getMockUsage(script, response, input) }
+}
+
+/**
+ * Agent SDK-shaped messages emitted by mockAgentQuery().
+ */
+export type MockAgentMessage =
+  | { type: "stream_event"; event: { type: "content_block_delta"; index: number; delta: { type: "text_delta"; text: string } } }
+  | { type: "assistant"; message: { model: string; content: Array<{ type: "text"; text: string }> } }
+  | {
+      type: "result"
+      subtype: "success"
+      session_id: string
+      total_cost_usd: number
+      usage: {
+        input_tokens: number
+        output_tokens: number
+        cache_read_input_tokens?: number
+        cache_creation_input_tokens?: number
+      }
+    }
+
+/**
+ * Drop-in for the Agent SDK's query(): streams the scripted response as
+ * stream_event deltas, then an assistant message and a result with usage.
+ * Matches against the system prompt plus prompt; honours options.abortController.
+ */
+export async function* mockAgentQuery(params: {
+  prompt: string | AsyncIterable<unknown>
+  options?: { systemPrompt?: unknown; abortController?: AbortController }
+}): AsyncGenerator<MockAgentMessage, void, unknown> {
+  const prompt = typeof params.prompt === "string" ? params.prompt : ""
+  const systemPrompt = typeof params.options?.systemPrompt === "string" ? params.options.systemPrompt : ""
+  const input = systemPrompt ? `${systemPrompt}\n\n${prompt}` : prompt
+
+  const stream = streamMockResponse(loadMockScript(), input, params.options?.abortController?.signal)
+  let next = await stream.next()
+  while (!next.done) {
+    yield {
+      type: "stream_event",
+      event: { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: next.value } },
+    }
+    next = await stream.next()
+  }
+
+  const result = next.value
+  yield {
+    type: "assistant",
+    message: { model: result.model, content: [{ type: "text", text: result.text }] },
+  }
+  yield {
+    type: "result",
+    subtype: "success",
+    session_id: "mock-session",
+    total_cost_usd: result.usage.costUsd,
+    usage: {
+      input_tokens: result.usage.inputTokens,
+      output_tokens: result.usage.outputTokens,
+      cache_read_input_tokens: result.usage.cacheReadTokens,
+      cache_creation_input_tokens: result.usage.cacheWriteTokens,
+    },
+  }
+}
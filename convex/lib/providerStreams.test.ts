@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, afterEach } from "vitest"
+import {
+  fetchOpenRouterPricing,
+  parseOllamaLine,
+  parseOpenRouterLine,
+  readLines,
+  streamOllama,
+  streamOpenRouter,
+} from "./providerStreams"
+
+function bodyFrom(parts: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+  return new ReadableStream({
+    start(controller) {
+      for (const part of parts) controller.enqueue(encoder.encode(part))
+      controller.close()
+    },
+  })
+}
+
+async function collect(stream: AsyncGenerator<string, unknown, unknown>) {
+  const chunks: string[] = []
+  let next = await stream.next()
+  while (!next.done) {
+    chunks.push(next.value)
+    next = await stream.next()
+  }
+  return { chunks, result: next.value }
+}
+
+function stubFetch(parts: string[], init?: ResponseInit) {
+  const fetchMock = vi.fn<typeof fetch>(async () => new Response(bodyFrom(parts), init))
+  vi.stubGlobal("fetch", fetchMock)
+  return fetchMock
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe("readLines", () => {
+  it("joins lines split across chunks and emits the trailing partial line", async () => {
+    const lines: string[] = []
+    for await (const line of readLines(bodyFrom(["one\ntw", "o\nthr", "ee"]))) {
+      lines.push(line)
+    }
+    expect(lines).toEqual(["one", "two", "three"])
+  })
+})
+
+describe("parseOpenRouterLine", () => {
+  it("parses data lines", () => {
+    expect(parseOpenRouterLine('data: {"model":"m"}')).toEqual({ model: "m" })
+  })
+
+  it("ignores comments, [DONE] and malformed JSON", () => {
+    expect(parseOpenRouterLine(": OPENROUTER PROCESSING")).toBeNull()
+    expect(parseOpenRouterLine("data: [DONE]")).toBeNull()
+    expect(parseOpenRouterLine("data: {oops")).toBeNull()
+  })
+})
+
+describe("parseOllamaLine", () => {
+  it("skips blank and malformed lines", () => {
+    expect(parseOllamaLine("  ")).toBeNull()
+    expect(parseOllamaLine("{oops")).toBeNull()
+    expect(parseOllamaLine('{"done":true}')).toEqual({ done: true })
+  })
+})
+
+describe("fetchOpenRouterPricing", () => {
+  it("finds the model's per-token prices", async () => {
+    stubFetch([
+      JSON.stringify({
+        data: [
+          { id: "openai/gpt-4o", pricing: { prompt: "0.0000025", completion: "0.00001" } },
+          { id: "other", pricing: { prompt: "1", completion: "1" } },
+        ],
+      }),
+    ])
+    expect(await fetchOpenRouterPricing("key", "openai/gpt-4o")).toEqual({ prompt: 0.0000025, completion: 0.00001 })
+    expect(await fetchOpenRouterPricing("key", "missing")).toBeNull()
+  })
+
+  it("returns null on HTTP errors", async () => {
+    stubFetch(["bad key"], { status: 401 })
+    expect(await fetchOpenRouterPricing("key", "openai/gpt-4o")).toBeNull()
+  })
+})
+
+describe("streamOpenRouter", () => {
+  it("streams content and returns usage with the reported cost", async () => {
+    const fetchMock = stubFetch([
+      'data: {"model":"openai/gpt-4o","choices":[{"delta":{"content":"Hel"}}]}\n',
+      ": keep-alive\n",
+      'data: {"choices":[{"delta":{"content":"lo"}}]}\n',
+      'data: {"choices":[],"usage":{"prompt_tokens":12,"completion_tokens":2,"cost":0.0003}}\n',
+      "data: [DONE]\n",
+    ])
+
+    const { chunks, result } = await collect(
+      streamOpenRouter("key", [{ role: "user", content: "Hi" }], { model: "openai/gpt-4o" })
+    )
+
+    expect(chunks).toEqual(["Hel", "lo"])
+    expect(result).toEqual({
+      text: "Hello",
+      model: "openai/gpt-4o",
+      promptTokens: 12,
+      completionTokens: 2,
+      costUsd: 0.0003,
+    })
+    const body = JSON.parse(fetchMock.mock.calls[0][1]?.body as string)
+    expect(body.usage).toEqual({ include: true })
+  })
+
+  it("throws on HTTP errors", async () => {
+    stubFetch(["bad key"], { status: 401, statusText: "Unauthorized" })
+    await expect(
+      collect(streamOpenRouter("key", [], { model: "m" }))
+    ).rejects.toThrow("OpenRouter error: 401 Unauthorized - bad key")
+  })
+
+  it("throws on mid-stream error chunks", async () => {
+    stubFetch([
+      'data: {"choices":[{"delta":{"content":"a"}}]}\n',
+      'data: {"error":{"message":"overloaded"}}\n',
+    ])
+    await expect(
+      collect(streamOpenRouter("key", [], { model: "m" }))
+    ).rejects.toThrow("OpenRouter error: overloaded")
+  })
+})
+
+describe("streamOllama", () => {
+  it("streams content and takes token counts from the done chunk", async () => {
+    const fetchMock = stubFetch([
+      '{"model":"llama3","message":{"content":"Hi "}}\n{"model":"llama3","message":{"content":"there"}}\n',
+      '{"model":"llama3","message":{"content":""},"done":true,"prompt_eval_count":30,"eval_count":4}',
+    ])
+
+    const { chunks, result } = await collect(
+      streamOllama("http://ollama:11434/", [{ role: "user", content: "Hi" }], { model: "llama3" })
+    )
+
+    expect(chunks).toEqual(["Hi ", "there"])
+    expect(result).toEqual({
+      text: "Hi there",
+      model: "llama3",
+      promptTokens: 30,
+      completionTokens: 4,
+      costUsd: 0,
+    })
+    expect(fetchMock.mock.calls[0][0]).toBe("http://ollama:11434/api/chat")
+  })
+})
@@ -0,0 +1,260 @@
+/**
+ * Server-side streaming clients for OpenRouter and Ollama.
+ *
+ * Used by the Convex action in providersNode.ts so generations survive the tab
+ * closing. Mirrors the browser clients in src/lib/llm/openrouter.ts and
+ * src/lib/llm/ollama.ts, but takes credentials as arguments instead of reading
+ * localStorage — the action resolves them from environment variables.
+ */
+
+import type { ResponseSchema } from "./structuredOutput"
+
+export interface ServerChatMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+export interface ServerStreamOptions {
+  model: string
+  temperature?: number
+  maxTokens?: number
+  signal?: AbortSignal
+  /** Native JSON Schema output (OpenRouter response_format, Ollama format) */
+  responseSchema?: ResponseSchema
+}
+
+export interface ServerStreamResult {
+  text: string
+  /** Total input tokens (including any served from a prompt cache) */
+  promptTokens?: number
+  completionTokens?: number
+  /** Cost reported by the provider (OpenRouter usage accounting) */
+  costUsd?: number
+  /** Model that actually served the request */
+  model?: string
+}
+
+export const OPENROUTER_URL = "https://openrouter.ai/api/v1"
+
+interface OpenRouterChunk {
+  model?: string
+  choices?: Array<{ delta?: { content?: string | null } }>
+  usage?: {
+    prompt_tokens?: number
+    completion_tokens?: number
+    cost?: number
+  }
+  error?: { message?: string }
+}
+
+interface OllamaChunk {
+  model?: string
+  message?: { content?: string }
+  done?: boolean
+  prompt_eval_count?: number
+  eval_count?: number
+  error?: string
+}
+
+/**
+ * Split a byte stream into lines. The trailing partial line is emitted at the end.
+ */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string, void, unknown> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split("\n")
+    buffer = lines.pop() || ""
+    for (const line of lines) {
+      yield line
+    }
+  }
+
+  buffer += decoder.decode()
+  if (buffer.trim()) {
+    yield buffer
+  }
+}
+
+/**
+ * Parse one OpenRouter SSE line. Returns null for comments, keep-alives,
+ * [DONE] and malformed JSON.
+ */
+export function parseOpenRouterLine(line: string): OpenRouterChunk | null {
+  const trimmed = line.trim()
+  if (!trimmed.startsWith("data:")) return null
+
+  const data = trimmed.slice(5).trim()
+  if (data === "[DONE]") return null
+
+  try {
+    return JSON.parse(data) as OpenRouterChunk
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Parse one Ollama NDJSON line. Returns null for blank or malformed lines.
+ */
+export function parseOllamaLine(line: string): OllamaChunk | null {
+  if (!line.trim()) return null
+  try {
+    return JSON.parse(line) as OllamaChunk
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Per-token prices of an OpenRouter model, from its model list; null if unknown.
+ * For pricing estimated usage when a stream stops before the usage chunk.
+ */
+export async function fetchOpenRouterPricing(
+  apiKey: string,
+  model: string
+): Promise<{ prompt: number; completion: number } | null> {
+  const response = await fetch(`${OPENROUTER_URL}/models`, {
+    headers: { Authorization: `Bearer ${apiKey}` },
+  })
+  if (!response.ok) return null
+  const { data } = (await response.json()) as {
+    data?: Array<{ id: string; pricing?: { prompt?: string; completion?: string } }>
+  }
+  const pricing = data?.find((m) => m.id === model)?.pricing
+  if (!pricing) return null
+  return { prompt: parseFloat(pricing.prompt ?? "") || 0, completion: parseFloat(pricing.completion ?? "") || 0 }
+}
+
+/**
+ * Stream a chat completion from OpenRouter.
+ * Requests usage accounting so the final chunk carries the billed cost.
+ */
+export async function* streamOpenRouter(
+  apiKey: string,
+  messages: ServerChatMessage[],
+  options: ServerStreamOptions
+): AsyncGenerator<string, ServerStreamResult, unknown> {
+  const response = await fetch(`${OPENROUTER_URL}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+      "X-Title": "ContextForge",
+    },
+    body: JSON.stringify({
+      model: options.model,
+      messages,
+      stream: true,
+      usage: { include: true },
+      temperature: options.temperature ?? 0.7,
+      max_tokens: options.maxTokens,
+      ...(options.responseSchema && {
+        response_format: { type: "json_schema", json_schema: options.responseSchema },
+      }),
+    }),
+    signal: options.signal,
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`OpenRouter error: ${response.status} ${response.statusText} - ${errorText}`)
+  }
+  if (!response.body) {
+    throw new Error("No response body from OpenRouter")
+  }
+
+  const result: ServerStreamResult = { text: "", model: options.model }
+
+  for await (const line of readLines(response.body)) {
+    const chunk = parseOpenRouterLine(line)
+    if (!chunk) continue
+
+    if (chunk.error) {
+      throw new Error(`OpenRouter error: ${chunk.error.message ?? "unknown error"}`)
+    }
+    if (chunk.model) {
+      result.model = chunk.model
+    }
+
+    const content = chunk.choices?.[0]?.delta?.content
+    if (content) {
+      result.text += content
+      yield content
+    }
+
+    if (chunk.usage) {
+      result.promptTokens = chunk.usage.prompt_tokens
+      result.completionTokens = chunk.usage.completion_tokens
+      result.costUsd = chunk.usage.cost
+    }
+  }
+
+  return result
+}
+
+/**
+ * Stream a chat completion from an Ollama server.
+ */
+export async function* streamOllama(
+  baseUrl: string,
+  messages: ServerChatMessage[],
+  options: ServerStreamOptions
+): AsyncGenerator<string, ServerStreamResult, unknown> {
+  const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/api/chat`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      model: options.model,
+      messages,
+      stream: true,
+      options: {
+        temperature: options.temperature ?? 0.7,
+        num_predict: options.maxTokens,
+      },
+      ...(options.responseSchema && { format: options.responseSchema.schema }),
+    }),
+    signal: options.signal,
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(`Ollama error: ${response.status} ${response.statusText} - ${errorText}`)
+  }
+  if (!response.body) {
+    throw new Error("No response body from Ollama")
+  }
+
+  const result: ServerStreamResult = { text: "", model: options.model }
+
+  for await (const line of readLines(response.body)) {
+    const chunk = parseOllamaLine(line)
+    if (!chunk) continue
+
+    if (chunk.error) {
+      throw new Error(`Ollama error: ${chunk.error}`)
+    }
+
+    const content = chunk.message?.content
+    if (content) {
+      result.text += content
+      yield content
+    }
+
+    if (chunk.done) {
+      result.promptTokens = chunk.prompt_eval_count
+      result.completionTokens = chunk.eval_count
+      result.model = chunk.model ?? result.model
+    }
+  }
+
+  // Self-hosted inference has no per-token price
+  result.costUsd = 0
+  return result
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest"
-import { SelfTalkDetector } from "./selfTalkDetector"
+import { SelfTalkDetector, getSelfTalkMarkers, summarizeSelfTalk } from "./selfTalkDetector"
 
 describe("SelfTalkDetector", () => {
   it("detects </assistant> in a single chunk", () => {
@@ -99,3 +99,73 @@ describe("SelfTalkDetector", () => {
     expect(result!.position).toBe("First chunk. Second chunk. End.".length)
   })
 })
+
+describe("custom markers", () => {
+  it("uses the markers it is given", () => {
+    const detector = new SelfTalkDetector(getSelfTalkMarkers("ollama", ["\n\nMe:"]))
+    expect(detector.feed("Plan ready.\n\nMe: next")?.marker).toBe("\n\nMe:")
+    expect(new SelfTalkDetector(getSelfTalkMarkers("ollama")).feed("ok<|im_start|>user")?.marker).toBe("<|im_start|>")
+    expect(new SelfTalkDetector(getSelfTalkMarkers("claude")).feed("ok<|im_start|>user")).toBeNull()
+  })
+
+  it("reports the earliest marker in a chunk", () => {
+    const detector = new SelfTalkDetector()
+    const result = detector.feed("Answer.\n\nHuman: hi</assistant>")
+    expect(result!.marker).toBe("\n\nHuman:")
+    expect(result!.position).toBe("Answer.".length)
+  })
+
+  it("positions split markers so the reply can be cut before them", () => {
+    const detector = new SelfTalkDetector()
+    let text = "Answer.\n\nHu"
+    expect(detector.feed(text)).toBeNull()
+    const result = detector.feed("man: hi")
+    text += "man: hi"
+    expect(text.slice(0, result!.position)).toBe("Answer.")
+  })
+})
+
+describe("getSelfTalkMarkers", () => {
+  it("combines defaults, provider extras and custom markers without duplicates", () => {
+    const markers = getSelfTalkMarkers("openrouter", ["<user>", "  ", "STOP"])
+    expect(markers).toContain("[INST]")
+    expect(markers.filter((m) => m === "<user>")).toHaveLength(1)
+    expect(markers).toContain("STOP")
+    expect(markers).not.toContain("  ")
+  })
+})
+
+describe("summarizeSelfTalk", () => {
+  it("counts detections and markers per provider and model", () => {
+    const event = (provider: string, model: string | undefined, marker: string, detectedAt: number) => ({
+      provider,
+      model,
+      selfTalk: { marker, detectedAt },
+    })
+    const stats = summarizeSelfTalk([
+      event("ollama", "llama3.2", "<|eot_id|>", 1),
+      event("claude", undefined, "</assistant>", 2),
+      event("ollama", "llama3.2", "<|eot_id|>", 5),
+      event("ollama", "llama3.2", "[INST]", 3),
+    ])
+    expect(stats).toEqual([
+      {
+        provider: "ollama",
+        model: "llama3.2",
+        detections: 3,
+        markers: [
+          { marker: "<|eot_id|>", count: 2 },
+          { marker: "[INST]", count: 1 },
+        ],
+        lastDetectedAt: 5,
+      },
+      {
+        provider: "claude",
+        model: "unknown",
+        detections: 1,
+        markers: [{ marker: "</assistant>", count: 1 }],
+        lastDetectedAt: 2,
+      },
+    ])
+  })
+})
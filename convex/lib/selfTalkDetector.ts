@@ -5,13 +5,20 @@
  * is hallucinating conversation turns. Handles markers split across
  * multiple streaming chunks via a rolling tail buffer.
  *
- * Detected markers:
+ * Shared by every brainstorm stream: the Claude Agent SDK and server-side
+ * OpenRouter/Ollama actions, and the browser streams in useBrainstorm (this
+ * module has no Convex dependencies so the client can import it).
+ *
+ * Default markers (all providers):
  * - XML role tags: </assistant>, <assistant>, <user>, </user>, <system>, </system>
  * - Legacy training markers: ###Human:, ###Assistant:, \n\nHuman:, \n\nAssistant:
  * - Our new format markers (when appearing mid-response): \n\nUSER:\n
+ *
+ * Providers serving open-weight models add their chat-template turn tokens,
+ * and users can add their own markers in Settings.
  */
 
-const ROLE_MARKERS = [
+export const DEFAULT_SELF_TALK_MARKERS: readonly string[] = [
   "</assistant>",
   "<assistant>",
   "</user>",
@@ -23,10 +30,41 @@ const ROLE_MARKERS = [
   "\n\nHuman:",
   "\n\nAssistant:",
   "\n\nUSER:\n",
-] as const
+]
 
-// Longest marker is "</assistant>" = 12 chars
-const MAX_MARKER_LENGTH = Math.max(...ROLE_MARKERS.map((m) => m.length))
+// Chat-template turn tokens leaked as text by open-weight models (ChatML, Llama 3, Mistral, Gemma, Phi)
+const CHAT_TEMPLATE_MARKERS: readonly string[] = [
+  "<|im_start|>",
+  "<|im_end|>",
+  "<|start_header_id|>",
+  "<|eot_id|>",
+  "[INST]",
+  "<start_of_turn>",
+  "<|user|>",
+]
+
+/**
+ * Extra markers per provider, on top of DEFAULT_SELF_TALK_MARKERS.
+ * Claude and the Anthropic API only need the defaults.
+ */
+export const PROVIDER_SELF_TALK_MARKERS: Record<string, readonly string[]> = {
+  ollama: CHAT_TEMPLATE_MARKERS,
+  openrouter: CHAT_TEMPLATE_MARKERS,
+  "openai-compatible": CHAT_TEMPLATE_MARKERS,
+}
+
+/**
+ * Markers to watch for a provider's stream: the defaults, the provider's
+ * extras, then any user-configured markers (blank entries are ignored).
+ */
+export function getSelfTalkMarkers(provider: string, customMarkers: readonly string[] = []): string[] {
+  const markers = [
+    ...DEFAULT_SELF_TALK_MARKERS,
+    ...(PROVIDER_SELF_TALK_MARKERS[provider] ?? []),
+    ...customMarkers.filter((m) => m.trim() !== ""),
+  ]
+  return [...new Set(markers)]
+}
 
 export interface SelfTalkDetection {
   /** The marker that was detected */
@@ -40,35 +78,91 @@ export interface SelfTalkDetection {
 export class SelfTalkDetector {
   private tailBuffer = ""
   private totalLength = 0
+  private readonly markers: readonly string[]
+  private readonly maxMarkerLength: number
+
+  constructor(markers: readonly string[] = DEFAULT_SELF_TALK_MARKERS) {
+    this.markers = markers.filter((m) => m.length > 0)
+    this.maxMarkerLength = Math.max(0, ...this.markers.map((m) => m.length))
+  }
 
   /**
    * Feed a new text chunk to the detector.
    *
+   * The accumulated reply should be cut at `position` rather than built from
+   * `cleanText`: the start of a marker split across chunks was already fed.
+   *
    * @returns Detection info if a role marker was found, null otherwise
    */
   feed(chunk: string): SelfTalkDetection | null {
     // Combine tail buffer with new chunk for cross-boundary detection
     const searchWindow = this.tailBuffer + chunk
 
-    for (const marker of ROLE_MARKERS) {
+    // Earliest marker in the window wins
+    let found: { marker: string; idx: number } | null = null
+    for (const marker of this.markers) {
       const idx = searchWindow.indexOf(marker)
-      if (idx !== -1) {
-        // Calculate position in total text
-        const positionInTotal = this.totalLength - this.tailBuffer.length + idx
+      if (idx !== -1 && (!found || idx < found.idx)) {
+        found = { marker, idx }
+      }
+    }
 
-        // cleanText: the part of the current chunk before the marker
-        const markerStartInChunk = idx - this.tailBuffer.length
-        const cleanText = markerStartInChunk > 0 ? chunk.slice(0, markerStartInChunk) : ""
+    if (found) {
+      // Calculate position in total text
+      const position = this.totalLength - this.tailBuffer.length + found.idx
 
-        return { marker, cleanText, position: positionInTotal }
-      }
+      // cleanText: the part of the current chunk before the marker
+      const markerStartInChunk = found.idx - this.tailBuffer.length
+      const cleanText = markerStartInChunk > 0 ? chunk.slice(0, markerStartInChunk) : ""
+
+      return { marker: found.marker, cleanText, position }
     }
 
     // Update state
     this.totalLength += chunk.length
     // Keep only enough tail to catch markers split across chunks
-    this.tailBuffer = searchWindow.slice(-MAX_MARKER_LENGTH)
+    this.tailBuffer = this.maxMarkerLength > 0 ? searchWindow.slice(-this.maxMarkerLength) : ""
 
     return null
   }
 }
+
+/** Self-talk detections of one provider and model */
+export interface SelfTalkModelStats {
+  provider: string
+  model: string
+  detections: number
+  /** Most frequent first */
+  markers: Array<{ marker: string; count: number }>
+  lastDetectedAt: number
+}
+
+/**
+ * Count recorded self-talk detections per provider and model, most frequent first.
+ */
+export function summarizeSelfTalk(
+  events: Array<{ provider: string; model?: string; selfTalk: { marker: string; detectedAt: number } }>
+): SelfTalkModelStats[] {
+  const models = new Map<string, { stats: SelfTalkModelStats; markers: Map<string, number> }>()
+  for (const event of events) {
+    const model = event.model ?? "unknown"
+    const key = `${event.provider}\u0000${model}`
+    let entry = models.get(key)
+    if (!entry) {
+      entry = {
+        stats: { provider: event.provider, model, detections: 0, markers: [], lastDetectedAt: 0 },
+        markers: new Map(),
+      }
+      models.set(key, entry)
+    }
+    entry.stats.detections += 1
+    entry.stats.lastDetectedAt = Math.max(entry.stats.lastDetectedAt, event.selfTalk.detectedAt)
+    entry.markers.set(event.selfTalk.marker, (entry.markers.get(event.selfTalk.marker) ?? 0) + 1)
+  }
+  return [...models.values()]
+    .map(({ stats, markers }) => ({
+      ...stats,
+      markers: [...markers].map(([marker, count]) => ({ marker, count })).sort((a, b) => b.count - a.count),
+    }))
+    .sort((a, b) => b.detections - a.detections)
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest"
+import {
+  buildRepairPrompt,
+  checkStructuredReply,
+  extractJson,
+  formatStructuredValue,
+  parseResponseSchema,
+  parseStructuredValue,
+  validateJson,
+  type JsonSchema,
+} from "./structuredOutput"
+
+const decisionSchema: JsonSchema = {
+  title: "Design Decision",
+  type: "object",
+  required: ["title", "status", "options"],
+  additionalProperties: false,
+  properties: {
+    title: { type: "string", minLength: 3 },
+    status: { enum: ["proposed", "accepted", "rejected"] },
+    options: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        required: ["name"],
+        properties: { name: { type: "string" }, score: { type: "integer", minimum: 0, maximum: 10 } },
+      },
+    },
+  },
+}
+
+describe("parseResponseSchema", () => {
+  it("derives the native-mode name from the title", () => {
+    expect(parseResponseSchema(JSON.stringify(decisionSchema)).name).toBe("design_decision")
+    expect(parseResponseSchema('{"type": "object"}').name).toBe("structured_output")
+  })
+
+  it("rejects text that isn't a schema object", () => {
+    expect(() => parseResponseSchema("{type: object}")).toThrow(/not valid JSON/)
+    expect(() => parseResponseSchema("[1, 2]")).toThrow(/must be a JSON object/)
+    expect(() => parseResponseSchema('{"type": "map"}')).toThrow(/Unknown schema type/)
+  })
+})
+
+describe("validateJson", () => {
+  it("accepts a conforming value", () => {
+    const value = { title: "Storage", status: "accepted", options: [{ name: "Convex", score: 8 }] }
+    expect(validateJson(value, decisionSchema)).toEqual([])
+  })
+
+  it("reports each problem with its path", () => {
+    const value = { title: "DB", status: "maybe", options: [{ score: 11.5 }], extra: true }
+    expect(validateJson(value, decisionSchema)).toEqual([
+      "$.title: must be at least 3 characters",
+      '$.status: must be one of "proposed", "accepted", "rejected"',
+      '$.options[0]: missing required property "name"',
+      "$.options[0].score: expected integer, got number",
+      "$.extra: property is not allowed",
+    ])
+  })
+
+  it("stops at a type mismatch instead of checking the wrong shape", () => {
+    expect(validateJson("nope", decisionSchema)).toEqual(["$: expected object, got string"])
+    expect(validateJson(3, { type: "number" })).toEqual([])
+  })
+})
+
+describe("extractJson", () => {
+  it("reads bare JSON, fenced JSON and JSON wrapped in prose", () => {
+    expect(extractJson('{"a": 1}')).toEqual({ value: { a: 1 } })
+    expect(extractJson('```json\n{"a": 1}\n```')).toEqual({ value: { a: 1 } })
+    expect(extractJson('Here you go:\n{"a": [1, 2]}\nHope that helps!')).toEqual({ value: { a: [1, 2] } })
+  })
+
+  it("explains why nothing could be parsed", () => {
+    expect(extractJson("No structure here")).toEqual({ error: "Reply contains no JSON" })
+    expect(extractJson('{"a": }')).toEqual({ error: expect.stringMatching(/^Reply is not valid JSON/) })
+  })
+})
+
+describe("checkStructuredReply", () => {
+  it("combines extraction and validation", () => {
+    expect(checkStructuredReply('{"title": "Queue", "status": "proposed", "options": [{"name": "SQS"}]}', decisionSchema))
+      .toEqual({ ok: true, value: { title: "Queue", status: "proposed", options: [{ name: "SQS" }] } })
+    expect(checkStructuredReply("Sorry, I can't.", decisionSchema))
+      .toEqual({ ok: false, errors: ["Reply contains no JSON"] })
+  })
+
+  it("feeds its errors into a repair prompt", () => {
+    const check = checkStructuredReply('{"title": "Queue"}', decisionSchema)
+    expect(check.ok).toBe(false)
+    const prompt = buildRepairPrompt(check.ok ? [] : check.errors)
+    expect(prompt).toContain('- $: missing required property "status"')
+    expect(prompt).toContain("ONLY the corrected JSON value")
+  })
+})
+
+describe("formatStructuredValue / parseStructuredValue", () => {
+  it("round-trips objects and arrays through a json fence", () => {
+    const value = { title: "Queue", options: [{ name: "SQS" }] }
+    expect(parseStructuredValue(formatStructuredValue(value))).toEqual(value)
+    expect(parseStructuredValue(formatStructuredValue([1, 2]))).toEqual([1, 2])
+  })
+
+  it("ignores replies that are more than a single fence", () => {
+    expect(parseStructuredValue('Intro\n```json\n{"a": 1}\n```')).toBeUndefined()
+    expect(parseStructuredValue("```json\n42\n```")).toBeUndefined()
+    expect(parseStructuredValue('```ts\n{"a": 1}\n```')).toBeUndefined()
+  })
+})
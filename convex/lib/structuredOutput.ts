@@ -0,0 +1,249 @@
+/**
+ * Structured (JSON) output: schema-guided prompts, JSON extraction, validation
+ * and repair prompts.
+ *
+ * Providers with a native JSON mode (OpenRouter and OpenAI-compatible
+ * `response_format`, Ollama `format`) get the schema in the request; the
+ * others get it in the system prompt. Either way the reply is validated here
+ * and a failing reply is sent back with its errors for another attempt.
+ *
+ * Validation covers the subset of JSON Schema that design artifacts use:
+ * type, properties, required, additionalProperties, items, enum, const and
+ * the basic length/range bounds. Unknown keywords are ignored.
+ *
+ * Shared by the brainstorm generation actions, memory drafting and the
+ * browser (this module has no Convex dependencies so the client can import it).
+ */
+
+export type JsonSchemaType = "object" | "array" | "string" | "number" | "integer" | "boolean" | "null"
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[]
+  title?: string
+  description?: string
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  items?: JsonSchema
+  enum?: unknown[]
+  const?: unknown
+  minItems?: number
+  maxItems?: number
+  minLength?: number
+  maxLength?: number
+  minimum?: number
+  maximum?: number
+}
+
+/** A schema with the name native JSON modes require */
+export interface ResponseSchema {
+  name: string
+  schema: JsonSchema
+}
+
+/** Repair attempts after the first reply before giving up */
+export const MAX_STRUCTURED_REPAIRS = 2
+
+const SCHEMA_TYPES: readonly JsonSchemaType[] = ["object", "array", "string", "number", "integer", "boolean", "null"]
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+/**
+ * Name for native JSON modes, from the schema title ("Design Decision" → "design_decision").
+ */
+export function responseSchemaName(schema: JsonSchema): string {
+  const name = (schema.title ?? "").toLowerCase().replace(/[^a-z0-9_-]+/g, "_").replace(/^_+|_+$/g, "")
+  return name.slice(0, 64) || "structured_output"
+}
+
+/**
+ * Parse a user-supplied JSON Schema. Throws with a readable message when the
+ * text isn't JSON or isn't a schema object.
+ */
+export function parseResponseSchema(text: string): ResponseSchema {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch (err) {
+    throw new Error(`Schema is not valid JSON: ${err instanceof Error ? err.message : String(err)}`)
+  }
+  if (!isPlainObject(parsed)) {
+    throw new Error("Schema must be a JSON object")
+  }
+  const types = parsed.type === undefined ? [] : Array.isArray(parsed.type) ? parsed.type : [parsed.type]
+  const unknownType = types.find((t) => !SCHEMA_TYPES.includes(t as JsonSchemaType))
+  if (unknownType !== undefined) {
+    throw new Error(`Unknown schema type: ${JSON.stringify(unknownType)}`)
+  }
+  const schema = parsed as JsonSchema
+  return { name: responseSchemaName(schema), schema }
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number"
+  if (typeof value === "object") return "object"
+  return typeof value as JsonSchemaType
+}
+
+function matchesType(value: unknown, type: JsonSchemaType): boolean {
+  const actual = typeOf(value)
+  return actual === type || (type === "number" && actual === "integer")
+}
+
+/**
+ * Validate a value against a schema. Returns one message per problem, each
+ * prefixed with the JSONPath of the offending value; empty when it's valid.
+ */
+export function validateJson(value: unknown, schema: JsonSchema, path = "$"): string[] {
+  const errors: string[] = []
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type]
+    if (!types.some((t) => matchesType(value, t))) {
+      return [`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`]
+    }
+  }
+  if (schema.const !== undefined && JSON.stringify(value) !== JSON.stringify(schema.const)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`)
+  }
+  if (schema.enum && !schema.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((o) => JSON.stringify(o)).join(", ")}`)
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`)
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`)
+    }
+  }
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be ≥ ${schema.minimum}`)
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be ≤ ${schema.maximum}`)
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`)
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`)
+    }
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateJson(item, schema.items!, `${path}[${i}]`)))
+    }
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) errors.push(`${path}: missing required property "${key}"`)
+    }
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = `${path}.${key}`
+      const propertySchema = schema.properties?.[key]
+      if (propertySchema) {
+        errors.push(...validateJson(child, propertySchema, childPath))
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${childPath}: property is not allowed`)
+      } else if (isPlainObject(schema.additionalProperties)) {
+        errors.push(...validateJson(child, schema.additionalProperties, childPath))
+      }
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Pull a JSON value out of a reply: the whole reply, a ```json fence, or the
+ * outermost object/array when the model wrapped it in prose.
+ */
+export function extractJson(text: string): { value: unknown } | { error: string } {
+  const candidates: string[] = [text.trim()]
+  const fence = text.match(/```(?:json)?\s*\n([\s\S]*?)\n?```/)
+  if (fence) candidates.push(fence[1].trim())
+  const start = text.search(/[[{]/)
+  if (start !== -1) {
+    const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"))
+    if (end > start) candidates.push(text.slice(start, end + 1))
+  }
+
+  let error: string | undefined
+  for (const candidate of candidates) {
+    if (!candidate) continue
+    try {
+      return { value: JSON.parse(candidate) }
+    } catch (err) {
+      error = `Reply is not valid JSON: ${err instanceof Error ? err.message : String(err)}`
+    }
+  }
+  // Plain prose: only the whole reply was tried, and it was never meant as JSON
+  return { error: candidates.length > 1 && error ? error : "Reply contains no JSON" }
+}
+
+export type StructuredReplyCheck =
+  | { ok: true; value: unknown }
+  | { ok: false; errors: string[] }
+
+/**
+ * Extract and validate a reply against the schema.
+ */
+export function checkStructuredReply(text: string, schema: JsonSchema): StructuredReplyCheck {
+  const extracted = extractJson(text)
+  if ("error" in extracted) {
+    return { ok: false, errors: [extracted.error] }
+  }
+  const errors = validateJson(extracted.value, schema)
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: extracted.value }
+}
+
+/**
+ * System prompt addition for providers without a native JSON mode.
+ */
+export function buildSchemaInstruction(schema: JsonSchema): string {
+  return `\n\nRespond with ONLY a JSON value that conforms to this JSON Schema — no markdown fences, no explanation before or after:\n${JSON.stringify(schema, null, 2)}`
+}
+
+// Long error lists don't help the model more than the first few
+const MAX_REPAIR_ERRORS = 10
+
+/**
+ * Follow-up turn asking the model to fix a reply that failed validation.
+ */
+export function buildRepairPrompt(errors: string[]): string {
+  const listed = errors.slice(0, MAX_REPAIR_ERRORS).map((e) => `- ${e}`)
+  if (errors.length > MAX_REPAIR_ERRORS) {
+    listed.push(`- …and ${errors.length - MAX_REPAIR_ERRORS} more`)
+  }
+  return `Your previous reply did not match the required JSON Schema:\n${listed.join("\n")}\n\nReply again with ONLY the corrected JSON value.`
+}
+
+/**
+ * Store a validated value as a reply: pretty-printed in a ```json fence.
+ */
+export function formatStructuredValue(value: unknown): string {
+  return "```json\n" + JSON.stringify(value, null, 2) + "\n```"
+}
+
+/**
+ * The value of a reply that is exactly one ```json fence holding an object or
+ * array (as formatStructuredValue writes it); undefined for anything else.
+ */
+export function parseStructuredValue(content: string): Record<string, unknown> | unknown[] | undefined {
+  const match = content.trim().match(/^```json\s*\n([\s\S]*?)\n?```$/)
+  if (!match) return undefined
+  try {
+    const value: unknown = JSON.parse(match[1])
+    return isPlainObject(value) || Array.isArray(value) ? value : undefined
+  } catch {
+    return undefined
+  }
+}
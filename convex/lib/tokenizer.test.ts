@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest"
+import { countTokens, countTokensBatch, getTokenModel, resolveTokenizer } from "./tokenizer"
+
+const sample = "The quick brown fox jumps over the lazy dog. ".repeat(20)
+
+describe("resolveTokenizer", () => {
+  it("maps model families to tokenizers", () => {
+    expect(resolveTokenizer("claude-sonnet-4-5-20250929")).toBe("claude-approx")
+    expect(resolveTokenizer("anthropic/claude-opus-4")).toBe("claude-approx")
+    expect(resolveTokenizer("meta-llama/llama-3.3-70b-instruct")).toBe("llama-approx")
+    expect(resolveTokenizer("llama3.2")).toBe("llama-approx")
+    expect(resolveTokenizer("openai/gpt-4o-mini")).toBe("o200k_base")
+    expect(resolveTokenizer("gpt-4.1")).toBe("o200k_base")
+    expect(resolveTokenizer("o3-mini")).toBe("o200k_base")
+    expect(resolveTokenizer("gpt-4-turbo")).toBe("cl100k_base")
+    expect(resolveTokenizer("text-davinci-003")).toBe("p50k_base")
+  })
+
+  it("defaults to cl100k_base for unknown or missing models", () => {
+    expect(resolveTokenizer(undefined)).toBe("cl100k_base")
+    expect(resolveTokenizer("mistral-large")).toBe("cl100k_base")
+  })
+
+  it("resolves tokenizer ids to themselves", () => {
+    expect(resolveTokenizer("claude-approx")).toBe("claude-approx")
+    expect(getTokenModel("o200k_base")).toBe("o200k_base")
+  })
+})
+
+describe("countTokens", () => {
+  it("scales approximations from the cl100k count", () => {
+    const base = countTokens(sample)
+    expect(countTokens(sample, "claude-sonnet-4-5")).toBe(Math.ceil(base * 1.15))
+    expect(countTokens(sample, "llama3.2")).toBe(Math.ceil(base * 0.97))
+  })
+
+  it("uses the o200k encoding for newer OpenAI models", () => {
+    expect(countTokens("Hello, world!", "gpt-4o")).toBe(4)
+  })
+
+  it("counts batches with the same tokenizer", () => {
+    expect(countTokensBatch(["a b c", sample], "claude")).toEqual([
+      countTokens("a b c", "claude"),
+      countTokens(sample, "claude"),
+    ])
+  })
+})
@@ -1,51 +1,104 @@
 import { getEncoding, type Tiktoken } from "js-tiktoken"
-
-// Cache encodings to avoid repeated initialization
-const encodingCache = new Map<string, Tiktoken>()
+import type { MutationCtx, QueryCtx } from "../_generated/server"
+import type { Id } from "../_generated/dataModel"
 
 /**
- * Get token count for text using appropriate encoding.
+ * Tokenizer registry.
  *
- * Uses cl100k_base encoding which is used by:
- * - GPT-4, GPT-4 Turbo
- * - GPT-3.5 Turbo
- * - Claude models (approximate, but close enough)
+ * Each session counts tokens with the tokenizer for its active model
+ * (sessions.activeModel). The id is stored on blocks as `tokenModel`, so a
+ * model switch can recount only the blocks counted with another tokenizer.
  *
- * @param text - Text to count tokens for
- * @param model - Optional model name (currently all map to cl100k_base)
- * @returns Token count
+ * OpenAI models use their exact tiktoken encodings. Claude and Llama don't
+ * publish tokenizers we can run here, so they're approximated by scaling a
+ * tiktoken count with a ratio calibrated on mixed English prose and code.
  */
-export function countTokens(text: string, model?: string): number {
-  const encodingName = getEncodingForModel(model)
 
-  let encoding = encodingCache.get(encodingName)
+type Encoding = "o200k_base" | "cl100k_base" | "p50k_base"
+
+export type TokenizerId =
+  | "o200k_base"
+  | "cl100k_base"
+  | "p50k_base"
+  | "claude-approx"
+  | "llama-approx"
+
+interface TokenizerSpec {
+  /** tiktoken encoding the count is based on */
+  encoding: Encoding
+  /** Multiplier applied to the encoding's count (1 = exact) */
+  ratio: number
+  label: string
+}
+
+export const TOKENIZERS: Record<TokenizerId, TokenizerSpec> = {
+  o200k_base: { encoding: "o200k_base", ratio: 1, label: "o200k (GPT-4o and newer)" },
+  cl100k_base: { encoding: "cl100k_base", ratio: 1, label: "cl100k (GPT-4, GPT-3.5)" },
+  p50k_base: { encoding: "p50k_base", ratio: 1, label: "p50k (legacy GPT-3)" },
+  // Claude 3+ tokenizes ~15% more tokens than cl100k for the same text
+  "claude-approx": { encoding: "cl100k_base", ratio: 1.15, label: "Claude (approximate)" },
+  // Llama 3's 128K vocabulary lands slightly under cl100k
+  "llama-approx": { encoding: "cl100k_base", ratio: 0.97, label: "Llama (approximate)" },
+}
+
+// Default encoding for export
+export const DEFAULT_TOKEN_MODEL: TokenizerId = "cl100k_base"
+
+// Cache encodings to avoid repeated initialization
+const encodingCache = new Map<Encoding, Tiktoken>()
+
+function getCachedEncoding(name: Encoding): Tiktoken {
+  let encoding = encodingCache.get(name)
   if (!encoding) {
-    encoding = getEncoding(encodingName)
-    encodingCache.set(encodingName, encoding)
+    encoding = getEncoding(name)
+    encodingCache.set(name, encoding)
   }
+  return encoding
+}
 
-  return encoding.encode(text).length
+function isTokenizerId(value: string): value is TokenizerId {
+  return value in TOKENIZERS
 }
 
 /**
- * Map model names to tiktoken encodings.
- * Currently all models use cl100k_base for simplicity.
+ * Pick the tokenizer for a model name (bare or OpenRouter-style "vendor/model").
+ * Also accepts a tokenizer id, so stored `tokenModel` values resolve to themselves.
  */
-function getEncodingForModel(model?: string): "cl100k_base" | "p50k_base" | "r50k_base" {
-  if (!model) return "cl100k_base"
+export function resolveTokenizer(model?: string | null): TokenizerId {
+  if (!model) return DEFAULT_TOKEN_MODEL
+  if (isTokenizerId(model)) return model
 
-  // Claude models - use cl100k_base (close approximation)
-  if (model.includes("claude")) return "cl100k_base"
+  const name = model.toLowerCase()
 
-  // GPT-4 and GPT-3.5 Turbo
-  if (model.includes("gpt-4")) return "cl100k_base"
-  if (model.includes("gpt-3.5")) return "cl100k_base"
+  if (name.includes("claude")) return "claude-approx"
+  if (name.includes("llama")) return "llama-approx"
+
+  // GPT-4o, GPT-4.1, GPT-5 and the o-series reasoning models
+  if (/gpt-4o|gpt-4\.1|gpt-5|chatgpt-4o|(^|\/)o[134](-|$)/.test(name)) return "o200k_base"
+  if (name.includes("gpt-4") || name.includes("gpt-3.5")) return "cl100k_base"
 
   // Older models (GPT-3, Codex)
-  if (model.includes("davinci") || model.includes("curie")) return "p50k_base"
+  if (name.includes("davinci") || name.includes("curie")) return "p50k_base"
 
   // Default to cl100k_base (modern encoding)
-  return "cl100k_base"
+  return DEFAULT_TOKEN_MODEL
+}
+
+function countWith(text: string, tokenizer: TokenizerId): number {
+  const spec = TOKENIZERS[tokenizer]
+  const count = getCachedEncoding(spec.encoding).encode(text).length
+  return spec.ratio === 1 ? count : Math.ceil(count * spec.ratio)
+}
+
+/**
+ * Get token count for text using the tokenizer for a model.
+ *
+ * @param text - Text to count tokens for
+ * @param model - Model name or tokenizer id (defaults to cl100k_base)
+ * @returns Token count
+ */
+export function countTokens(text: string, model?: string | null): number {
+  return countWith(text, resolveTokenizer(model))
 }
 
 /**
@@ -59,28 +112,29 @@ export function estimateTokens(text: string): number {
 }
 
 /**
- * Get the encoding name used for a model.
- * Useful for storing which encoding was used.
+ * Get the tokenizer id used for a model.
+ * Useful for storing which tokenizer was used.
  */
-export function getTokenModel(model?: string): string {
-  return getEncodingForModel(model)
+export function getTokenModel(model?: string | null): TokenizerId {
+  return resolveTokenizer(model)
 }
 
 /**
  * Count tokens for multiple texts efficiently.
  * Reuses the same encoding instance.
  */
-export function countTokensBatch(texts: string[], model?: string): number[] {
-  const encodingName = getEncodingForModel(model)
-
-  let encoding = encodingCache.get(encodingName)
-  if (!encoding) {
-    encoding = getEncoding(encodingName)
-    encodingCache.set(encodingName, encoding)
-  }
-
-  return texts.map((text) => encoding!.encode(text).length)
+export function countTokensBatch(texts: string[], model?: string | null): number[] {
+  const tokenizer = resolveTokenizer(model)
+  return texts.map((text) => countWith(text, tokenizer))
 }
 
-// Default encoding for export
-export const DEFAULT_TOKEN_MODEL = "cl100k_base"
+/**
+ * Tokenizer for a session's active model.
+ */
+export async function getSessionTokenModel(
+  ctx: QueryCtx | MutationCtx,
+  sessionId: Id<"sessions">
+): Promise<TokenizerId> {
+  const session = await ctx.db.get(sessionId)
+  return resolveTokenizer(session?.activeModel)
+}
@@ -70,3 +70,65 @@ export type BlockType =
   | "persona"
   | "framework"
   | "skill"
+
+/**
+ * Per-zone token budgets for a session (defaults in metrics.ts DEFAULT_BUDGETS).
+ */
+export const budgetsValidator = v.object({
+  permanent: v.number(), // Default: 30000
+  stable: v.number(), // Default: 50000
+  working: v.number(), // Default: 40000
+  total: v.number(), // Default: 150000
+})
+
+/**
+ * Session budget policy, run before each brainstorm send while WORKING or the
+ * total is over budget (see src/lib/budgetPolicy.ts). Pinned blocks are never touched.
+ */
+export const budgetPolicyValidator = v.object({
+  compressAboveTokens: v.optional(v.number()), // Compress the oldest WORKING blocks of at least this size
+  draftAfterHours: v.optional(v.number()), // Move WORKING blocks unchanged for this long to draft
+  askBeforeEach: v.boolean(), // Confirm each action instead of applying it
+})
+
+/**
+ * Project spending caps (see lib/costLedger.ts).
+ * Soft cap warns, hard cap refuses new generations, within the current UTC day or month.
+ */
+export const costCapsValidator = v.object({
+  period: v.union(v.literal("day"), v.literal("month")),
+  softUsd: v.optional(v.number()),
+  hardUsd: v.optional(v.number()),
+})
+
+/**
+ * Self-talk detection recorded on a generation (see lib/selfTalkDetector.ts).
+ * The reply was truncated at `position`, where the role marker started.
+ */
+export const selfTalkEventValidator = v.object({
+  marker: v.string(),
+  position: v.number(),
+  detectedAt: v.number(),
+})
+
+/**
+ * Context a brainstorm reply was generated with (see src/lib/contextManifest.ts).
+ * Ids are kept as strings: the blocks and memory entries may since have been deleted.
+ */
+export const contextManifestValidator = v.object({
+  blocks: v.array(
+    v.object({
+      id: v.string(),
+      zone: v.string(),
+      type: v.string(),
+      contentHash: v.string(),
+      tokens: v.optional(v.number()),
+    })
+  ),
+  memoryEntryIds: v.array(v.string()),
+  skills: v.array(v.string()),
+  provider: v.string(),
+  model: v.optional(v.string()),
+  mode: v.union(v.literal("brainstorm"), v.literal("validation")),
+  createdAt: v.number(),
+})
@@ -2,22 +2,20 @@
 
 import { v } from "convex/values"
 import { action } from "./_generated/server"
-import { internal } from "./_generated/api"
-import { query as claudeQuery } from "@anthropic-ai/claude-agent-sdk"
-import { getClaudeCodePath } from "./claudeNode"
+import { api, internal } from "./_generated/api"
+import { agentQuery, getClaudeCodePath } from "./claudeNode"
+import { buildMemoryDraftPrompt, memoryDraftSchema, parseMemoryDraft, type MemoryDraft } from "./lib/memoryDraft"
+import { buildSchemaInstruction } from "./lib/structuredOutput"
+import { recordActionCost, requireActionBudget } from "./lib/costLedger"
 
 export const draftMemoryEntry = action({
   args: {
     projectId: v.id("projects"),
+    // Session the text comes from; the draft is checked against and billed to its project budget
+    sessionId: v.id("sessions"),
     selectedText: v.string(),
   },
-  handler: async (ctx, args): Promise<{
-    type: string
-    title: string
-    content: string
-    tags: string[]
-    duplicateWarning?: string
-  }> => {
+  handler: async (ctx, args): Promise<MemoryDraft> => {
     const schema = await ctx.runQuery(internal.memorySchemas.getByProjectInternal, {
       projectId: args.projectId,
     })
@@ -29,42 +27,24 @@ export const draftMemoryEntry = action({
       throw new Error("No memory schema configured for this project")
     }
 
-    const typesDescription = schema.types
-      .map((t: { name: string; icon: string }) => `- ${t.name} (${t.icon}): use for ${t.name}-related knowledge`)
-      .join("\n")
-
-    const existingEntriesText = entries.length > 0
-      ? entries.map((e: { type: string; title: string; content: string; tags: string[] }) =>
-          `[${e.type}] "${e.title}" — ${e.content}\n  Tags: ${e.tags.join(", ")}`
-        ).join("\n\n")
-      : "(no existing entries)"
-
-    const systemPrompt = `You are a memory entry drafting assistant. Given selected text from a conversation, create a structured memory entry for the project's knowledge base.
-
-Available memory types:
-${typesDescription}
-
-Existing entries:
-${existingEntriesText}
-
-Rules:
-- Pick the most appropriate type from the available types
-- Write a concise, specific title (not just the first line of the selection)
-- Distill the content — extract the insight, don't just copy the text verbatim
-- Reuse existing tags where they fit. Use lowercase, #-prefixed tags
-- If a very similar entry already exists, include a duplicateWarning suggesting the user update that entry instead
-
-Respond with ONLY valid JSON (no markdown, no explanation):
-{"type": "...", "title": "...", "content": "...", "tags": ["#...", "#..."], "duplicateWarning": "..." or null}`
+    const session = await ctx.runQuery(api.sessions.get, { id: args.sessionId })
+    if (!session || session.projectId !== args.projectId) {
+      throw new Error("Session not found")
+    }
+    await requireActionBudget(ctx, args.sessionId)
 
-    const prompt = `Draft a memory entry from this selected text:\n\n${args.selectedText}`
+    const { systemPrompt, prompt } = buildMemoryDraftPrompt(schema.types, entries, args.selectedText)
 
     let responseText = ""
+    let inputTokens: number | undefined
+    let outputTokens: number | undefined
+    let costUsd: number | undefined
 
-    for await (const message of claudeQuery({
+    for await (const message of agentQuery({
       prompt,
       options: {
-        systemPrompt,
+        // The SDK has no JSON mode, so the schema goes in the prompt
+        systemPrompt: systemPrompt + buildSchemaInstruction(memoryDraftSchema(schema.types)),
         allowedTools: [],
         maxTurns: 1,
         maxBudgetUsd: 0.05,
@@ -82,25 +62,16 @@ Respond with ONLY valid JSON (no markdown, no explanation):
           .map((block) => block.text as string)
           .join("")
       }
-    }
-
-    try {
-      const cleaned = responseText.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim()
-      const parsed = JSON.parse(cleaned)
-      return {
-        type: parsed.type ?? schema.types[0]?.name ?? "note",
-        title: parsed.title ?? "Untitled",
-        content: parsed.content ?? args.selectedText,
-        tags: Array.isArray(parsed.tags) ? parsed.tags : [],
-        duplicateWarning: parsed.duplicateWarning ?? undefined,
-      }
-    } catch {
-      return {
-        type: schema.types[0]?.name ?? "note",
-        title: args.selectedText.slice(0, 60).split("\n")[0],
-        content: args.selectedText,
-        tags: [],
+      if (msgType === "result") {
+        const msg = message as Record<string, unknown>
+        const usage = msg.usage as Record<string, unknown> | undefined
+        inputTokens = usage?.input_tokens as number | undefined
+        outputTokens = usage?.output_tokens as number | undefined
+        costUsd = msg.total_cost_usd as number | undefined
       }
     }
+    await recordActionCost(ctx, { sessionId: args.sessionId, provider: "claude", inputTokens, outputTokens, costUsd })
+
+    return parseMemoryDraft(responseText, args.selectedText, schema.types)
   },
 })
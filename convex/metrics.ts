@@ -4,7 +4,8 @@ import { countTokens } from "./lib/tokenizer"
 import { canAccessSession } from "./lib/auth"
 
 // Default budgets — 150K total to stay within Claude Code's effective context
-// window (~160K usable of 200K, minus compaction buffer and response space)
+// window (~160K usable of 200K, minus compaction buffer and response space).
+// Sessions can replace them with presets sized to their model (src/lib/llm/modelCatalog.ts).
 export const DEFAULT_BUDGETS = {
   permanent: 30_000,
   stable: 50_000,
@@ -67,7 +68,7 @@ export const getZoneMetrics = query({
     for (const block of blocks) {
       const zone = block.zone as keyof typeof zones
       // Use stored tokens, or count if not yet stored (backwards compat)
-      const tokens = block.tokens ?? countTokens(block.content)
+      const tokens = block.tokens ?? countTokens(block.content, session.activeModel)
 
       zones[zone].blocks++
       // Draft and validation blocks don't count toward token budgets
@@ -138,7 +139,7 @@ export const checkBudget = query({
       .collect()
 
     const currentTokens = blocks.reduce(
-      (sum, block) => isExcludedFromBudget(block) ? sum : sum + (block.tokens ?? countTokens(block.content)),
+      (sum, block) => isExcludedFromBudget(block) ? sum : sum + (block.tokens ?? countTokens(block.content, session.activeModel)),
       0
     )
 
@@ -169,9 +170,10 @@ export const checkBudget = query({
 export const estimateTokens = query({
   args: {
     content: v.string(),
+    model: v.optional(v.string()), // Model or tokenizer id (defaults to cl100k_base)
   },
   handler: async (_ctx, args) => {
-    const tokens = countTokens(args.content)
+    const tokens = countTokens(args.content, args.model)
     return { tokens }
   },
 })
@@ -215,7 +217,7 @@ export const getBudgetStatus = query({
 
     for (const block of blocks) {
       if (isExcludedFromBudget(block)) continue
-      const tokens = block.tokens ?? countTokens(block.content)
+      const tokens = block.tokens ?? countTokens(block.content, session.activeModel)
       zoneTotals[block.zone] = (zoneTotals[block.zone] ?? 0) + tokens
     }
 
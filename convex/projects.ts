@@ -13,6 +13,7 @@ import {
   requireSessionAccess,
   canAccessTemplate,
 } from "./lib/auth"
+import { costCapsValidator } from "./lib/validators"
 
 /**
  * List all projects for the current user.
@@ -145,6 +146,25 @@ export const update = mutation({
   },
 })
 
+/**
+ * Set or clear the project's spending caps.
+ * Omitting costCaps removes them.
+ */
+export const setCostCaps = mutation({
+  args: {
+    id: v.id("projects"),
+    costCaps: v.optional(costCapsValidator),
+  },
+  handler: async (ctx, args) => {
+    const hasAccess = await canAccessProject(ctx, args.id)
+    if (!hasAccess) {
+      throw new Error("Project not found or access denied")
+    }
+
+    await ctx.db.patch(args.id, { costCaps: args.costCaps, updatedAt: Date.now() })
+  },
+})
+
 /**
  * Delete a project.
  * Note: Does not delete associated sessions - they become "orphaned".
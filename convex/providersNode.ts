@@ -0,0 +1,292 @@
+"use node"
+
+/**
+ * Server-side OpenRouter and Ollama generations.
+ *
+ * Streams into the generations table the same way Claude Code does
+ * (claudeNode.streamBrainstormMessage), so the reply keeps generating after
+ * the tab closes and lands with usage and cost.
+ *
+ * Environment variables:
+ * - OPENROUTER_API_KEY: Enables server-side OpenRouter
+ * - OPENROUTER_MODEL: Default OpenRouter model (optional, defaults to DEFAULT_OPENROUTER_MODEL)
+ * - OLLAMA_URL: Ollama server reachable from the Convex backend; enables server-side Ollama
+ * - OLLAMA_MODEL: Default Ollama model (optional, defaults to DEFAULT_OLLAMA_MODEL)
+ */
+
+import { internalAction } from "./_generated/server"
+import { internal } from "./_generated/api"
+import { v } from "convex/values"
+import { assembleContextWithConversation } from "./lib/context"
+import { buildBrainstormSystemPrompt, loadBrainstormContext } from "./lib/brainstormContext"
+import { parseResponseSchema } from "./lib/structuredOutput"
+import { SelfTalkDetector, getSelfTalkMarkers } from "./lib/selfTalkDetector"
+import { getActiveSkillsContent } from "./lib/skills"
+import { createGeneration, flushLangfuse } from "./lib/langfuse"
+import { recordActionCost } from "./lib/costLedger"
+import {
+  fetchOpenRouterPricing,
+  streamOllama,
+  streamOpenRouter,
+  type ServerChatMessage,
+  type ServerStreamResult,
+} from "./lib/providerStreams"
+
+const DEFAULT_OPENROUTER_MODEL = "anthropic/claude-sonnet-4.5"
+const DEFAULT_OLLAMA_MODEL = "llama3.2"
+
+// ~4 chars per token, for streams stopped before the provider reports usage
+const estimateTokens = (text: string) => Math.ceil(text.length / 4)
+
+/**
+ * Usage of a stream stopped early (self-talk or cancelled), from estimated
+ * token counts. OpenRouter bills everything streamed so far, priced from its
+ * model list; Ollama is free.
+ */
+async function estimateStoppedUsage(
+  messages: ServerChatMessage[],
+  generatedText: string,
+  model: string,
+  openRouterApiKey: string | undefined
+): Promise<ServerStreamResult> {
+  const promptTokens = messages.reduce((sum, m) => sum + estimateTokens(m.content), 0)
+  const completionTokens = estimateTokens(generatedText)
+  let costUsd: number | undefined = 0
+  if (openRouterApiKey) {
+    const pricing = await fetchOpenRouterPricing(openRouterApiKey, model).catch(() => null)
+    costUsd = pricing ? promptTokens * pricing.prompt + completionTokens * pricing.completion : undefined
+  }
+  return { text: generatedText, promptTokens, completionTokens, costUsd, model }
+}
+
+/**
+ * Stream a brainstorm reply from OpenRouter or Ollama into a generation.
+ *
+ * Scheduled by startBrainstormGeneration when the client asks for a server-side
+ * run. Context assembly matches the Claude Code path: PERMANENT blocks and
+ * memory go in the system prompt, everything else in the messages.
+ */
+export const streamBrainstormMessage = internalAction({
+  args: {
+    generationId: v.id("generations"),
+    sessionId: v.id("sessions"),
+    provider: v.union(v.literal("openrouter"), v.literal("ollama")),
+    conversationHistory: v.array(
+      v.object({
+        role: v.union(v.literal("user"), v.literal("assistant")),
+        content: v.string(),
+      })
+    ),
+    newMessage: v.string(),
+    throttleMs: v.optional(v.number()),
+    disableAgentBehavior: v.optional(v.boolean()), // Append anti-agent suffix
+    preventSelfTalk: v.optional(v.boolean()), // Append anti-self-talk suffix
+    activeSkillIds: v.optional(v.array(v.string())), // Ephemeral skill IDs to inject
+    model: v.optional(v.string()), // Model override (defaults from the environment)
+    isValidation: v.optional(v.boolean()), // Validation mode — include validation criteria blocks + suffix
+    selfTalkMarkers: v.optional(v.array(v.string())), // User-configured markers, added to the defaults
+    snapshotId: v.optional(v.id("snapshots")), // Replay — use the snapshot's blocks instead of the session's
+    outputSchema: v.optional(v.string()), // Structured output — JSON Schema the reply must match
+  },
+  handler: async (ctx, args): Promise<void> => {
+    const throttleMs = args.throttleMs ?? 100
+    const startTime = Date.now()
+    const preventSelfTalk = args.preventSelfTalk ?? true
+    const isValidation = args.isValidation ?? false
+    const contextMode = isValidation ? "validation" as const : "brainstorm" as const
+    const label = args.provider === "openrouter" ? "OpenRouter" : "Ollama"
+
+    const { blocks, renderedMemory } = await loadBrainstormContext(ctx, args.sessionId, args.snapshotId)
+    // Both providers constrain structured output natively; the client validates the reply
+    const responseSchema = args.outputSchema ? parseResponseSchema(args.outputSchema) : undefined
+    const systemPrompt = buildBrainstormSystemPrompt(blocks, renderedMemory, {
+      disableAgentBehavior: args.disableAgentBehavior ?? true,
+      preventSelfTalk,
+      isValidation,
+    })
+
+    const activeSkillsContent = args.activeSkillIds?.length
+      ? getActiveSkillsContent(args.activeSkillIds)
+      : undefined
+    const contextMessages = assembleContextWithConversation(
+      blocks,
+      args.conversationHistory,
+      args.newMessage,
+      activeSkillsContent,
+      contextMode
+    )
+    const messages: ServerChatMessage[] = [
+      ...(systemPrompt ? [{ role: "system" as const, content: systemPrompt }] : []),
+      ...contextMessages.filter((m) => m.role !== "system"),
+    ]
+
+    const model = args.model ||
+      (args.provider === "openrouter"
+        ? process.env.OPENROUTER_MODEL || DEFAULT_OPENROUTER_MODEL
+        : process.env.OLLAMA_MODEL || DEFAULT_OLLAMA_MODEL)
+
+    const trace = createGeneration(
+      `${args.provider}-brainstorm`,
+      { sessionId: args.sessionId, provider: args.provider, model },
+      { systemPrompt, messages }
+    )
+
+    let buffer = ""
+    let fullText = ""
+    // Everything the model generated, including text cut for self-talk
+    let generatedText = ""
+    let lastFlush = Date.now()
+    let result: ServerStreamResult | undefined
+
+    const abortController = new AbortController()
+    const selfTalkDetector = preventSelfTalk
+      ? new SelfTalkDetector(getSelfTalkMarkers(args.provider, args.selfTalkMarkers))
+      : null
+    let selfTalk: { marker: string; position: number; detectedAt: number } | undefined
+
+    const isCancelled = async (): Promise<boolean> => {
+      const gen = await ctx.runQuery(internal.generations.getInternal, {
+        generationId: args.generationId,
+      })
+      return gen?.status === "cancelled"
+    }
+
+    const flushBuffer = async () => {
+      if (buffer.length > 0) {
+        await ctx.runMutation(internal.generations.appendChunk, {
+          generationId: args.generationId,
+          chunk: buffer,
+        })
+        buffer = ""
+        lastFlush = Date.now()
+      }
+    }
+
+    const openRouterApiKey = args.provider === "openrouter" ? process.env.OPENROUTER_API_KEY : undefined
+
+    try {
+      let stream: AsyncGenerator<string, ServerStreamResult, unknown>
+      if (args.provider === "openrouter") {
+        const apiKey = openRouterApiKey
+        if (!apiKey) {
+          throw new Error("Server-side OpenRouter is not configured (OPENROUTER_API_KEY is not set)")
+        }
+        stream = streamOpenRouter(apiKey, messages, { model, signal: abortController.signal, responseSchema })
+      } else {
+        const baseUrl = process.env.OLLAMA_URL
+        if (!baseUrl) {
+          throw new Error("Server-side Ollama is not configured (OLLAMA_URL is not set)")
+        }
+        stream = streamOllama(baseUrl, messages, { model, signal: abortController.signal, responseSchema })
+      }
+
+      // Manual iteration to capture the return value (usage)
+      let next = await stream.next()
+      while (!next.done) {
+        const text = next.value
+        generatedText += text
+
+        if (selfTalkDetector) {
+          const detection = selfTalkDetector.feed(text)
+          if (detection) {
+            console.warn(
+              `[${label} Brainstorm] Self-talk detected: model generated "${detection.marker}" ` +
+              `at position ${detection.position}. Aborting stream.`
+            )
+            // Cut at the marker (part of a marker split across chunks may already be flushed)
+            buffer += detection.cleanText
+            fullText = (fullText + text).slice(0, detection.position)
+            selfTalk = { marker: detection.marker, position: detection.position, detectedAt: Date.now() }
+            abortController.abort()
+            break
+          }
+        }
+
+        buffer += text
+        fullText += text
+
+        // Throttle writes + check cancellation
+        if (Date.now() - lastFlush >= throttleMs) {
+          await flushBuffer()
+          if (await isCancelled()) {
+            abortController.abort()
+            break
+          }
+        }
+
+        next = await stream.next()
+      }
+      if (next.done) {
+        result = next.value
+      } else {
+        // Stopped early: close the stream; it ends without the provider's usage
+        await stream.return({ text: fullText }).catch(() => {})
+        result = await estimateStoppedUsage(messages, generatedText, model, openRouterApiKey)
+      }
+
+      await flushBuffer()
+
+      const durationMs = Date.now() - startTime
+      const output = {
+        text: fullText,
+        inputTokens: result?.promptTokens,
+        outputTokens: result?.completionTokens,
+        costUsd: result?.costUsd,
+        durationMs,
+        resolvedModel: result?.model,
+      }
+
+      if (await isCancelled()) {
+        // Cancelled generations aren't completed, so their cost is recorded here
+        await recordActionCost(ctx, {
+          sessionId: args.sessionId,
+          provider: args.provider,
+          model: output.resolvedModel ?? model,
+          inputTokens: output.inputTokens,
+          outputTokens: output.outputTokens,
+          costUsd: output.costUsd,
+        })
+        trace.complete(output)
+        await flushLangfuse()
+        return
+      }
+
+      await ctx.runMutation(internal.generations.completeWithUsage, {
+        generationId: args.generationId,
+        finalText: selfTalk ? fullText : undefined,
+        inputTokens: output.inputTokens,
+        outputTokens: output.outputTokens,
+        costUsd: output.costUsd,
+        durationMs,
+        model: output.resolvedModel ?? model,
+        selfTalk,
+      })
+
+      trace.complete(output)
+      await flushLangfuse()
+    } catch (error) {
+      // Aborted on cancellation — not a real error
+      if (error instanceof Error && error.name === "AbortError") {
+        await flushBuffer()
+        trace.complete({ text: fullText, durationMs: Date.now() - startTime })
+        await flushLangfuse()
+        return
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      console.error(`[${label} Brainstorm] Error: ${errorMessage}`)
+
+      // Flush any partial content
+      await flushBuffer()
+
+      // Stream errors already name the provider ("OpenRouter error: 401 ...")
+      await ctx.runMutation(internal.generations.fail, {
+        generationId: args.generationId,
+        error: errorMessage,
+      })
+
+      trace.error(errorMessage)
+      await flushLangfuse()
+    }
+  },
+})
@@ -2,6 +2,7 @@ import { mutation, internalMutation, query, internalQuery } from "./_generated/s
 import { api } from "./_generated/api"
 import { v } from "convex/values"
 import { canAccessSession, requireSessionAccess } from "./lib/auth"
+import { formatBudgetMessage, getSessionBudget } from "./lib/costLedger"
 
 /** Public query — returns the research block for a session (null if none). */
 export const getResearchBlock = query({
@@ -77,6 +78,12 @@ export const startResearch = mutation({
       throw new Error("Research is already in progress")
     }
 
+    // Refuse once the session's project is over its hard cap (usage is recorded on completion)
+    const budget = await getSessionBudget(ctx, args.sessionId)
+    if (budget?.state === "exceeded") {
+      throw new Error(formatBudgetMessage(budget))
+    }
+
     const now = Date.now()
     const generationId = await ctx.db.insert("generations", {
       sessionId: args.sessionId,
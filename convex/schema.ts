@@ -1,7 +1,15 @@
 import { defineSchema, defineTable } from "convex/server"
 import { v } from "convex/values"
 import { authTables } from "@convex-dev/auth/server"
-import { zoneValidator, marketplaceTypeValidator } from "./lib/validators"
+import {
+  zoneValidator,
+  marketplaceTypeValidator,
+  costCapsValidator,
+  budgetsValidator,
+  budgetPolicyValidator,
+  selfTalkEventValidator,
+  contextManifestValidator,
+} from "./lib/validators"
 
 // Shared validator for skill block metadata (used in blocks, templates, snapshots)
 const skillMetadataValidator = v.object({
@@ -31,20 +39,17 @@ export default defineSchema({
     createdAt: v.number(),
     updatedAt: v.number(),
     // Token budget configuration (optional, uses defaults if not set)
-    budgets: v.optional(
-      v.object({
-        permanent: v.number(), // Default: 30000
-        stable: v.number(), // Default: 50000
-        working: v.number(), // Default: 40000
-        total: v.number(), // Default: 150000
-      })
-    ),
+    budgets: v.optional(budgetsValidator),
+    // Auto-compress / draft policy for an over-budget WORKING zone (unset = off)
+    budgetPolicy: v.optional(budgetPolicyValidator),
     // System prompt for LLM interactions
     systemPrompt: v.optional(v.string()),
     // Claude Agent SDK session ID for resume (enables prompt caching)
     claudeSessionId: v.optional(v.string()),
     // Actual model resolved by the Claude SDK (e.g. "claude-sonnet-4-5-20250929")
     claudeResolvedModel: v.optional(v.string()),
+    // Model the session is brainstorming with; picks the tokenizer for block counts
+    activeModel: v.optional(v.string()),
     // Memory pins (session-scoped — not carried forward)
     pinnedMemories: v.optional(v.array(v.id("memoryEntries"))),
     // Session tags for memory auto-selection (merged from template defaults + user overrides)
@@ -90,6 +95,8 @@ export default defineSchema({
     description: v.optional(v.string()),
     workflowId: v.optional(v.id("workflows")),
     currentStep: v.optional(v.number()),
+    // Spending caps checked before each generation (see lib/costLedger.ts)
+    costCaps: v.optional(costCapsValidator),
     createdAt: v.number(),
     updatedAt: v.number(),
   }).index("by_user", ["userId"]),
@@ -132,7 +139,7 @@ export default defineSchema({
     // Token tracking
     tokens: v.optional(v.number()), // Current token count
     originalTokens: v.optional(v.number()), // Original token count (before compression)
-    tokenModel: v.optional(v.string()), // Model used for counting (e.g., "cl100k_base")
+    tokenModel: v.optional(v.string()), // Tokenizer used for counting (e.g., "cl100k_base", "claude-approx")
     // Compression state
     isCompressed: v.optional(v.boolean()), // Whether this block has been compressed
     compressionStrategy: v.optional(v.string()), // "semantic" | "structural" | "statistical"
@@ -151,6 +158,10 @@ export default defineSchema({
     // Research block fields
     researchSource: v.optional(v.union(v.literal("web"), v.literal("local"))),
     researchPath: v.optional(v.string()),
+    // Pre-compression content kept for show-original / diff / revert
+    compressionOriginalId: v.optional(v.id("compressionOriginals")),
+    // Never compressed or moved to draft by the session's budget policy
+    isPinned: v.optional(v.boolean()),
   })
     .index("by_zone", ["zone", "position"]) // Legacy index
     .index("by_session", ["sessionId"])
@@ -185,6 +196,31 @@ export default defineSchema({
     .index("by_project", ["projectId"])
     .index("by_project_type", ["projectId", "type"]),
 
+  // Compression originals - uncompressed content of a compressed or merged block
+  compressionOriginals: defineTable({
+    blockId: v.id("blocks"), // The compressed (or merged) block
+    sessionId: v.id("sessions"),
+    // "compress": one source, restored in place; "merge": sources recreated, merged block deleted
+    kind: v.union(v.literal("compress"), v.literal("merge")),
+    // Uncompressed blocks in merge order (a source that was itself compressed contributes its originals)
+    sources: v.array(
+      v.object({
+        content: v.string(),
+        type: v.string(),
+        zone: zoneValidator,
+        position: v.number(),
+        createdAt: v.number(),
+        tokens: v.optional(v.number()),
+        originalTokens: v.optional(v.number()),
+        tokenModel: v.optional(v.string()),
+        contentHash: v.optional(v.string()),
+        metadata: v.optional(skillMetadataValidator),
+        contextMode: v.optional(v.union(v.literal("default"), v.literal("draft"), v.literal("validation"))),
+      })
+    ),
+    createdAt: v.number(),
+  }).index("by_session", ["sessionId"]),
+
   // Snapshots - saved copies of session state for testing/restore
   snapshots: defineTable({
     sessionId: v.id("sessions"),
@@ -227,8 +263,69 @@ export default defineSchema({
     totalTokens: v.optional(v.number()),
     costUsd: v.optional(v.number()),
     durationMs: v.optional(v.number()),
+    model: v.optional(v.string()), // Model that served the request, when known
+    selfTalk: v.optional(selfTalkEventValidator), // Reply truncated at a hallucinated turn marker
   }).index("by_session", ["sessionId", "createdAt"]),
 
+  // Brainstorm conversations - named threads within a session
+  conversations: defineTable({
+    sessionId: v.id("sessions"),
+    userId: v.optional(v.id("users")), // Owner (denormalized from the session)
+    name: v.string(),
+    messageCount: v.number(),
+    // Client id of the message ending the selected branch (defaults to the newest message)
+    activeLeafId: v.optional(v.string()),
+    // Rolling summary: WORKING note block covering messages up to summarizedThroughId
+    summaryBlockId: v.optional(v.id("blocks")),
+    summarizedThroughId: v.optional(v.string()),
+    // Server-side generation still owed a reply in this thread, so a reload can pick it up
+    pendingGeneration: v.optional(
+      v.object({
+        generationId: v.id("generations"),
+        replyToId: v.string(), // Client id of the message the reply answers
+      })
+    ),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+  }).index("by_session", ["sessionId", "updatedAt"]),
+
+  // Brainstorm messages - a tree of branches, ordered by creation position within a conversation
+  messages: defineTable({
+    conversationId: v.id("conversations"),
+    sessionId: v.id("sessions"),
+    position: v.number(),
+    clientId: v.string(), // Id the client generated for the message (stable across devices)
+    // Parent message's clientId; null for a root, absent for pre-branching linear threads
+    parentClientId: v.optional(v.union(v.string(), v.null())),
+    role: v.union(v.literal("user"), v.literal("assistant")),
+    content: v.string(),
+    timestamp: v.number(),
+    savedAsBlockId: v.optional(v.id("blocks")),
+    // Assistant replies: the context the reply was generated with
+    contextManifest: v.optional(contextManifestValidator),
+  })
+    .index("by_conversation", ["conversationId", "position"])
+    .index("by_session", ["sessionId"]),
+
+  // Cost ledger - one row per LLM call with usage, rolled up by lib/costLedger.ts
+  costEntries: defineTable({
+    sessionId: v.id("sessions"),
+    // Denormalized from the session so project/user rollups are index scans
+    projectId: v.optional(v.id("projects")),
+    userId: v.optional(v.id("users")),
+    provider: v.string(),
+    model: v.optional(v.string()),
+    inputTokens: v.optional(v.number()),
+    outputTokens: v.optional(v.number()),
+    costUsd: v.number(),
+    // Server-side generation that produced this entry (client-side calls have none)
+    generationId: v.optional(v.id("generations")),
+    createdAt: v.number(),
+  })
+    .index("by_session", ["sessionId", "createdAt"])
+    .index("by_project", ["projectId", "createdAt"])
+    .index("by_user", ["userId", "createdAt"]),
+
   // Marketplace - community template/workflow library
   marketplace: defineTable({
     authorId: v.id("users"),
@@ -2,8 +2,12 @@ import { query, mutation } from "./_generated/server"
 import type { MutationCtx } from "./_generated/server"
 import type { Id } from "./_generated/dataModel"
 import { v } from "convex/values"
+import { internal } from "./_generated/api"
 import { getOptionalUserId, requireSessionAccess } from "./lib/auth"
 import { computeContentHash } from "./lib/contentHash"
+import { deleteSessionConversations } from "./lib/conversations"
+import { resolveTokenizer } from "./lib/tokenizer"
+import { budgetPolicyValidator, budgetsValidator } from "./lib/validators"
 
 // ============ Helper Functions ============
 
@@ -64,6 +68,14 @@ async function cascadeDeleteSessions(
       deletedBlocks++
     }
 
+    const compressionOriginals = await ctx.db
+      .query("compressionOriginals")
+      .withIndex("by_session", (q) => q.eq("sessionId", sessionId))
+      .collect()
+    for (const original of compressionOriginals) {
+      await ctx.db.delete(original._id)
+    }
+
     const snapshots = await ctx.db
       .query("snapshots")
       .withIndex("by_session", (q) => q.eq("sessionId", sessionId))
@@ -81,6 +93,8 @@ async function cascadeDeleteSessions(
       await ctx.db.delete(generation._id)
       deletedGenerations++
     }
+
+    await deleteSessionConversations(ctx, sessionId)
   }
 
   return { deletedBlocks, deletedSnapshots, deletedGenerations }
@@ -165,6 +179,53 @@ export const update = mutation({
   },
 })
 
+// Set the session's zone budgets (e.g. a preset sized to the model's context window).
+// Omitting budgets restores the defaults.
+export const setBudgets = mutation({
+  args: {
+    id: v.id("sessions"),
+    budgets: v.optional(budgetsValidator),
+  },
+  handler: async (ctx, args) => {
+    await requireSessionAccess(ctx, args.id)
+    await ctx.db.patch(args.id, { budgets: args.budgets, updatedAt: Date.now() })
+  },
+})
+
+// Set the session's budget policy. Omitting the policy turns it off.
+export const setBudgetPolicy = mutation({
+  args: {
+    id: v.id("sessions"),
+    budgetPolicy: v.optional(budgetPolicyValidator),
+  },
+  handler: async (ctx, args) => {
+    await requireSessionAccess(ctx, args.id)
+    await ctx.db.patch(args.id, { budgetPolicy: args.budgetPolicy, updatedAt: Date.now() })
+  },
+})
+
+// Record the model the session is brainstorming with. When that switches tokenizer
+// (e.g. Claude to GPT-4o), block token counts are refreshed in the background.
+export const setActiveModel = mutation({
+  args: {
+    id: v.id("sessions"),
+    model: v.string(),
+  },
+  handler: async (ctx, args) => {
+    await requireSessionAccess(ctx, args.id)
+
+    const session = await ctx.db.get(args.id)
+    if (!session) throw new Error("Session not found")
+    if (session.activeModel === args.model) return
+
+    await ctx.db.patch(args.id, { activeModel: args.model })
+
+    if (resolveTokenizer(session.activeModel) !== resolveTokenizer(args.model)) {
+      await ctx.scheduler.runAfter(0, internal.blocks.recountTokens, { sessionId: args.id })
+    }
+  },
+})
+
 // Delete a session and all its blocks and snapshots
 export const remove = mutation({
   args: { id: v.id("sessions") },
@@ -183,6 +244,15 @@ export const remove = mutation({
       await ctx.db.delete(block._id)
     }
 
+    // Delete kept compression originals
+    const compressionOriginals = await ctx.db
+      .query("compressionOriginals")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.id))
+      .collect()
+    for (const original of compressionOriginals) {
+      await ctx.db.delete(original._id)
+    }
+
     // Delete all snapshots for this session
     const snapshots = await ctx.db
       .query("snapshots")
@@ -201,6 +271,9 @@ export const remove = mutation({
       await ctx.db.delete(generation._id)
     }
 
+    // Delete brainstorm conversations and their messages
+    await deleteSessionConversations(ctx, args.id)
+
     // Delete the session itself
     await ctx.db.delete(args.id)
   },
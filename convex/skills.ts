@@ -10,7 +10,7 @@ import type { MutationCtx } from "./_generated/server"
 import { v } from "convex/values"
 import type { Id } from "./_generated/dataModel"
 import { zoneValidator, type Zone } from "./lib/validators"
-import { countTokens, DEFAULT_TOKEN_MODEL } from "./lib/tokenizer"
+import { countTokens, getSessionTokenModel } from "./lib/tokenizer"
 import { requireSessionAccess } from "./lib/auth"
 
 const skillMetadataArg = v.object({
@@ -56,7 +56,8 @@ export async function insertSkillBlock(
   const zone = args.zone ?? "STABLE"
   const position = await getNextPosition(ctx, args.sessionId, zone)
   const now = Date.now()
-  const tokens = countTokens(args.content)
+  const tokenModel = await getSessionTokenModel(ctx, args.sessionId)
+  const tokens = countTokens(args.content, tokenModel)
 
   await ctx.db.patch(args.sessionId, { updatedAt: now })
 
@@ -70,7 +71,7 @@ export async function insertSkillBlock(
     updatedAt: now,
     tokens,
     originalTokens: tokens,
-    tokenModel: DEFAULT_TOKEN_MODEL,
+    tokenModel,
     metadata: {
       skillName: args.metadata.skillName,
       skillDescription: args.metadata.skillDescription,
@@ -97,7 +98,8 @@ export async function insertReferenceBlock(
 ) {
   const position = await getNextPosition(ctx, args.sessionId, args.zone)
   const now = Date.now()
-  const tokens = countTokens(args.content)
+  const tokenModel = await getSessionTokenModel(ctx, args.sessionId)
+  const tokens = countTokens(args.content, tokenModel)
 
   return await ctx.db.insert("blocks", {
     sessionId: args.sessionId,
@@ -109,7 +111,7 @@ export async function insertReferenceBlock(
     updatedAt: now,
     tokens,
     originalTokens: tokens,
-    tokenModel: DEFAULT_TOKEN_MODEL,
+    tokenModel,
     metadata: {
       skillName: args.filename,
       parentSkillName: args.parentSkillName,
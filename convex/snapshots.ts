@@ -1,4 +1,4 @@
-import { query, mutation } from "./_generated/server"
+import { query, mutation, internalQuery } from "./_generated/server"
 import { v } from "convex/values"
 import type { Doc, Id } from "./_generated/dataModel"
 import { canAccessSession, requireSessionAccess } from "./lib/auth"
@@ -41,6 +41,17 @@ export const get = query({
   },
 })
 
+/**
+ * Internal query to get a snapshot without an auth check.
+ * Used by the brainstorm actions when replaying a conversation against a snapshot.
+ */
+export const getInternal = internalQuery({
+  args: { id: v.id("snapshots") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.id)
+  },
+})
+
 // ============ Mutations ============
 
 // Create a snapshot from current session state
@@ -117,6 +128,15 @@ export const restore = mutation({
       await ctx.db.delete(block._id)
     }
 
+    // Their compression originals go with them
+    const compressionOriginals = await ctx.db
+      .query("compressionOriginals")
+      .withIndex("by_session", (q) => q.eq("sessionId", snapshot.sessionId))
+      .collect()
+    for (const original of compressionOriginals) {
+      await ctx.db.delete(original._id)
+    }
+
     // Recreate blocks from snapshot
     const now = Date.now()
     for (const blockData of snapshot.blocks) {
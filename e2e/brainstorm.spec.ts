@@ -350,3 +350,50 @@ test.describe("Brainstorm with Context", () => {
     await expect(page.locator("text=context blocks are included")).toBeVisible()
   })
 })
+
+// Scripted mock provider (e2e/fixtures/mock-llm.json) - runs without any LLM
+test.describe("Brainstorm with mock provider", () => {
+  let testSessionId: string
+
+  test.beforeAll(async () => {
+    await resetTestData()
+    const session = await createTestSession("E2E Brainstorm Mock Test")
+    testSessionId = session.id
+  })
+
+  test.afterAll(async () => {
+    await resetTestData()
+  })
+
+  test.beforeEach(async ({ page }) => {
+    await page.addInitScript(
+      ([key, value]) => {
+        localStorage.setItem(key, value)
+        localStorage.setItem("contextforge-mock-enabled", "true")
+        localStorage.setItem("contextforge-brainstorm-provider", "mock")
+      },
+      [SESSION_STORAGE_KEY, testSessionId]
+    )
+
+    await page.goto("/")
+    await page.waitForLoadState("networkidle")
+    await page.getByRole("button", { name: /brainstorm/i }).click()
+    await expect(page.locator("h2:has-text('Brainstorm')")).toBeVisible({ timeout: 5000 })
+  })
+
+  test("should stream the scripted fallback reply", async ({ page }) => {
+    await expect(page.locator("select").first()).toHaveValue("mock")
+
+    await page.locator("textarea[placeholder*='message']").fill("Give me some ideas")
+    await page.getByRole("button", { name: /send/i }).click()
+
+    await expect(page.locator("text=Here are three ideas")).toBeVisible({ timeout: 10000 })
+  })
+
+  test("should surface a scripted error", async ({ page }) => {
+    await page.locator("textarea[placeholder*='message']").fill("mock:error please")
+    await page.getByRole("button", { name: /send/i }).click()
+
+    await expect(page.locator("text=Scripted failure")).toBeVisible({ timeout: 10000 })
+  })
+})
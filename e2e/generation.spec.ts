@@ -59,6 +59,17 @@ async function checkOllamaHealth(): Promise<boolean> {
   }
 }
 
+// Helper to check whether the Convex backend runs the scripted mock (MOCK_LLM_ENABLED=true)
+async function checkMockLLMEnabled(): Promise<boolean> {
+  try {
+    const response = await fetch(`${CONVEX_SITE_URL}/api/health/claude`)
+    const data = (await response.json()) as { version?: string }
+    return data.version?.includes("MOCK_LLM_ENABLED") ?? false
+  } catch {
+    return false
+  }
+}
+
 test.describe("Generation Panel UI", () => {
   let testSessionId: string
 
@@ -466,3 +477,69 @@ test.describe("Generation API", () => {
     expect(receivedFinish).toBe(true)
   })
 })
+
+// Server-side generations (Convex action → generations table) against the scripted
+// mock (e2e/fixtures/mock-llm.json) - start the backend with MOCK_LLM_ENABLED=true
+test.describe("Server-side generation with mock LLM", () => {
+  let testSessionId: string
+  let mockEnabled: boolean
+
+  test.beforeAll(async () => {
+    mockEnabled = await checkMockLLMEnabled()
+    if (!mockEnabled) {
+      console.warn("MOCK_LLM_ENABLED is not set on the backend - skipping mock generation tests.")
+    }
+
+    const session = await createTestSession("E2E Mock Generation Session")
+    testSessionId = session.id
+  })
+
+  test.afterAll(async () => {
+    await resetTestData()
+  })
+
+  test.beforeEach(async ({ page }) => {
+    test.skip(!mockEnabled, "MOCK_LLM_ENABLED not set")
+
+    await page.addInitScript(
+      ([key, value]) => {
+        localStorage.setItem(key, value)
+        localStorage.setItem("contextforge-brainstorm-provider", "claude")
+      },
+      [SESSION_STORAGE_KEY, testSessionId]
+    )
+
+    await page.goto("/")
+    await page.waitForLoadState("networkidle")
+    await page.getByRole("button", { name: /brainstorm/i }).click()
+    await expect(page.locator("h2:has-text('Brainstorm')")).toBeVisible({ timeout: 5000 })
+  })
+
+  test("should stream a reply through a generation", async ({ page }) => {
+    await expect(page.locator("select").first()).toHaveValue("claude")
+
+    await page.locator("textarea[placeholder*='message']").fill("Give me some ideas")
+    await page.getByRole("button", { name: /send/i }).click()
+
+    await expect(page.locator("text=Here are three ideas")).toBeVisible({ timeout: 15000 })
+    await expect(page.getByRole("button", { name: "Stop" })).not.toBeVisible()
+  })
+
+  test("should cancel a generation with Stop", async ({ page }) => {
+    await page.locator("textarea[placeholder*='message']").fill("mock:slow please")
+    await page.getByRole("button", { name: /send/i }).click()
+
+    await expect(page.getByRole("button", { name: "Stop" })).toBeVisible({ timeout: 5000 })
+    await page.getByRole("button", { name: "Stop" }).click()
+
+    await expect(page.getByRole("button", { name: /send/i })).toBeVisible({ timeout: 5000 })
+    await expect(page.locator("text=before it finishes")).not.toBeVisible()
+  })
+
+  test("should surface a generation error", async ({ page }) => {
+    await page.locator("textarea[placeholder*='message']").fill("mock:error please")
+    await page.getByRole("button", { name: /send/i }).click()
+
+    await expect(page.locator("text=Scripted failure")).toBeVisible({ timeout: 15000 })
+  })
+})
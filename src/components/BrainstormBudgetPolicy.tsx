@@ -0,0 +1,74 @@
+/**
+ * Banner listing what the session's budget policy did before the last send, with undo.
+ */
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import type { BudgetPolicyRun } from "@/hooks/useBudgetPolicy"
+
+interface BudgetPolicyBannerProps {
+  isApplying?: boolean
+  run?: BudgetPolicyRun | null
+  onUndo?: () => Promise<void>
+  onDismiss?: () => void
+  isUndoing?: boolean
+}
+
+export function BudgetPolicyBanner({ isApplying, run, onUndo, onDismiss, isUndoing }: BudgetPolicyBannerProps) {
+  const [error, setError] = useState<string | null>(null)
+
+  if (isApplying) {
+    return (
+      <div className="mx-4 mb-2 px-3 py-2 rounded-md bg-muted text-muted-foreground text-sm">
+        Context is over budget, applying the session's budget policy…
+      </div>
+    )
+  }
+  if (!run) return null
+
+  const saved = run.actions.reduce((sum, action) => sum + action.savedTokens, 0)
+
+  const handleUndo = async () => {
+    setError(null)
+    try {
+      await onUndo?.()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Undo failed")
+    }
+  }
+
+  return (
+    <div className="mx-4 mb-2 px-3 py-2 rounded-md bg-muted text-sm space-y-1">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium">
+          Budget policy{run.actions.length > 0 && ` freed ~${saved.toLocaleString()} tokens`}
+        </span>
+        <div className="flex items-center gap-1">
+          {onUndo && run.actions.length > 0 && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={handleUndo} disabled={isUndoing}>
+              {isUndoing ? "Undoing..." : "Undo"}
+            </Button>
+          )}
+          {onDismiss && (
+            <button type="button" onClick={onDismiss} className="text-xs text-muted-foreground hover:text-foreground" aria-label="Dismiss">
+              ×
+            </button>
+          )}
+        </div>
+      </div>
+      <ul className="text-xs text-muted-foreground space-y-0.5">
+        {run.actions.map((action) => (
+          <li key={action.blockId}>
+            {action.kind === "draft" ? "Moved to draft" : "Compressed"}: {action.title} (−{action.savedTokens} tokens)
+          </li>
+        ))}
+        {run.failed.map((title, i) => (
+          <li key={`failed-${i}`} className="text-destructive">
+            Couldn't compress: {title}
+          </li>
+        ))}
+      </ul>
+      {error && <div className="text-xs text-destructive">{error}</div>}
+    </div>
+  )
+}
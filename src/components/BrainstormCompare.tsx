@@ -0,0 +1,227 @@
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuTrigger,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+} from "@/components/ui/dropdown-menu"
+import { cn } from "@/lib/utils"
+import {
+  MAX_COMPARE_TARGETS,
+  type CompareReply,
+  type CompareTarget,
+  type Provider,
+  type Zone,
+} from "@/hooks/useBrainstorm"
+import { getProvider, listProviders } from "@/lib/llm/registry"
+import type { ProviderHealthMap } from "@/lib/llm/provider"
+import { OpenRouterCost } from "@/components/OpenRouterCost"
+import ReactMarkdown from "react-markdown"
+import gfm from "remark-gfm"
+import breaks from "remark-breaks"
+import { MarkdownComponents } from "@/components/MarkdownComponents"
+
+function targetLabel(target: CompareTarget): string {
+  const label = getProvider(target.provider).label
+  return target.model ? `${label} · ${target.model}` : label
+}
+
+// Provider/model chips plus an "add" row for choosing what to compare
+export function CompareTargetsBar({
+  targets,
+  onChange,
+  providerHealth,
+  disabled,
+}: {
+  targets: CompareTarget[]
+  onChange: (targets: CompareTarget[]) => void
+  providerHealth?: ProviderHealthMap
+  disabled?: boolean
+}) {
+  const available = listProviders().filter(
+    (p) => !providerHealth?.[p.id]?.disabled && providerHealth?.[p.id]?.ok !== false
+  )
+  const [newProvider, setNewProvider] = useState<Provider>(available[0]?.id ?? "claude")
+  const [newModel, setNewModel] = useState("")
+
+  const canAdd = targets.length < MAX_COMPARE_TARGETS && !disabled
+
+  const handleAdd = () => {
+    onChange([...targets, { provider: newProvider, model: newModel.trim() || null }])
+    setNewModel("")
+  }
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <span className="text-xs text-muted-foreground">Compare:</span>
+      {targets.map((target, index) => (
+        <span
+          key={`${target.provider}-${target.model ?? "default"}-${index}`}
+          className="inline-flex items-center gap-1 text-xs px-2 py-0.5 rounded-full bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300"
+        >
+          {targetLabel(target)}
+          <button
+            type="button"
+            onClick={() => onChange(targets.filter((_, i) => i !== index))}
+            disabled={disabled}
+            className="opacity-60 hover:opacity-100 disabled:opacity-30"
+            title="Remove from comparison"
+          >
+            ×
+          </button>
+        </span>
+      ))}
+      {canAdd && (
+        <span className="inline-flex items-center gap-1">
+          <select
+            value={newProvider}
+            onChange={(e) => setNewProvider(e.target.value as Provider)}
+            className="text-xs border border-input rounded-md px-1.5 py-0.5 bg-background"
+          >
+            {available.map((p) => (
+              <option key={p.id} value={p.id}>{p.label}</option>
+            ))}
+          </select>
+          <input
+            value={newModel}
+            onChange={(e) => setNewModel(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault()
+                handleAdd()
+              }
+            }}
+            placeholder="Model (default)"
+            className="text-xs border border-input rounded-md px-1.5 py-0.5 bg-background w-40"
+          />
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={handleAdd}>
+            Add
+          </Button>
+        </span>
+      )}
+    </div>
+  )
+}
+
+function ReplyMetrics({ reply }: { reply: CompareReply }) {
+  const parts: string[] = []
+  if (reply.inputTokens !== undefined || reply.outputTokens !== undefined) {
+    parts.push(`${reply.inputTokens ?? "?"} in / ${reply.outputTokens ?? "?"} out`)
+  }
+  if (reply.durationMs !== undefined) {
+    parts.push(`${(reply.durationMs / 1000).toFixed(1)}s`)
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-xs text-muted-foreground">
+      {parts.length > 0 && <span>{parts.join(" · ")}</span>}
+      {reply.costUsd !== undefined && (
+        <OpenRouterCost sessionCost={reply.costUsd} label={targetLabel(reply.target)} />
+      )}
+    </div>
+  )
+}
+
+// One column per compare target, streaming side by side
+export function CompareReplies({
+  replies,
+  onKeep,
+  onSave,
+  onDiscard,
+}: {
+  replies: CompareReply[]
+  onKeep: (replyId: string) => void
+  onSave: (replyId: string, zone: Zone) => void
+  onDiscard: () => void
+}) {
+  const anyStreaming = replies.some((r) => r.status === "streaming")
+
+  return (
+    <div className="space-y-2">
+      <div
+        className="grid gap-3"
+        style={{ gridTemplateColumns: `repeat(${replies.length}, minmax(0, 1fr))` }}
+      >
+        {replies.map((reply) => (
+          <div
+            key={reply.id}
+            className={cn(
+              "flex flex-col rounded-lg border bg-muted/50 min-w-0",
+              reply.status === "error" ? "border-destructive" : "border-border"
+            )}
+          >
+            <div className="px-3 py-2 border-b border-border text-xs font-medium flex items-center gap-2">
+              <span className="truncate" title={targetLabel(reply.target)}>
+                {targetLabel(reply.target)}
+              </span>
+              {reply.status === "streaming" && (
+                <span className="w-1.5 h-1.5 rounded-full bg-primary animate-pulse shrink-0" />
+              )}
+              {reply.status === "cancelled" && (
+                <span className="text-muted-foreground">(stopped)</span>
+              )}
+            </div>
+            <div className="flex-1 px-3 py-2 max-h-[40vh] overflow-y-auto">
+              {reply.text ? (
+                <div className="text-sm prose prose-sm dark:prose-invert max-w-none">
+                  <ReactMarkdown remarkPlugins={[gfm, breaks]} components={MarkdownComponents}>
+                    {reply.text}
+                  </ReactMarkdown>
+                </div>
+              ) : reply.status === "streaming" ? (
+                <p className="text-sm text-muted-foreground">Thinking...</p>
+              ) : null}
+              {reply.error && (
+                <p className="text-xs text-destructive mt-2">{reply.error}</p>
+              )}
+            </div>
+            <div className="px-3 py-2 border-t border-border space-y-1">
+              <ReplyMetrics reply={reply} />
+              <div className="flex gap-1">
+                <Button
+                  size="sm"
+                  className="h-6 px-2 text-xs"
+                  onClick={() => onKeep(reply.id)}
+                  disabled={reply.status === "streaming" || !reply.text.trim()}
+                  title="Keep this reply as the assistant turn"
+                >
+                  Keep
+                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={reply.status === "streaming" || !reply.text.trim()}
+                      className={cn("h-6 px-2 text-xs", reply.savedAsBlockId && "text-green-600")}
+                    >
+                      {reply.savedAsBlockId ? "Saved" : "Save"}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" collisionPadding={8}>
+                    <DropdownMenuLabel className="text-xs">Save to zone:</DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onSelect={() => onSave(reply.id, "WORKING")}>Working</DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => onSave(reply.id, "STABLE")}>Stable</DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => onSave(reply.id, "PERMANENT")}>Permanent</DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+      {!anyStreaming && (
+        <div className="flex items-center justify-center gap-2 text-xs text-muted-foreground">
+          Keep a reply to continue the conversation, or
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onDiscard}>
+            Discard all
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,141 @@
+import { useMemo } from "react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { SKILLS } from "@/lib/llm/skills"
+import {
+  diffContextManifest,
+  type ContextManifest,
+  type ManifestBlockDiff,
+  type ManifestBlockStatus,
+} from "@/lib/contextManifest"
+import type { ContextTitles } from "@/hooks/useBrainstorm"
+
+const STATUS_STYLES: Record<ManifestBlockStatus, string> = {
+  unchanged: "text-muted-foreground",
+  edited: "text-amber-600",
+  moved: "text-blue-600",
+  removed: "text-destructive",
+  added: "text-green-600",
+}
+
+const skillLabel = (id: string) => SKILLS[id]?.label ?? id
+
+// Context a reply was generated with, compared to what the next turn would send
+export function BrainstormContextManifest({
+  manifest,
+  current,
+  titles,
+  onClose,
+}: {
+  manifest: ContextManifest
+  current?: ContextManifest
+  titles: ContextTitles
+  onClose: () => void
+}) {
+  const diff = useMemo(() => (current ? diffContextManifest(manifest, current) : null), [manifest, current])
+  const blocks: ManifestBlockDiff[] = diff?.blocks ?? manifest.blocks.map((b) => ({ id: b.id, status: "unchanged", then: b }))
+  const blockTitle = (id: string) => titles.blocks[id] ?? "Deleted block"
+  const memoryTitle = (id: string) => titles.memoryEntries[id] ?? "Deleted entry"
+
+  return (
+    <div className="w-full max-w-[80%] rounded-md border bg-background p-3 text-xs space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <div className="font-medium">
+          Context for this reply
+          <span className="font-normal text-muted-foreground">
+            {" "}· {manifest.model ?? manifest.provider}
+            {manifest.mode === "validation" && " · validation"}
+            {" "}· {new Date(manifest.createdAt).toLocaleString()}
+          </span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={onClose} className="h-6 px-2 text-xs">
+          ×
+        </Button>
+      </div>
+
+      {diff && (
+        <div className={cn(diff.unchanged ? "text-muted-foreground" : "text-amber-600")}>
+          {diff.unchanged
+            ? "Unchanged — the next turn would send the same context."
+            : "The session has changed since this reply (compared with the next turn)."}
+        </div>
+      )}
+
+      <div>
+        <div className="font-medium mb-1">
+          Blocks
+          <span className="font-normal text-muted-foreground">
+            {" "}({diff ? `${diff.tokens.then} → ${diff.tokens.now}` : manifest.blocks.reduce((s, b) => s + (b.tokens ?? 0), 0)} tokens)
+          </span>
+        </div>
+        {blocks.length === 0 ? (
+          <div className="text-muted-foreground">No blocks</div>
+        ) : (
+          <ul className="space-y-0.5">
+            {blocks.map((b) => {
+              const block = b.then ?? b.now
+              return (
+                <li key={b.id} className="flex items-center gap-2">
+                  <span className="w-20 shrink-0 text-muted-foreground">{block?.zone}</span>
+                  <span className="truncate flex-1" title={`${block?.type} · ${block?.contentHash}`}>
+                    {blockTitle(b.id)}
+                  </span>
+                  {block?.tokens !== undefined && (
+                    <span className="tabular-nums text-muted-foreground">{block.tokens}</span>
+                  )}
+                  <span className={cn("w-16 shrink-0 text-right", STATUS_STYLES[b.status])}>
+                    {b.status === "moved" ? `→ ${b.now?.zone}` : b.status}
+                  </span>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+
+      <div>
+        <div className="font-medium mb-1">Project memory</div>
+        {manifest.memoryEntryIds.length === 0 && !diff?.memory.added.length ? (
+          <div className="text-muted-foreground">None</div>
+        ) : (
+          <div className="flex flex-wrap gap-1">
+            {manifest.memoryEntryIds.map((id) => (
+              <span
+                key={id}
+                className={cn(
+                  "px-1.5 py-0.5 rounded border",
+                  diff?.memory.removed.includes(id) && "line-through text-destructive"
+                )}
+              >
+                {memoryTitle(id)}
+              </span>
+            ))}
+            {diff?.memory.added.map((id) => (
+              <span key={id} className="px-1.5 py-0.5 rounded border text-green-600">
+                + {memoryTitle(id)}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-x-4 gap-y-1">
+        <div>
+          <span className="font-medium">Skills: </span>
+          {manifest.skills.length > 0 ? manifest.skills.map(skillLabel).join(", ") : "none"}
+          {diff && diff.skills.added.length > 0 && (
+            <span className="text-green-600"> (+ {diff.skills.added.map(skillLabel).join(", ")})</span>
+          )}
+          {diff && diff.skills.removed.length > 0 && (
+            <span className="text-destructive"> (− {diff.skills.removed.map(skillLabel).join(", ")})</span>
+          )}
+        </div>
+        <div>
+          <span className="font-medium">Model: </span>
+          {manifest.model ?? manifest.provider}
+          {diff?.model.changed && <span className="text-amber-600"> (now {diff.model.now})</span>}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,4 +1,4 @@
-import { useState, useRef, useEffect, useCallback } from "react"
+import { useState, useRef, useEffect, useCallback, useMemo } from "react"
 import { AnimatePresence, motion } from "framer-motion"
 import { dialogOverlay, dialogContent } from "@/lib/motion"
 import { Button } from "@/components/ui/button"
@@ -12,15 +12,37 @@ import {
   DropdownMenuSeparator,
 } from "@/components/ui/dropdown-menu"
 import { cn } from "@/lib/utils"
-import type { Message, Provider, Zone } from "@/hooks/useBrainstorm"
+import type { CompareReply, CompareTarget, ContextTitles, Message, Provider, SavePiece, Zone } from "@/hooks/useBrainstorm"
 import { SKILLS } from "@/lib/llm/skills"
+import { getProvider, listProviders } from "@/lib/llm/registry"
+import type { ProviderHealthMap, ProviderModel } from "@/lib/llm/provider"
 import ReactMarkdown from 'react-markdown'
 import gfm from 'remark-gfm'
 import { MarkdownComponents } from '@/components/MarkdownComponents';
 import { SubscriptionUsage } from '@/components/SubscriptionUsage';
 import { OpenRouterCost } from '@/components/OpenRouterCost';
 import { SaveToMemoryDialog } from '@/components/SaveToMemoryDialog';
-import type { Id } from '../../convex/_generated/dataModel';
+import { CompareReplies, CompareTargetsBar } from '@/components/BrainstormCompare';
+import { BrainstormThreads } from '@/components/BrainstormThreads';
+import { BrainstormSlashMenu, SlashNoticeBanner } from '@/components/BrainstormSlashMenu';
+import { BudgetPolicyBanner } from "@/components/BrainstormBudgetPolicy"
+import type { BudgetPolicyRun } from "@/hooks/useBudgetPolicy"
+import type { SlashSuggestion } from '@/lib/slashCommands';
+import type { SlashNotice } from '@/hooks/useSlashCommands';
+import { BrainstormQuestions } from '@/components/BrainstormQuestions';
+import { BrainstormContextManifest } from '@/components/BrainstormContextManifest';
+import type { ContextManifest } from '@/lib/contextManifest';
+import { BrainstormReplay } from '@/components/BrainstormReplay';
+import { BrainstormSmartSave } from '@/components/BrainstormSmartSave';
+import { BrainstormStructuredValue, OutputSchemaBar } from '@/components/BrainstormStructuredOutput';
+import { formatStructuredValue, parseStructuredValue } from '../../convex/lib/structuredOutput';
+import type { ConversationReplay } from '@/hooks/useConversationReplay';
+import {
+  parseClarifyingQuestions,
+  type ClarifyingAnswers,
+  type ClarifyingQuestion,
+} from '@/lib/llm/clarifyingQuestions';
+import type { Doc, Id } from '../../convex/_generated/dataModel';
 import breaks from 'remark-breaks';
 
 
@@ -67,8 +89,11 @@ interface BrainstormDialogProps {
   onSendValidation?: (content: string) => Promise<void>
   onClearConversation: () => void
   onSaveMessage: (messageId: string, zone: Zone) => Promise<void>
+  // Smart save: split a reply into typed blocks after a preview
+  onSaveMessagePieces?: (messageId: string, pieces: SavePiece[]) => Promise<void>
   // Save-to-memory support
   projectId?: Id<"projects">
+  sessionId?: Id<"sessions">
   memorySchemaTypes?: Array<{ name: string; color: string; icon: string }>
   onCreateMemoryEntry?: (args: {
     projectId: Id<"projects">
@@ -79,12 +104,13 @@ interface BrainstormDialogProps {
   }) => Promise<unknown>
   onRetryMessage: (messageId: string) => Promise<void>
   onEditMessage: (messageId: string, newContent: string) => Promise<void>
+  // Branches (edits and retries add siblings)
+  getBranchInfo?: (messageId: string) => { index: number; count: number } | null
+  onSwitchBranch?: (messageId: string, offset: number) => void
+  onContinueFrom?: (messageId: string) => void
+  onSaveBranch?: (zone: Zone) => Promise<void>
   error: string | null
-  providerHealth?: {
-    ollama: { ok: boolean } | null
-    claude: { ok: boolean; disabled?: boolean } | null
-    openrouter: { ok: boolean } | null
-  }
+  providerHealth?: ProviderHealthMap
   systemPrompt?: string
   // Claude Code agent behavior toggle
   disableAgentBehavior?: boolean
@@ -102,12 +128,62 @@ interface BrainstormDialogProps {
   // Ephemeral skills
   activeSkills?: Record<string, boolean>
   onToggleSkill?: (skillId: string) => void
-  // OpenRouter session cost
-  openrouterSessionCost?: number
-  // Conversation was restored from localStorage
+  // Client-side provider session cost
+  sessionCost?: number
+  // Project spending cap warning (soft cap reached or hard cap exceeded)
+  budgetWarning?: string | null
+  // Session budget policy: what it did before the last send, with undo
+  isApplyingBudgetPolicy?: boolean
+  budgetPolicyRun?: BudgetPolicyRun | null
+  onUndoBudgetPolicyRun?: () => Promise<void>
+  onDismissBudgetPolicyRun?: () => void
+  isUndoingBudgetPolicyRun?: boolean
+  // Rolling summary of older turns into a WORKING block
+  rollingSummary?: boolean
+  onRollingSummaryChange?: (value: boolean) => void
+  isSummarizing?: boolean
+  // Server-side generation for OpenRouter/Ollama
+  serverGeneration?: boolean
+  onServerGenerationChange?: (value: boolean) => void
+  serverGenerationAvailable?: boolean
+  // Open thread was loaded from the server rather than started in this visit
   conversationRestored?: boolean
+  // Threads (named conversations persisted per session)
+  conversations?: Doc<"conversations">[]
+  activeConversationId?: Id<"conversations"> | null
+  onSelectConversation?: (id: Id<"conversations">) => void
+  onNewConversation?: () => void
+  onRenameConversation?: (id: Id<"conversations">, name: string) => Promise<void>
+  onDeleteConversation?: (id: Id<"conversations">) => Promise<void>
   // Gate Validate button on presence of validation-mode blocks
   hasCriteria?: boolean
+  // Compare mode: fan each message out to several provider/model pairs
+  compareMode?: boolean
+  onCompareModeChange?: (value: boolean) => void
+  compareTargets?: CompareTarget[]
+  onCompareTargetsChange?: (targets: CompareTarget[]) => void
+  compareReplies?: CompareReply[]
+  onKeepCompareReply?: (replyId: string) => void
+  onSaveCompareReply?: (replyId: string, zone: Zone) => Promise<void>
+  onDiscardCompareReplies?: () => void
+  // Slash commands (/save, /compress, /model…) typed into the input
+  getSlashSuggestions?: (input: string) => SlashSuggestion[]
+  onSlashCommand?: (input: string) => Promise<boolean>
+  slashNotice?: SlashNotice | null
+  onDismissSlashNotice?: () => void
+  // Clarifying questions: answer the form in the latest reply
+  onAnswerQuestions?: (questions: ClarifyingQuestion[], answers: ClarifyingAnswers, saveAsNote: boolean) => Promise<void>
+  // Context provenance: "View context" diffs a reply's manifest against the next turn's
+  currentContextManifest?: ContextManifest
+  contextTitles?: ContextTitles
+  // Replay the branch's user turns against a snapshot or another model
+  replay?: ConversationReplay
+  // Structured output: replies must match a JSON Schema and render as a form
+  structuredMode?: boolean
+  onStructuredModeChange?: (value: boolean) => void
+  outputSchemaText?: string
+  onOutputSchemaTextChange?: (text: string) => void
+  outputSchemaError?: string | null
 }
 
 // Message bubble component
@@ -115,21 +191,37 @@ function MessageBubble({
   message,
   onCopy,
   onSave,
+  onSmartSave,
   onSaveToMemory,
   onRetry,
   onEdit,
+  branch,
+  onSwitchBranch,
+  onContinueFrom,
+  onAnswerQuestions,
+  currentContextManifest,
+  contextTitles,
   isStreaming,
 }: {
   message: Message
   onCopy: () => void
   onSave: (zone: Zone) => void
+  onSmartSave?: (pieces: SavePiece[]) => Promise<void>
   onSaveToMemory?: (selectedText: string) => void
   onRetry: () => void
   onEdit: (newContent: string) => void
+  branch?: { index: number; count: number } | null
+  onSwitchBranch?: (offset: number) => void
+  onContinueFrom?: () => void
+  onAnswerQuestions?: (questions: ClarifyingQuestion[], answers: ClarifyingAnswers, saveAsNote: boolean) => Promise<void>
+  currentContextManifest?: ContextManifest
+  contextTitles?: ContextTitles
   isStreaming: boolean
 }) {
   const [copied, setCopied] = useState(false)
   const [isEditing, setIsEditing] = useState(false)
+  const [showContext, setShowContext] = useState(false)
+  const [showSmartSave, setShowSmartSave] = useState(false)
   const [editContent, setEditContent] = useState(message.content)
   
   const handleCopy = () => {
@@ -174,6 +266,14 @@ function MessageBubble({
   }
 
   const isUser = message.role === "user"
+  const clarifying = useMemo(
+    () => (isUser ? null : parseClarifyingQuestions(message.content)),
+    [isUser, message.content]
+  )
+  const structured = useMemo(
+    () => (isUser ? undefined : parseStructuredValue(message.content)),
+    [isUser, message.content]
+  )
 
   return (
     <div className={cn("flex flex-col gap-1", isUser ? "items-end" : "items-start")}>
@@ -219,6 +319,35 @@ function MessageBubble({
           </div>
         ) : isUser ? (
           <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+        ) : clarifying ? (
+          <div className="space-y-2">
+            {clarifying.intro && (
+              <div className="text-sm prose prose-sm dark:prose-invert max-w-none">
+                <ReactMarkdown remarkPlugins={[gfm, breaks]} components={MarkdownComponents}>
+                  {clarifying.intro}
+                </ReactMarkdown>
+              </div>
+            )}
+            <BrainstormQuestions
+              questions={clarifying.questions}
+              onSubmit={
+                onAnswerQuestions
+                  ? (answers, saveAsNote) => onAnswerQuestions(clarifying.questions, answers, saveAsNote)
+                  : undefined
+              }
+              disabled={isStreaming}
+            />
+          </div>
+        ) : structured ? (
+          <BrainstormStructuredValue
+            value={structured}
+            onSave={
+              onSmartSave
+                ? (value, zone) => onSmartSave([{ content: formatStructuredValue(value), type: "document", zone }])
+                : undefined
+            }
+            disabled={isStreaming}
+          />
         ) : (
           <div className="text-sm prose prose-sm dark:prose-invert max-w-none">
             <ReactMarkdown
@@ -234,6 +363,30 @@ function MessageBubble({
       {/* Actions */}
       {!isEditing && (
         <div className="flex gap-1 relative">
+          {/* Branch navigator */}
+          {branch && branch.count > 1 && onSwitchBranch && (
+            <div className="flex items-center text-xs text-muted-foreground" title="Switch branch">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onSwitchBranch(-1)}
+                disabled={isStreaming || branch.index === 0}
+                className="h-6 px-1.5 text-xs"
+              >
+                ‹
+              </Button>
+              <span className="tabular-nums">{branch.index + 1}/{branch.count}</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onSwitchBranch(1)}
+                disabled={isStreaming || branch.index === branch.count - 1}
+                className="h-6 px-1.5 text-xs"
+              >
+                ›
+              </Button>
+            </div>
+          )}
           <Button
             variant="ghost"
             size="sm"
@@ -272,6 +425,14 @@ function MessageBubble({
               <DropdownMenuItem onSelect={() => onSave("WORKING")}>Working</DropdownMenuItem>
               <DropdownMenuItem onSelect={() => onSave("STABLE")}>Stable</DropdownMenuItem>
               <DropdownMenuItem onSelect={() => onSave("PERMANENT")}>Permanent</DropdownMenuItem>
+              {!isUser && onSmartSave && (
+                <>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem onSelect={() => setShowSmartSave(true)}>
+                    Smart save…
+                  </DropdownMenuItem>
+                </>
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
           {onSaveToMemory && (
@@ -300,8 +461,49 @@ function MessageBubble({
           >
             Retry
           </Button>
+          {onContinueFrom && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onContinueFrom}
+              disabled={isStreaming}
+              className="h-6 px-2 text-xs"
+              title="Continue the conversation from here; later messages are kept as a branch"
+            >
+              Branch
+            </Button>
+          )}
+          {message.contextManifest && contextTitles && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowContext((v) => !v)}
+              className={cn("h-6 px-2 text-xs", showContext && "bg-muted")}
+              title="Show the context this reply was generated with"
+            >
+              View context
+            </Button>
+          )}
         </div>
       )}
+      {showSmartSave && onSmartSave && (
+        <BrainstormSmartSave
+          content={message.content}
+          onSave={async (pieces) => {
+            await onSmartSave(pieces)
+            setShowSmartSave(false)
+          }}
+          onCancel={() => setShowSmartSave(false)}
+        />
+      )}
+      {showContext && message.contextManifest && contextTitles && (
+        <BrainstormContextManifest
+          manifest={message.contextManifest}
+          current={currentContextManifest}
+          titles={contextTitles}
+          onClose={() => setShowContext(false)}
+        />
+      )}
     </div>
   )
 }
@@ -347,8 +549,13 @@ export function BrainstormDialog({
   onSendValidation,
   onClearConversation,
   onSaveMessage,
+  onSaveMessagePieces,
   onRetryMessage,
   onEditMessage,
+  getBranchInfo,
+  onSwitchBranch,
+  onContinueFrom,
+  onSaveBranch,
   error,
   providerHealth,
   systemPrompt,
@@ -362,16 +569,62 @@ export function BrainstormDialog({
   claudeResolvedModel,
   activeSkills,
   onToggleSkill,
-  openrouterSessionCost,
+  sessionCost,
+  budgetWarning,
+  isApplyingBudgetPolicy,
+  budgetPolicyRun,
+  onUndoBudgetPolicyRun,
+  onDismissBudgetPolicyRun,
+  isUndoingBudgetPolicyRun,
+  rollingSummary = false,
+  onRollingSummaryChange,
+  isSummarizing = false,
+  serverGeneration = false,
+  onServerGenerationChange,
+  serverGenerationAvailable = false,
   conversationRestored,
+  conversations = [],
+  activeConversationId = null,
+  onSelectConversation,
+  onNewConversation,
+  onRenameConversation,
+  onDeleteConversation,
   projectId,
+  sessionId,
   memorySchemaTypes,
   onCreateMemoryEntry,
   hasCriteria = false,
+  compareMode = false,
+  onCompareModeChange,
+  compareTargets = [],
+  onCompareTargetsChange,
+  compareReplies = [],
+  onKeepCompareReply,
+  onSaveCompareReply,
+  onDiscardCompareReplies,
+  getSlashSuggestions,
+  onSlashCommand,
+  slashNotice,
+  onDismissSlashNotice,
+  onAnswerQuestions,
+  currentContextManifest,
+  contextTitles,
+  replay,
+  structuredMode = false,
+  onStructuredModeChange,
+  outputSchemaText = "",
+  onOutputSchemaTextChange,
+  outputSchemaError = null,
 }: BrainstormDialogProps) {
   const [inputValue, setInputValue] = useState("")
+  const [slashIndex, setSlashIndex] = useState(0)
+  // Input the slash menu was dismissed for (Esc); typing reopens it
+  const [slashMenuHiddenFor, setSlashMenuHiddenFor] = useState<string | null>(null)
   const [memoryDraftText, setMemoryDraftText] = useState<string | null>(null)
   const [expandedSkill, setExpandedSkill] = useState<string | null>(null)
+  // Replay view replaces the conversation until closed
+  const [showReplay, setShowReplay] = useState(false)
+  const [claudeModels, setClaudeModels] = useState<ProviderModel[]>([])
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const messagesContainerRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLTextAreaElement>(null)
@@ -392,7 +645,7 @@ export function BrainstormDialog({
     if (autoScroll) {
       messagesEndRef.current?.scrollIntoView({ behavior: "smooth" })
     }
-  }, [messages, streamingText, autoScroll])
+  }, [messages, streamingText, compareReplies, autoScroll])
 
   // Focus input when dialog opens
   useEffect(() => {
@@ -437,8 +690,10 @@ export function BrainstormDialog({
     if (!inputValue.trim() || isStreaming) return
     const content = inputValue.trim()
     setInputValue("")
+    // Known slash commands run instead of sending; anything else goes out as typed
+    if (onSlashCommand && content.startsWith("/") && (await onSlashCommand(content))) return
     await onSendMessage(content)
-  }, [inputValue, isStreaming, onSendMessage])
+  }, [inputValue, isStreaming, onSendMessage, onSlashCommand])
 
   const handleValidate = useCallback(async () => {
     if (isStreaming || !onSendValidation) return
@@ -447,7 +702,39 @@ export function BrainstormDialog({
     await onSendValidation(content)
   }, [inputValue, isStreaming, onSendValidation])
 
+  const slashSuggestions = useMemo(
+    () => (getSlashSuggestions ? getSlashSuggestions(inputValue) : []),
+    [getSlashSuggestions, inputValue]
+  )
+  const showSlashMenu = slashSuggestions.length > 0 && slashMenuHiddenFor !== inputValue
+
+  const acceptSlashSuggestion = (suggestion: SlashSuggestion) => {
+    setInputValue(suggestion.completion)
+    setSlashIndex(0)
+    inputRef.current?.focus()
+  }
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (showSlashMenu) {
+      const count = slashSuggestions.length
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault()
+        setSlashIndex((i) => (i + (e.key === "ArrowDown" ? 1 : count - 1)) % count)
+        return
+      }
+      if (e.key === "Tab" || (e.key === "Enter" && !e.ctrlKey && !e.metaKey && !e.shiftKey)) {
+        e.preventDefault()
+        acceptSlashSuggestion(slashSuggestions[Math.min(slashIndex, count - 1)])
+        return
+      }
+      if (e.key === "Escape") {
+        // Close the menu, not the dialog
+        e.preventDefault()
+        e.stopPropagation()
+        setSlashMenuHiddenFor(inputValue)
+        return
+      }
+    }
     if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
       e.preventDefault()
       handleSend()
@@ -463,16 +750,20 @@ export function BrainstormDialog({
     textarea.style.height = `${Math.min(textarea.scrollHeight, maxHeight)}px`
   }, [inputValue])
 
+  // Model list for the Claude model selector
+  useEffect(() => {
+    getProvider("claude").listModels().then(setClaudeModels).catch(() => setClaudeModels([]))
+  }, [])
+
   // Auto-switch away from disabled/unavailable provider
   useEffect(() => {
     if (!providerHealth) return
     const current = providerHealth[provider]
-    // If current provider's health is known and it's not ok (or disabled), switch to first available
-    if (current !== null && current !== undefined && (!current.ok || ('disabled' in current && current.disabled))) {
-      if (providerHealth.ollama?.ok) {
-        onProviderChange("ollama")
-      } else if (providerHealth.openrouter?.ok) {
-        onProviderChange("openrouter")
+    // If current provider's health is known and it's not ok (or disabled), switch to first available client provider
+    if (current !== null && current !== undefined && (!current.ok || current.disabled)) {
+      const fallback = listProviders().find((p) => p.capabilities.clientSide && providerHealth[p.id]?.ok)
+      if (fallback) {
+        onProviderChange(fallback.id)
       }
       // If nothing available, stay put — user will see offline indicators
     }
@@ -480,18 +771,15 @@ export function BrainstormDialog({
 
   // Check if provider is available
   // Be optimistic while health checks are pending - allow input immediately
-  const isProviderAvailable =
-    provider === "ollama"
-      ? providerHealth?.ollama?.ok ?? true
-      : provider === "openrouter"
-        ? providerHealth?.openrouter?.ok ?? true
-        : providerHealth?.claude === null || providerHealth?.claude === undefined
-          ? true // Optimistic: allow input while health check is pending
-          : providerHealth.claude.ok && !providerHealth.claude.disabled
+  const currentHealth = providerHealth?.[provider]
+  const isProviderAvailable = currentHealth ? currentHealth.ok && !currentHealth.disabled : true
 
   // Disable provider change after first message
   const canChangeProvider = messages.length === 0
 
+  // A compare turn must be kept or discarded before the next message
+  const awaitingCompareChoice = compareReplies.length > 0 && !isStreaming
+
   return (
     <AnimatePresence>
       {isOpen && (
@@ -523,17 +811,13 @@ export function BrainstormDialog({
                 disabled={!canChangeProvider || isStreaming}
                 className="text-sm border border-input rounded-md px-2 py-1 bg-background disabled:opacity-50"
               >
-                {!providerHealth?.claude?.disabled && (
-                  <option value="claude" disabled={!providerHealth?.claude?.ok}>
-                    Claude {providerHealth?.claude?.ok ? "" : "(offline)"}
-                  </option>
-                )}
-                <option value="ollama" disabled={!providerHealth?.ollama?.ok}>
-                  Ollama {providerHealth?.ollama?.ok ? "" : "(offline)"}
-                </option>
-                <option value="openrouter" disabled={!providerHealth?.openrouter?.ok}>
-                  OpenRouter {providerHealth?.openrouter?.ok ? "" : "(offline)"}
-                </option>
+                {listProviders()
+                  .filter((p) => !providerHealth?.[p.id]?.disabled)
+                  .map((p) => (
+                    <option key={p.id} value={p.id} disabled={!providerHealth?.[p.id]?.ok}>
+                      {p.label} {providerHealth?.[p.id]?.ok ? "" : "(offline)"}
+                    </option>
+                  ))}
               </select>
               {/* Model selector (Claude provider only) */}
               {provider === "claude" && onModelChange && !providerHealth?.claude?.disabled && (
@@ -546,22 +830,84 @@ export function BrainstormDialog({
                   <option value="">
                     Default{claudeResolvedModel && !model ? ` (${claudeResolvedModel.replace("claude-", "").replace(/-\d{8}$/, "")})` : ""}
                   </option>
-                  <option value="claude-sonnet-4-6">Sonnet 4.6</option>
-                  <option value="claude-sonnet-4-5-20250929">Sonnet 4.5</option>
-                  <option value="claude-opus-4-6">Opus 4.6</option>
-                  <option value="claude-haiku-4-5-20251001">Haiku 4.5</option>
+                  {claudeModels.map((m) => (
+                    <option key={m.id} value={m.id}>{m.name ?? m.id}</option>
+                  ))}
                 </select>
               )}
               {/* Claude subscription usage */}
               {provider === "claude" && !providerHealth?.claude?.disabled && (
                 <SubscriptionUsage enabled={provider === "claude"} />
               )}
-              {/* OpenRouter session cost */}
-              {provider === "openrouter" && openrouterSessionCost != null && (
-                <OpenRouterCost sessionCost={openrouterSessionCost} />
+              {/* Client-side provider session cost (includes prompt cache reads/writes) */}
+              {provider !== "claude" && sessionCost != null && (
+                <OpenRouterCost sessionCost={sessionCost} label={getProvider(provider).label} />
               )}
             </div>
             <div className="flex items-center gap-2">
+              {onCompareModeChange && (
+                <label
+                  className="inline-flex items-center gap-1.5 text-xs cursor-pointer"
+                  title="Send each message to several models side by side, then keep one reply"
+                >
+                  <input
+                    type="checkbox"
+                    checked={compareMode}
+                    onChange={(e) => onCompareModeChange(e.target.checked)}
+                    disabled={isStreaming || compareReplies.length > 0}
+                    className="rounded border-input"
+                  />
+                  <span className="text-muted-foreground">Compare</span>
+                </label>
+              )}
+              {onStructuredModeChange && (
+                <label
+                  className="inline-flex items-center gap-1.5 text-xs cursor-pointer"
+                  title="Replies must match a JSON Schema; they show as a form you can save as a block"
+                >
+                  <input
+                    type="checkbox"
+                    checked={structuredMode}
+                    onChange={(e) => onStructuredModeChange(e.target.checked)}
+                    disabled={isStreaming || compareMode}
+                    className="rounded border-input"
+                  />
+                  <span className="text-muted-foreground">JSON</span>
+                </label>
+              )}
+              {onSaveBranch && (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={isStreaming || messages.every((m) => m.savedAsBlockId)}
+                      title="Save every unsaved message on this branch as blocks"
+                    >
+                      Save branch
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end" collisionPadding={8}>
+                    <DropdownMenuLabel className="text-xs">Save branch to zone:</DropdownMenuLabel>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem onSelect={() => onSaveBranch("WORKING")}>Working</DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => onSaveBranch("STABLE")}>Stable</DropdownMenuItem>
+                    <DropdownMenuItem onSelect={() => onSaveBranch("PERMANENT")}>Permanent</DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              )}
+              {replay && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setShowReplay((v) => !v)}
+                  disabled={isStreaming || (!showReplay && replay.turnCount === 0)}
+                  className={cn(showReplay && "bg-muted")}
+                  title="Re-run this branch's user turns against a snapshot or another model"
+                >
+                  Replay
+                </Button>
+              )}
               <Button
                 variant="ghost"
                 size="sm"
@@ -588,6 +934,37 @@ export function BrainstormDialog({
               </Button>
             </div>
           </div>
+          {/* Threads */}
+          {onSelectConversation && onNewConversation && onRenameConversation && onDeleteConversation && (
+            <BrainstormThreads
+              conversations={conversations}
+              activeConversationId={activeConversationId}
+              onSelect={onSelectConversation}
+              onNew={onNewConversation}
+              onRename={onRenameConversation}
+              onDelete={onDeleteConversation}
+              disabled={isStreaming}
+            />
+          )}
+          {/* Compare targets */}
+          {compareMode && onCompareTargetsChange && (
+            <CompareTargetsBar
+              targets={compareTargets}
+              onChange={onCompareTargetsChange}
+              providerHealth={providerHealth}
+              disabled={isStreaming || compareReplies.length > 0}
+            />
+          )}
+          {/* Output schema (structured mode) */}
+          {structuredMode && !compareMode && onOutputSchemaTextChange && (
+            <OutputSchemaBar
+              schemaText={outputSchemaText}
+              onChange={onOutputSchemaTextChange}
+              error={outputSchemaError}
+              native={provider !== "claude" && getProvider(provider).capabilities.structuredOutput}
+              disabled={isStreaming}
+            />
+          )}
           {/* Row 2: Toggles + context badges */}
           <div className="flex items-center gap-3 flex-wrap">
             {/* Claude toggles */}
@@ -621,6 +998,39 @@ export function BrainstormDialog({
                 <span className="text-muted-foreground">No self-talk</span>
               </label>
             )}
+            {/* Server-side generation (OpenRouter/Ollama configured on the deployment) */}
+            {provider !== "claude" && serverGenerationAvailable && onServerGenerationChange && (
+              <label
+                className="inline-flex items-center gap-1.5 text-xs cursor-pointer"
+                title="Generate on the server: replies keep streaming if you close the tab, and usage is recorded"
+              >
+                <input
+                  type="checkbox"
+                  checked={serverGeneration}
+                  onChange={(e) => onServerGenerationChange(e.target.checked)}
+                  disabled={isStreaming}
+                  className="rounded border-input"
+                />
+                <span className="text-muted-foreground">Run on server</span>
+              </label>
+            )}
+            {/* Rolling summary of older turns */}
+            {onRollingSummaryChange && (
+              <label
+                className="inline-flex items-center gap-1.5 text-xs cursor-pointer"
+                title="Once the conversation gets long, summarize older turns into a WORKING note block and send only recent turns verbatim"
+              >
+                <input
+                  type="checkbox"
+                  checked={rollingSummary}
+                  onChange={(e) => onRollingSummaryChange(e.target.checked)}
+                  className="rounded border-input"
+                />
+                <span className="text-muted-foreground">
+                  {isSummarizing ? "Summarizing…" : "Summarize old turns"}
+                </span>
+              </label>
+            )}
             {/* System prompt indicator */}
             {systemPrompt && (
               <span
@@ -684,11 +1094,16 @@ export function BrainstormDialog({
           </div>
         )}
 
+        {/* Replay */}
+        {showReplay && replay && (
+          <BrainstormReplay replay={replay} providerHealth={providerHealth} onClose={() => setShowReplay(false)} />
+        )}
+
         {/* Messages */}
         <div
           ref={messagesContainerRef}
           onScroll={handleScroll}
-          className="flex-1 overflow-y-auto p-4 space-y-4"
+          className={cn("flex-1 overflow-y-auto p-4 space-y-4", showReplay && replay && "hidden")}
         >
           {conversationRestored && messages.length > 0 && (
             <div className="text-center text-xs text-muted-foreground py-2 border-b border-border mb-2">
@@ -709,33 +1124,54 @@ export function BrainstormDialog({
             </div>
           )}
 
-          {messages.map((message) => (
+          {messages.map((message, index) => (
             <MessageBubble
               key={message.id}
               message={message}
               onCopy={() => {}}
               onSave={(zone) => onSaveMessage(message.id, zone)}
+              onSmartSave={onSaveMessagePieces ? (pieces) => onSaveMessagePieces(message.id, pieces) : undefined}
               onSaveToMemory={
-                projectId && memorySchemaTypes && onCreateMemoryEntry
+                projectId && sessionId && memorySchemaTypes && onCreateMemoryEntry
                   ? (selectedText) => setMemoryDraftText(selectedText)
                   : undefined
               }
               onRetry={() => onRetryMessage(message.id)}
               onEdit={(newContent) => onEditMessage(message.id, newContent)}
+              branch={getBranchInfo?.(message.id)}
+              onSwitchBranch={onSwitchBranch ? (offset) => onSwitchBranch(message.id, offset) : undefined}
+              onContinueFrom={
+                onContinueFrom && index < messages.length - 1 ? () => onContinueFrom(message.id) : undefined
+              }
+              onAnswerQuestions={
+                index === messages.length - 1 && compareReplies.length === 0 ? onAnswerQuestions : undefined
+              }
+              currentContextManifest={currentContextManifest}
+              contextTitles={contextTitles}
               isStreaming={isStreaming}
             />
           ))}
 
-          {isStreaming && <StreamingMessage text={streamingText} />}
+          {compareReplies.length > 0 && onKeepCompareReply && onSaveCompareReply && onDiscardCompareReplies ? (
+            <CompareReplies
+              replies={compareReplies}
+              onKeep={onKeepCompareReply}
+              onSave={onSaveCompareReply}
+              onDiscard={onDiscardCompareReplies}
+            />
+          ) : (
+            isStreaming && <StreamingMessage text={streamingText} />
+          )}
 
           <div ref={messagesEndRef} />
         </div>
 
         {/* Save to memory dialog */}
-        {memoryDraftText && projectId && memorySchemaTypes && onCreateMemoryEntry && (
+        {memoryDraftText && projectId && sessionId && memorySchemaTypes && onCreateMemoryEntry && (
           <div className="mx-4 mb-2">
             <SaveToMemoryDialog
               projectId={projectId}
+              sessionId={sessionId}
               selectedText={memoryDraftText}
               schemaTypes={memorySchemaTypes}
               onSave={async (args) => {
@@ -743,10 +1179,18 @@ export function BrainstormDialog({
                 setMemoryDraftText(null)
               }}
               onClose={() => setMemoryDraftText(null)}
+              provider={provider}
             />
           </div>
         )}
 
+        {/* Project budget warning */}
+        {budgetWarning && budgetWarning !== error && (
+          <div className="mx-4 mb-2 p-3 rounded-md bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300 text-sm">
+            {budgetWarning}
+          </div>
+        )}
+
         {/* Error display */}
         {error && (
           <div className="mx-4 mb-2 p-3 rounded-md bg-destructive/10 border border-destructive text-destructive text-sm">
@@ -754,19 +1198,47 @@ export function BrainstormDialog({
           </div>
         )}
 
+        <BudgetPolicyBanner
+          isApplying={isApplyingBudgetPolicy}
+          run={budgetPolicyRun}
+          onUndo={onUndoBudgetPolicyRun}
+          onDismiss={onDismissBudgetPolicyRun}
+          isUndoing={isUndoingBudgetPolicyRun}
+        />
+
+        {/* Result of the last slash command */}
+        {slashNotice && <SlashNoticeBanner notice={slashNotice} onDismiss={onDismissSlashNotice} />}
+
         {/* Input */}
-        <div className="p-4 border-t border-border">
+        <div className={cn("p-4 border-t border-border", showReplay && replay && "hidden")}>
           <div className="flex gap-2 items-end">
-            <textarea
-              ref={inputRef}
-              value={inputValue}
-              onChange={(e) => setInputValue(e.target.value)}
-              onKeyDown={handleKeyDown}
-              placeholder="Type your message... (Ctrl+Enter to send)"
-              rows={3}
-              disabled={isStreaming || !isProviderAvailable}
-              className="flex-1 rounded-md border border-input bg-background px-3 py-2 text-sm resize-none disabled:opacity-50 min-h-[80px] max-h-[200px] overflow-y-auto"
-            />
+            <div className="relative flex-1">
+              {showSlashMenu && (
+                <BrainstormSlashMenu
+                  suggestions={slashSuggestions}
+                  selectedIndex={Math.min(slashIndex, slashSuggestions.length - 1)}
+                  onSelect={acceptSlashSuggestion}
+                  onHover={setSlashIndex}
+                />
+              )}
+              <textarea
+                ref={inputRef}
+                value={inputValue}
+                onChange={(e) => {
+                  setInputValue(e.target.value)
+                  setSlashIndex(0)
+                }}
+                onKeyDown={handleKeyDown}
+                placeholder={
+                  awaitingCompareChoice
+                    ? "Keep one of the replies (or discard them) to continue"
+                    : "Type your message... (Ctrl+Enter to send)"
+                }
+                rows={3}
+                disabled={isStreaming || !isProviderAvailable || awaitingCompareChoice}
+                className="w-full block rounded-md border border-input bg-background px-3 py-2 text-sm resize-none disabled:opacity-50 min-h-[80px] max-h-[200px] overflow-y-auto"
+              />
+            </div>
             {isStreaming ? (
               <Button
                 variant="destructive"
@@ -782,7 +1254,7 @@ export function BrainstormDialog({
                     variant="secondary"
                     size="sm"
                     onClick={handleValidate}
-                    disabled={!isProviderAvailable || !hasCriteria}
+                    disabled={!isProviderAvailable || !hasCriteria || awaitingCompareChoice}
                     title={hasCriteria ? "Send with validation criteria included" : "Mark blocks as Criteria to enable validation"}
                   >
                     Validate
@@ -790,7 +1262,7 @@ export function BrainstormDialog({
                 )}
                 <DebouncedButton
                   onClick={handleSend}
-                  disabled={!inputValue.trim() || !isProviderAvailable}
+                  disabled={!inputValue.trim() || !isProviderAvailable || awaitingCompareChoice}
                   debounceMs={300}
                 >
                   Send
@@ -799,7 +1271,7 @@ export function BrainstormDialog({
             )}
           </div>
           <p className="text-xs text-muted-foreground mt-1">
-            Ctrl+Enter to send, Esc to close · AI responses may be inaccurate
+            Ctrl+Enter to send, Esc to close{getSlashSuggestions && ", / for commands"} · AI responses may be inaccurate
           </p>
         </div>
       </motion.div>
@@ -3,62 +3,39 @@ import { useQuery, useMutation } from "convex/react"
 import { api } from "../../convex/_generated/api"
 import { Button } from "@/components/ui/button"
 import { BrainstormDialog } from "@/components/BrainstormDialog"
-import { useBrainstorm, type Zone } from "@/hooks/useBrainstorm"
+import { useBrainstorm, type SavePiece, type Zone } from "@/hooks/useBrainstorm"
+import { useSlashCommands } from "@/hooks/useSlashCommands"
+import { useConversationReplay } from "@/hooks/useConversationReplay"
 import type { Id } from "../../convex/_generated/dataModel"
-import * as ollamaClient from "@/lib/llm/ollama"
-import * as openrouterClient from "@/lib/llm/openrouter"
+import { listProviders } from "@/lib/llm/registry"
+import type { ProviderHealthMap } from "@/lib/llm/provider"
 
-interface ProviderHealth {
-  ollama: { ok: boolean; error?: string } | null
-  claude: { ok: boolean; error?: string; version?: string; disabled?: boolean } | null
-  openrouter: { ok: boolean; configured?: boolean; error?: string; model?: string } | null
-}
-
-// Check provider health on mount (client-side for Ollama/OpenRouter, backend for Claude)
+// Check provider health on mount via the provider registry (client-side providers call
+// their APIs directly; Claude Code is checked through the backend HTTP endpoint)
 function useProviderHealth() {
-  const [health, setHealth] = useState<ProviderHealth>({
+  // Null until health check completes - allows optimistic input enable
+  const [health, setHealth] = useState<ProviderHealthMap>(() => ({
+    claude: null,
     ollama: null,
-    claude: null, // Null until health check completes - allows optimistic input enable
     openrouter: null,
-  })
+    anthropic: null,
+    "openai-compatible": null,
+    mock: null,
+  }))
   const features = useQuery(api.features.getFlags)
 
   useEffect(() => {
     const checkHealth = async () => {
-      // Check Ollama (client-side)
-      const ollamaHealth = await ollamaClient.checkHealth()
-
-      // Check OpenRouter (client-side)
-      const openrouterHealth = await openrouterClient.checkHealth()
-
-      // Check Claude Code (backend) - only if enabled
-      let claudeHealth: { ok: boolean; error?: string; version?: string; disabled?: boolean } | null = null
-      if (features?.claudeCodeEnabled) {
-        try {
-          const convexUrl = import.meta.env.VITE_CONVEX_URL as string | undefined
-          const baseUrl = convexUrl
-            ? convexUrl.replace(":3210", ":3211")
-            : "http://127.0.0.1:3211"
-
-          const response = await fetch(`${baseUrl}/api/health/claude`)
-          if (response.ok) {
-            claudeHealth = await response.json()
-          } else {
-            claudeHealth = { ok: false, error: "Claude Code not available" }
+      const results = await Promise.all(
+        listProviders().map(async (provider) => {
+          // Claude Code is disabled via feature flag
+          if (provider.id === "claude" && !features?.claudeCodeEnabled && !features?.mockLLMEnabled) {
+            return [provider.id, { ok: false, disabled: true, error: "Disabled" }] as const
           }
-        } catch {
-          claudeHealth = { ok: false, error: "Failed to check Claude Code" }
-        }
-      } else {
-        // Claude Code is disabled via feature flag
-        claudeHealth = { ok: false, disabled: true, error: "Disabled" }
-      }
-
-      setHealth({
-        ollama: ollamaHealth,
-        claude: claudeHealth,
-        openrouter: openrouterHealth,
-      })
+          return [provider.id, await provider.checkHealth()] as const
+        })
+      )
+      setHealth((prev) => ({ ...prev, ...Object.fromEntries(results) }))
     }
 
     // Only run health check once features are loaded
@@ -118,6 +95,27 @@ export function BrainstormPanel({ sessionId, compact = false }: BrainstormPanelP
     onError: (err) => console.error("Brainstorm error:", err),
   })
 
+  const slash = useSlashCommands({
+    sessionId,
+    projectId,
+    messages: brainstorm.messages,
+    provider: brainstorm.provider,
+    saveMessage: brainstorm.saveMessage,
+    sendValidation: brainstorm.sendValidation,
+    setModel: brainstorm.setModel,
+  })
+
+  const replay = useConversationReplay({
+    sessionId,
+    messages: brainstorm.messages,
+    streamClientReply: brainstorm.streamClientReply,
+    provider: brainstorm.provider,
+    model: brainstorm.model,
+    disableAgentBehavior: brainstorm.disableAgentBehavior,
+    preventSelfTalk: brainstorm.preventSelfTalk,
+    activeSkills: brainstorm.activeSkills,
+  })
+
   const handleSaveMessage = async (messageId: string, zone: Zone) => {
     try {
       await brainstorm.saveMessage(messageId, zone)
@@ -126,6 +124,27 @@ export function BrainstormPanel({ sessionId, compact = false }: BrainstormPanelP
     }
   }
 
+  // Errors surface in the smart save preview
+  const handleSaveMessagePieces = async (messageId: string, pieces: SavePiece[]) => {
+    await brainstorm.saveMessagePieces(messageId, pieces)
+  }
+
+  const handleSaveBranch = async (zone: Zone) => {
+    try {
+      await brainstorm.saveBranch(zone)
+    } catch (err) {
+      console.error("Failed to save branch:", err)
+    }
+  }
+
+  const handleSaveCompareReply = async (replyId: string, zone: Zone) => {
+    try {
+      await brainstorm.saveCompareReply(replyId, zone)
+    } catch (err) {
+      console.error("Failed to save compare reply:", err)
+    }
+  }
+
   // Create a new system_prompt block in PERMANENT zone
   const handleCreateSystemPromptBlock = async () => {
     if (!newSystemPrompt.trim()) return
@@ -175,8 +194,8 @@ export function BrainstormPanel({ sessionId, compact = false }: BrainstormPanelP
   // Compact mode - just a button
   if (compact) {
     // Optimistic: if all health is still null (pending), allow opening
-    const allPending = health.claude === null && health.ollama === null && health.openrouter === null
-    const anyProviderAvailable = allPending || health.claude?.ok || health.ollama?.ok || health.openrouter?.ok
+    const allPending = Object.values(health).every((h) => h === null)
+    const anyProviderAvailable = allPending || Object.values(health).some((h) => h?.ok)
     return (
       <>
         <Button
@@ -204,8 +223,13 @@ export function BrainstormPanel({ sessionId, compact = false }: BrainstormPanelP
           hasCriteria={brainstorm.hasCriteria}
           onClearConversation={brainstorm.clearConversation}
           onSaveMessage={handleSaveMessage}
+          onSaveMessagePieces={handleSaveMessagePieces}
           onRetryMessage={(messageId) => brainstorm.retryMessage(messageId)}
           onEditMessage={(messageId, newContent) => brainstorm.editMessage(messageId, newContent)}
+          getBranchInfo={brainstorm.getBranchInfo}
+          onSwitchBranch={brainstorm.switchBranch}
+          onContinueFrom={brainstorm.continueFrom}
+          onSaveBranch={handleSaveBranch}
           error={brainstorm.error}
           providerHealth={health}
           systemPrompt={activeSystemPrompt}
@@ -219,11 +243,51 @@ export function BrainstormPanel({ sessionId, compact = false }: BrainstormPanelP
           claudeResolvedModel={session?.claudeResolvedModel}
           activeSkills={brainstorm.activeSkills}
           onToggleSkill={brainstorm.toggleSkill}
-          openrouterSessionCost={brainstorm.openrouterSessionCost}
+          sessionCost={brainstorm.sessionCost}
+          budgetWarning={brainstorm.budgetWarning}
+          isApplyingBudgetPolicy={brainstorm.isApplyingBudgetPolicy}
+          budgetPolicyRun={brainstorm.budgetPolicyRun}
+          onUndoBudgetPolicyRun={brainstorm.undoBudgetPolicyRun}
+          onDismissBudgetPolicyRun={brainstorm.dismissBudgetPolicyRun}
+          isUndoingBudgetPolicyRun={brainstorm.isUndoingBudgetPolicyRun}
+          serverGeneration={brainstorm.serverGeneration}
+          onServerGenerationChange={brainstorm.setServerGeneration}
+          rollingSummary={brainstorm.rollingSummary}
+          onRollingSummaryChange={brainstorm.setRollingSummary}
+          getSlashSuggestions={slash.getSuggestions}
+          onSlashCommand={slash.run}
+          slashNotice={slash.notice}
+          onDismissSlashNotice={slash.dismissNotice}
+          onAnswerQuestions={brainstorm.answerQuestions}
+          currentContextManifest={brainstorm.currentContextManifest}
+          contextTitles={brainstorm.contextTitles}
+          replay={replay}
+          structuredMode={brainstorm.structuredMode}
+          onStructuredModeChange={brainstorm.setStructuredMode}
+          outputSchemaText={brainstorm.outputSchemaText}
+          onOutputSchemaTextChange={brainstorm.setOutputSchemaText}
+          outputSchemaError={brainstorm.outputSchemaError}
+          isSummarizing={brainstorm.isSummarizing}
+          serverGenerationAvailable={brainstorm.serverGenerationAvailable}
           conversationRestored={brainstorm.conversationRestored}
+          conversations={brainstorm.conversations}
+          activeConversationId={brainstorm.activeConversationId}
+          onSelectConversation={brainstorm.selectConversation}
+          onNewConversation={brainstorm.newConversation}
+          onRenameConversation={brainstorm.renameConversation}
+          onDeleteConversation={brainstorm.deleteConversation}
           projectId={projectId}
+          sessionId={sessionId}
           memorySchemaTypes={memorySchema?.types}
           onCreateMemoryEntry={memorySchema ? (args) => createMemoryEntry({ ...args, projectId: args.projectId as Id<"projects"> }) : undefined}
+          compareMode={brainstorm.compareMode}
+          onCompareModeChange={brainstorm.setCompareMode}
+          compareTargets={brainstorm.compareTargets}
+          onCompareTargetsChange={brainstorm.setCompareTargets}
+          compareReplies={brainstorm.compareReplies}
+          onKeepCompareReply={brainstorm.keepCompareReply}
+          onSaveCompareReply={handleSaveCompareReply}
+          onDiscardCompareReplies={brainstorm.discardCompareReplies}
         />
       </>
     )
@@ -236,10 +300,12 @@ export function BrainstormPanel({ sessionId, compact = false }: BrainstormPanelP
           <h2 className="text-xl font-semibold">Brainstorm</h2>
           {/* Provider status indicators */}
           <div className="flex items-center gap-2">
-            {getProviderStatus("Ollama", health.ollama)}
-            {/* Only show Claude if not disabled */}
-            {!health.claude?.disabled && getProviderStatus("Claude", health.claude)}
-            {getProviderStatus("OpenRouter", health.openrouter)}
+            {/* Hide providers that are disabled or still need an API key/URL */}
+            {listProviders()
+              .filter((p) => !health[p.id]?.disabled && health[p.id]?.configured !== false)
+              .map((p) => (
+                <span key={p.id}>{getProviderStatus(p.label, health[p.id])}</span>
+              ))}
           </div>
         </div>
 
@@ -255,8 +321,8 @@ export function BrainstormPanel({ sessionId, compact = false }: BrainstormPanelP
             onClick={() => brainstorm.open()}
             disabled={
               // Optimistic: allow opening while health checks are pending
-              !(health.claude === null && health.ollama === null && health.openrouter === null) &&
-              !health.claude?.ok && !health.ollama?.ok && !health.openrouter?.ok
+              !Object.values(health).every((h) => h === null) &&
+              !Object.values(health).some((h) => h?.ok)
             }
           >
             {brainstorm.messages.length > 0
@@ -357,8 +423,13 @@ export function BrainstormPanel({ sessionId, compact = false }: BrainstormPanelP
         onSendValidation={(content) => brainstorm.sendValidation(content)}
         onClearConversation={brainstorm.clearConversation}
         onSaveMessage={handleSaveMessage}
+        onSaveMessagePieces={handleSaveMessagePieces}
         onRetryMessage={(messageId) => brainstorm.retryMessage(messageId)}
         onEditMessage={(messageId, newContent) => brainstorm.editMessage(messageId, newContent)}
+        getBranchInfo={brainstorm.getBranchInfo}
+        onSwitchBranch={brainstorm.switchBranch}
+        onContinueFrom={brainstorm.continueFrom}
+        onSaveBranch={handleSaveBranch}
         error={brainstorm.error}
         providerHealth={health}
         systemPrompt={activeSystemPrompt}
@@ -372,11 +443,51 @@ export function BrainstormPanel({ sessionId, compact = false }: BrainstormPanelP
         claudeResolvedModel={session?.claudeResolvedModel}
         activeSkills={brainstorm.activeSkills}
         onToggleSkill={brainstorm.toggleSkill}
-        openrouterSessionCost={brainstorm.openrouterSessionCost}
+        sessionCost={brainstorm.sessionCost}
+        budgetWarning={brainstorm.budgetWarning}
+        isApplyingBudgetPolicy={brainstorm.isApplyingBudgetPolicy}
+        budgetPolicyRun={brainstorm.budgetPolicyRun}
+        onUndoBudgetPolicyRun={brainstorm.undoBudgetPolicyRun}
+        onDismissBudgetPolicyRun={brainstorm.dismissBudgetPolicyRun}
+        isUndoingBudgetPolicyRun={brainstorm.isUndoingBudgetPolicyRun}
+        serverGeneration={brainstorm.serverGeneration}
+        onServerGenerationChange={brainstorm.setServerGeneration}
+        rollingSummary={brainstorm.rollingSummary}
+        onRollingSummaryChange={brainstorm.setRollingSummary}
+        getSlashSuggestions={slash.getSuggestions}
+        onSlashCommand={slash.run}
+        slashNotice={slash.notice}
+        onDismissSlashNotice={slash.dismissNotice}
+        onAnswerQuestions={brainstorm.answerQuestions}
+        currentContextManifest={brainstorm.currentContextManifest}
+        contextTitles={brainstorm.contextTitles}
+        replay={replay}
+        structuredMode={brainstorm.structuredMode}
+        onStructuredModeChange={brainstorm.setStructuredMode}
+        outputSchemaText={brainstorm.outputSchemaText}
+        onOutputSchemaTextChange={brainstorm.setOutputSchemaText}
+        outputSchemaError={brainstorm.outputSchemaError}
+        isSummarizing={brainstorm.isSummarizing}
+        serverGenerationAvailable={brainstorm.serverGenerationAvailable}
         conversationRestored={brainstorm.conversationRestored}
+        conversations={brainstorm.conversations}
+        activeConversationId={brainstorm.activeConversationId}
+        onSelectConversation={brainstorm.selectConversation}
+        onNewConversation={brainstorm.newConversation}
+        onRenameConversation={brainstorm.renameConversation}
+        onDeleteConversation={brainstorm.deleteConversation}
         projectId={projectId}
+        sessionId={sessionId}
         memorySchemaTypes={memorySchema?.types}
         onCreateMemoryEntry={memorySchema ? (args) => createMemoryEntry({ ...args, projectId: args.projectId as Id<"projects"> }) : undefined}
+        compareMode={brainstorm.compareMode}
+        onCompareModeChange={brainstorm.setCompareMode}
+        compareTargets={brainstorm.compareTargets}
+        onCompareTargetsChange={brainstorm.setCompareTargets}
+        compareReplies={brainstorm.compareReplies}
+        onKeepCompareReply={brainstorm.keepCompareReply}
+        onSaveCompareReply={handleSaveCompareReply}
+        onDiscardCompareReplies={brainstorm.discardCompareReplies}
       />
     </div>
   )
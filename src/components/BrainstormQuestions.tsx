@@ -0,0 +1,109 @@
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import type {
+  ClarifyingAnswers,
+  ClarifyingQuestion,
+} from "@/lib/llm/clarifyingQuestions"
+
+// Form for a clarifying-questions reply. Read-only once the conversation has moved on.
+export function BrainstormQuestions({
+  questions,
+  onSubmit,
+  disabled,
+}: {
+  questions: ClarifyingQuestion[]
+  onSubmit?: (answers: ClarifyingAnswers, saveAsNote: boolean) => Promise<void>
+  disabled?: boolean
+}) {
+  const [answers, setAnswers] = useState<ClarifyingAnswers>({})
+  const [saveAsNote, setSaveAsNote] = useState(false)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const setAnswer = (id: string, value: string) => setAnswers((prev) => ({ ...prev, [id]: value }))
+  const hasAnswers = questions.some((q) => answers[q.id]?.trim())
+
+  const handleSubmit = async () => {
+    if (!onSubmit || !hasAnswers) return
+    setIsSubmitting(true)
+    try {
+      await onSubmit(answers, saveAsNote)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!onSubmit) {
+    return (
+      <ol className="list-decimal pl-5 space-y-1 text-sm">
+        {questions.map((q) => (
+          <li key={q.id}>
+            {q.question}
+            {q.options && <span className="text-muted-foreground"> ({q.options.join(" / ")})</span>}
+          </li>
+        ))}
+      </ol>
+    )
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      {questions.map((q, i) => {
+        const answer = answers[q.id] ?? ""
+        const chosen = q.options?.includes(answer)
+        return (
+          <div key={q.id} className="space-y-1.5">
+            <div className="font-medium">
+              {i + 1}. {q.question}
+            </div>
+            {q.options && (
+              <div className="flex flex-wrap gap-1">
+                {q.options.map((option) => (
+                  <button
+                    key={option}
+                    type="button"
+                    onClick={() => setAnswer(q.id, answer === option ? "" : option)}
+                    disabled={disabled || isSubmitting}
+                    className={cn(
+                      "px-2 py-0.5 rounded-full border text-xs transition-colors disabled:opacity-50",
+                      answer === option
+                        ? "bg-primary text-primary-foreground border-primary"
+                        : "border-input bg-background hover:bg-muted"
+                    )}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            )}
+            <input
+              type="text"
+              value={chosen ? "" : answer}
+              onChange={(e) => setAnswer(q.id, e.target.value)}
+              placeholder={q.options ? "Or write your own answer…" : "Your answer…"}
+              disabled={disabled || isSubmitting}
+              className="w-full rounded-md border border-input bg-background px-2 py-1 text-sm disabled:opacity-50"
+            />
+          </div>
+        )
+      })}
+      <div className="flex items-center justify-between gap-2 pt-1">
+        <label
+          className="inline-flex items-center gap-1.5 text-xs cursor-pointer"
+          title="Also keep the answers as a note block in WORKING"
+        >
+          <input
+            type="checkbox"
+            checked={saveAsNote}
+            onChange={(e) => setSaveAsNote(e.target.checked)}
+            className="rounded border-input"
+          />
+          <span className="text-muted-foreground">Save answers as a note</span>
+        </label>
+        <Button size="sm" onClick={handleSubmit} disabled={disabled || isSubmitting || !hasAnswers}>
+          {isSubmitting ? "Sending…" : "Send answers"}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,242 @@
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import type { Provider } from "@/hooks/useBrainstorm"
+import type { ConversationReplay, ReplayTurn } from "@/hooks/useConversationReplay"
+import { getProvider, listProviders } from "@/lib/llm/registry"
+import type { ProviderHealthMap } from "@/lib/llm/provider"
+import { estimateReplyTokens } from "@/lib/replay"
+import { diffSimilarity, diffText } from "@/lib/textDiff"
+import type { Id } from "../../convex/_generated/dataModel"
+import ReactMarkdown from "react-markdown"
+import gfm from "remark-gfm"
+import breaks from "remark-breaks"
+import { MarkdownComponents } from "@/components/MarkdownComponents"
+
+const formatUsd = (usd: number) => `$${Math.abs(usd) < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`
+const signed = (n: number, format: (n: number) => string = String) => `${n > 0 ? "+" : n < 0 ? "−" : "±"}${format(Math.abs(n))}`
+
+function ReplyText({ text }: { text: string }) {
+  return (
+    <div className="text-sm prose prose-sm dark:prose-invert max-w-none">
+      <ReactMarkdown remarkPlugins={[gfm, breaks]} components={MarkdownComponents}>
+        {text}
+      </ReactMarkdown>
+    </div>
+  )
+}
+
+// Inline word diff: removed text struck through, added text highlighted
+function ReplyDiff({ original, replayed }: { original: string; replayed: string }) {
+  const segments = useMemo(() => diffText(original, replayed), [original, replayed])
+  return (
+    <div className="space-y-1">
+      <div className="text-xs text-muted-foreground">
+        {Math.round(diffSimilarity(segments) * 100)}% unchanged
+      </div>
+      <p className="text-sm whitespace-pre-wrap">
+        {segments.map((segment, i) => (
+          <span
+            key={i}
+            className={cn(
+              segment.type === "removed" && "bg-destructive/15 text-destructive line-through",
+              segment.type === "added" && "bg-green-500/15 text-green-700 dark:text-green-400"
+            )}
+          >
+            {segment.text}
+          </span>
+        ))}
+      </p>
+    </div>
+  )
+}
+
+function TurnMetrics({ turn }: { turn: ReplayTurn }) {
+  const parts: string[] = []
+  if (turn.replayed !== undefined && turn.status === "complete") {
+    const delta = estimateReplyTokens(turn.replayed) - estimateReplyTokens(turn.original ?? "")
+    parts.push(`≈${signed(delta)} tokens`)
+  }
+  if (turn.inputTokens !== undefined || turn.outputTokens !== undefined) {
+    parts.push(`${turn.inputTokens ?? "?"} in / ${turn.outputTokens ?? "?"} out`)
+  }
+  if (turn.costUsd !== undefined) parts.push(formatUsd(turn.costUsd))
+  if (turn.durationMs !== undefined) parts.push(`${(turn.durationMs / 1000).toFixed(1)}s`)
+  return parts.length > 0 ? <span className="text-xs text-muted-foreground">{parts.join(" · ")}</span> : null
+}
+
+// Replays the open branch's user turns against a snapshot or the current blocks
+export function BrainstormReplay({
+  replay,
+  providerHealth,
+  onClose,
+}: {
+  replay: ConversationReplay
+  providerHealth?: ProviderHealthMap
+  onClose: () => void
+}) {
+  const [showDiff, setShowDiff] = useState(true)
+  const { run, summary, target } = replay
+  const isRunning = run?.status === "running"
+  const available = listProviders().filter(
+    (p) => !providerHealth?.[p.id]?.disabled && providerHealth?.[p.id]?.ok !== false
+  )
+  const targetLabel = (t: { provider: Provider; model: string | null }) =>
+    `${getProvider(t.provider).label}${t.model ? ` · ${t.model}` : ""}`
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-4">
+      <div className="flex items-center gap-2 flex-wrap text-xs">
+        <span className="font-medium text-sm">Replay</span>
+        <span className="text-muted-foreground">
+          {replay.turnCount} user {replay.turnCount === 1 ? "turn" : "turns"} against
+        </span>
+        <select
+          value={replay.source.kind === "snapshot" ? replay.source.snapshotId : ""}
+          onChange={(e) =>
+            replay.setSource(
+              e.target.value
+                ? { kind: "snapshot", snapshotId: e.target.value as Id<"snapshots"> }
+                : { kind: "current" }
+            )
+          }
+          disabled={isRunning}
+          className="border border-input rounded-md px-1.5 py-0.5 bg-background"
+        >
+          <option value="">Current blocks</option>
+          {replay.snapshots.map((s) => (
+            <option key={s._id} value={s._id}>
+              Snapshot: {s.name} ({new Date(s.createdAt).toLocaleDateString()})
+            </option>
+          ))}
+        </select>
+        <span className="text-muted-foreground">with</span>
+        <select
+          value={target.provider}
+          onChange={(e) => replay.setTarget({ provider: e.target.value as Provider, model: null })}
+          disabled={isRunning}
+          className="border border-input rounded-md px-1.5 py-0.5 bg-background"
+        >
+          {available.map((p) => (
+            <option key={p.id} value={p.id}>{p.label}</option>
+          ))}
+        </select>
+        <input
+          value={target.model ?? ""}
+          onChange={(e) => replay.setTarget({ ...target, model: e.target.value.trim() || null })}
+          placeholder="Model (default)"
+          disabled={isRunning}
+          className="border border-input rounded-md px-1.5 py-0.5 bg-background w-40"
+        />
+        {isRunning ? (
+          <Button variant="destructive" size="sm" className="h-6 px-2 text-xs" onClick={replay.stop}>
+            Stop
+          </Button>
+        ) : (
+          <Button size="sm" className="h-6 px-2 text-xs" onClick={replay.start} disabled={!replay.canStart}>
+            {run ? "Run again" : "Run replay"}
+          </Button>
+        )}
+        <label className="inline-flex items-center gap-1.5 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={showDiff}
+            onChange={(e) => setShowDiff(e.target.checked)}
+            className="rounded border-input"
+          />
+          <span className="text-muted-foreground">Diff</span>
+        </label>
+        <div className="flex-1" />
+        {run && !isRunning && (
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={replay.clear}>
+            Clear
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onClose}>
+          Back to conversation
+        </Button>
+      </div>
+
+      {replay.turnCount === 0 && (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          This branch has no user turns to replay.
+        </p>
+      )}
+
+      {run && summary && (
+        <div className="rounded-md border bg-muted/40 px-3 py-2 text-xs flex flex-wrap gap-x-4 gap-y-1">
+          <span>
+            <span className="font-medium">{targetLabel(run.target)}</span>
+            {" "}on {run.sourceLabel ? `snapshot "${run.sourceLabel}"` : "current blocks"}
+          </span>
+          <span>
+            {summary.completed}/{run.turns.length} turns
+            {run.status === "stopped" && " (stopped)"}
+            {run.status === "error" && " (failed)"}
+          </span>
+          <span title="Estimated reply tokens (chars / 4), original → replayed">
+            ≈{summary.originalTokens} → {summary.replayedTokens} tokens ({signed(summary.tokenDelta)})
+          </span>
+          {summary.costUsd > 0 && <span>Replay cost {formatUsd(summary.costUsd)}</span>}
+          {summary.costDeltaUsd !== undefined && (
+            <span title="Token delta at the replay model's output price">
+              Δ cost ≈{signed(summary.costDeltaUsd, formatUsd)}
+            </span>
+          )}
+        </div>
+      )}
+
+      {run?.turns.map((turn, index) => (
+        <div key={turn.messageId} className="space-y-2">
+          <div className="flex justify-end">
+            <div className="max-w-[80%] rounded-lg px-4 py-2 bg-primary text-primary-foreground">
+              <div className="text-xs font-medium mb-1 opacity-70">You · turn {index + 1}</div>
+              <p className="text-sm whitespace-pre-wrap">{turn.user}</p>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="rounded-lg border bg-muted/50 min-w-0">
+              <div className="px-3 py-2 border-b border-border text-xs font-medium">Original</div>
+              <div className="px-3 py-2 max-h-[40vh] overflow-y-auto">
+                {turn.original ? (
+                  <ReplyText text={turn.original} />
+                ) : (
+                  <p className="text-sm text-muted-foreground">No reply in the original thread</p>
+                )}
+              </div>
+            </div>
+            <div
+              className={cn(
+                "rounded-lg border bg-muted/50 min-w-0",
+                turn.status === "error" ? "border-destructive" : "border-border"
+              )}
+            >
+              <div className="px-3 py-2 border-b border-border text-xs font-medium flex items-center gap-2">
+                <span className="truncate">Replayed · {targetLabel(run.target)}</span>
+                {turn.status === "streaming" && (
+                  <span className="w-1.5 h-1.5 rounded-full bg-primary animate-pulse shrink-0" />
+                )}
+                {turn.status === "cancelled" && <span className="text-muted-foreground">(stopped)</span>}
+              </div>
+              <div className="px-3 py-2 max-h-[40vh] overflow-y-auto">
+                {turn.status === "pending" ? (
+                  <p className="text-sm text-muted-foreground">Waiting…</p>
+                ) : showDiff && turn.status === "complete" && turn.original && turn.replayed !== undefined ? (
+                  <ReplyDiff original={turn.original} replayed={turn.replayed} />
+                ) : turn.replayed ? (
+                  <ReplyText text={turn.replayed} />
+                ) : turn.status === "streaming" ? (
+                  <p className="text-sm text-muted-foreground">Thinking...</p>
+                ) : null}
+                {turn.error && <p className="text-xs text-destructive mt-2">{turn.error}</p>}
+              </div>
+              <div className="px-3 py-1.5 border-t border-border">
+                <TurnMetrics turn={turn} />
+              </div>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+import { cn } from "@/lib/utils"
+import type { SlashSuggestion } from "@/lib/slashCommands"
+import type { SlashNotice } from "@/hooks/useSlashCommands"
+
+// Autocomplete list shown above the brainstorm input while typing a slash command
+export function BrainstormSlashMenu({
+  suggestions,
+  selectedIndex,
+  onSelect,
+  onHover,
+}: {
+  suggestions: SlashSuggestion[]
+  selectedIndex: number
+  onSelect: (suggestion: SlashSuggestion) => void
+  onHover: (index: number) => void
+}) {
+  return (
+    <div
+      role="listbox"
+      className="absolute bottom-full left-0 right-0 mb-1 max-h-60 overflow-y-auto rounded-md border border-border bg-popover shadow-md z-10"
+    >
+      {suggestions.map((s, i) => (
+        <button
+          key={s.completion}
+          type="button"
+          role="option"
+          aria-selected={i === selectedIndex}
+          // Keep focus in the textarea
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onSelect(s)}
+          onMouseEnter={() => onHover(i)}
+          className={cn(
+            "flex w-full items-baseline gap-2 px-3 py-1.5 text-left text-sm",
+            i === selectedIndex ? "bg-accent text-accent-foreground" : "hover:bg-muted"
+          )}
+        >
+          <span className="font-mono truncate">{s.label}</span>
+          {s.detail && <span className="text-xs text-muted-foreground truncate">{s.detail}</span>}
+        </button>
+      ))}
+    </div>
+  )
+}
+
+// Result of the last slash command
+export function SlashNoticeBanner({ notice, onDismiss }: { notice: SlashNotice; onDismiss?: () => void }) {
+  return (
+    <div
+      className={cn(
+        "mx-4 mb-2 px-3 py-2 rounded-md text-sm flex items-center justify-between gap-2",
+        notice.kind === "error"
+          ? "bg-destructive/10 border border-destructive text-destructive"
+          : "bg-muted text-muted-foreground"
+      )}
+    >
+      <span>{notice.text}</span>
+      {onDismiss && (
+        <button type="button" onClick={onDismiss} className="text-xs hover:text-foreground" aria-label="Dismiss">
+          ×
+        </button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,119 @@
+import { useMemo, useState } from "react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import type { SavePiece, Zone } from "@/hooks/useBrainstorm"
+import { BLOCK_TYPE_METADATA, getBlockTypeMetadata } from "@/lib/blockTypes"
+import { splitReply, type ReplyPieceType } from "@/lib/smartSave"
+import { extractBlockTitle } from "@/lib/skills/titleExtractor"
+
+const PIECE_TYPES: ReplyPieceType[] = ["code", "document", "note", "assistant_message"]
+const ZONES: Zone[] = ["WORKING", "STABLE", "PERMANENT"]
+
+interface DraftPiece {
+  content: string
+  type: ReplyPieceType
+  zone: Zone
+  include: boolean
+}
+
+// Preview of a reply split into typed blocks, with a type and zone per piece
+export function BrainstormSmartSave({
+  content,
+  onSave,
+  onCancel,
+}: {
+  content: string
+  onSave: (pieces: SavePiece[]) => Promise<void>
+  onCancel: () => void
+}) {
+  const initial = useMemo(
+    () =>
+      splitReply(content).map((piece): DraftPiece => ({
+        ...piece,
+        zone: getBlockTypeMetadata(piece.type).defaultZone,
+        include: true,
+      })),
+    [content]
+  )
+  const [pieces, setPieces] = useState<DraftPiece[]>(initial)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const update = (index: number, patch: Partial<DraftPiece>) =>
+    setPieces((prev) => prev.map((p, i) => (i === index ? { ...p, ...patch } : p)))
+  const selected = pieces.filter((p) => p.include)
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setError(null)
+    try {
+      await onSave(selected.map(({ content, type, zone }) => ({ content, type, zone })))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="w-full max-w-[80%] rounded-md border bg-background p-3 text-xs space-y-2">
+      <div className="font-medium">
+        Smart save
+        <span className="font-normal text-muted-foreground">
+          {" "}· {pieces.length} {pieces.length === 1 ? "piece" : "pieces"}
+        </span>
+      </div>
+      <ul className="space-y-2">
+        {pieces.map((piece, index) => (
+          <li key={index} className={cn("rounded border p-2 space-y-1", !piece.include && "opacity-50")}>
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={piece.include}
+                onChange={(e) => update(index, { include: e.target.checked })}
+                disabled={isSaving}
+                className="rounded border-input"
+                title="Include this piece"
+              />
+              <span className="truncate flex-1 font-medium">
+                {extractBlockTitle(piece.content, piece.type, index)}
+              </span>
+              <select
+                value={piece.type}
+                onChange={(e) => update(index, { type: e.target.value as ReplyPieceType })}
+                disabled={isSaving || !piece.include}
+                className="border border-input rounded-md px-1.5 py-0.5 bg-background"
+              >
+                {PIECE_TYPES.map((type) => (
+                  <option key={type} value={type}>{BLOCK_TYPE_METADATA[type].displayName}</option>
+                ))}
+              </select>
+              <select
+                value={piece.zone}
+                onChange={(e) => update(index, { zone: e.target.value as Zone })}
+                disabled={isSaving || !piece.include}
+                className="border border-input rounded-md px-1.5 py-0.5 bg-background"
+              >
+                {ZONES.map((zone) => (
+                  <option key={zone} value={zone}>{zone.charAt(0) + zone.slice(1).toLowerCase()}</option>
+                ))}
+              </select>
+            </div>
+            <pre className="max-h-24 overflow-y-auto whitespace-pre-wrap font-mono text-muted-foreground">
+              {piece.content}
+            </pre>
+          </li>
+        ))}
+      </ul>
+      {error && <p className="text-destructive">{error}</p>}
+      <div className="flex justify-end gap-1">
+        <Button variant="ghost" size="sm" onClick={onCancel} disabled={isSaving} className="h-6 px-2 text-xs">
+          Cancel
+        </Button>
+        <Button size="sm" onClick={handleSave} disabled={isSaving || selected.length === 0} className="h-6 px-2 text-xs">
+          {isSaving ? "Saving…" : `Save ${selected.length} ${selected.length === 1 ? "block" : "blocks"}`}
+        </Button>
+      </div>
+    </div>
+  )
+}
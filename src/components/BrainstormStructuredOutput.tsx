@@ -0,0 +1,322 @@
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import type { Zone } from "@/hooks/useBrainstorm"
+
+const ZONES: Zone[] = ["WORKING", "STABLE", "PERMANENT"]
+
+type Path = Array<string | number>
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const isPrimitive = (value: unknown) => value === null || typeof value !== "object"
+
+// Copy of root with the value at path replaced
+function setAt(root: unknown, path: Path, value: unknown): unknown {
+  if (path.length === 0) return value
+  const [key, ...rest] = path
+  if (Array.isArray(root)) {
+    return root.map((item, i) => (i === key ? setAt(item, rest, value) : item))
+  }
+  const record = isRecord(root) ? root : {}
+  return { ...record, [key]: setAt(record[key], rest, value) }
+}
+
+// "openQuestions" → "Open questions"
+function fieldLabel(key: string): string {
+  const words = key.replace(/[_-]+/g, " ").replace(/([a-z])([A-Z])/g, "$1 $2").toLowerCase().trim()
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+// Arrays of flat objects render as a table
+function tableColumns(items: unknown[]): string[] | null {
+  if (items.length === 0 || !items.every(isRecord)) return null
+  const records = items as Record<string, unknown>[]
+  if (!records.every((r) => Object.values(r).every((v) => isPrimitive(v) || (Array.isArray(v) && v.every(isPrimitive))))) {
+    return null
+  }
+  return [...new Set(records.flatMap((r) => Object.keys(r)))]
+}
+
+const inputClass = "w-full border border-input rounded-md px-1.5 py-0.5 bg-background text-xs"
+
+function PrimitiveField({
+  value,
+  onChange,
+  disabled,
+}: {
+  value: unknown
+  onChange: (value: unknown) => void
+  disabled?: boolean
+}) {
+  if (typeof value === "boolean") {
+    return (
+      <input
+        type="checkbox"
+        checked={value}
+        onChange={(e) => onChange(e.target.checked)}
+        disabled={disabled}
+        className="rounded border-input"
+      />
+    )
+  }
+  if (typeof value === "number") {
+    return (
+      <input
+        type="number"
+        value={value}
+        onChange={(e) => onChange(e.target.value === "" ? 0 : Number(e.target.value))}
+        disabled={disabled}
+        className={inputClass}
+      />
+    )
+  }
+  if (value === null || value === undefined) {
+    return <span className="text-muted-foreground">—</span>
+  }
+  const text = String(value)
+  return text.length > 60 || text.includes("\n") ? (
+    <textarea
+      value={text}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      rows={Math.min(6, Math.ceil(text.length / 60) + 1)}
+      className={cn(inputClass, "resize-y")}
+    />
+  ) : (
+    <input value={text} onChange={(e) => onChange(e.target.value)} disabled={disabled} className={inputClass} />
+  )
+}
+
+function ValueField({
+  value,
+  path,
+  onChange,
+  disabled,
+}: {
+  value: unknown
+  path: Path
+  onChange: (path: Path, value: unknown) => void
+  disabled?: boolean
+}) {
+  if (isRecord(value)) {
+    return (
+      <div className="grid grid-cols-[minmax(6rem,auto)_1fr] gap-x-3 gap-y-1.5 items-start">
+        {Object.entries(value).map(([key, child]) => (
+          <div key={key} className="contents">
+            <div className="font-medium text-muted-foreground pt-0.5">{fieldLabel(key)}</div>
+            <ValueField value={child} path={[...path, key]} onChange={onChange} disabled={disabled} />
+          </div>
+        ))}
+      </div>
+    )
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return <span className="text-muted-foreground">(none)</span>
+    }
+    const columns = tableColumns(value)
+    if (columns) {
+      return (
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse">
+            <thead>
+              <tr>
+                {columns.map((column) => (
+                  <th key={column} className="border px-1.5 py-1 text-left font-medium bg-muted/50">
+                    {fieldLabel(column)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {(value as Record<string, unknown>[]).map((row, i) => (
+                <tr key={i}>
+                  {columns.map((column) => (
+                    <td key={column} className="border px-1.5 py-1 align-top">
+                      {Array.isArray(row[column]) ? (
+                        <ul className="list-disc pl-4">
+                          {(row[column] as unknown[]).map((item, j) => (
+                            <li key={j}>{String(item)}</li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <PrimitiveField
+                          value={row[column]}
+                          onChange={(v) => onChange([...path, i, column], v)}
+                          disabled={disabled}
+                        />
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )
+    }
+    return (
+      <ol className="space-y-1.5">
+        {value.map((item, i) => (
+          <li key={i} className={cn(!isPrimitive(item) && "rounded border p-2")}>
+            <ValueField value={item} path={[...path, i]} onChange={onChange} disabled={disabled} />
+          </li>
+        ))}
+      </ol>
+    )
+  }
+
+  return <PrimitiveField value={value} onChange={(v) => onChange(path, v)} disabled={disabled} />
+}
+
+// A validated structured reply as an editable form (tables for lists of records), writable to a block
+export function BrainstormStructuredValue({
+  value,
+  onSave,
+  disabled,
+}: {
+  value: Record<string, unknown> | unknown[]
+  onSave?: (value: unknown, zone: Zone) => Promise<void>
+  disabled?: boolean
+}) {
+  const [draft, setDraft] = useState<unknown>(value)
+  const [showJson, setShowJson] = useState(false)
+  const [zone, setZone] = useState<Zone>("WORKING")
+  const [isSaving, setIsSaving] = useState(false)
+  const [saved, setSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const edited = JSON.stringify(draft) !== JSON.stringify(value)
+
+  const handleChange = (path: Path, next: unknown) => {
+    setDraft((prev: unknown) => setAt(prev, path, next))
+    setSaved(false)
+  }
+
+  const handleSave = async () => {
+    if (!onSave) return
+    setIsSaving(true)
+    setError(null)
+    try {
+      await onSave(draft, zone)
+      setSaved(true)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2 text-xs">
+      {showJson ? (
+        <pre className="max-h-80 overflow-auto whitespace-pre-wrap font-mono">{JSON.stringify(draft, null, 2)}</pre>
+      ) : (
+        <ValueField value={draft} path={[]} onChange={handleChange} disabled={disabled || isSaving} />
+      )}
+      {error && <p className="text-destructive">{error}</p>}
+      <div className="flex items-center gap-1 justify-end">
+        {edited && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setDraft(value)}
+            disabled={isSaving}
+            className="h-6 px-2 text-xs"
+          >
+            Reset
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" onClick={() => setShowJson((v) => !v)} className="h-6 px-2 text-xs">
+          {showJson ? "Form" : "JSON"}
+        </Button>
+        {onSave && (
+          <>
+            <select
+              value={zone}
+              onChange={(e) => setZone(e.target.value as Zone)}
+              disabled={disabled || isSaving}
+              className="border border-input rounded-md px-1.5 py-0.5 bg-background"
+            >
+              {ZONES.map((z) => (
+                <option key={z} value={z}>{z.charAt(0) + z.slice(1).toLowerCase()}</option>
+              ))}
+            </select>
+            <Button
+              size="sm"
+              onClick={handleSave}
+              disabled={disabled || isSaving}
+              className={cn("h-6 px-2 text-xs", saved && "text-green-600")}
+            >
+              {isSaving ? "Saving…" : saved ? "Saved" : "Save as block"}
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// Schema editor for structured-output mode
+export function OutputSchemaBar({
+  schemaText,
+  onChange,
+  error,
+  native,
+  disabled,
+}: {
+  schemaText: string
+  onChange: (text: string) => void
+  error: string | null
+  /** The provider constrains output natively; otherwise the schema is prompted */
+  native: boolean
+  disabled?: boolean
+}) {
+  const [isEditing, setIsEditing] = useState(false)
+  let title: string | undefined
+  try {
+    title = (JSON.parse(schemaText) as { title?: string }).title
+  } catch {
+    title = undefined
+  }
+
+  return (
+    <div className="space-y-1.5 text-xs">
+      <div className="flex items-center gap-2">
+        <span className="text-muted-foreground">JSON output:</span>
+        <span className={cn("font-medium", error && "text-destructive")}>
+          {error ? "Invalid schema" : title ?? "Untitled schema"}
+        </span>
+        <span
+          className="text-muted-foreground"
+          title={native
+            ? "The provider constrains the reply to the schema"
+            : "The schema is added to the prompt; replies are validated and repaired"}
+        >
+          · {native ? "native JSON mode" : "schema prompting"}
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setIsEditing((v) => !v)}
+          className="h-6 px-2 text-xs"
+        >
+          {isEditing ? "Done" : "Edit schema"}
+        </Button>
+      </div>
+      {isEditing && (
+        <textarea
+          value={schemaText}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          rows={10}
+          spellCheck={false}
+          className="w-full rounded-md border border-input bg-background px-2 py-1 font-mono text-xs resize-y"
+        />
+      )}
+      {error && <p className="text-destructive">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,111 @@
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { ConfirmDialog } from "@/components/ui/confirm-dialog"
+import type { Doc, Id } from "../../convex/_generated/dataModel"
+
+// Thread picker with new/rename/delete for the brainstorm header
+export function BrainstormThreads({
+  conversations,
+  activeConversationId,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  disabled,
+}: {
+  conversations: Doc<"conversations">[]
+  activeConversationId: Id<"conversations"> | null
+  onSelect: (id: Id<"conversations">) => void
+  onNew: () => void
+  onRename: (id: Id<"conversations">, name: string) => Promise<void>
+  onDelete: (id: Id<"conversations">) => Promise<void>
+  disabled?: boolean
+}) {
+  const [renaming, setRenaming] = useState(false)
+  const [draftName, setDraftName] = useState("")
+  const [confirmingDelete, setConfirmingDelete] = useState(false)
+  const [isDeleting, setIsDeleting] = useState(false)
+
+  const active = conversations.find((c) => c._id === activeConversationId)
+
+  const startRename = () => {
+    if (!active) return
+    setDraftName(active.name)
+    setRenaming(true)
+  }
+
+  const submitRename = async () => {
+    const name = draftName.trim()
+    if (active && name && name !== active.name) {
+      await onRename(active._id, name)
+    }
+    setRenaming(false)
+  }
+
+  const confirmDelete = async () => {
+    if (!active) return
+    setIsDeleting(true)
+    try {
+      await onDelete(active._id)
+    } finally {
+      setIsDeleting(false)
+      setConfirmingDelete(false)
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-xs text-muted-foreground">Thread:</span>
+      {renaming && active ? (
+        <input
+          autoFocus
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onBlur={submitRename}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") submitRename()
+            if (e.key === "Escape") setRenaming(false)
+          }}
+          className="text-sm border border-input rounded-md px-2 py-1 bg-background w-[220px]"
+        />
+      ) : (
+        <select
+          value={activeConversationId ?? ""}
+          onChange={(e) => onSelect(e.target.value as Id<"conversations">)}
+          disabled={disabled}
+          className="text-sm border border-input rounded-md px-2 py-1 bg-background disabled:opacity-50 max-w-[220px]"
+        >
+          {!active && <option value="">New thread</option>}
+          {conversations.map((c) => (
+            <option key={c._id} value={c._id}>
+              {c.name} ({c.messageCount})
+            </option>
+          ))}
+        </select>
+      )}
+      <Button variant="ghost" size="sm" onClick={onNew} disabled={disabled || !active}>
+        New
+      </Button>
+      <Button variant="ghost" size="sm" onClick={startRename} disabled={!active || renaming}>
+        Rename
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => setConfirmingDelete(true)}
+        disabled={disabled || !active}
+      >
+        Delete
+      </Button>
+      <ConfirmDialog
+        open={confirmingDelete}
+        onOpenChange={setConfirmingDelete}
+        title="Delete thread?"
+        description={`"${active?.name ?? ""}" and its messages will be permanently deleted. Saved blocks are kept.`}
+        onConfirm={confirmDelete}
+        destructive
+        loading={isDeleting}
+      />
+    </div>
+  )
+}
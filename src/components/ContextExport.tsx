@@ -9,7 +9,7 @@ import { Button } from "@/components/ui/button"
 import type { Id } from "../../convex/_generated/dataModel"
 import { cn } from "@/lib/utils"
 
-type ExportFormat = "plain" | "markdown" | "xml"
+type ExportFormat = "plain" | "markdown" | "xml" | "anthropic"
 
 interface ContextExportProps {
   sessionId: Id<"sessions">
@@ -70,6 +70,7 @@ export function ContextExport({ sessionId, className }: ContextExportProps) {
           <option value="plain">Plain Text</option>
           <option value="markdown">Markdown</option>
           <option value="xml">XML (Claude-style)</option>
+          <option value="anthropic">Anthropic Messages (JSON, cached)</option>
         </select>
       </div>
 
@@ -1,5 +1,7 @@
 interface OpenRouterCostProps {
   sessionCost: number
+  /** Provider name shown in the tooltip */
+  label?: string
 }
 
 function formatCost(cost: number): string {
@@ -8,13 +10,13 @@ function formatCost(cost: number): string {
   return `$${cost.toFixed(2)}`
 }
 
-export function OpenRouterCost({ sessionCost }: OpenRouterCostProps) {
+export function OpenRouterCost({ sessionCost, label = "OpenRouter" }: OpenRouterCostProps) {
   if (sessionCost <= 0) return null
 
   return (
     <span
       className="text-xs px-2 py-1 rounded-full bg-blue-100 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
-      title={`OpenRouter session cost: $${sessionCost.toFixed(6)}`}
+      title={`${label} session cost: $${sessionCost.toFixed(6)}`}
     >
       {formatCost(sessionCost)}
     </span>
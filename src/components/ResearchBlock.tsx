@@ -4,6 +4,11 @@ import { api } from "../../convex/_generated/api"
 import type { Id } from "../../convex/_generated/dataModel"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import { listProviders } from "@/lib/llm/registry"
+import type { ProviderHealth } from "@/lib/llm/provider"
+
+// Research needs web search / file tools, which only agent-capable providers have
+const researchProvider = listProviders().find((p) => p.capabilities.agentTools)
 
 interface ResearchBlockProps {
   blockId: Id<"blocks">
@@ -25,6 +30,16 @@ export function ResearchBlock({ blockId, sessionId, content, researchSource, res
   const cancelGeneration = useMutation(api.generations.cancel)
 
   const features = useQuery(api.features.getFlags)
+  const [providerHealth, setProviderHealth] = useState<ProviderHealth | null>(null)
+  const providerUnavailable = !researchProvider || (providerHealth !== null && !providerHealth.ok)
+
+  useEffect(() => {
+    let cancelled = false
+    researchProvider?.checkHealth().then((health) => {
+      if (!cancelled) setProviderHealth(health)
+    })
+    return () => { cancelled = true }
+  }, [])
   const localResearchEnabled = features?.localResearchEnabled ?? false
 
   // Subscribe to active generation — shows streaming progress while running
@@ -108,11 +123,17 @@ export function ResearchBlock({ blockId, sessionId, content, researchSource, res
           size="sm"
           className="h-7 text-xs"
           onClick={handleRun}
-          disabled={isStarting}
+          disabled={isStarting || providerUnavailable}
         >
           Re-run Research
         </Button>
         {error && <p className="text-xs text-destructive">{error}</p>}
+        {providerUnavailable && (
+          <p className="text-xs text-muted-foreground">
+            Research requires {researchProvider?.label ?? "an agent-capable provider"}
+            {providerHealth?.error ? ` (${providerHealth.error})` : ""}
+          </p>
+        )}
       </div>
     )
   }
@@ -167,11 +188,17 @@ export function ResearchBlock({ blockId, sessionId, content, researchSource, res
           size="sm"
           className="h-7 text-xs"
           onClick={handleRun}
-          disabled={isStarting || !localContent.trim() || (source === "local" && !localPath.trim())}
+          disabled={isStarting || providerUnavailable || !localContent.trim() || (source === "local" && !localPath.trim())}
         >
           {isStarting ? "Starting..." : "Run Research"}
         </Button>
         {error && <p className="text-xs text-destructive">{error}</p>}
+        {providerUnavailable && (
+          <p className="text-xs text-muted-foreground">
+            Research requires {researchProvider?.label ?? "an agent-capable provider"}
+            {providerHealth?.error ? ` (${providerHealth.error})` : ""}
+          </p>
+        )}
       </div>
     </div>
   )
@@ -1,16 +1,26 @@
 /**
  * Dialog for saving selected brainstorm text to project memory.
- * Calls the LLM draft action for pre-filling, then shows CreateEntryForm.
+ * Drafts the entry with the brainstorm's provider for pre-filling, then shows CreateEntryForm.
+ * Client-side registry providers draft in the browser; Claude Code uses the Convex action.
+ * Either way the draft is checked against and billed to the session's project budget.
  */
 
-import { useState, useEffect } from "react"
-import { useAction } from "convex/react"
+import { useState, useEffect, useRef } from "react"
+import { useAction, useQuery } from "convex/react"
 import { api } from "../../convex/_generated/api"
 import type { Id } from "../../convex/_generated/dataModel"
 import { CreateEntryForm } from "@/components/memory/CreateEntryForm"
+import { getProvider } from "@/lib/llm/registry"
+import type { ProviderId } from "@/lib/llm/provider"
+import { buildMemoryDraftPrompt, memoryDraftSchema, parseMemoryDraft, type MemoryDraft } from "@/lib/llm/memoryDraft"
+import { generateStructured, StructuredOutputError } from "@/lib/llm/structuredOutput"
+import { responseSchemaName } from "../../convex/lib/structuredOutput"
+import { useCostLedger } from "@/hooks/useCostLedger"
 
 interface SaveToMemoryDialogProps {
   projectId: Id<"projects">
+  /** Session the text comes from */
+  sessionId: Id<"sessions">
   selectedText: string
   schemaTypes: Array<{ name: string; color: string; icon: string }>
   onSave: (args: {
@@ -21,31 +31,71 @@ interface SaveToMemoryDialogProps {
     tags: string[]
   }) => Promise<unknown>
   onClose: () => void
+  /** Provider used for drafting (defaults to Claude Code via Convex action) */
+  provider?: ProviderId
 }
 
 export function SaveToMemoryDialog({
   projectId,
+  sessionId,
   selectedText,
   schemaTypes,
   onSave,
   onClose,
+  provider = "claude",
 }: SaveToMemoryDialogProps) {
   const draftMemoryEntry = useAction(api.memoryDraft.draftMemoryEntry)
+  const { requireBudget, recordUsage } = useCostLedger({ sessionId })
+  const llm = getProvider(provider)
+  const draftsClientSide = llm.capabilities.clientSide
+  // Existing entries for duplicate detection (only needed when drafting client-side)
+  const entries = useQuery(api.memoryEntries.listByProject, draftsClientSide ? { projectId } : "skip")
+  // Read through a ref: later changes to the entries mustn't redraft over the user's edits
+  const entriesRef = useRef(entries)
+  useEffect(() => {
+    entriesRef.current = entries
+  }, [entries])
+  const entriesLoaded = entries !== undefined
   const [isDrafting, setIsDrafting] = useState(true)
-  const [draft, setDraft] = useState<{
-    type: string
-    title: string
-    content: string
-    tags: string[]
-    duplicateWarning?: string
-  } | null>(null)
+  const [draft, setDraft] = useState<MemoryDraft | null>(null)
   const [error, setError] = useState<string | null>(null)
 
   useEffect(() => {
+    if (draftsClientSide && !entriesLoaded) return
     let cancelled = false
+
+    async function draftClientSide(): Promise<MemoryDraft> {
+      requireBudget()
+      const { systemPrompt, prompt } = buildMemoryDraftPrompt(schemaTypes, entriesRef.current ?? [], selectedText)
+      const schema = memoryDraftSchema(schemaTypes)
+      try {
+        // Native JSON mode where the provider has one; invalid replies get repair retries
+        const { text, usage } = await generateStructured(
+          llm,
+          [
+            { role: "system", content: systemPrompt },
+            { role: "user", content: prompt },
+          ],
+          { name: responseSchemaName(schema), schema },
+          { temperature: 0.2 }
+        )
+        await recordUsage(provider, usage)
+        return parseMemoryDraft(text, selectedText, schemaTypes)
+      } catch (err) {
+        // Out of repairs: salvage what the last reply has (the attempts were still spent)
+        if (err instanceof StructuredOutputError) {
+          await recordUsage(provider, err.usage)
+          return parseMemoryDraft(err.text, selectedText, schemaTypes)
+        }
+        throw err
+      }
+    }
+
     async function fetchDraft() {
       try {
-        const result = await draftMemoryEntry({ projectId, selectedText })
+        const result = draftsClientSide
+          ? await draftClientSide()
+          : await draftMemoryEntry({ projectId, sessionId, selectedText })
         if (!cancelled) {
           setDraft(result)
           setIsDrafting(false)
@@ -65,7 +115,19 @@ export function SaveToMemoryDialog({
     }
     fetchDraft()
     return () => { cancelled = true }
-  }, [projectId, selectedText, draftMemoryEntry, schemaTypes])
+  }, [
+    projectId,
+    sessionId,
+    selectedText,
+    draftMemoryEntry,
+    schemaTypes,
+    llm,
+    provider,
+    draftsClientSide,
+    entriesLoaded,
+    requireBudget,
+    recordUsage,
+  ])
 
   if (isDrafting) {
     return (
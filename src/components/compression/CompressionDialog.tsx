@@ -8,7 +8,8 @@ import { dialogOverlay, dialogContent } from "@/lib/motion"
 import { Button } from "@/components/ui/button"
 import { cn } from "@/lib/utils"
 import type { Id } from "../../../convex/_generated/dataModel"
-import type { CompressionResult } from "@/lib/compression"
+import type { CompressionResult, CompressionStrategy, FactKind, FidelityReport } from "@/lib/compression"
+import { compression as compressionSettings } from "@/lib/llm/settings"
 import { Minimize2, X } from "lucide-react"
 
 interface BlockInfo {
@@ -23,7 +24,7 @@ interface CompressionDialogProps {
   isOpen: boolean
   onClose: () => void
   blocks: BlockInfo[]
-  onCompress: (targetZone: string, targetType: string) => Promise<void>
+  onCompress: (targetZone: string, targetType: string, strategy: CompressionStrategy) => Promise<void>
   isCompressing: boolean
   result: CompressionResult | null
   error: string | null
@@ -37,6 +38,48 @@ const ZONE_INFO: Record<Zone, { label: string; description: string }> = {
   WORKING: { label: "Working", description: "Draft content" },
 }
 
+const STRATEGY_INFO: Partial<Record<CompressionStrategy, { label: string; description: string }>> = {
+  semantic: { label: "Semantic", description: "LLM summary" },
+  structural: { label: "Structural", description: "Local cleanup, no LLM" },
+  statistical: { label: "Statistical", description: "Extractive summary, no LLM" },
+}
+
+const FACT_KIND_LABELS: Record<FactKind, string> = {
+  heading: "Heading",
+  url: "URL",
+  date: "Date",
+  number: "Number",
+  identifier: "Code",
+  entity: "Name",
+}
+
+// Facts of the original missing from the compressed text
+function LostFacts({ fidelity }: { fidelity: FidelityReport }) {
+  return (
+    <div className="rounded-lg border border-border p-3 space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">Fidelity {Math.round(fidelity.score * 100)}%</span>
+        <span className="text-muted-foreground">
+          {fidelity.kept} of {fidelity.total} facts kept
+        </span>
+      </div>
+      {fidelity.lost.length > 0 && (
+        <div>
+          <div className="text-xs font-medium text-muted-foreground mb-1">Lost facts</div>
+          <ul className="space-y-1 max-h-40 overflow-y-auto">
+            {fidelity.lost.map((fact, i) => (
+              <li key={i} className="flex items-baseline gap-2 text-xs">
+                <span className="shrink-0 w-16 text-muted-foreground">{FACT_KIND_LABELS[fact.kind]}</span>
+                <span className={cn("break-all", fact.kind === "identifier" && "font-mono")}>{fact.text}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  )
+}
+
 export function CompressionDialog({
   isOpen,
   onClose,
@@ -48,6 +91,16 @@ export function CompressionDialog({
 }: CompressionDialogProps) {
   const [targetZone, setTargetZone] = useState<Zone>("WORKING")
   const [targetType, setTargetType] = useState("note")
+  const [strategy, setStrategy] = useState<CompressionStrategy>(() => compressionSettings.getStrategy())
+  const [minFidelityPercent, setMinFidelityPercent] = useState(() =>
+    Math.round(compressionSettings.getMinFidelity() * 100)
+  )
+
+  const handleMinFidelityChange = (value: string) => {
+    const percent = Math.min(100, Math.max(0, Math.round(Number(value) || 0)))
+    setMinFidelityPercent(percent)
+    compressionSettings.setMinFidelity(percent / 100)
+  }
 
   // Calculate total tokens
   const totalTokens = blocks.reduce(
@@ -56,7 +109,7 @@ export function CompressionDialog({
   )
 
   const handleCompress = async () => {
-    await onCompress(targetZone, targetType)
+    await onCompress(targetZone, targetType, strategy)
   }
 
   const handleClose = () => {
@@ -123,11 +176,13 @@ export function CompressionDialog({
               </div>
               <div>
                 <span className="text-muted-foreground">Expected ratio:</span>{" "}
-                <span className="font-medium">~2.0x</span>
+                <span className="font-medium">{strategy === "structural" ? "varies" : "~2.0x"}</span>
               </div>
               <div>
                 <span className="text-muted-foreground">Target tokens:</span>{" "}
-                <span className="font-medium">~{Math.ceil(totalTokens / 2)}</span>
+                <span className="font-medium">
+                  {strategy === "structural" ? "—" : `~${Math.ceil(totalTokens / 2)}`}
+                </span>
               </div>
             </div>
           </div>
@@ -167,8 +222,8 @@ export function CompressionDialog({
             </div>
           </div>
 
-          {/* Target zone and type */}
-          <div className="grid grid-cols-2 gap-3">
+          {/* Target zone, type and strategy */}
+          <div className="grid grid-cols-3 gap-3">
             <div>
               <label className="text-sm font-medium block mb-1.5">
                 Target Zone
@@ -201,8 +256,42 @@ export function CompressionDialog({
                 <option value="context">Context</option>
               </select>
             </div>
+            <div>
+              <label className="text-sm font-medium block mb-1.5">
+                Strategy
+              </label>
+              <select
+                value={strategy}
+                onChange={(e) => setStrategy(e.target.value as CompressionStrategy)}
+                disabled={isCompressing}
+                className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm disabled:opacity-50"
+              >
+                {Object.entries(STRATEGY_INFO).map(([value, info]) => (
+                  <option key={value} value={value}>
+                    {info.label} - {info.description}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
 
+          {/* Fidelity threshold */}
+          <label className="flex items-center gap-2 text-sm">
+            <span>Don't apply if fewer than</span>
+            <input
+              type="number"
+              min={0}
+              max={100}
+              step={5}
+              value={minFidelityPercent}
+              onChange={(e) => handleMinFidelityChange(e.target.value)}
+              disabled={isCompressing}
+              className="w-16 rounded-md border border-input bg-background px-2 py-1 text-sm disabled:opacity-50"
+            />
+            <span>% of facts are kept</span>
+            <span className="text-xs text-muted-foreground">(0 = always apply)</span>
+          </label>
+
           {/* Result display */}
           {result && result.success && (
             <div className="rounded-lg border border-green-500/50 bg-green-500/10 p-3">
@@ -224,6 +313,8 @@ export function CompressionDialog({
             </div>
           )}
 
+          {result?.fidelity && <LostFacts fidelity={result.fidelity} />}
+
           {/* Error display */}
           {error && (
             <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-destructive text-sm">
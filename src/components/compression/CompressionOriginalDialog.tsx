@@ -0,0 +1,193 @@
+/**
+ * Compression Original Dialog - the uncompressed content behind a compressed
+ * or merged block, as kept by blocks.compress / blocks.compressAndMerge.
+ */
+
+import { useMemo, useState } from "react"
+import { useMutation, useQuery } from "convex/react"
+import { AnimatePresence, motion } from "framer-motion"
+import { dialogOverlay, dialogContent } from "@/lib/motion"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { diffSimilarity, diffText } from "@/lib/textDiff"
+import { api } from "../../../convex/_generated/api"
+import type { Doc, Id } from "../../../convex/_generated/dataModel"
+import { History, X } from "lucide-react"
+
+export type CompressionOriginalView = "original" | "diff"
+
+interface CompressionOriginalDialogProps {
+  blockId: Id<"blocks">
+  /** Current (compressed) content */
+  content: string
+  /** Open on this view; null when closed */
+  view: CompressionOriginalView | null
+  onViewChange: (view: CompressionOriginalView | null) => void
+  onReverted?: (restoredCount: number) => void
+}
+
+// Removed text struck through, added text highlighted
+function CompressionDiff({ before, after }: { before: string; after: string }) {
+  const segments = useMemo(() => diffText(before, after), [before, after])
+  return (
+    <div className="space-y-2">
+      <div className="text-xs text-muted-foreground">
+        {Math.round(diffSimilarity(segments) * 100)}% of the original kept verbatim
+      </div>
+      <p className="text-sm whitespace-pre-wrap">
+        {segments.map((segment, i) => (
+          <span
+            key={i}
+            className={cn(
+              segment.type === "removed" && "bg-destructive/15 text-destructive line-through",
+              segment.type === "added" && "bg-green-500/15 text-green-700 dark:text-green-400"
+            )}
+          >
+            {segment.text}
+          </span>
+        ))}
+      </p>
+    </div>
+  )
+}
+
+export function CompressionOriginalDialog({
+  blockId,
+  content,
+  view,
+  onViewChange,
+  onReverted,
+}: CompressionOriginalDialogProps) {
+  const original: Doc<"compressionOriginals"> | null | undefined = useQuery(
+    api.blocks.getCompressionOriginal,
+    view ? { blockId } : "skip"
+  )
+  const revertCompression = useMutation(api.blocks.revertCompression)
+  const [isReverting, setIsReverting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const originalText = original ? original.sources.map((s) => s.content).join("\n\n") : ""
+
+  const handleClose = () => {
+    if (!isReverting) {
+      setError(null)
+      onViewChange(null)
+    }
+  }
+
+  const handleRevert = async () => {
+    setIsReverting(true)
+    setError(null)
+    try {
+      const { restoredBlockIds } = await revertCompression({ blockId })
+      onViewChange(null)
+      onReverted?.(restoredBlockIds.length)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Revert failed")
+    } finally {
+      setIsReverting(false)
+    }
+  }
+
+  return (
+    <AnimatePresence>
+      {view && (
+        <motion.div
+          className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+          onClick={handleClose}
+          onKeyDown={(e) => e.key === "Escape" && handleClose()}
+          initial={dialogOverlay.initial}
+          animate={dialogOverlay.animate}
+          exit={dialogOverlay.exit}
+          transition={dialogOverlay.transition}
+        >
+          <motion.div
+            className="bg-card border border-border rounded-lg shadow-lg max-w-3xl w-full max-h-[80vh] flex flex-col"
+            onClick={(e) => e.stopPropagation()}
+            initial={dialogContent.initial}
+            animate={dialogContent.animate}
+            exit={dialogContent.exit}
+            transition={dialogContent.transition}
+          >
+            {/* Header */}
+            <div className="flex items-center justify-between p-4 border-b border-border">
+              <div className="flex items-center gap-2">
+                <History className="w-5 h-5" />
+                <h2 className="text-lg font-semibold">
+                  {original?.kind === "merge" ? `Merged from ${original.sources.length} blocks` : "Before compression"}
+                </h2>
+              </div>
+              <div className="flex items-center gap-1">
+                {(["original", "diff"] as const).map((v) => (
+                  <Button
+                    key={v}
+                    variant={view === v ? "secondary" : "ghost"}
+                    size="sm"
+                    onClick={() => onViewChange(v)}
+                    className="h-7 px-2 text-xs"
+                  >
+                    {v === "original" ? "Original" : "Diff vs compressed"}
+                  </Button>
+                ))}
+                <button
+                  onClick={handleClose}
+                  disabled={isReverting}
+                  className="ml-2 text-muted-foreground hover:text-foreground disabled:opacity-50"
+                >
+                  <X className="w-5 h-5" />
+                </button>
+              </div>
+            </div>
+
+            {/* Content */}
+            <div className="flex-1 overflow-y-auto p-4 space-y-3">
+              {original === undefined && <p className="text-sm text-muted-foreground">Loading…</p>}
+              {original === null && (
+                <p className="text-sm text-muted-foreground">
+                  The original content of this block was not kept (it was compressed before originals were stored).
+                </p>
+              )}
+              {original && view === "original" &&
+                original.sources.map((source, i) => (
+                  <div key={i} className="rounded border border-border p-2 bg-card space-y-1">
+                    {original.kind === "merge" && (
+                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <span className="font-medium">Block {i + 1}</span>
+                        <span>{source.type}</span>
+                        <span>{source.zone.charAt(0) + source.zone.slice(1).toLowerCase()}</span>
+                        {source.tokens != null && <span className="font-mono">{source.tokens}t</span>}
+                      </div>
+                    )}
+                    <p className="text-sm whitespace-pre-wrap">{source.content}</p>
+                  </div>
+                ))}
+              {original && view === "diff" && <CompressionDiff before={originalText} after={content} />}
+              {error && (
+                <div className="rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-destructive text-sm">
+                  {error}
+                </div>
+              )}
+            </div>
+
+            {/* Footer */}
+            <div className="flex items-center justify-between p-4 border-t border-border">
+              <p className="text-xs text-muted-foreground">
+                {original?.kind === "merge"
+                  ? "Reverting recreates the merged blocks in their former zones and deletes this one."
+                  : "Reverting restores the original content in place."}
+              </p>
+              <div className="flex gap-2">
+                <Button variant="ghost" onClick={handleClose} disabled={isReverting}>
+                  Close
+                </Button>
+                <Button onClick={handleRevert} disabled={!original || isReverting}>
+                  {isReverting ? "Reverting..." : "Revert compression"}
+                </Button>
+              </div>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  )
+}
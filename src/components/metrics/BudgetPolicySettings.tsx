@@ -0,0 +1,99 @@
+/**
+ * Per-session budget policy: what to do before a brainstorm send when the
+ * WORKING zone or the session total is over budget (see lib/budgetPolicy).
+ */
+
+import { useState } from "react"
+import { useMutation } from "convex/react"
+import { api } from "../../../convex/_generated/api"
+import type { Id } from "../../../convex/_generated/dataModel"
+import { MIN_COMPRESS_TOKENS, type BudgetPolicy } from "@/lib/budgetPolicy"
+
+interface BudgetPolicySettingsProps {
+  sessionId: Id<"sessions">
+  policy?: BudgetPolicy
+}
+
+const DEFAULT_COMPRESS_ABOVE = 1000
+const DEFAULT_DRAFT_AFTER_HOURS = 24
+
+export function BudgetPolicySettings({ sessionId, policy }: BudgetPolicySettingsProps) {
+  const setBudgetPolicy = useMutation(api.sessions.setBudgetPolicy)
+  const [compress, setCompress] = useState(policy?.compressAboveTokens !== undefined)
+  const [compressAbove, setCompressAbove] = useState(policy?.compressAboveTokens ?? DEFAULT_COMPRESS_ABOVE)
+  const [draft, setDraft] = useState(policy?.draftAfterHours !== undefined)
+  const [draftAfterHours, setDraftAfterHours] = useState(policy?.draftAfterHours ?? DEFAULT_DRAFT_AFTER_HOURS)
+  const [askBeforeEach, setAskBeforeEach] = useState(policy?.askBeforeEach ?? false)
+
+  // Saved on every change; no action turned on clears the policy
+  const save = (next: {
+    compress?: boolean
+    compressAbove?: number
+    draft?: boolean
+    draftAfterHours?: number
+    askBeforeEach?: boolean
+  }) => {
+    const values = { compress, compressAbove, draft, draftAfterHours, askBeforeEach, ...next }
+    setCompress(values.compress)
+    setCompressAbove(values.compressAbove)
+    setDraft(values.draft)
+    setDraftAfterHours(values.draftAfterHours)
+    setAskBeforeEach(values.askBeforeEach)
+    setBudgetPolicy({
+      id: sessionId,
+      budgetPolicy:
+        values.compress || values.draft
+          ? {
+              compressAboveTokens: values.compress ? values.compressAbove : undefined,
+              draftAfterHours: values.draft ? values.draftAfterHours : undefined,
+              askBeforeEach: values.askBeforeEach,
+            }
+          : undefined,
+    })
+  }
+
+  const numberInput = "w-16 rounded border border-input bg-background px-1.5 py-0.5 text-xs disabled:opacity-50"
+
+  return (
+    <div className="space-y-1.5 text-xs">
+      <div className="font-medium text-foreground">When over budget, before each brainstorm send</div>
+      <label className="flex items-center gap-1.5">
+        <input type="checkbox" checked={compress} onChange={(e) => save({ compress: e.target.checked })} />
+        <span>Compress oldest WORKING blocks above</span>
+        <input
+          type="number"
+          min={MIN_COMPRESS_TOKENS}
+          step={100}
+          value={compressAbove}
+          disabled={!compress}
+          onChange={(e) => save({ compressAbove: Math.max(MIN_COMPRESS_TOKENS, Number(e.target.value) || 0) })}
+          className={numberInput}
+        />
+        <span>tokens</span>
+      </label>
+      <label className="flex items-center gap-1.5">
+        <input type="checkbox" checked={draft} onChange={(e) => save({ draft: e.target.checked })} />
+        <span>Move WORKING blocks unchanged for</span>
+        <input
+          type="number"
+          min={1}
+          value={draftAfterHours}
+          disabled={!draft}
+          onChange={(e) => save({ draftAfterHours: Math.max(1, Number(e.target.value) || 0) })}
+          className={numberInput}
+        />
+        <span>hours to draft</span>
+      </label>
+      <label className="flex items-center gap-1.5">
+        <input
+          type="checkbox"
+          checked={askBeforeEach}
+          disabled={!compress && !draft}
+          onChange={(e) => save({ askBeforeEach: e.target.checked })}
+        />
+        <span>Ask before each action</span>
+      </label>
+      <p className="text-muted-foreground">Pinned blocks are never touched. Actions can be undone from the brainstorm.</p>
+    </div>
+  )
+}
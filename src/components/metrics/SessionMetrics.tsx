@@ -2,12 +2,20 @@
  * Panel displaying overall session token metrics and budgets.
  */
 
-import { useQuery } from "convex/react"
+import { useQuery, useMutation } from "convex/react"
 import { api } from "../../../convex/_generated/api"
 import type { Id } from "../../../convex/_generated/dataModel"
 import { ZoneHeader } from "./ZoneHeader"
+import { BudgetPolicySettings } from "./BudgetPolicySettings"
 import { Skeleton } from "@/components/ui/skeleton"
 import { cn } from "@/lib/utils"
+import { useModelInfo } from "@/hooks/useModelInfo"
+import {
+  BUDGET_PRESETS,
+  budgetsForModel,
+  checkContextFit,
+  type BudgetPresetId,
+} from "@/lib/llm/modelCatalog"
 
 interface SessionMetricsProps {
   sessionId: Id<"sessions">
@@ -45,6 +53,10 @@ export function SessionMetrics({
   className = "",
 }: SessionMetricsProps) {
   const metrics = useQuery(api.metrics.getZoneMetrics, { sessionId })
+  const session = useQuery(api.sessions.get, { id: sessionId })
+  const setBudgets = useMutation(api.sessions.setBudgets)
+  // Sessions that haven't brainstormed yet default to Claude Code
+  const modelInfo = useModelInfo(session ? session.activeModel ?? "claude" : undefined)
 
   if (!metrics) {
     if (collapsed) {
@@ -80,6 +92,18 @@ export function SessionMetrics({
   const isDanger = totalPercent > 95
   const isWarning = totalPercent > 80 && totalPercent <= 95
 
+  // Context plus the expected reply must fit the model's window
+  const fit = modelInfo ? checkContextFit(metrics.total.tokens, modelInfo) : null
+  const overflowMessage = fit && !fit.fits
+    ? `Context plus expected reply (${fit.required.toLocaleString()} tokens) exceeds the ` +
+      `${fit.contextWindow.toLocaleString()}-token window by ${fit.overflow.toLocaleString()}`
+    : null
+
+  const applyPreset = (preset: BudgetPresetId) => {
+    if (!modelInfo) return
+    setBudgets({ id: sessionId, budgets: budgetsForModel(modelInfo, preset) })
+  }
+
   // Format numbers
   const formatTokens = (n: number): string => {
     if (n >= 1000) {
@@ -94,10 +118,11 @@ export function SessionMetrics({
       <div
         className={cn(
           "inline-flex items-center gap-2 text-sm",
-          isDanger && "text-destructive",
-          isWarning && "text-yellow-600 dark:text-yellow-500",
+          (isDanger || overflowMessage) && "text-destructive",
+          isWarning && !overflowMessage && "text-yellow-600 dark:text-yellow-500",
           className
         )}
+        title={overflowMessage ?? undefined}
       >
         <span className="font-mono">
           {formatTokens(metrics.total.tokens)} / {formatTokens(metrics.total.budget)}
@@ -122,7 +147,36 @@ export function SessionMetrics({
 
   return (
     <div className={cn("rounded-lg border border-border bg-card p-4", className)}>
-      <h3 className="font-semibold mb-3 text-foreground">Context Budget</h3>
+      <h3 className={cn("font-semibold text-foreground", modelInfo ? "mb-1" : "mb-3")}>Context Budget</h3>
+
+      {modelInfo && (
+        <div className="flex items-center justify-between gap-2 mb-3 text-xs text-muted-foreground">
+          <span className="truncate" title={modelInfo.id}>
+            {modelInfo.name ?? modelInfo.id} · {formatTokens(modelInfo.contextWindow)} window
+          </span>
+          <select
+            value=""
+            onChange={(e) => applyPreset(e.target.value as BudgetPresetId)}
+            className="rounded border border-input bg-background px-1.5 py-0.5 text-xs"
+            aria-label="Size budgets to model"
+          >
+            <option value="" disabled>
+              Size to model…
+            </option>
+            {(Object.keys(BUDGET_PRESETS) as BudgetPresetId[]).map((preset) => (
+              <option key={preset} value={preset}>
+                {BUDGET_PRESETS[preset].label}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {overflowMessage && (
+        <div className="mb-3 p-2 rounded-md bg-destructive/10 border border-destructive text-destructive text-xs">
+          {overflowMessage}
+        </div>
+      )}
 
       <div className="space-y-3">
         {/* Per-zone metrics */}
@@ -147,6 +201,12 @@ export function SessionMetrics({
             budget={metrics.total.budget}
           />
         </div>
+
+        {session && (
+          <div className="pt-2 border-t border-border">
+            <BudgetPolicySettings key={sessionId} sessionId={sessionId} policy={session.budgetPolicy} />
+          </div>
+        )}
       </div>
     </div>
   )
@@ -5,3 +5,4 @@
 export { ZoneHeader } from "./ZoneHeader"
 export { BlockTokenBadge } from "./BlockTokenBadge"
 export { SessionMetrics, ZoneHeaderSkeleton } from "./SessionMetrics"
+export { BudgetPolicySettings } from "./BudgetPolicySettings"
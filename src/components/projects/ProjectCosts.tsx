@@ -0,0 +1,206 @@
+/**
+ * Project spend: daily/monthly totals, provider and model breakdowns,
+ * and the soft/hard spending caps checked before each generation.
+ */
+
+import { useState } from "react"
+import { useMutation, useQuery } from "convex/react"
+import { api } from "../../../convex/_generated/api"
+import { Button } from "@/components/ui/button"
+import type { Doc } from "../../../convex/_generated/dataModel"
+
+type Granularity = "day" | "month"
+
+// Daily view covers the last 30 days, monthly the last year
+const WINDOW_MS: Record<Granularity, number> = {
+  day: 30 * 24 * 60 * 60 * 1000,
+  month: 365 * 24 * 60 * 60 * 1000,
+}
+
+function formatUsd(value: number): string {
+  return value < 0.01 && value > 0 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`
+}
+
+function parseUsd(value: string): number | undefined {
+  const parsed = parseFloat(value)
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : undefined
+}
+
+function CostCapsForm({ project }: { project: Doc<"projects"> }) {
+  const [period, setPeriod] = useState<Granularity>(project.costCaps?.period ?? "month")
+  const [soft, setSoft] = useState(project.costCaps?.softUsd?.toString() ?? "")
+  const [hard, setHard] = useState(project.costCaps?.hardUsd?.toString() ?? "")
+  const [isSaving, setIsSaving] = useState(false)
+
+  const setCostCaps = useMutation(api.projects.setCostCaps)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const softUsd = parseUsd(soft)
+    const hardUsd = parseUsd(hard)
+    setIsSaving(true)
+    try {
+      await setCostCaps({
+        id: project._id,
+        costCaps: softUsd === undefined && hardUsd === undefined
+          ? undefined
+          : { period, softUsd, hardUsd },
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3">
+      <div>
+        <label htmlFor="cost-cap-period" className="block text-xs font-medium mb-1">
+          Period
+        </label>
+        <select
+          id="cost-cap-period"
+          value={period}
+          onChange={(e) => setPeriod(e.target.value as Granularity)}
+          className="rounded-md border border-input bg-background px-3 py-2 text-sm"
+        >
+          <option value="day">Daily</option>
+          <option value="month">Monthly</option>
+        </select>
+      </div>
+      <div>
+        <label htmlFor="cost-cap-soft" className="block text-xs font-medium mb-1">
+          Warn at (USD)
+        </label>
+        <input
+          id="cost-cap-soft"
+          type="number"
+          min="0"
+          step="0.01"
+          value={soft}
+          onChange={(e) => setSoft(e.target.value)}
+          placeholder="None"
+          className="w-28 rounded-md border border-input bg-background px-3 py-2 text-sm"
+        />
+      </div>
+      <div>
+        <label htmlFor="cost-cap-hard" className="block text-xs font-medium mb-1">
+          Stop at (USD)
+        </label>
+        <input
+          id="cost-cap-hard"
+          type="number"
+          min="0"
+          step="0.01"
+          value={hard}
+          onChange={(e) => setHard(e.target.value)}
+          placeholder="None"
+          className="w-28 rounded-md border border-input bg-background px-3 py-2 text-sm"
+        />
+      </div>
+      <Button type="submit" size="sm" disabled={isSaving}>
+        {isSaving ? "Saving..." : "Save Caps"}
+      </Button>
+    </form>
+  )
+}
+
+/**
+ * Cost panel for the project dashboard.
+ */
+export function ProjectCosts({ project }: { project: Doc<"projects"> }) {
+  const [granularity, setGranularity] = useState<Granularity>("day")
+  // Fixed per granularity so the query args stay stable between renders
+  const [since] = useState(() => ({
+    day: Date.now() - WINDOW_MS.day,
+    month: Date.now() - WINDOW_MS.month,
+  }))
+
+  const summary = useQuery(api.costLedger.summarize, {
+    projectId: project._id,
+    granularity,
+    since: since[granularity],
+  })
+  const budget = useQuery(api.costLedger.getProjectBudgetStatus, { projectId: project._id })
+
+  return (
+    <div className="p-4 rounded-lg border border-border space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold">Costs</h2>
+        <div className="flex gap-1">
+          {(["day", "month"] as const).map((g) => (
+            <Button
+              key={g}
+              size="sm"
+              variant={granularity === g ? "default" : "outline"}
+              onClick={() => setGranularity(g)}
+            >
+              {g === "day" ? "Daily" : "Monthly"}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {budget && (
+        <div
+          className={`p-3 rounded-md text-sm ${
+            budget.state === "exceeded"
+              ? "bg-destructive/10 border border-destructive text-destructive"
+              : budget.state === "warning"
+                ? "bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-300"
+                : "bg-muted text-muted-foreground"
+          }`}
+        >
+          {budget.message}
+        </div>
+      )}
+
+      <CostCapsForm key={project._id} project={project} />
+
+      {summary === undefined ? (
+        <p className="text-sm text-muted-foreground">Loading costs...</p>
+      ) : !summary || summary.total.calls === 0 ? (
+        <p className="text-sm text-muted-foreground">No LLM usage recorded yet.</p>
+      ) : (
+        <div className="grid gap-4 md:grid-cols-3 text-sm">
+          <div>
+            <h3 className="text-xs font-medium text-muted-foreground mb-2">
+              {granularity === "day" ? "LAST 30 DAYS" : "LAST 12 MONTHS"} · {formatUsd(summary.total.costUsd)}
+            </h3>
+            <ul className="space-y-1">
+              {[...summary.periods].reverse().map((p) => (
+                <li key={p.period} className="flex justify-between">
+                  <span>{p.period}</span>
+                  <span className="tabular-nums">{formatUsd(p.costUsd)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <h3 className="text-xs font-medium text-muted-foreground mb-2">BY PROVIDER</h3>
+            <ul className="space-y-1">
+              {summary.byProvider.map((p: { provider: string; costUsd: number }) => (
+                <li key={p.provider} className="flex justify-between">
+                  <span>{p.provider}</span>
+                  <span className="tabular-nums">{formatUsd(p.costUsd)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+          <div>
+            <h3 className="text-xs font-medium text-muted-foreground mb-2">BY MODEL</h3>
+            <ul className="space-y-1">
+              {summary.byModel.map((m: { provider: string; model: string; costUsd: number; calls: number }) => (
+                <li key={`${m.provider}/${m.model}`} className="flex justify-between gap-2">
+                  <span className="truncate" title={`${m.provider} · ${m.calls} calls`}>
+                    {m.model}
+                  </span>
+                  <span className="tabular-nums">{formatUsd(m.costUsd)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
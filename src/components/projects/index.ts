@@ -1 +1,2 @@
 export { AddToProjectDialog } from "./AddToProjectDialog"
+export { ProjectCosts } from "./ProjectCosts"
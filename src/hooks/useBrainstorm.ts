@@ -1,48 +1,74 @@
-import { useState, useCallback, useEffect, useRef } from "react"
-import { useQuery, useMutation } from "convex/react"
+import { useState, useCallback, useEffect, useMemo, useRef } from "react"
+import { useQuery, useMutation, useAction, useConvex } from "convex/react"
+import type { FunctionArgs } from "convex/server"
 import { api } from "../../convex/_generated/api"
-import type { Id } from "../../convex/_generated/dataModel"
-import * as ollamaClient from "@/lib/llm/ollama"
-import * as openrouterClient from "@/lib/llm/openrouter"
+import type { Doc, Id } from "../../convex/_generated/dataModel"
+import { getProvider } from "@/lib/llm/registry"
 import {
-  assembleContextWithConversation,
+  isServerProviderId,
+  type ChatMessage,
+  type ChatResult,
+  type ClientProviderId,
+  type ProviderId,
+} from "@/lib/llm/provider"
+import {
+  assembleChatMessages,
   extractSystemPromptFromBlocks,
   NO_TOOLS_SUFFIX,
+  type Block,
 } from "@/lib/llm/context"
-import { renderMemoryBlock, type MemoryEntry } from "@/lib/llm/memoryRendering"
+import { renderMemoryBlock, scoreEntryByTags, type MemoryEntry } from "@/lib/llm/memoryRendering"
+import { SelfTalkDetector, getSelfTalkMarkers } from "../../convex/lib/selfTalkDetector"
+import {
+  MAX_STRUCTURED_REPAIRS,
+  buildRepairPrompt,
+  buildSchemaInstruction,
+  checkStructuredReply,
+  formatStructuredValue,
+  parseResponseSchema,
+  type ResponseSchema,
+} from "../../convex/lib/structuredOutput"
 import { DEFAULT_ACTIVE_SKILLS, getActiveSkillsContent } from "@/lib/llm/skills"
-import { brainstorm as brainstormSettings } from "@/lib/llm/settings"
-
-// localStorage keys for conversation persistence
+import {
+  formatAnswersMessage,
+  formatAnswersNote,
+  type ClarifyingAnswers,
+  type ClarifyingQuestion,
+} from "@/lib/llm/clarifyingQuestions"
+import {
+  brainstorm as brainstormSettings,
+  compression as compressionSettings,
+  type CompareTarget,
+} from "@/lib/llm/settings"
+import {
+  buildSummaryPrompt,
+  formatSummaryBlock,
+  planRollingSummary,
+  stripSummaryHeading,
+  summarizeWithProvider,
+  unsummarizedHistory,
+} from "@/lib/llm/rollingSummary"
+import {
+  defaultLeaf,
+  getBranch,
+  getBranchPosition,
+  removeSubtree,
+  switchBranch as switchBranchLeaf,
+  withParents,
+} from "@/lib/conversationTree"
+import { buildContextManifest, type ContextManifest, type ContextMode } from "@/lib/contextManifest"
+import { extractBlockTitle } from "@/lib/skills/titleExtractor"
+import { useBudgetPolicy, type BudgetPolicyRun } from "@/hooks/useBudgetPolicy"
+import { useCostLedger } from "@/hooks/useCostLedger"
+
+// Legacy localStorage conversations (one per session), migrated to Convex threads on first load
 const CONVERSATION_KEY_PREFIX = "contextforge-brainstorm-conv-"
 const CONVERSATION_INDEX_KEY = "contextforge-brainstorm-conv-index"
-const MAX_STORED_CONVERSATIONS = 5
 
 function getConversationKey(sessionId: string) {
   return `${CONVERSATION_KEY_PREFIX}${sessionId}`
 }
 
-function saveConversation(sessionId: string, messages: Message[]) {
-  if (messages.length === 0) {
-    localStorage.removeItem(getConversationKey(sessionId))
-    return
-  }
-  try {
-    localStorage.setItem(getConversationKey(sessionId), JSON.stringify(messages))
-    // Update index for LRU eviction
-    const index: string[] = JSON.parse(localStorage.getItem(CONVERSATION_INDEX_KEY) || "[]")
-    const filtered = index.filter((id) => id !== sessionId)
-    filtered.push(sessionId)
-    while (filtered.length > MAX_STORED_CONVERSATIONS) {
-      const evicted = filtered.shift()!
-      localStorage.removeItem(getConversationKey(evicted))
-    }
-    localStorage.setItem(CONVERSATION_INDEX_KEY, JSON.stringify(filtered))
-  } catch {
-    // localStorage full or unavailable — silently ignore
-  }
-}
-
 function loadConversation(sessionId: string): Message[] {
   try {
     const stored = localStorage.getItem(getConversationKey(sessionId))
@@ -62,15 +88,103 @@ function clearStoredConversation(sessionId: string) {
   }
 }
 
-export type Provider = "ollama" | "claude" | "openrouter"
+// Stored thread message <-> local message
+function fromStoredMessage(m: Doc<"messages">): Message {
+  return {
+    id: m.clientId,
+    parentId: m.parentClientId,
+    role: m.role,
+    content: m.content,
+    timestamp: m.timestamp,
+    savedAsBlockId: m.savedAsBlockId,
+    contextManifest: m.contextManifest,
+  }
+}
+
+function toStoredMessage(m: Message) {
+  return {
+    clientId: m.id,
+    parentClientId: m.parentId ?? null,
+    role: m.role,
+    content: m.content,
+    timestamp: m.timestamp,
+    savedAsBlockId: m.savedAsBlockId,
+    contextManifest: m.contextManifest,
+  }
+}
+
+function sameMessage(a: Message, b: Message) {
+  return (
+    a.id === b.id &&
+    a.parentId === b.parentId &&
+    a.content === b.content &&
+    a.savedAsBlockId === b.savedAsBlockId
+  )
+}
+
+// Index of the first message that differs (length of the shorter list if one is a prefix)
+function firstDifference(a: Message[], b: Message[]): number {
+  const n = Math.min(a.length, b.length)
+  for (let i = 0; i < n; i++) {
+    if (!sameMessage(a[i], b[i])) return i
+  }
+  return n
+}
+
+// Thread name from its first user message
+function threadName(messages: Message[]): string {
+  const first = messages.find((m) => m.role === "user")?.content.replace(/\s+/g, " ").trim()
+  if (!first) return "New thread"
+  return first.length > 40 ? `${first.slice(0, 40).trimEnd()}…` : first
+}
+
+export type Provider = ProviderId
 export type Zone = "PERMANENT" | "STABLE" | "WORKING"
+export type { CompareTarget }
+
+// Most side-by-side columns compare mode will run
+export const MAX_COMPARE_TARGETS = 4
 
 export interface Message {
   id: string
+  /** Parent message in the conversation tree (null for a root) */
+  parentId?: string | null
   role: "user" | "assistant"
   content: string
   timestamp: number
   savedAsBlockId?: Id<"blocks">
+  /** Assistant replies: the context the reply was generated with */
+  contextManifest?: ContextManifest
+}
+
+/**
+ * A thread's messages (every branch, in creation order) plus the selected branch's last message.
+ */
+interface ConversationTree {
+  nodes: Message[]
+  leafId: string | null
+}
+
+const EMPTY_TREE: ConversationTree = { nodes: [], leafId: null }
+
+/**
+ * One model's reply to a compare-mode turn.
+ */
+export interface CompareReply {
+  id: string
+  target: CompareTarget
+  text: string
+  status: "streaming" | "complete" | "error" | "cancelled"
+  error?: string
+  /** Total input tokens, including prompt cache reads/writes */
+  inputTokens?: number
+  outputTokens?: number
+  costUsd?: number
+  durationMs?: number
+  /** Claude replies stream through a Convex generation */
+  generationId?: Id<"generations">
+  savedAsBlockId?: Id<"blocks">
+  contextManifest?: ContextManifest
 }
 
 interface UseBrainstormOptions {
@@ -88,17 +202,37 @@ interface UseBrainstormResult {
   hasUnsavedContent: boolean
   conversationRestored: boolean
 
+  // Threads (server-persisted conversations in this session)
+  conversations: Doc<"conversations">[]
+  activeConversationId: Id<"conversations"> | null
+  selectConversation: (id: Id<"conversations">) => void
+  newConversation: () => void
+  renameConversation: (id: Id<"conversations">, name: string) => Promise<void>
+  deleteConversation: (id: Id<"conversations">) => Promise<void>
+
   // Actions
   open: (provider?: Provider) => void
   close: () => void
   sendMessage: (content: string) => Promise<void>
   sendValidation: (content: string) => Promise<void>
   hasCriteria: boolean
+  // Clarifying questions: send the form's answers as the next turn (optionally kept as a WORKING note)
+  answerQuestions: (
+    questions: ClarifyingQuestion[],
+    answers: ClarifyingAnswers,
+    saveAsNote: boolean
+  ) => Promise<void>
   clearConversation: () => void
   setProvider: (provider: Provider) => void
   retryMessage: (messageId: string) => Promise<void>
   editMessage: (messageId: string, newContent: string) => Promise<void>
 
+  // Branches: edits and retries add siblings instead of overwriting
+  getBranchInfo: (messageId: string) => { index: number; count: number } | null
+  switchBranch: (messageId: string, offset: number) => void
+  continueFrom: (messageId: string) => void
+  saveBranch: (zone: Zone) => Promise<number>
+
   // Streaming state
   isStreaming: boolean
   streamingText: string
@@ -106,6 +240,8 @@ interface UseBrainstormResult {
 
   // Save to blocks
   saveMessage: (messageId: string, zone: Zone) => Promise<Id<"blocks">>
+  // Smart save: a reply split into typed pieces, each saved to its own zone
+  saveMessagePieces: (messageId: string, pieces: SavePiece[]) => Promise<Id<"blocks">[]>
 
   // Claude Code agent behavior toggle
   disableAgentBehavior: boolean
@@ -123,13 +259,151 @@ interface UseBrainstormResult {
   activeSkills: Record<string, boolean>
   toggleSkill: (skillId: string) => void
 
-  // OpenRouter session cost (USD)
-  openrouterSessionCost: number
+  // Client-side provider session cost (USD), from registry pricing
+  sessionCost: number
+  // Project spending cap message once spend passes the soft or hard cap
+  budgetWarning: string | null
+
+  // Session budget policy: actions taken before the last send, with undo
+  isApplyingBudgetPolicy: boolean
+  budgetPolicyRun: BudgetPolicyRun | null
+  undoBudgetPolicyRun: () => Promise<void>
+  dismissBudgetPolicyRun: () => void
+  isUndoingBudgetPolicyRun: boolean
+
+  // Rolling summary: fold older turns into a WORKING note block once the conversation is long
+  rollingSummary: boolean
+  setRollingSummary: (value: boolean) => void
+  isSummarizing: boolean
+
+  // Run OpenRouter/Ollama through a Convex action (durable generations)
+  serverGeneration: boolean
+  setServerGeneration: (value: boolean) => void
+  // The deployment is configured to run the current provider server-side
+  serverGenerationAvailable: boolean
+
+  // Compare mode: one message fanned out to several provider/model pairs
+  compareMode: boolean
+  setCompareMode: (value: boolean) => void
+  compareTargets: CompareTarget[]
+  setCompareTargets: (targets: CompareTarget[]) => void
+  compareReplies: CompareReply[]
+  keepCompareReply: (replyId: string) => void
+  saveCompareReply: (replyId: string, zone: Zone) => Promise<Id<"blocks">>
+  discardCompareReplies: () => void
+
+  // Structured output: replies must match a JSON Schema (native JSON mode or prompting,
+  // then validation with repair retries) and are kept as a json block
+  structuredMode: boolean
+  setStructuredMode: (value: boolean) => void
+  outputSchemaText: string
+  setOutputSchemaText: (text: string) => void
+  outputSchemaError: string | null
+
+  // Stream one client-side reply outside the conversation (replay); contextBlocks replace the session's
+  streamClientReply: StreamClientReply
+
+  // Context provenance: the manifest a new turn would record now, and display titles
+  currentContextManifest: ContextManifest | undefined
+  contextTitles: ContextTitles
 
   // State
   error: string | null
 }
 
+/** One block of a smart-saved reply */
+export interface SavePiece {
+  content: string
+  type: string
+  zone: Zone
+}
+
+/** A reply streamed from a client-side provider, with its usage and cost */
+export interface ClientReply {
+  text: string
+  usage?: ChatResult
+  costUsd?: number
+}
+
+/** Per-call overrides for streamClientReply */
+export interface StreamClientReplyOptions {
+  /** Blocks to use instead of the session's (replay against a snapshot) */
+  contextBlocks?: Block[]
+  /** Structured output: native JSON mode if the provider has one, else the schema is prompted */
+  responseSchema?: ResponseSchema
+}
+
+export type StreamClientReply = (
+  providerId: ClientProviderId,
+  modelOverride: string | null,
+  content: string,
+  conversationHistory: { role: "user" | "assistant"; content: string }[],
+  signal: AbortSignal,
+  onText: (text: string) => void,
+  options?: StreamClientReplyOptions
+) => Promise<ClientReply>
+
+/** Display titles for the blocks and memory entries a manifest refers to, by id */
+export interface ContextTitles {
+  blocks: Record<string, string>
+  memoryEntries: Record<string, string>
+}
+
+type HistoryMessage = { role: "user" | "assistant"; content: string }
+
+// A structured server turn between its generation and validation (repairs restart from here)
+interface StructuredServerTurn {
+  responseSchema: ResponseSchema
+  args: FunctionArgs<typeof api.generations.startBrainstormGeneration>
+  history: HistoryMessage[]
+  prompt: string
+  repairs: number
+  /** Generation a repair was started from, so a re-run of the effect doesn't repeat it */
+  repairedFrom?: Id<"generations">
+}
+
+// Starting point for the schema editor: a design decision record
+const DEFAULT_OUTPUT_SCHEMA = JSON.stringify(
+  {
+    title: "Design decision",
+    type: "object",
+    required: ["title", "decision", "options"],
+    properties: {
+      title: { type: "string" },
+      decision: { type: "string" },
+      options: {
+        type: "array",
+        items: {
+          type: "object",
+          required: ["name", "pros", "cons"],
+          properties: {
+            name: { type: "string" },
+            pros: { type: "array", items: { type: "string" } },
+            cons: { type: "array", items: { type: "string" } },
+          },
+        },
+      },
+      openQuestions: { type: "array", items: { type: "string" } },
+    },
+  },
+  null,
+  2
+)
+
+const schemaMismatchMessage = (errors: string[]) =>
+  `Reply didn't match the output schema: ${errors[0] ?? "unknown error"}`
+
+// ~4 chars per token, for streams that end without the provider's usage
+const estimateTokens = (text: string) => Math.ceil(text.length / 4)
+
+function estimatePromptTokens(messages: ChatMessage[]): number {
+  return messages.reduce(
+    (sum, m) =>
+      sum + estimateTokens(typeof m.content === "string" ? m.content : m.content.map((part) => part.text).join("")),
+    0
+  )
+}
+
 // Generate unique ID for messages
 function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
@@ -138,10 +412,13 @@ function generateId(): string {
 /**
  * Hook for multi-turn brainstorming conversations with LLMs.
  *
- * Supports three providers:
+ * Providers come from the LLM provider registry (@/lib/llm/registry):
  * - Claude: Uses Convex reactive streaming via mutations (backend)
- * - Ollama: Uses client-side direct calls
- * - OpenRouter: Uses client-side direct calls
+ * - Client-side providers (Ollama, OpenRouter, Anthropic, OpenAI-compatible):
+ *   stream directly from the browser through LLMProvider.streamChat()
+ *
+ * In compare mode a message goes to every compare target at once; the user keeps
+ * one reply as the assistant turn before the conversation continues.
  */
 export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResult {
   const { sessionId, onError, defaultDisableAgentBehavior = true } = options
@@ -149,7 +426,7 @@ export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResul
   // Dialog state
   const [isOpen, setIsOpen] = useState(false)
   const [provider, setProviderState] = useState<Provider>(
-    () => (brainstormSettings.getProvider() as Provider) || "claude"
+    () => brainstormSettings.getProvider() || "claude"
   )
   const [disableAgentBehavior, setDisableAgentBehavior] = useState(defaultDisableAgentBehavior)
   const [preventSelfTalk, setPreventSelfTalk] = useState(true)
@@ -162,21 +439,38 @@ export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResul
     brainstormSettings.setProvider(p)
   }, [])
 
+  // Server-side generation for OpenRouter/Ollama (Claude always runs server-side)
+  const [serverGeneration, setServerGenerationState] = useState(
+    () => brainstormSettings.getServerGeneration()
+  )
+  const setServerGeneration = useCallback((value: boolean) => {
+    setServerGenerationState(value)
+    brainstormSettings.setServerGeneration(value)
+  }, [])
+  const [rollingSummary, setRollingSummaryState] = useState(
+    () => brainstormSettings.getRollingSummary()
+  )
+  const setRollingSummary = useCallback((value: boolean) => {
+    setRollingSummaryState(value)
+    brainstormSettings.setRollingSummary(value)
+  }, [])
+  const features = useQuery(api.features.getFlags)
+  const serverGenerationAvailable =
+    (provider === "openrouter" && !!features?.serverOpenRouterEnabled) ||
+    (provider === "ollama" && !!features?.serverOllamaEnabled)
+  // Whether replies stream through a generation (subscription) rather than the browser
+  const runsOnServer = provider === "claude" || (serverGeneration && serverGenerationAvailable)
+
   const setModel = useCallback((m: string | null) => {
     setModelState(m)
     brainstormSettings.setModel(m)
   }, [])
 
-  // Conversation state (persisted to localStorage per session)
-  const [messages, setMessages] = useState<Message[]>(
-    () => loadConversation(sessionId)
-  )
-  const [hasUnsavedContent, setHasUnsavedContent] = useState(
-    () => loadConversation(sessionId).length > 0
-  )
-  const [conversationRestored, setConversationRestored] = useState(
-    () => loadConversation(sessionId).length > 0
-  )
+  // Conversation state (the open thread, synced to Convex). `messages` is the selected branch.
+  const [tree, setTree] = useState<ConversationTree>(EMPTY_TREE)
+  const messages = useMemo(() => getBranch(tree.nodes, tree.leafId), [tree])
+  const [hasUnsavedContent, setHasUnsavedContent] = useState(false)
+  const [conversationRestored, setConversationRestored] = useState(false)
 
   // Ephemeral skills (reset on dialog close)
   const [activeSkills, setActiveSkills] = useState<Record<string, boolean>>(
@@ -190,8 +484,33 @@ export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResul
   const streamingTextRef = useRef("")
   const [error, setError] = useState<string | null>(null)
 
-  // OpenRouter session cost tracking
-  const [openrouterSessionCost, setOpenrouterSessionCost] = useState(0)
+  // Client-side provider session cost tracking
+  const [sessionCost, setSessionCost] = useState(0)
+
+  // Compare mode state
+  const [compareMode, setCompareModeState] = useState(false)
+  const [compareTargets, setCompareTargetsState] = useState<CompareTarget[]>(
+    () => brainstormSettings.getCompareTargets()
+  )
+  const [compareReplies, setCompareReplies] = useState<CompareReply[]>([])
+  const compareControllersRef = useRef(new Map<string, AbortController>())
+  const isComparing = compareReplies.some((r) => r.status === "streaming")
+
+  // Structured output. The schema text is remembered; the mode is switched on per conversation.
+  const [structuredMode, setStructuredMode] = useState(false)
+  const [outputSchemaText, setOutputSchemaTextState] = useState(
+    () => brainstormSettings.getOutputSchema() ?? DEFAULT_OUTPUT_SCHEMA
+  )
+  const parsedOutputSchema = useMemo((): { schema: ResponseSchema | null; error: string | null } => {
+    try {
+      return { schema: parseResponseSchema(outputSchemaText), error: null }
+    } catch (err) {
+      return { schema: null, error: err instanceof Error ? err.message : "Invalid schema" }
+    }
+  }, [outputSchemaText])
+  // Schema for retries and edits (a new message also reports an invalid schema)
+  const structuredSchema = structuredMode ? parsedOutputSchema.schema ?? undefined : undefined
+  const structuredTurnRef = useRef<StructuredServerTurn | null>(null)
 
   // Track previous text for Claude chunk detection
   const prevTextRef = useRef("")
@@ -201,18 +520,170 @@ export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResul
     streamingTextRef.current = streamingText
   }, [streamingText])
 
-  // Persist messages to localStorage immediately on every change
+  // Threads. undefined = not chosen yet (the most recent is picked once the list
+  // loads); null = a new thread that's created on its first message
+  const conversationList = useQuery(api.conversations.list, { sessionId })
+  const [selectedConversationId, setSelectedConversationId] = useState<
+    Id<"conversations"> | null | undefined
+  >(undefined)
+  const activeConversationId = selectedConversationId ?? null
+  const storedMessages = useQuery(
+    api.conversations.getMessages,
+    activeConversationId ? { conversationId: activeConversationId } : "skip"
+  )
+  const createConversation = useMutation(api.conversations.create)
+  const replaceConversationTail = useMutation(api.conversations.replaceTail)
+  const renameConversationMutation = useMutation(api.conversations.rename)
+  const removeConversation = useMutation(api.conversations.remove)
+  const setPendingGeneration = useMutation(api.conversations.setPendingGeneration)
+  const clearPendingGeneration = useMutation(api.conversations.clearPendingGeneration)
+
+  // Tree as last written to (or loaded from) the server, for diffing local edits
+  const syncedRef = useRef<{ conversationId: Id<"conversations"> | null } & ConversationTree>({
+    conversationId: null,
+    ...EMPTY_TREE,
+  })
+  const pendingSyncsRef = useRef(0)
+  const creatingRef = useRef(false)
+  const migratedSessionRef = useRef<string | null>(null)
+  const activeConversation = conversationList?.find(
+    (c: Doc<"conversations">) => c._id === activeConversationId
+  )
+  const storedLeafId = activeConversation?.activeLeafId
+
+  // Pick the most recent thread on load, and fall back to it if the open one is deleted elsewhere
   useEffect(() => {
-    saveConversation(sessionId, messages)
-  }, [messages, sessionId])
+    if (!conversationList) return
+    if (selectedConversationId === undefined || (selectedConversationId && !activeConversation)) {
+      setSelectedConversationId(conversationList[0]?._id ?? null)
+    }
+  }, [conversationList, selectedConversationId, activeConversation])
+
+  // Migrate the pre-threads localStorage conversation into a thread, once per session
+  useEffect(() => {
+    if (!conversationList || migratedSessionRef.current === sessionId) return
+    migratedSessionRef.current = sessionId
+    const stored = loadConversation(sessionId)
+    if (stored.length === 0) return
+    createConversation({
+      sessionId,
+      name: "Restored conversation",
+      messages: withParents(stored).map(toStoredMessage),
+    })
+      .then((id) => {
+        clearStoredConversation(sessionId)
+        setSelectedConversationId(id)
+      })
+      .catch((err) => console.warn("[Brainstorm] Failed to migrate stored conversation:", err))
+  }, [conversationList, sessionId, createConversation])
+
+  // Adopt the open thread's stored messages when it loads or changes remotely
+  useEffect(() => {
+    if (!activeConversationId || !storedMessages || isStreaming || pendingSyncsRef.current > 0) return
+    const nodes = withParents<Message>(storedMessages.map(fromStoredMessage))
+    const leafId =
+      storedLeafId && nodes.some((n) => n.id === storedLeafId) ? storedLeafId : defaultLeaf(nodes)
+    const synced = syncedRef.current
+    const switched = synced.conversationId !== activeConversationId
+    if (
+      !switched &&
+      synced.leafId === leafId &&
+      synced.nodes.length === nodes.length &&
+      firstDifference(synced.nodes, nodes) === nodes.length
+    ) {
+      return
+    }
+    syncedRef.current = { conversationId: activeConversationId, nodes, leafId }
+    setTree({ nodes, leafId })
+    setHasUnsavedContent(nodes.length > 0)
+    if (switched) setConversationRestored(nodes.length > 0)
+  }, [activeConversationId, storedMessages, storedLeafId, isStreaming])
+
+  // Write local changes back: create the thread on its first message, then
+  // replace the tail from the first message that changed
+  useEffect(() => {
+    const synced = syncedRef.current
+    if (synced.conversationId !== activeConversationId) return
+
+    if (!activeConversationId) {
+      if (tree.nodes.length === 0 || creatingRef.current) return
+      creatingRef.current = true
+      const snapshot = tree
+      createConversation({
+        sessionId,
+        name: threadName(snapshot.nodes),
+        messages: snapshot.nodes.map(toStoredMessage),
+        activeLeafId: snapshot.leafId ?? undefined,
+      })
+        .then((id) => {
+          syncedRef.current = { conversationId: id, ...snapshot }
+          setSelectedConversationId(id)
+        })
+        .catch((err) => console.warn("[Brainstorm] Failed to create thread:", err))
+        .finally(() => {
+          creatingRef.current = false
+        })
+      return
+    }
+
+    const from = firstDifference(synced.nodes, tree.nodes)
+    const nodesChanged = from !== tree.nodes.length || from !== synced.nodes.length
+    if (!nodesChanged && synced.leafId === tree.leafId) return
+    syncedRef.current = { conversationId: activeConversationId, ...tree }
+    pendingSyncsRef.current++
+    replaceConversationTail({
+      conversationId: activeConversationId,
+      fromPosition: from,
+      messages: tree.nodes.slice(from).map(toStoredMessage),
+      activeLeafId: tree.leafId ?? undefined,
+    })
+      .catch((err) => console.warn("[Brainstorm] Failed to sync thread:", err))
+      .finally(() => {
+        pendingSyncsRef.current--
+      })
+  }, [tree, activeConversationId, sessionId, createConversation, replaceConversationTail])
+
+  // Add a message to the end of the selected branch
+  const appendMessage = useCallback((message: Message) => {
+    setTree((prev) => ({
+      nodes: [...prev.nodes, { ...message, parentId: prev.leafId }],
+      leafId: message.id,
+    }))
+  }, [])
 
-  // Reload conversation when session changes (merged with clear logic below)
 
   // Abort controller for client-side streaming
   const abortControllerRef = useRef<AbortController | null>(null)
 
   // Get blocks for context assembly (client-side)
   const blocks = useQuery(api.blocks.list, { sessionId })
+  // Blocks as reloaded after the budget policy changed them, for the turn being sent
+  const turnBlocksRef = useRef<Doc<"blocks">[] | undefined>(undefined)
+  const convex = useConvex()
+  const {
+    enforce: enforceBudgetPolicy,
+    lastRun: budgetPolicyRun,
+    undo: undoBudgetPolicyRun,
+    dismiss: dismissBudgetPolicyRun,
+    isUndoing: isUndoingBudgetPolicyRun,
+  } = useBudgetPolicy({ sessionId })
+  const [isApplyingBudgetPolicy, setIsApplyingBudgetPolicy] = useState(false)
+
+  // Before every send, retry and edit: bring the session back within budget first.
+  // The reply is assembled from the blocks it leaves (turnBlocksRef, cleared when the turn ends).
+  const applyBudgetPolicy = useCallback(async () => {
+    setIsApplyingBudgetPolicy(true)
+    try {
+      const run = await enforceBudgetPolicy()
+      if (run && run.actions.length > 0) {
+        turnBlocksRef.current = await convex.query(api.blocks.list, { sessionId })
+      }
+    } catch (err) {
+      console.warn("[Brainstorm] Budget policy failed:", err)
+    } finally {
+      setIsApplyingBudgetPolicy(false)
+    }
+  }, [enforceBudgetPolicy, convex, sessionId])
 
   // Fetch session and memory for Ollama/OpenRouter injection (Claude uses server-side memory)
   const session = useQuery(api.sessions.get, { id: sessionId })
@@ -236,36 +707,194 @@ export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResul
     return result || undefined
   })()
 
-  // Reset streaming state and restore conversation when session changes
+  // Memory entries that reach the model, for context manifests. Client streams render
+  // every entry; the server (convex/lib/memoryRendering.ts) keeps only pinned entries
+  // and those sharing a tag with the session.
+  const renderedMemoryIds = useMemo(() => {
+    const entries: Doc<"memoryEntries">[] = memoryEntries ?? []
+    const pinnedIds = new Set(session?.pinnedMemories ?? [])
+    const sessionTags = session?.sessionTags ?? []
+    return {
+      client: entries.map((e) => e._id),
+      server: entries
+        .filter((e) => pinnedIds.has(e._id) || scoreEntryByTags(sessionTags, e.tags) > 0)
+        .map((e) => e._id),
+    }
+  }, [memoryEntries, session?.pinnedMemories, session?.sessionTags])
+
+  // Keep the session's active model in sync so block token counts use its tokenizer.
+  // The backend recounts blocks in the background when the tokenizer changes.
+  const setActiveModel = useMutation(api.sessions.setActiveModel)
+  const activeModel = provider === "claude"
+    ? model ?? session?.claudeResolvedModel ?? "claude"
+    : getProvider(provider).getModel() ?? provider
   useEffect(() => {
-    const stored = loadConversation(sessionId)
-    setMessages(stored)
-    setHasUnsavedContent(stored.length > 0)
-    setConversationRestored(stored.length > 0)
+    if (!isOpen || !session || session.activeModel === activeModel) return
+    setActiveModel({ id: sessionId, model: activeModel }).catch((err) =>
+      console.warn("[Brainstorm] Failed to update active model:", err)
+    )
+  }, [isOpen, session, activeModel, sessionId, setActiveModel])
+
+  // Context manifest for a turn, recorded on its assistant message
+  const buildManifest = useCallback(
+    (
+      manifestProvider: string,
+      manifestModel: string | null | undefined,
+      onServer: boolean,
+      mode: ContextMode = "brainstorm"
+    ) => {
+      const sourceBlocks = turnBlocksRef.current ?? blocks
+      return sourceBlocks
+        ? buildContextManifest({
+            blocks: sourceBlocks,
+            memoryEntryIds: onServer ? renderedMemoryIds.server : renderedMemoryIds.client,
+            activeSkills,
+            provider: manifestProvider,
+            model: manifestModel,
+            mode,
+          })
+        : undefined
+    },
+    [blocks, renderedMemoryIds, activeSkills]
+  )
+  // Manifest of the turn being generated (server replies complete in the generation effect)
+  const turnManifestRef = useRef<ContextManifest | undefined>(undefined)
+
+  const currentContextManifest = useMemo(
+    () => buildManifest(provider, activeModel, runsOnServer),
+    [buildManifest, provider, activeModel, runsOnServer]
+  )
+  const contextTitles = useMemo((): ContextTitles => ({
+    blocks: Object.fromEntries(
+      (blocks ?? []).map((b: Doc<"blocks">, i: number) => [b._id, extractBlockTitle(b.content, b.type, i)])
+    ),
+    memoryEntries: Object.fromEntries(
+      (memoryEntries ?? []).map((e: NonNullable<typeof memoryEntries>[number]) => [e._id, e.title])
+    ),
+  }), [blocks, memoryEntries])
+
+  // Reset streaming state and threads when session changes
+  useEffect(() => {
+    syncedRef.current = { conversationId: null, ...EMPTY_TREE }
+    setSelectedConversationId(undefined)
+    setTree(EMPTY_TREE)
+    setHasUnsavedContent(false)
+    setConversationRestored(false)
     setStreamingText("")
     setError(null)
     setGenerationId(null)
     setIsStreaming(false)
     prevTextRef.current = ""
     abortControllerRef.current?.abort()
+    compareControllersRef.current.forEach((controller) => controller.abort())
+    setCompareReplies([])
   }, [sessionId])
 
   // Convex mutations (for Claude)
   const startBrainstormGeneration = useMutation(api.generations.startBrainstormGeneration)
   const saveBrainstormMessage = useMutation(api.generations.saveBrainstormMessage)
+  const createBlock = useMutation(api.blocks.create)
   const cancelGeneration = useMutation(api.generations.cancel)
+  const recordClientSelfTalk = useMutation(api.generations.recordClientSelfTalk)
+
+  // Project spending caps; the server enforces them for backend runs, this covers browser runs
+  const { budgetStatus, requireBudget, recordUsage } = useCostLedger({ sessionId })
+  const budgetWarning = budgetStatus && budgetStatus.state !== "ok" ? budgetStatus.message : null
+
+  // Rolling summary. The summary only applies while its block exists and covers this branch.
+  const saveSummary = useMutation(api.conversations.saveSummary)
+  const summarizeWithClaudeCode = useAction(api.compression.summarizeWithClaudeCode)
+  const [isSummarizing, setIsSummarizing] = useState(false)
+  const summarizingRef = useRef(false)
+  const failedSummaryRef = useRef<string | null>(null)
+  const summaryBlock = activeConversation?.summaryBlockId
+    ? blocks?.find((b: Doc<"blocks">) => b._id === activeConversation.summaryBlockId)
+    : undefined
+  const summarizedThroughId =
+    rollingSummary && summaryBlock && messages.some((m) => m.id === activeConversation?.summarizedThroughId)
+      ? activeConversation?.summarizedThroughId ?? null
+      : null
+
+  // History sent with a new message: only the turns after the summary
+  const historyFor = useCallback(
+    (list: Message[]) =>
+      unsummarizedHistory(list, summarizedThroughId).map((msg) => ({
+        role: msg.role as "user" | "assistant",
+        content: msg.content,
+      })),
+    [summarizedThroughId]
+  )
+
+  // Retrying or editing a summarized message would send the summary block, which describes the later turns, with it
+  const isSummarizedAt = useCallback(
+    (index: number) =>
+      summarizedThroughId !== null && index <= messages.findIndex((m) => m.id === summarizedThroughId),
+    [messages, summarizedThroughId]
+  )
 
-  // Cancel generation on page close/refresh (best-effort)
+  // After each turn, fold older turns into the summary block once the history passes the threshold
   useEffect(() => {
-    const handleBeforeUnload = () => {
-      if (generationId) {
-        cancelGeneration({ generationId }).catch(() => {})
+    if (!rollingSummary || !activeConversationId || isStreaming || isComparing || summarizingRef.current) return
+    const plan = planRollingSummary(messages, summarizedThroughId)
+    const throughId = plan.fold[plan.fold.length - 1]?.id
+    // Don't retry a failed summary until there's something new to fold
+    if (!throughId || failedSummaryRef.current === throughId) return
+
+    const previousSummary = summarizedThroughId && summaryBlock ? stripSummaryHeading(summaryBlock.content) : null
+    const prompt = buildSummaryPrompt(previousSummary, plan.fold)
+    const compressionProvider = compressionSettings.getProvider()
+    const conversationId = activeConversationId
+
+    summarizingRef.current = true
+    setIsSummarizing(true)
+    const summarize = async () => {
+      if (compressionProvider === "claude-code") {
+        return (await summarizeWithClaudeCode({ sessionId, prompt })).summary
       }
+      requireBudget()
+      const { summary, usage } = await summarizeWithProvider(compressionProvider, prompt)
+      await recordUsage(compressionProvider, usage)
+      return summary
+    }
+    summarize()
+      .then((summary) =>
+        saveSummary({ id: conversationId, content: formatSummaryBlock(summary), summarizedThroughId: throughId })
+      )
+      .catch((err) => {
+        failedSummaryRef.current = throughId
+        const message = err instanceof Error ? err.message : "Unknown error"
+        console.warn("[Brainstorm] Rolling summary failed:", err)
+        setError(`Couldn't summarize earlier turns: ${message}`)
+      })
+      .finally(() => {
+        summarizingRef.current = false
+        setIsSummarizing(false)
+      })
+  }, [
+    rollingSummary,
+    activeConversationId,
+    isStreaming,
+    isComparing,
+    messages,
+    summarizedThroughId,
+    summaryBlock,
+    sessionId,
+    saveSummary,
+    summarizeWithClaudeCode,
+    requireBudget,
+    recordUsage,
+  ])
+
+  // Abort client-side streams on page close/refresh. Server generations (Claude Code,
+  // server-side OpenRouter/Ollama) keep running; the thread's pendingGeneration lets
+  // the next load pick up their reply.
+  useEffect(() => {
+    const handleBeforeUnload = () => {
       abortControllerRef.current?.abort()
     }
     window.addEventListener("beforeunload", handleBeforeUnload)
     return () => window.removeEventListener("beforeunload", handleBeforeUnload)
-  }, [generationId, cancelGeneration])
+  }, [])
 
   // Subscribe to generation updates (for Claude)
   const generation = useQuery(
@@ -273,9 +902,59 @@ export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResul
     generationId ? { generationId } : "skip"
   )
 
-  // Sync Claude streaming data to local state
+  // Generations this tab has followed; a thread's pendingGeneration among them isn't resumed
+  const followedGenerationsRef = useRef(new Set<Id<"generations">>())
+  const pendingGeneration = activeConversation?.pendingGeneration
+
+  // Record the running server generation on the thread (created on the first message,
+  // so possibly after the generation started)
   useEffect(() => {
-    if (!generation || provider !== "claude") return
+    if (!generationId) return
+    followedGenerationsRef.current.add(generationId)
+    if (!isStreaming || !activeConversationId || !activeConversation || !tree.leafId) return
+    if (pendingGeneration?.generationId === generationId) return
+    setPendingGeneration({ id: activeConversationId, generationId, replyToId: tree.leafId }).catch((err) =>
+      console.warn("[Brainstorm] Failed to record pending generation:", err)
+    )
+  }, [
+    generationId,
+    isStreaming,
+    activeConversationId,
+    activeConversation,
+    pendingGeneration?.generationId,
+    tree.leafId,
+    setPendingGeneration,
+  ])
+
+  // After a reload, follow the thread's pending generation again: its reply is
+  // appended when it completes, or right away if it finished in the meantime
+  useEffect(() => {
+    if (!pendingGeneration || !activeConversationId || generationId || isStreaming) return
+    if (syncedRef.current.conversationId !== activeConversationId) return // Thread not loaded yet
+    if (followedGenerationsRef.current.has(pendingGeneration.generationId)) return
+    followedGenerationsRef.current.add(pendingGeneration.generationId)
+    if (!tree.nodes.some((n) => n.id === pendingGeneration.replyToId)) {
+      clearPendingGeneration({ id: activeConversationId, generationId: pendingGeneration.generationId }).catch(
+        console.error
+      )
+      return
+    }
+    setTree((prev) => ({ ...prev, leafId: pendingGeneration.replyToId }))
+    prevTextRef.current = ""
+    setGenerationId(pendingGeneration.generationId)
+    setIsStreaming(true)
+  }, [pendingGeneration, activeConversationId, generationId, isStreaming, tree.nodes, clearPendingGeneration])
+
+  // Sync server-side streaming data (Claude, or server-side OpenRouter/Ollama) to local state
+  useEffect(() => {
+    if (!generation) return
+
+    // The reply is handled here; the thread no longer waits on it
+    const settle = () => {
+      if (activeConversationId) {
+        clearPendingGeneration({ id: activeConversationId, generationId: generation._id }).catch(console.error)
+      }
+    }
 
     // Detect new chunks
     const newText = generation.text
@@ -286,16 +965,64 @@ export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResul
 
     // Handle completion - add assistant message to conversation
     if (generation.status === "complete" && isStreaming) {
+      // Claude's cost shows as subscription usage; other providers count toward the session cost
+      const cost = generation.costUsd
+      const countCost = () => {
+        if (generation.provider !== "claude" && cost) {
+          setSessionCost((prev) => prev + cost)
+        }
+      }
+
+      // Structured turns are validated first; a failing reply goes back with its errors
+      const structured = structuredTurnRef.current
+      const check = structured ? checkStructuredReply(generation.text, structured.responseSchema.schema) : null
+      if (structured && check && !check.ok && structured.repairs < MAX_STRUCTURED_REPAIRS) {
+        if (structured.repairedFrom !== generation._id) {
+          structured.repairedFrom = generation._id
+          structured.repairs++
+          countCost()
+          structured.history = [
+            ...structured.history,
+            { role: "user", content: structured.prompt },
+            { role: "assistant", content: generation.text },
+          ]
+          structured.prompt = buildRepairPrompt(check.errors)
+          // Isolated: the repair exchange stays out of the session's SDK session
+          startBrainstormGeneration({
+            ...structured.args,
+            conversationHistory: structured.history,
+            newMessage: structured.prompt,
+            isolated: true,
+          })
+            .then((result) => setGenerationId(result.generationId))
+            .catch((err) => {
+              structuredTurnRef.current = null
+              setIsStreaming(false)
+              setError(err instanceof Error ? err.message : "Unknown error")
+            })
+        }
+        return
+      }
+      structuredTurnRef.current = null
+
       setIsStreaming(false)
+      countCost()
+      settle()
 
       if (generation.text.trim()) {
+        // The generation knows which model actually served the reply
+        const manifest = turnManifestRef.current
         const assistantMessage: Message = {
           id: generateId(),
           role: "assistant",
-          content: generation.text,
+          content: check?.ok ? formatStructuredValue(check.value) : generation.text,
           timestamp: Date.now(),
+          contextManifest: manifest && generation.model ? { ...manifest, model: generation.model } : manifest,
         }
-        setMessages((prev) => [...prev, assistantMessage])
+        appendMessage(assistantMessage)
+      }
+      if (check && !check.ok) {
+        setError(schemaMismatchMessage(check.errors))
       }
 
       setStreamingText("")
@@ -304,7 +1031,9 @@ export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResul
 
     // Handle error
     if (generation.status === "error" && isStreaming) {
+      structuredTurnRef.current = null
       setIsStreaming(false)
+      settle()
       const errorMsg = generation.error || "Unknown error"
       console.error("[Claude Brainstorm] Generation error:", errorMsg)
       if (generation.text?.trim()) {
@@ -318,11 +1047,65 @@ export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResul
 
     // Handle cancellation (e.g. from another tab — stopStreaming already saved partial text)
     if (generation.status === "cancelled" && isStreaming) {
+      structuredTurnRef.current = null
       setIsStreaming(false)
+      settle()
       setStreamingText("")
       setGenerationId(null)
     }
-  }, [generation, isStreaming, onError, provider])
+  }, [
+    generation,
+    isStreaming,
+    onError,
+    appendMessage,
+    startBrainstormGeneration,
+    activeConversationId,
+    clearPendingGeneration,
+  ])
+
+  // Subscribe to Claude compare replies (one generation per Claude target)
+  const compareGenerationIds = compareReplies.flatMap((r) =>
+    r.generationId && r.status === "streaming" ? [r.generationId] : []
+  )
+  const compareGenerations = useQuery(
+    api.generations.getMany,
+    compareGenerationIds.length > 0 ? { generationIds: compareGenerationIds } : "skip"
+  )
+
+  // Sync Claude compare replies from their generations
+  useEffect(() => {
+    if (!compareGenerations) return
+    setCompareReplies((prev) =>
+      prev.map((reply) => {
+        const gen = compareGenerations.find((g: Doc<"generations">) => g._id === reply.generationId)
+        if (!gen || reply.status !== "streaming") return reply
+        return {
+          ...reply,
+          text: gen.text,
+          status: gen.status,
+          error: gen.error,
+          inputTokens: gen.inputTokens,
+          outputTokens: gen.outputTokens,
+          costUsd: gen.costUsd,
+          durationMs: gen.durationMs,
+        }
+      })
+    )
+  }, [compareGenerations])
+
+  // Stop compare replies still streaming, keeping their partial text
+  const stopCompare = useCallback(() => {
+    compareControllersRef.current.forEach((controller) => controller.abort())
+    compareControllersRef.current.clear()
+    for (const reply of compareReplies) {
+      if (reply.status === "streaming" && reply.generationId) {
+        cancelGeneration({ generationId: reply.generationId }).catch(console.error)
+      }
+    }
+    setCompareReplies((prev) =>
+      prev.map((r) => (r.status === "streaming" ? { ...r, status: "cancelled" } : r))
+    )
+  }, [compareReplies, cancelGeneration])
 
   // Open dialog
   const open = useCallback((newProvider?: Provider) => {
@@ -336,14 +1119,16 @@ export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResul
   const close = useCallback(() => {
     setIsOpen(false)
     abortControllerRef.current?.abort()
+    structuredTurnRef.current = null
     if (generationId) {
       cancelGeneration({ generationId }).catch(console.error)
     }
+    stopCompare()
     setIsStreaming(false)
     setStreamingText("")
     setGenerationId(null)
     prevTextRef.current = ""
-  }, [generationId, cancelGeneration])
+  }, [generationId, cancelGeneration, stopCompare])
 
   // Stop any ongoing streaming (all providers)
   const stopStreaming = useCallback(() => {
@@ -357,229 +1142,445 @@ export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResul
         role: "assistant",
         content: partialText + "\n\n*(generation stopped)*",
         timestamp: Date.now(),
+        contextManifest: turnManifestRef.current,
       }
-      setMessages((prev) => [...prev, assistantMessage])
+      appendMessage(assistantMessage)
     }
 
     abortControllerRef.current?.abort()
+    structuredTurnRef.current = null
     if (generationId) {
       cancelGeneration({ generationId }).catch(console.error)
     }
+    stopCompare()
     setIsStreaming(false)
     setStreamingText("")
     setGenerationId(null)
     prevTextRef.current = ""
-  }, [generationId, cancelGeneration])
+  }, [generationId, cancelGeneration, stopCompare, appendMessage])
 
   // Toggle an ephemeral skill on/off
   const toggleSkill = useCallback((skillId: string) => {
     setActiveSkills((prev) => ({ ...prev, [skillId]: !prev[skillId] }))
   }, [])
 
-  // Clear conversation
+  // Clear conversation (empties the open thread)
   const clearConversation = useCallback(() => {
-    setMessages([])
+    setTree(EMPTY_TREE)
     setHasUnsavedContent(false)
     setStreamingText("")
     setError(null)
     setGenerationId(null)
     setIsStreaming(false)
-    setOpenrouterSessionCost(0)
+    setSessionCost(0)
     prevTextRef.current = ""
     abortControllerRef.current?.abort()
-    clearStoredConversation(sessionId)
+    stopCompare()
+    setCompareReplies([])
     setConversationRestored(false)
-  }, [sessionId])
+  }, [stopCompare])
 
-  // Send message via Ollama (client-side streaming)
-  const sendMessageOllama = useCallback(
-    async (content: string, conversationHistory: { role: "user" | "assistant"; content: string }[]) => {
-      if (!blocks) {
+  // Leave the open thread: stop streaming and drop local messages without syncing
+  const leaveConversation = useCallback(() => {
+    if (generationId) {
+      cancelGeneration({ generationId }).catch(console.error)
+    }
+    syncedRef.current = { conversationId: null, ...EMPTY_TREE }
+    clearConversation()
+  }, [generationId, cancelGeneration, clearConversation])
+
+  // Switch to another thread; its messages load from the server
+  const selectConversation = useCallback((id: Id<"conversations">) => {
+    if (id === activeConversationId) return
+    leaveConversation()
+    setSelectedConversationId(id)
+  }, [activeConversationId, leaveConversation])
+
+  // Start a new thread (created on its first message)
+  const newConversation = useCallback(() => {
+    leaveConversation()
+    setSelectedConversationId(null)
+  }, [leaveConversation])
+
+  const renameConversation = useCallback(async (id: Id<"conversations">, name: string) => {
+    await renameConversationMutation({ id, name })
+  }, [renameConversationMutation])
+
+  // Delete a thread; deleting the open one falls back to the most recent remaining thread
+  const deleteConversation = useCallback(async (id: Id<"conversations">) => {
+    await removeConversation({ id })
+    if (id === activeConversationId) {
+      leaveConversation()
+      setSelectedConversationId(undefined)
+    }
+  }, [activeConversationId, leaveConversation, removeConversation])
+
+  // Stream one reply from a client-side provider in the registry (browser streaming).
+  // Shared by single-provider sends, compare mode and replay; returns the text, usage and cost.
+  const streamClientReply = useCallback(
+    async (
+      providerId: ClientProviderId,
+      modelOverride: string | null,
+      content: string,
+      conversationHistory: { role: "user" | "assistant"; content: string }[],
+      signal: AbortSignal,
+      onText: (text: string) => void,
+      { contextBlocks, responseSchema }: StreamClientReplyOptions = {}
+    ): Promise<ClientReply> => {
+      const sourceBlocks = contextBlocks ?? turnBlocksRef.current ?? blocks
+      if (!sourceBlocks) {
         throw new Error("Blocks not loaded yet")
       }
-
-      // Assemble context with blocks, conversation, and active skills
+      requireBudget()
+      const llm = getProvider(providerId)
+
+      // Extract system prompt if present; memory is injected client-side (Claude does it server-side)
+      const systemPrompt = [extractSystemPromptFromBlocks(sourceBlocks), renderedMemory].filter(Boolean).join("\n\n")
+      // Structured output goes in the request for native JSON modes, else in the system prompt
+      const nativeSchema = responseSchema && llm.capabilities.structuredOutput ? responseSchema : undefined
+      const schemaInstruction = responseSchema && !nativeSchema ? buildSchemaInstruction(responseSchema.schema) : ""
+      const fullSystemPrompt = ((systemPrompt ? systemPrompt + NO_TOOLS_SUFFIX : "") + schemaInstruction).trimStart()
+
+      // Assemble context with blocks, conversation, and active skills.
+      // Providers with prompt caching get cache_control breakpoints after PERMANENT and STABLE.
       const skillsContent = getActiveSkillsContent(activeSkills)
-      const contextMessages = assembleContextWithConversation(blocks, conversationHistory, content, skillsContent || undefined)
-
-      // Extract system prompt if present
-      const systemPrompt = extractSystemPromptFromBlocks(blocks)
-
-      // Build messages for Ollama
-      const ollamaMessages: ollamaClient.OllamaMessage[] = []
+      const chatMessages = assembleChatMessages(sourceBlocks, conversationHistory, content, {
+        systemPrompt: fullSystemPrompt || undefined,
+        activeSkillsContent: skillsContent || undefined,
+        promptCaching: llm.capabilities.promptCaching(modelOverride ?? llm.getModel() ?? ""),
+      })
 
-      // Add system prompt first if present
-      const ollamaSystemPrompt = [systemPrompt, renderedMemory].filter(Boolean).join("\n\n")
-      if (ollamaSystemPrompt) {
-        ollamaMessages.push({
-          role: "system",
-          content: ollamaSystemPrompt,
-        })
-      }
+      // Own controller so a self-talk stop doesn't abort the caller's other streams
+      const controller = new AbortController()
+      const abortStream = () => controller.abort()
+      signal.addEventListener("abort", abortStream)
 
-      // Add context messages
-      for (const msg of contextMessages) {
-        ollamaMessages.push({
-          role: msg.role,
-          content: msg.content,
-        })
-      }
+      const selfTalkDetector = preventSelfTalk
+        ? new SelfTalkDetector(getSelfTalkMarkers(providerId, brainstormSettings.getSelfTalkMarkers()))
+        : null
+      let selfTalk: { marker: string; position: number; detectedAt: number } | undefined
 
       let fullText = ""
+      // Everything the model generated, including text cut for self-talk
+      let generatedText = ""
+      const generator = llm.streamChat(chatMessages, {
+        model: modelOverride ?? undefined,
+        signal: controller.signal,
+        responseSchema: nativeSchema,
+      })
 
-      // Create a fresh AbortController for this request
-      const controller = new AbortController()
-      abortControllerRef.current = controller
-
+      // Manual iteration to capture the return value (token counts)
+      let result: IteratorResult<string, ChatResult>
       try {
-        const generator = ollamaClient.streamChat(ollamaMessages, {
-          signal: controller.signal,
-        })
-
-        for await (const chunk of generator) {
-          fullText += chunk
-          setStreamingText(fullText)
-        }
-
-        // Add assistant message to conversation
-        if (fullText.trim()) {
-          const assistantMessage: Message = {
-            id: generateId(),
-            role: "assistant",
-            content: fullText,
-            timestamp: Date.now(),
+        do {
+          result = await generator.next()
+          if (!result.done && result.value) {
+            generatedText += result.value
+            const detection = selfTalkDetector?.feed(result.value)
+            if (detection) {
+              // Cut the reply where the hallucinated turn starts and stop the stream
+              fullText = (fullText + result.value).slice(0, detection.position)
+              selfTalk = { marker: detection.marker, position: detection.position, detectedAt: Date.now() }
+              onText(fullText)
+              controller.abort()
+              break
+            }
+            fullText += result.value
+            onText(fullText)
           }
-          setMessages((prev) => [...prev, assistantMessage])
-        }
+        } while (!result.done)
       } finally {
-        setStreamingText("")
+        signal.removeEventListener("abort", abortStream)
       }
-    },
-    [blocks, activeSkills, renderedMemory]
-  )
-
-  // Send message via OpenRouter (client-side streaming)
-  const sendMessageOpenRouter = useCallback(
-    async (content: string, conversationHistory: { role: "user" | "assistant"; content: string }[]) => {
-      if (!blocks) {
-        throw new Error("Blocks not loaded yet")
+      if (selfTalk) {
+        // Close the stopped stream; it ends without the provider's usage
+        await generator.return({ text: fullText }).catch(() => {})
       }
 
-      // Assemble context with blocks, conversation, and active skills
-      const skillsContent = getActiveSkillsContent(activeSkills)
-      const contextMessages = assembleContextWithConversation(blocks, conversationHistory, content, skillsContent || undefined)
-
-      // Extract system prompt if present
-      const systemPrompt = extractSystemPromptFromBlocks(blocks)
-
-      // Build messages for OpenRouter
-      const openrouterMessages: openrouterClient.OpenRouterMessage[] = []
-
-      // Add system prompt first if present (with no-tools suffix for consistency)
-      const openrouterSystemPrompt = [systemPrompt, renderedMemory].filter(Boolean).join("\n\n")
-      if (openrouterSystemPrompt) {
-        openrouterMessages.push({
-          role: "system",
-          content: openrouterSystemPrompt + NO_TOOLS_SUFFIX,
-        })
-      }
-
-      // Add context messages
-      for (const msg of contextMessages) {
-        openrouterMessages.push({
-          role: msg.role,
-          content: msg.content,
-        })
+      // Add to the cost ledger. A stream stopped for self-talk has no usage from the provider,
+      // so it's priced from estimated counts of everything generated.
+      const usage: ChatResult | undefined = result.done
+        ? result.value
+        : selfTalk
+          ? {
+              text: fullText,
+              promptTokens: estimatePromptTokens(chatMessages),
+              completionTokens: estimateTokens(generatedText),
+              model: modelOverride ?? llm.getModel() ?? undefined,
+            }
+          : undefined
+      const costUsd = await recordUsage(providerId, usage, modelOverride ?? undefined)
+
+      if (selfTalk) {
+        console.warn(
+          `[Brainstorm] Self-talk detected: ${providerId} generated ${JSON.stringify(selfTalk.marker)} ` +
+          `at position ${selfTalk.position}. Reply truncated.`
+        )
+        recordClientSelfTalk({
+          sessionId,
+          provider: providerId,
+          model: modelOverride ?? llm.getModel() ?? undefined,
+          text: fullText,
+          selfTalk,
+        }).catch((err) => console.warn("[Brainstorm] Failed to record self-talk:", err))
       }
 
-      let fullText = ""
+      return { text: fullText, usage, costUsd }
+    },
+    [blocks, activeSkills, renderedMemory, requireBudget, recordUsage, recordClientSelfTalk, preventSelfTalk, sessionId]
+  )
 
+  // Send message via a client-side provider from the registry
+  const sendMessageClient = useCallback(
+    async (
+      providerId: ClientProviderId,
+      content: string,
+      conversationHistory: { role: "user" | "assistant"; content: string }[],
+      responseSchema?: ResponseSchema
+    ) => {
       // Create a fresh AbortController for this request
       const controller = new AbortController()
       abortControllerRef.current = controller
+      const manifest = buildManifest(providerId, getProvider(providerId).getModel(), false)
+      turnManifestRef.current = manifest
 
       try {
-        const generator = openrouterClient.streamChat(openrouterMessages, {
-          signal: controller.signal,
-        })
-
-        // Manual iteration to capture the return value (token counts)
-        let result: IteratorResult<string, openrouterClient.StreamChatResult>
-        do {
-          result = await generator.next()
-          if (!result.done && result.value) {
-            fullText += result.value
-            setStreamingText(fullText)
-          }
-        } while (!result.done)
-
-        // Calculate cost from token counts
-        const streamResult = result.value
-        if (streamResult?.promptTokens && streamResult?.completionTokens && streamResult?.model) {
-          const pricing = await openrouterClient.getModelPricing(streamResult.model)
-          if (pricing) {
-            const cost = openrouterClient.calculateCost(
-              streamResult.promptTokens,
-              streamResult.completionTokens,
-              pricing
-            )
-            setOpenrouterSessionCost((prev) => prev + cost)
+        // Structured replies that fail validation are sent back with their errors;
+        // the repair turns stay out of the conversation
+        let history = conversationHistory
+        let prompt = content
+        let reply: ClientReply
+        let check: ReturnType<typeof checkStructuredReply> | null = null
+        for (let repairs = 0; ; repairs++) {
+          reply = await streamClientReply(
+            providerId,
+            null,
+            prompt,
+            history,
+            controller.signal,
+            setStreamingText,
+            { responseSchema }
+          )
+          const cost = reply.costUsd
+          if (cost) {
+            setSessionCost((prev) => prev + cost)
           }
+          if (!responseSchema) break
+          check = checkStructuredReply(reply.text, responseSchema.schema)
+          if (check.ok || repairs >= MAX_STRUCTURED_REPAIRS) break
+          history = [...history, { role: "user", content: prompt }, { role: "assistant", content: reply.text }]
+          prompt = buildRepairPrompt(check.errors)
         }
 
         // Add assistant message to conversation
-        if (fullText.trim()) {
+        if (reply.text.trim()) {
           const assistantMessage: Message = {
             id: generateId(),
             role: "assistant",
-            content: fullText,
+            content: check?.ok ? formatStructuredValue(check.value) : reply.text,
             timestamp: Date.now(),
+            contextManifest: manifest && reply.usage?.model ? { ...manifest, model: reply.usage.model } : manifest,
           }
-          setMessages((prev) => [...prev, assistantMessage])
+          appendMessage(assistantMessage)
+        }
+        if (check && !check.ok) {
+          setError(schemaMismatchMessage(check.errors))
         }
       } finally {
         setStreamingText("")
       }
     },
-    [blocks, activeSkills, renderedMemory]
+    [streamClientReply, appendMessage, buildManifest]
   )
 
-  // Send message via Claude (Convex mutations - backend)
-  const sendMessageClaude = useCallback(
-    async (content: string, conversationHistory: { role: "user" | "assistant"; content: string }[], isValidation = false) => {
+  // Send message via a Convex action streaming into a generation (Claude Code, or
+  // OpenRouter/Ollama when server-side generation is on). Completes via the subscription.
+  const sendMessageServer = useCallback(
+    async (
+      content: string,
+      conversationHistory: { role: "user" | "assistant"; content: string }[],
+      isValidation = false,
+      responseSchema?: ResponseSchema
+    ) => {
+      if (!isServerProviderId(provider)) {
+        throw new Error(`${getProvider(provider).label} can't run server-side`)
+      }
+
       // Collect active skill IDs to pass to backend
       const activeSkillIds = Object.entries(activeSkills)
         .filter(([, enabled]) => enabled)
         .map(([id]) => id)
 
-      const result = await startBrainstormGeneration({
+      // Claude has its own model picker; other providers use their configured model
+      const turnModel = provider === "claude" ? model : getProvider(provider).getModel()
+      turnManifestRef.current = buildManifest(
+        provider,
+        turnModel ?? (provider === "claude" ? session?.claudeResolvedModel : undefined),
+        true,
+        isValidation ? "validation" : "brainstorm"
+      )
+
+      const args = {
         sessionId,
         conversationHistory,
         newMessage: content,
         disableAgentBehavior,
         preventSelfTalk,
         activeSkillIds,
-        model: model ?? undefined,
+        model: turnModel ?? undefined,
         isValidation: isValidation || undefined,
-      })
+        provider,
+        selfTalkMarkers: brainstormSettings.getSelfTalkMarkers(),
+        outputSchema: responseSchema ? JSON.stringify(responseSchema.schema) : undefined,
+      }
+      // Validated (and repaired if needed) when the generation completes
+      structuredTurnRef.current = responseSchema
+        ? { responseSchema, args, history: conversationHistory, prompt: content, repairs: 0 }
+        : null
+      const result = await startBrainstormGeneration(args)
       setGenerationId(result.generationId)
     },
-    [sessionId, startBrainstormGeneration, disableAgentBehavior, preventSelfTalk, activeSkills, model]
+    [
+      sessionId,
+      startBrainstormGeneration,
+      disableAgentBehavior,
+      preventSelfTalk,
+      activeSkills,
+      model,
+      provider,
+      buildManifest,
+      session?.claudeResolvedModel,
+    ]
+  )
+
+  // Fan a message out to every compare target; replies stream into compareReplies
+  const sendCompare = useCallback(
+    async (content: string, conversationHistory: { role: "user" | "assistant"; content: string }[]) => {
+      const replies: CompareReply[] = compareTargets.map((target) => ({
+        id: generateId(),
+        target,
+        text: "",
+        status: "streaming",
+        contextManifest: buildManifest(
+          target.provider,
+          target.model ??
+            (target.provider === "claude" ? session?.claudeResolvedModel : getProvider(target.provider).getModel()),
+          target.provider === "claude"
+        ),
+      }))
+      setCompareReplies(replies)
+
+      const updateReply = (replyId: string, patch: Partial<CompareReply>) => {
+        setCompareReplies((prev) => prev.map((r) => (r.id === replyId ? { ...r, ...patch } : r)))
+      }
+
+      const activeSkillIds = Object.entries(activeSkills)
+        .filter(([, enabled]) => enabled)
+        .map(([id]) => id)
+
+      await Promise.all(
+        replies.map(async (reply) => {
+          const { provider: targetProvider, model: targetModel } = reply.target
+          const startTime = Date.now()
+          try {
+            if (targetProvider === "claude") {
+              // Isolated: fresh context, and the session's SDK session isn't resumed or replaced
+              const result = await startBrainstormGeneration({
+                sessionId,
+                conversationHistory,
+                newMessage: content,
+                disableAgentBehavior,
+                preventSelfTalk,
+                activeSkillIds,
+                model: targetModel ?? undefined,
+                isolated: true,
+                selfTalkMarkers: brainstormSettings.getSelfTalkMarkers(),
+              })
+              // Completes through the generations subscription
+              updateReply(reply.id, { generationId: result.generationId })
+              return
+            }
+
+            const controller = new AbortController()
+            compareControllersRef.current.set(reply.id, controller)
+            const result = await streamClientReply(
+              targetProvider,
+              targetModel,
+              content,
+              conversationHistory,
+              controller.signal,
+              (text) => updateReply(reply.id, { text })
+            )
+            const cost = result.costUsd
+            if (cost) {
+              setSessionCost((prev) => prev + cost)
+            }
+            const usage = result.usage
+            updateReply(reply.id, {
+              text: result.text,
+              status: "complete",
+              inputTokens: usage?.promptTokens !== undefined
+                ? usage.promptTokens + (usage.cacheReadTokens ?? 0) + (usage.cacheWriteTokens ?? 0)
+                : undefined,
+              outputTokens: usage?.completionTokens,
+              costUsd: cost,
+              durationMs: Date.now() - startTime,
+            })
+          } catch (err) {
+            if (err instanceof DOMException && err.name === "AbortError") {
+              updateReply(reply.id, { status: "cancelled" })
+              return
+            }
+            console.error(`[Brainstorm] Compare ${targetProvider} error:`, err)
+            updateReply(reply.id, {
+              status: "error",
+              error: err instanceof Error ? err.message : "Unknown error",
+              durationMs: Date.now() - startTime,
+            })
+          } finally {
+            compareControllersRef.current.delete(reply.id)
+          }
+        })
+      )
+    },
+    [
+      compareTargets,
+      activeSkills,
+      sessionId,
+      startBrainstormGeneration,
+      disableAgentBehavior,
+      preventSelfTalk,
+      streamClientReply,
+      buildManifest,
+      session?.claudeResolvedModel,
+    ]
   )
 
   // Send a new message (dispatches to correct provider)
   const sendMessageInternal = useCallback(
     async (content: string, isValidation = false) => {
-      if (!content.trim() || isStreaming) return
+      if (!content.trim() || isStreaming || isComparing || isApplyingBudgetPolicy) return
+      // A compare turn must be resolved (kept or discarded) before the conversation continues
+      if (compareReplies.length > 0) return
+      // Validation runs against the selected provider only
+      const compare = compareMode && !isValidation
+      if (compare && compareTargets.length === 0) {
+        setError("Add at least one model to compare")
+        return
+      }
+      // Structured output applies to regular turns on the selected provider
+      const structured = structuredMode && !compare && !isValidation
+      if (structured && !parsedOutputSchema.schema) {
+        setError(`Fix the output schema first: ${parsedOutputSchema.error}`)
+        return
+      }
+      const responseSchema = structured ? parsedOutputSchema.schema ?? undefined : undefined
 
       setError(null)
       setConversationRestored(false)
 
       // Build conversation history before adding new message
-      const conversationHistory = messages.map((msg) => ({
-        role: msg.role as "user" | "assistant",
-        content: msg.content,
-      }))
+      const conversationHistory = historyFor(messages)
 
       // Add user message to conversation
       const userMessage: Message = {
@@ -588,21 +1589,30 @@ export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResul
         content: content.trim(),
         timestamp: Date.now(),
       }
-      setMessages((prev) => [...prev, userMessage])
+      appendMessage(userMessage)
       setHasUnsavedContent(true) // Mark as unsaved when messages are added
 
+      await applyBudgetPolicy()
+
+      if (compare) {
+        try {
+          await sendCompare(content.trim(), conversationHistory)
+        } finally {
+          turnBlocksRef.current = undefined
+        }
+        return
+      }
+
       // Start streaming
       setIsStreaming(true)
       setStreamingText("")
       prevTextRef.current = ""
 
       try {
-        if (provider === "ollama") {
-          await sendMessageOllama(content.trim(), conversationHistory)
-        } else if (provider === "openrouter") {
-          await sendMessageOpenRouter(content.trim(), conversationHistory)
+        if (provider !== "claude" && !runsOnServer) {
+          await sendMessageClient(provider, content.trim(), conversationHistory, responseSchema)
         } else {
-          await sendMessageClaude(content.trim(), conversationHistory, isValidation)
+          await sendMessageServer(content.trim(), conversationHistory, isValidation, responseSchema)
         }
       } catch (err) {
         // Ignore AbortError — user pressed stop, partial text already saved by stopStreaming
@@ -614,13 +1624,33 @@ export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResul
         setError(message)
         onError?.(message)
       } finally {
-        // For Ollama/OpenRouter, streaming ends here. For Claude, it ends in the useEffect.
-        if (provider === "ollama" || provider === "openrouter") {
+        turnBlocksRef.current = undefined
+        // For client-side providers, streaming ends here. For server-side runs, it ends in the useEffect.
+        if (!runsOnServer) {
           setIsStreaming(false)
         }
       }
     },
-    [provider, isStreaming, messages, sendMessageOllama, sendMessageOpenRouter, sendMessageClaude, onError]
+    [
+      applyBudgetPolicy,
+      isApplyingBudgetPolicy,
+      provider,
+      runsOnServer,
+      isStreaming,
+      isComparing,
+      compareReplies.length,
+      compareMode,
+      compareTargets.length,
+      structuredMode,
+      parsedOutputSchema,
+      messages,
+      historyFor,
+      sendMessageClient,
+      sendMessageServer,
+      sendCompare,
+      appendMessage,
+      onError,
+    ]
   )
 
   const sendMessage = useCallback(
@@ -633,6 +1663,21 @@ export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResul
     [sendMessageInternal]
   )
 
+  const answerQuestions = useCallback(
+    async (questions: ClarifyingQuestion[], answers: ClarifyingAnswers, saveAsNote: boolean) => {
+      if (saveAsNote && questions.some((q) => answers[q.id]?.trim())) {
+        await createBlock({
+          sessionId,
+          content: formatAnswersNote(questions, answers),
+          type: "note",
+          zone: "WORKING",
+        })
+      }
+      await sendMessageInternal(formatAnswersMessage(questions, answers), false)
+    },
+    [sessionId, createBlock, sendMessageInternal]
+  )
+
   // Save a message as a block
   const saveMessage = useCallback(
     async (messageId: string, zone: Zone): Promise<Id<"blocks">> => {
@@ -649,21 +1694,141 @@ export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResul
       })
 
       // Update message to track saved block
-      setMessages((prev) =>
-        prev.map((m) =>
+      setTree((prev) => ({
+        ...prev,
+        nodes: prev.nodes.map((m) =>
           m.id === messageId ? { ...m, savedAsBlockId: blockId } : m
+        ),
+      }))
+
+      return blockId
+    },
+    [sessionId, messages, saveBrainstormMessage]
+  )
+
+  const saveMessagePieces = useCallback(
+    async (messageId: string, pieces: SavePiece[]): Promise<Id<"blocks">[]> => {
+      const message = messages.find((m) => m.id === messageId)
+      if (!message) {
+        throw new Error("Message not found")
+      }
+
+      // In reply order, so pieces saved to the same zone keep their order
+      const blockIds: Id<"blocks">[] = []
+      for (const piece of pieces) {
+        blockIds.push(
+          await saveBrainstormMessage({
+            sessionId,
+            content: piece.content,
+            role: message.role,
+            zone: piece.zone,
+            type: piece.type,
+          })
         )
+      }
+
+      // The message links to its first block
+      const first = blockIds[0]
+      if (first) {
+        setTree((prev) => ({
+          ...prev,
+          nodes: prev.nodes.map((m) =>
+            m.id === messageId ? { ...m, savedAsBlockId: first } : m
+          ),
+        }))
+      }
+
+      return blockIds
+    },
+    [sessionId, messages, saveBrainstormMessage]
+  )
+
+  const setCompareMode = useCallback(
+    (value: boolean) => {
+      setCompareModeState(value)
+      // Start from the current provider/model so there's something to compare against
+      if (value && compareTargets.length === 0) {
+        const initial = [{ provider, model: provider === "claude" ? model : null }]
+        setCompareTargetsState(initial)
+        brainstormSettings.setCompareTargets(initial)
+      }
+    },
+    [compareTargets.length, provider, model]
+  )
+
+  const setOutputSchemaText = useCallback((text: string) => {
+    setOutputSchemaTextState(text)
+    brainstormSettings.setOutputSchema(text)
+  }, [])
+
+  const setCompareTargets = useCallback((targets: CompareTarget[]) => {
+    const limited = targets.slice(0, MAX_COMPARE_TARGETS)
+    setCompareTargetsState(limited)
+    brainstormSettings.setCompareTargets(limited)
+  }, [])
+
+  // Keep a compare reply as the assistant turn; the other replies are dropped
+  const keepCompareReply = useCallback(
+    (replyId: string) => {
+      const reply = compareReplies.find((r) => r.id === replyId)
+      if (!reply) return
+      stopCompare()
+      if (reply.text.trim()) {
+        const assistantMessage: Message = {
+          id: generateId(),
+          role: "assistant",
+          content: reply.text,
+          timestamp: Date.now(),
+          savedAsBlockId: reply.savedAsBlockId,
+          contextManifest: reply.contextManifest,
+        }
+        appendMessage(assistantMessage)
+      }
+      setCompareReplies([])
+    },
+    [compareReplies, stopCompare, appendMessage]
+  )
+
+  // Save any compare reply as a block (doesn't end the compare turn)
+  const saveCompareReply = useCallback(
+    async (replyId: string, zone: Zone): Promise<Id<"blocks">> => {
+      const reply = compareReplies.find((r) => r.id === replyId)
+      if (!reply) {
+        throw new Error("Reply not found")
+      }
+
+      const blockId = await saveBrainstormMessage({
+        sessionId,
+        content: reply.text,
+        role: "assistant",
+        zone,
+      })
+
+      setCompareReplies((prev) =>
+        prev.map((r) => (r.id === replyId ? { ...r, savedAsBlockId: blockId } : r))
       )
 
       return blockId
     },
-    [sessionId, messages, saveBrainstormMessage]
+    [sessionId, compareReplies, saveBrainstormMessage]
   )
 
+  // Drop the compare turn entirely, including the user message that started it
+  const discardCompareReplies = useCallback(() => {
+    stopCompare()
+    setCompareReplies([])
+    setTree((prev) => {
+      const leaf = prev.nodes.find((m) => m.id === prev.leafId)
+      if (!leaf || leaf.role !== "user") return prev
+      return { nodes: removeSubtree(prev.nodes, leaf.id), leafId: leaf.parentId ?? null }
+    })
+  }, [stopCompare])
+
   // Retry from a specific message (regenerate assistant response)
   const retryMessage = useCallback(
     async (messageId: string) => {
-      if (isStreaming) return
+      // Like a send, a pending compare turn has to be resolved first
+      if (isStreaming || isComparing || compareReplies.length > 0 || isApplyingBudgetPolicy) return
 
       // Find the message index
       const messageIndex = messages.findIndex((m) => m.id === messageId)
@@ -691,31 +1856,33 @@ export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResul
       }
 
       if (!userMessage) return
+      if (isSummarizedAt(truncateIndex - 1)) {
+        setError("This message is already part of the conversation summary, so it can't be retried")
+        return
+      }
 
       // Build conversation history up to (but not including) the user message we're retrying
-      const conversationHistory = messages.slice(0, truncateIndex - 1).map((msg) => ({
-        role: msg.role as "user" | "assistant",
-        content: msg.content,
-      }))
+      const conversationHistory = historyFor(messages.slice(0, truncateIndex - 1))
 
-      // Remove this message and all subsequent messages
-      setMessages((prev) => prev.slice(0, truncateIndex))
+      // Branch from the user message; the new reply becomes a sibling of the old one
+      const branchFrom = userMessage.id
+      setTree((prev) => ({ ...prev, leafId: branchFrom }))
 
       // Reset error state
       setError(null)
 
+      await applyBudgetPolicy()
+
       // Start streaming
       setIsStreaming(true)
       setStreamingText("")
       prevTextRef.current = ""
 
       try {
-        if (provider === "ollama") {
-          await sendMessageOllama(userMessage.content, conversationHistory)
-        } else if (provider === "openrouter") {
-          await sendMessageOpenRouter(userMessage.content, conversationHistory)
+        if (provider !== "claude" && !runsOnServer) {
+          await sendMessageClient(provider, userMessage.content, conversationHistory, structuredSchema)
         } else {
-          await sendMessageClaude(userMessage.content, conversationHistory)
+          await sendMessageServer(userMessage.content, conversationHistory, false, structuredSchema)
         }
       } catch (err) {
         if (err instanceof DOMException && err.name === "AbortError") {
@@ -725,57 +1892,73 @@ export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResul
         setError(errorMsg)
         onError?.(errorMsg)
       } finally {
-        if (provider === "ollama" || provider === "openrouter") {
+        turnBlocksRef.current = undefined
+        if (!runsOnServer) {
           setIsStreaming(false)
         }
       }
     },
-    [messages, isStreaming, provider, sendMessageOllama, sendMessageOpenRouter, sendMessageClaude, onError]
+    [
+      messages,
+      historyFor,
+      isStreaming,
+      isComparing,
+      compareReplies.length,
+      isApplyingBudgetPolicy,
+      applyBudgetPolicy,
+      isSummarizedAt,
+      provider,
+      runsOnServer,
+      sendMessageClient,
+      sendMessageServer,
+      structuredSchema,
+      onError,
+    ]
   )
 
   // Edit a message and resend (for user messages)
   const editMessage = useCallback(
     async (messageId: string, newContent: string) => {
-      if (isStreaming || !newContent.trim()) return
+      if (isStreaming || isComparing || compareReplies.length > 0 || isApplyingBudgetPolicy || !newContent.trim()) return
 
       const messageIndex = messages.findIndex((m) => m.id === messageId)
       if (messageIndex === -1) return
 
       const message = messages[messageIndex]
       if (message.role !== "user") return // Can only edit user messages
+      if (isSummarizedAt(messageIndex)) {
+        setError("This message is already part of the conversation summary, so it can't be edited")
+        return
+      }
 
       // Build conversation history up to (but not including) this message
-      const conversationHistory = messages.slice(0, messageIndex).map((msg) => ({
-        role: msg.role as "user" | "assistant",
-        content: msg.content,
-      }))
+      const conversationHistory = historyFor(messages.slice(0, messageIndex))
 
-      // Update the message content and remove all subsequent messages
-      setMessages((prev) => {
-        const updated = prev.slice(0, messageIndex)
-        updated.push({
-          ...message,
-          content: newContent.trim(),
-          timestamp: Date.now(),
-        })
-        return updated
-      })
+      // Add the edited message as a sibling branch, keeping the original
+      const edited: Message = {
+        id: generateId(),
+        parentId: message.parentId ?? null,
+        role: "user",
+        content: newContent.trim(),
+        timestamp: Date.now(),
+      }
+      setTree((prev) => ({ nodes: [...prev.nodes, edited], leafId: edited.id }))
 
       // Reset error state
       setError(null)
 
+      await applyBudgetPolicy()
+
       // Start streaming
       setIsStreaming(true)
       setStreamingText("")
       prevTextRef.current = ""
 
       try {
-        if (provider === "ollama") {
-          await sendMessageOllama(newContent.trim(), conversationHistory)
-        } else if (provider === "openrouter") {
-          await sendMessageOpenRouter(newContent.trim(), conversationHistory)
+        if (provider !== "claude" && !runsOnServer) {
+          await sendMessageClient(provider, newContent.trim(), conversationHistory, structuredSchema)
         } else {
-          await sendMessageClaude(newContent.trim(), conversationHistory)
+          await sendMessageServer(newContent.trim(), conversationHistory, false, structuredSchema)
         }
       } catch (err) {
         if (err instanceof DOMException && err.name === "AbortError") {
@@ -785,12 +1968,71 @@ export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResul
         setError(errorMsg)
         onError?.(errorMsg)
       } finally {
-        if (provider === "ollama" || provider === "openrouter") {
+        turnBlocksRef.current = undefined
+        if (!runsOnServer) {
           setIsStreaming(false)
         }
       }
     },
-    [messages, isStreaming, provider, sendMessageOllama, sendMessageOpenRouter, sendMessageClaude, onError]
+    [
+      messages,
+      historyFor,
+      isStreaming,
+      isComparing,
+      compareReplies.length,
+      isApplyingBudgetPolicy,
+      applyBudgetPolicy,
+      isSummarizedAt,
+      provider,
+      runsOnServer,
+      sendMessageClient,
+      sendMessageServer,
+      structuredSchema,
+      onError,
+    ]
+  )
+
+  // Position of a message among its siblings, for the branch navigator
+  const getBranchInfo = useCallback(
+    (messageId: string) => {
+      const position = getBranchPosition(tree.nodes, messageId)
+      return position ? { index: position.index, count: position.count } : null
+    },
+    [tree.nodes]
+  )
+
+  // Show a sibling branch (-1 previous, 1 next), following its newest replies
+  const switchBranch = useCallback(
+    (messageId: string, offset: number) => {
+      if (isStreaming || isComparing) return
+      const leafId = switchBranchLeaf(tree.nodes, messageId, offset)
+      if (leafId) setTree((prev) => ({ ...prev, leafId }))
+    },
+    [tree.nodes, isStreaming, isComparing]
+  )
+
+  // Continue the conversation from a message; later messages stay as a branch
+  const continueFrom = useCallback(
+    (messageId: string) => {
+      if (isStreaming || isComparing || compareReplies.length > 0) return
+      if (!tree.nodes.some((m) => m.id === messageId)) return
+      setTree((prev) => ({ ...prev, leafId: messageId }))
+    },
+    [tree.nodes, isStreaming, isComparing, compareReplies.length]
+  )
+
+  // Save every unsaved message on the selected branch as blocks, in order
+  const saveBranch = useCallback(
+    async (zone: Zone): Promise<number> => {
+      let saved = 0
+      for (const message of messages) {
+        if (message.savedAsBlockId) continue
+        await saveMessage(message.id, zone)
+        saved++
+      }
+      return saved
+    },
+    [messages, saveMessage]
   )
 
   return {
@@ -801,11 +2043,20 @@ export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResul
     hasUnsavedContent,
     conversationRestored,
 
+    // Threads
+    conversations: conversationList ?? [],
+    activeConversationId,
+    selectConversation,
+    newConversation,
+    renameConversation,
+    deleteConversation,
+
     // Actions
     open,
     close,
     sendMessage,
     sendValidation,
+    answerQuestions,
     hasCriteria: (blocks ?? []).some(
       (b: { contextMode?: string }) => (b.contextMode ?? "default") === "validation"
     ),
@@ -814,13 +2065,20 @@ export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResul
     retryMessage,
     editMessage,
 
-    // Streaming
-    isStreaming,
+    // Branches
+    getBranchInfo,
+    switchBranch,
+    continueFrom,
+    saveBranch,
+
+    // Streaming (compare replies count as streaming)
+    isStreaming: isStreaming || isComparing,
     streamingText,
     stopStreaming,
 
     // Save
     saveMessage,
+    saveMessagePieces,
 
     // Claude Code agent behavior toggle
     disableAgentBehavior,
@@ -838,8 +2096,50 @@ export function useBrainstorm(options: UseBrainstormOptions): UseBrainstormResul
     activeSkills,
     toggleSkill,
 
-    // OpenRouter session cost
-    openrouterSessionCost,
+    // Client-side provider session cost
+    sessionCost,
+    budgetWarning,
+
+    // Budget policy
+    isApplyingBudgetPolicy,
+    budgetPolicyRun,
+    undoBudgetPolicyRun,
+    dismissBudgetPolicyRun,
+    isUndoingBudgetPolicyRun,
+
+    // Rolling summary
+    rollingSummary,
+    setRollingSummary,
+    isSummarizing,
+
+    // Server-side generation
+    serverGeneration,
+    setServerGeneration,
+    serverGenerationAvailable,
+
+    // Compare mode
+    compareMode,
+    setCompareMode,
+    compareTargets,
+    setCompareTargets,
+    compareReplies,
+    keepCompareReply,
+    saveCompareReply,
+    discardCompareReplies,
+
+    // Structured output
+    structuredMode,
+    setStructuredMode,
+    outputSchemaText,
+    setOutputSchemaText,
+    outputSchemaError: parsedOutputSchema.error,
+
+    // Replay
+    streamClientReply,
+
+    // Context provenance
+    currentContextManifest,
+    contextTitles,
 
     // Error
     error,
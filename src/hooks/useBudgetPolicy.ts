@@ -0,0 +1,111 @@
+/**
+ * Hook applying the session's budget policy before a brainstorm send.
+ *
+ * Planning is in lib/budgetPolicy; this hook supplies the session's blocks and
+ * zone metrics, asks before each action when the policy says so, and applies
+ * the actions through the same mutations the block cards use. The last run is
+ * kept so it can be listed and undone (drafts go back to active, compressions
+ * are reverted to their originals).
+ */
+
+import { useState, useCallback } from "react"
+import { useQuery, useMutation } from "convex/react"
+import { api } from "../../convex/_generated/api"
+import type { Doc, Id } from "../../convex/_generated/dataModel"
+import { useCompression } from "@/hooks/useCompression"
+import { isPolicyActive, planBudgetActions, type BudgetActionKind } from "@/lib/budgetPolicy"
+import { extractBlockTitle } from "@/lib/skills/titleExtractor"
+
+export interface BudgetPolicyAction {
+  kind: BudgetActionKind
+  blockId: Id<"blocks">
+  title: string
+  /** Tokens freed */
+  savedTokens: number
+}
+
+export interface BudgetPolicyRun {
+  actions: BudgetPolicyAction[]
+  /** Titles of blocks the policy tried but failed to compress */
+  failed: string[]
+}
+
+interface UseBudgetPolicyOptions {
+  sessionId: Id<"sessions">
+}
+
+interface UseBudgetPolicyResult {
+  /** Apply the policy if the session is over budget; null when there was nothing to do */
+  enforce: () => Promise<BudgetPolicyRun | null>
+  /** Last run that did something, until undone or dismissed */
+  lastRun: BudgetPolicyRun | null
+  undo: () => Promise<void>
+  dismiss: () => void
+  isUndoing: boolean
+}
+
+export function useBudgetPolicy({ sessionId }: UseBudgetPolicyOptions): UseBudgetPolicyResult {
+  const session: Doc<"sessions"> | null | undefined = useQuery(api.sessions.get, { id: sessionId })
+  const blocks: Doc<"blocks">[] | undefined = useQuery(api.blocks.list, { sessionId })
+  const metrics = useQuery(api.metrics.getZoneMetrics, { sessionId })
+  const setContextMode = useMutation(api.blocks.setContextMode)
+  const revertCompression = useMutation(api.blocks.revertCompression)
+  const { compressSingle } = useCompression({ sessionId })
+
+  const [lastRun, setLastRun] = useState<BudgetPolicyRun | null>(null)
+  const [isUndoing, setIsUndoing] = useState(false)
+
+  const enforce = useCallback(async (): Promise<BudgetPolicyRun | null> => {
+    const policy = session?.budgetPolicy
+    if (!isPolicyActive(policy) || !blocks || !metrics) return null
+
+    const plan = planBudgetActions(blocks, { working: metrics.zones.WORKING, total: metrics.total }, policy)
+    if (plan.length === 0) return null
+
+    const run: BudgetPolicyRun = { actions: [], failed: [] }
+    for (const { kind, block, tokens, savings } of plan) {
+      const title = extractBlockTitle(block.content, block.type, blocks.indexOf(block))
+      const question = kind === "draft"
+        ? `Context is over budget. Move "${title}" (${tokens} tokens, unchanged for a while) to draft?`
+        : `Context is over budget. Compress "${title}" (${tokens} tokens)?`
+      if (policy.askBeforeEach && !confirm(question)) continue
+
+      if (kind === "draft") {
+        await setContextMode({ id: block._id, contextMode: "draft" })
+        run.actions.push({ kind, blockId: block._id, title, savedTokens: savings })
+      } else {
+        const result = await compressSingle(block)
+        if (result) {
+          run.actions.push({ kind, blockId: block._id, title, savedTokens: result.tokensSaved })
+        } else {
+          run.failed.push(title)
+        }
+      }
+    }
+
+    if (run.actions.length === 0 && run.failed.length === 0) return null
+    setLastRun(run)
+    return run
+  }, [session?.budgetPolicy, blocks, metrics, setContextMode, compressSingle])
+
+  const undo = useCallback(async () => {
+    if (!lastRun) return
+    setIsUndoing(true)
+    try {
+      for (const action of [...lastRun.actions].reverse()) {
+        if (action.kind === "draft") {
+          await setContextMode({ id: action.blockId, contextMode: "default" })
+        } else {
+          await revertCompression({ blockId: action.blockId })
+        }
+      }
+      setLastRun(null)
+    } finally {
+      setIsUndoing(false)
+    }
+  }, [lastRun, setContextMode, revertCompression])
+
+  const dismiss = useCallback(() => setLastRun(null), [])
+
+  return { enforce, lastRun, undo, dismiss, isUndoing }
+}
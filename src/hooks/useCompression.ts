@@ -5,7 +5,19 @@
  * 1. Client-side (remote): Direct HTTP calls to Ollama/OpenRouter
  * 2. Server-side (local): Convex action calling Claude Code CLI
  *
- * The mode is determined by the CLAUDE_CODE_ENABLED feature flag.
+ * The mode is determined by the CLAUDE_CODE_ENABLED feature flag. Local
+ * strategies (structural) always run client-side, with no provider at all.
+ * Statistical compression needs no LLM either; it runs in the Convex action
+ * when Claude Code is selected and in the browser otherwise.
+ *
+ * Client-side LLM compression is checked against the project's spending caps
+ * and recorded in the cost ledger (useCostLedger); the Convex action does the
+ * same for Claude Code.
+ *
+ * Every compression gets a fidelity report (facts of the original missing from
+ * the result). Below the minimum fidelity setting, it isn't applied and the
+ * report is left in `result` for the UI to list the lost facts, whichever side
+ * ran the compression.
  */
 
 import { useState, useCallback } from "react"
@@ -14,10 +26,15 @@ import { api } from "../../convex/_generated/api"
 import type { Id } from "../../convex/_generated/dataModel"
 import {
   CompressionService,
+  checkFidelity,
+  formatFidelityShortfall,
+  isLocalStrategy,
+  type CompressionProvider,
   type CompressionResult,
   type CompressionStrategy,
 } from "@/lib/compression"
 import { compression as compressionSettings } from "@/lib/llm/settings"
+import { useCostLedger } from "@/hooks/useCostLedger"
 
 interface UseCompressionOptions {
   sessionId: Id<"sessions">
@@ -26,11 +43,11 @@ interface UseCompressionOptions {
 }
 
 interface UseCompressionResult {
-  // Single block compression
+  // Single block compression; resolves to the result, or null when it failed
   compressSingle: (
     block: CompressableBlock,
     strategy?: CompressionStrategy
-  ) => Promise<void>
+  ) => Promise<CompressionResult | null>
 
   // Multi-block merge compression
   compressAndMerge: (
@@ -60,6 +77,8 @@ interface MergeOptions {
   targetZone: string
   targetType: string
   targetTitle?: string
+  /** 0-1; defaults to the minimum fidelity setting */
+  minFidelity?: number
 }
 
 interface ZoneCompressionOptions {
@@ -100,20 +119,37 @@ export function useCompression(
     api.compression.compressAndMergeWithClaudeCode
   )
 
+  const { requireBudget, recordUsage } = useCostLedger({ sessionId })
+  // Service for client-side compression; LLM calls go to the cost ledger
+  const createService = useCallback(
+    (provider: CompressionProvider, strategy: CompressionStrategy) => {
+      if (strategy === "semantic") requireBudget()
+      return new CompressionService(provider, {
+        onUsage: (usageProvider, usage) => {
+          recordUsage(usageProvider, usage).catch((err) =>
+            console.warn("[Compression Client] Failed to record cost:", err)
+          )
+        },
+      })
+    },
+    [requireBudget, recordUsage]
+  )
+
   /**
    * Compress a single block.
    */
   const compressSingle = useCallback(
     async (
       block: CompressableBlock,
-      strategy: CompressionStrategy = "semantic"
-    ) => {
+      strategy: CompressionStrategy = compressionSettings.getStrategy()
+    ): Promise<CompressionResult | null> => {
       setIsCompressing(true)
       setError(null)
       setResult(null)
 
       // Get compression provider setting
       const compressionProvider = compressionSettings.getProvider()
+      const minFidelity = compressionSettings.getMinFidelity()
 
       console.log(`[Compression Client] Starting single block compression`)
       console.log(`[Compression Client] Block ID: ${block._id}, Strategy: ${strategy}`)
@@ -122,12 +158,13 @@ export function useCompression(
       try {
         let compressionResult: CompressionResult
 
-        if (compressionProvider === "claude-code") {
+        if (compressionProvider === "claude-code" && !isLocalStrategy(strategy)) {
           // Server-side mode: Use Convex action → Claude Code CLI
           console.log(`[Compression Client] Using SERVER-SIDE Claude Code action`)
           const actionResult = await compressWithClaudeCodeAction({
             blockId: block._id,
             strategy,
+            minFidelity: minFidelity || undefined,
           })
 
           compressionResult = {
@@ -138,12 +175,19 @@ export function useCompression(
             compressionRatio: actionResult.compressionRatio,
             tokensSaved: actionResult.tokensSaved,
             strategy,
-            provider: "claude-code",
+            fidelity: actionResult.fidelity,
+            provider: strategy === "semantic" ? "claude-code" : undefined,
+          }
+          // The action doesn't save a result below the minimum fidelity
+          if (!actionResult.success) {
+            const message = formatFidelityShortfall(actionResult.fidelity, minFidelity)
+            setResult({ ...compressionResult, error: message })
+            throw new Error(message)
           }
         } else {
           // Client-side mode: Use compression service (Ollama/OpenRouter)
           console.log(`[Compression Client] Using CLIENT-SIDE compression service (${compressionProvider})`)
-          const service = new CompressionService(compressionProvider)
+          const service = createService(compressionProvider, strategy)
           compressionResult = await service.compressBlock(block, strategy)
 
           if (!compressionResult.success) {
@@ -151,6 +195,11 @@ export function useCompression(
               compressionResult.error || "Compression failed"
             )
           }
+          if (compressionResult.fidelity && compressionResult.fidelity.score < minFidelity) {
+            const message = formatFidelityShortfall(compressionResult.fidelity, minFidelity)
+            setResult({ ...compressionResult, success: false, error: message })
+            throw new Error(message)
+          }
 
           // Save to database
           await compressMutation({
@@ -168,11 +217,13 @@ export function useCompression(
 
         setResult(compressionResult)
         onSuccess?.(compressionResult)
+        return compressionResult
       } catch (err) {
         const message = err instanceof Error ? err.message : "Unknown error"
         console.error(`[Compression Client] Single block compression failed:`, message)
         setError(message)
         onError?.(message)
+        return null
       } finally {
         setIsCompressing(false)
       }
@@ -180,6 +231,7 @@ export function useCompression(
     [
       compressMutation,
       compressWithClaudeCodeAction,
+      createService,
       onSuccess,
       onError,
     ]
@@ -205,18 +257,20 @@ export function useCompression(
       const compressionProvider = compressionSettings.getProvider()
 
       console.log(`[Compression Client Merge] Starting multi-block compression`)
-      console.log(`[Compression Client Merge] Block count: ${blocks.length}, Strategy: ${options.strategy || "semantic"}`)
+      const strategy = options.strategy || compressionSettings.getStrategy()
+      const minFidelity = options.minFidelity ?? compressionSettings.getMinFidelity()
+
+      console.log(`[Compression Client Merge] Block count: ${blocks.length}, Strategy: ${strategy}`)
       console.log(`[Compression Client Merge] Compression provider: ${compressionProvider}`)
 
       try {
-        const strategy = options.strategy || "semantic"
 
         let compressedContent: string
         let originalTokens: number
         let compressedTokens: number
         let compressionRatio: number
 
-        if (compressionProvider === "claude-code") {
+        if (compressionProvider === "claude-code" && !isLocalStrategy(strategy)) {
           // Server-side: Use Claude Code action for merge compression
           console.log(`[Compression Client Merge] Using SERVER-SIDE Claude Code action`)
           const actionResult = await compressAndMergeWithClaudeCodeAction({
@@ -242,7 +296,7 @@ export function useCompression(
             })
             .join("\n\n---\n\n")
 
-          const service = new CompressionService(compressionProvider)
+          const service = createService(compressionProvider, strategy)
           const compressResult = await service.compressText(
             combinedContent,
             strategy,
@@ -264,6 +318,27 @@ export function useCompression(
           )
         }
 
+        // Against the blocks' own content, not the "## Block n" headers added for the prompt
+        const fidelity = checkFidelity(
+          blocks.map((b) => b.content).join("\n\n"),
+          compressedContent
+        )
+        if (fidelity.score < minFidelity) {
+          const message = formatFidelityShortfall(fidelity, minFidelity)
+          setResult({
+            success: false,
+            error: message,
+            originalTokens,
+            compressedTokens,
+            compressionRatio,
+            tokensSaved: 0,
+            compressedContent,
+            strategy,
+            fidelity,
+          })
+          throw new Error(message)
+        }
+
         // Save merged block and delete originals
         const mergeResult = await compressAndMergeMutation({
           blockIds: blocks.map((b) => b._id),
@@ -285,7 +360,8 @@ export function useCompression(
           compressionRatio,
           tokensSaved: originalTokens - compressedTokens,
           strategy,
-          provider: compressionProvider,
+          fidelity,
+          provider: strategy === "semantic" ? compressionProvider : undefined,
         }
 
         console.log(`[Compression Client Merge] Multi-block compression completed successfully`)
@@ -305,6 +381,7 @@ export function useCompression(
     [
       compressAndMergeWithClaudeCodeAction,
       compressAndMergeMutation,
+      createService,
       onSuccess,
       onError,
     ]
@@ -0,0 +1,300 @@
+/**
+ * Hook replaying the open brainstorm branch against a snapshot or the current
+ * blocks with a chosen provider/model.
+ *
+ * Turn pairing, token estimates and totals are in lib/replay. Claude runs
+ * through an isolated server generation (with the snapshot id, the action
+ * assembles context from the snapshot's blocks); other providers stream from
+ * the browser through useBrainstorm's client streaming with the snapshot's
+ * blocks in place of the session's. Replies never enter the conversation.
+ */
+
+import { useState, useEffect, useMemo, useCallback, useRef } from "react"
+import { useQuery, useMutation } from "convex/react"
+import { api } from "../../convex/_generated/api"
+import type { Doc, Id } from "../../convex/_generated/dataModel"
+import type { CompareTarget, Message, StreamClientReply } from "@/hooks/useBrainstorm"
+import { getProvider } from "@/lib/llm/registry"
+import type { ModelPricing } from "@/lib/llm/provider"
+import { brainstorm as brainstormSettings } from "@/lib/llm/settings"
+import { replayTurnsFrom, summarizeReplay, type ReplayTurnSource } from "@/lib/replay"
+
+/** Blocks to replay against: the session's current blocks or a snapshot */
+export type ReplaySource = { kind: "current" } | { kind: "snapshot"; snapshotId: Id<"snapshots"> }
+
+export interface ReplayTurn extends ReplayTurnSource {
+  status: "pending" | "streaming" | "complete" | "error" | "cancelled"
+  replayed?: string
+  error?: string
+  /** Total input tokens, including prompt cache reads/writes */
+  inputTokens?: number
+  outputTokens?: number
+  costUsd?: number
+  durationMs?: number
+}
+
+export interface ReplayRun {
+  source: ReplaySource
+  /** Snapshot name, or null for the current blocks */
+  sourceLabel: string | null
+  target: CompareTarget
+  turns: ReplayTurn[]
+  status: "running" | "complete" | "stopped" | "error"
+  /** Replay model's prices, for the cost delta (none for Claude's subscription) */
+  pricing: ModelPricing | null
+}
+
+interface UseConversationReplayOptions {
+  sessionId: Id<"sessions">
+  /** The open branch */
+  messages: Message[]
+  streamClientReply: StreamClientReply
+  /** Defaults for the replay target */
+  provider: CompareTarget["provider"]
+  model: string | null
+  disableAgentBehavior: boolean
+  preventSelfTalk: boolean
+  activeSkills: Record<string, boolean>
+}
+
+type TurnResult = Pick<ReplayTurn, "replayed" | "inputTokens" | "outputTokens" | "costUsd">
+
+const abortError = () => new DOMException("Replay stopped", "AbortError")
+
+export function useConversationReplay({
+  sessionId,
+  messages,
+  streamClientReply,
+  provider,
+  model,
+  disableAgentBehavior,
+  preventSelfTalk,
+  activeSkills,
+}: UseConversationReplayOptions) {
+  const [source, setSource] = useState<ReplaySource>({ kind: "current" })
+  const [target, setTarget] = useState<CompareTarget>({ provider, model })
+  const [run, setRun] = useState<ReplayRun | null>(null)
+
+  const snapshots = useQuery(api.snapshots.list, { sessionId })
+  const snapshot = useQuery(
+    api.snapshots.get,
+    source.kind === "snapshot" ? { id: source.snapshotId } : "skip"
+  )
+
+  const startBrainstormGeneration = useMutation(api.generations.startBrainstormGeneration)
+  const cancelGeneration = useMutation(api.generations.cancel)
+
+  const controllerRef = useRef<AbortController | null>(null)
+
+  // Claude turns complete through the generation subscription
+  const [generationId, setGenerationId] = useState<Id<"generations"> | null>(null)
+  const generation = useQuery(api.generations.get, generationId ? { generationId } : "skip")
+  const pendingGenerationRef = useRef<{
+    generationId: Id<"generations">
+    onText: (text: string) => void
+    resolve: (generation: Doc<"generations">) => void
+  } | null>(null)
+
+  useEffect(() => {
+    const pending = pendingGenerationRef.current
+    if (!generation || !pending || generation._id !== pending.generationId) return
+    pending.onText(generation.text)
+    // The subscription stays on the finished generation until the next turn replaces it
+    if (generation.status !== "streaming") {
+      pendingGenerationRef.current = null
+      pending.resolve(generation)
+    }
+  }, [generation])
+
+  const turnSources = useMemo(() => replayTurnsFrom(messages), [messages])
+  const isRunning = run?.status === "running"
+  const canStart =
+    !isRunning && turnSources.length > 0 && (source.kind === "current" || snapshot !== undefined)
+
+  const updateTurn = useCallback((index: number, patch: Partial<ReplayTurn>) => {
+    setRun((prev) =>
+      prev ? { ...prev, turns: prev.turns.map((t, i) => (i === index ? { ...t, ...patch } : t)) } : prev
+    )
+  }, [])
+
+  // One Claude turn as an isolated generation
+  const runServerTurn = useCallback(
+    async (
+      content: string,
+      history: { role: "user" | "assistant"; content: string }[],
+      signal: AbortSignal,
+      onText: (text: string) => void
+    ): Promise<TurnResult> => {
+      const { generationId: id } = await startBrainstormGeneration({
+        sessionId,
+        conversationHistory: history,
+        newMessage: content,
+        disableAgentBehavior,
+        preventSelfTalk,
+        activeSkillIds: Object.entries(activeSkills)
+          .filter(([, enabled]) => enabled)
+          .map(([skillId]) => skillId),
+        model: target.model ?? undefined,
+        isolated: true,
+        snapshotId: source.kind === "snapshot" ? source.snapshotId : undefined,
+        selfTalkMarkers: brainstormSettings.getSelfTalkMarkers(),
+      })
+      const done = await new Promise<Doc<"generations">>((resolve, reject) => {
+        // The signal is shared by every turn of the run: only listen while this turn is pending
+        const onAbort = () => {
+          pendingGenerationRef.current = null
+          setGenerationId(null)
+          cancelGeneration({ generationId: id }).catch(console.error)
+          reject(abortError())
+        }
+        pendingGenerationRef.current = {
+          generationId: id,
+          onText,
+          resolve: (generation) => {
+            signal.removeEventListener("abort", onAbort)
+            resolve(generation)
+          },
+        }
+        setGenerationId(id)
+        signal.addEventListener("abort", onAbort, { once: true })
+      })
+      if (done.status === "error") {
+        throw new Error(done.error || "Unknown error")
+      }
+      if (done.status === "cancelled") {
+        throw abortError()
+      }
+      return {
+        replayed: done.text,
+        inputTokens: done.inputTokens,
+        outputTokens: done.outputTokens,
+        costUsd: done.costUsd,
+      }
+    },
+    [
+      startBrainstormGeneration,
+      cancelGeneration,
+      sessionId,
+      disableAgentBehavior,
+      preventSelfTalk,
+      activeSkills,
+      target.model,
+      source,
+    ]
+  )
+
+  const start = useCallback(async () => {
+    if (!canStart) return
+    const controller = new AbortController()
+    controllerRef.current = controller
+
+    const contextBlocks = source.kind === "snapshot" ? snapshot?.blocks : undefined
+    if (source.kind === "snapshot" && !contextBlocks) return
+
+    const llm = getProvider(target.provider)
+    const pricingModel = target.model ?? llm.getModel()
+    const pricing = target.provider !== "claude" && pricingModel
+      ? await llm.getPricing(pricingModel).catch(() => null)
+      : null
+
+    setRun({
+      source,
+      sourceLabel: snapshot?.name ?? null,
+      target,
+      turns: turnSources.map((turn) => ({ ...turn, status: "pending" })),
+      status: "running",
+      pricing,
+    })
+
+    // Replayed replies become the history for later turns
+    const history: { role: "user" | "assistant"; content: string }[] = []
+    let status: ReplayRun["status"] = "complete"
+    for (const [index, turn] of turnSources.entries()) {
+      if (controller.signal.aborted) {
+        status = "stopped"
+        break
+      }
+      updateTurn(index, { status: "streaming", replayed: "" })
+      const startTime = Date.now()
+      const onText = (text: string) => updateTurn(index, { replayed: text })
+      try {
+        let result: TurnResult
+        if (target.provider === "claude") {
+          result = await runServerTurn(turn.user, history, controller.signal, onText)
+        } else {
+          const reply = await streamClientReply(
+            target.provider,
+            target.model,
+            turn.user,
+            history,
+            controller.signal,
+            onText,
+            { contextBlocks }
+          )
+          const usage = reply.usage
+          result = {
+            replayed: reply.text,
+            inputTokens: usage?.promptTokens !== undefined
+              ? usage.promptTokens + (usage.cacheReadTokens ?? 0) + (usage.cacheWriteTokens ?? 0)
+              : undefined,
+            outputTokens: usage?.completionTokens,
+            costUsd: reply.costUsd,
+          }
+        }
+        updateTurn(index, { ...result, status: "complete", durationMs: Date.now() - startTime })
+        history.push({ role: "user", content: turn.user }, { role: "assistant", content: result.replayed ?? "" })
+      } catch (err) {
+        if (err instanceof DOMException && err.name === "AbortError") {
+          updateTurn(index, { status: "cancelled", durationMs: Date.now() - startTime })
+          status = "stopped"
+        } else {
+          console.error(`[Replay] ${target.provider} error:`, err)
+          updateTurn(index, {
+            status: "error",
+            error: err instanceof Error ? err.message : "Unknown error",
+            durationMs: Date.now() - startTime,
+          })
+          status = "error"
+        }
+        break
+      }
+    }
+
+    controllerRef.current = null
+    setRun((prev) => (prev ? { ...prev, status } : prev))
+  }, [canStart, source, snapshot, target, turnSources, updateTurn, runServerTurn, streamClientReply])
+
+  const stop = useCallback(() => {
+    controllerRef.current?.abort()
+  }, [])
+
+  const clear = useCallback(() => {
+    controllerRef.current?.abort()
+    setRun(null)
+  }, [])
+
+  // Stop a running replay when the session changes or the panel unmounts
+  useEffect(() => () => controllerRef.current?.abort(), [sessionId])
+
+  const summary = useMemo(
+    () => (run ? summarizeReplay(run.turns.filter((t) => t.status === "complete"), run.pricing) : null),
+    [run]
+  )
+
+  return {
+    snapshots: (snapshots ?? []) as Doc<"snapshots">[],
+    source,
+    setSource,
+    target,
+    setTarget,
+    turnCount: turnSources.length,
+    canStart,
+    run,
+    summary,
+    start,
+    stop,
+    clear,
+  }
+}
+
+export type ConversationReplay = ReturnType<typeof useConversationReplay>
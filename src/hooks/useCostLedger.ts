@@ -0,0 +1,80 @@
+/**
+ * Hook for the cost ledger side of client-side provider calls.
+ *
+ * The server checks the project's spending caps and records usage for backend
+ * runs; browser calls (brainstorm replies, compression, rolling summaries,
+ * memory drafts) go through this hook instead: check the hard cap before the
+ * call, then price its usage and add it to the ledger.
+ */
+
+import { useCallback, useEffect, useRef } from "react"
+import { useQuery, useMutation } from "convex/react"
+import { api } from "../../convex/_generated/api"
+import type { Id } from "../../convex/_generated/dataModel"
+import { getProvider } from "@/lib/llm/registry"
+import { calculateCost, type ChatResult, type ProviderId } from "@/lib/llm/provider"
+
+interface UseCostLedgerOptions {
+  sessionId: Id<"sessions">
+}
+
+interface UseCostLedgerResult {
+  /** Budget state of the session's project with a display message; null without caps */
+  budgetStatus: { state: "ok" | "warning" | "exceeded"; message: string } | null | undefined
+  /** Throw once the project is over its hard cap */
+  requireBudget: () => void
+  /**
+   * Price a call's usage and add it to the ledger; resolves to the cost.
+   * A failed ledger write is logged, not thrown, so it doesn't lose the call's result.
+   */
+  recordUsage: (providerId: ProviderId, usage: ChatResult | undefined, model?: string) => Promise<number | undefined>
+}
+
+export function useCostLedger({ sessionId }: UseCostLedgerOptions): UseCostLedgerResult {
+  const budgetStatus = useQuery(api.costLedger.getBudgetStatus, { sessionId })
+  const record = useMutation(api.costLedger.record)
+
+  // Read through a ref so callers' callbacks and effects don't change with every recorded cost
+  const budgetStatusRef = useRef(budgetStatus)
+  useEffect(() => {
+    budgetStatusRef.current = budgetStatus
+  }, [budgetStatus])
+
+  const requireBudget = useCallback(() => {
+    const status = budgetStatusRef.current
+    if (status?.state === "exceeded") {
+      throw new Error(status.message)
+    }
+  }, [])
+
+  const recordUsage = useCallback(
+    async (providerId: ProviderId, usage: ChatResult | undefined, model?: string) => {
+      const llm = getProvider(providerId)
+
+      // Use the provider's reported cost, else price the token counts (providers without pricing are free)
+      let costUsd = usage?.costUsd
+      if (costUsd === undefined && usage?.model && (usage.promptTokens || usage.completionTokens)) {
+        const pricing = await llm.getPricing(usage.model)
+        if (pricing) {
+          costUsd = calculateCost(usage, pricing)
+        }
+      }
+
+      record({
+        sessionId,
+        provider: providerId,
+        model: usage?.model ?? model ?? llm.getModel() ?? undefined,
+        inputTokens: usage?.promptTokens !== undefined
+          ? usage.promptTokens + (usage.cacheReadTokens ?? 0) + (usage.cacheWriteTokens ?? 0)
+          : undefined,
+        outputTokens: usage?.completionTokens,
+        costUsd,
+      }).catch((err) => console.warn("[CostLedger] Failed to record cost:", err))
+
+      return costUsd
+    },
+    [record, sessionId]
+  )
+
+  return { budgetStatus, requireBudget, recordUsage }
+}
@@ -0,0 +1,24 @@
+import { useEffect, useState } from "react"
+import { getModelInfo, type ModelInfo } from "@/lib/llm/modelCatalog"
+
+/**
+ * Catalog entry (context window, max output, pricing) for a model id.
+ * Undefined while loading or when no model is given; null for unknown models.
+ */
+export function useModelInfo(modelId: string | null | undefined): ModelInfo | null | undefined {
+  const [info, setInfo] = useState<{ modelId: string; info: ModelInfo | null } | null>(null)
+
+  useEffect(() => {
+    if (!modelId) return
+    let cancelled = false
+    getModelInfo(modelId).then((result) => {
+      if (!cancelled) setInfo({ modelId, info: result })
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [modelId])
+
+  // Ignore a result for a previous model while the new one loads
+  return modelId && info?.modelId === modelId ? info.info : undefined
+}
@@ -0,0 +1,269 @@
+/**
+ * Hook running brainstorm slash commands (/save, /compress, /pin…).
+ *
+ * Parsing and autocomplete are in lib/slashCommands; this hook supplies the
+ * session's blocks, memory entries and models as argument sources and runs
+ * each command through the same mutations the rest of the UI uses.
+ */
+
+import { useState, useEffect, useMemo, useCallback } from "react"
+import { useQuery, useMutation } from "convex/react"
+import { api } from "../../convex/_generated/api"
+import type { Doc, Id } from "../../convex/_generated/dataModel"
+import { useCompression } from "@/hooks/useCompression"
+import type { Message, Provider, Zone } from "@/hooks/useBrainstorm"
+import { getProvider } from "@/lib/llm/registry"
+import {
+  anthropic as anthropicSettings,
+  ollama as ollamaSettings,
+  openaiCompatible as openaiCompatibleSettings,
+  openrouter as openrouterSettings,
+} from "@/lib/llm/settings"
+import { extractBlockTitle } from "@/lib/skills/titleExtractor"
+import {
+  getSlashSuggestions,
+  parseSlashCommand,
+  parseZone,
+  resolveOption,
+  type SlashOption,
+  type SlashSources,
+  type SlashSuggestion,
+} from "@/lib/slashCommands"
+
+// Default model settings for providers whose model isn't chosen in the dialog
+const MODEL_SETTINGS: Partial<Record<Provider, { setModel: (model: string) => void }>> = {
+  openrouter: openrouterSettings,
+  anthropic: anthropicSettings,
+  ollama: ollamaSettings,
+  "openai-compatible": openaiCompatibleSettings,
+}
+
+const DEFAULT_VALIDATION_MESSAGE = "Validate the artifacts against the criteria."
+
+export interface SlashNotice {
+  kind: "info" | "success" | "error"
+  text: string
+}
+
+interface UseSlashCommandsOptions {
+  sessionId: Id<"sessions">
+  projectId?: Id<"projects">
+  messages: Message[]
+  provider: Provider
+  saveMessage: (messageId: string, zone: Zone) => Promise<Id<"blocks">>
+  sendValidation: (content: string) => Promise<void>
+  /** Claude model selection (other providers use their settings) */
+  setModel: (model: string | null) => void
+}
+
+export function useSlashCommands({
+  sessionId,
+  projectId,
+  messages,
+  provider,
+  saveMessage,
+  sendValidation,
+  setModel,
+}: UseSlashCommandsOptions) {
+  const [notice, setNotice] = useState<SlashNotice | null>(null)
+  const [models, setModels] = useState<SlashOption[]>([])
+
+  const blocks = useQuery(api.blocks.list, { sessionId })
+  const memoryEntries = useQuery(
+    api.memoryEntries.listByProject,
+    projectId ? { projectId } : "skip"
+  )
+
+  const createBlock = useMutation(api.blocks.create)
+  const updateBlock = useMutation(api.blocks.update)
+  const setContextMode = useMutation(api.blocks.setContextMode)
+  const toggleMemoryPin = useMutation(api.sessions.toggleMemoryPin)
+  const createSnapshot = useMutation(api.snapshots.create)
+  const startResearch = useMutation(api.research.startResearch)
+
+  const { compressSingle } = useCompression({
+    sessionId,
+    onSuccess: (result) =>
+      setNotice({
+        kind: "success",
+        text: `Compressed ${result.originalTokens} → ${result.compressedTokens} tokens`,
+      }),
+    onError: (error) => setNotice({ kind: "error", text: `Compression failed: ${error}` }),
+  })
+
+  // Models for the current provider
+  useEffect(() => {
+    let cancelled = false
+    getProvider(provider)
+      .listModels()
+      .then((list) => {
+        if (!cancelled) setModels(list.map((m) => ({ id: m.id, label: m.id, detail: m.name })))
+      })
+      .catch(() => {
+        if (!cancelled) setModels([])
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [provider])
+
+  const sources: SlashSources = useMemo(
+    () => ({
+      blocks: (blocks ?? []).map((b: Doc<"blocks">, i: number) => ({
+        id: b._id,
+        label: extractBlockTitle(b.content, b.type, i),
+        detail: `${b.zone.toLowerCase()} · ${b.type}`,
+      })),
+      memories: (memoryEntries ?? []).map((e: Doc<"memoryEntries">) => ({ id: e._id, label: e.title, detail: e.type })),
+      models,
+    }),
+    [blocks, memoryEntries, models]
+  )
+
+  const getSuggestions = useCallback(
+    (input: string): SlashSuggestion[] => getSlashSuggestions(input, sources),
+    [sources]
+  )
+
+  const execute = useCallback(
+    async (name: string, arg: string): Promise<SlashNotice | null> => {
+      switch (name) {
+        case "save": {
+          const zone = parseZone(arg)
+          if (!zone) return { kind: "error", text: "Usage: /save <working|stable|permanent>" }
+          const reply = [...messages].reverse().find((m) => m.role === "assistant")
+          if (!reply) return { kind: "error", text: "No reply to save yet" }
+          await saveMessage(reply.id, zone)
+          return { kind: "success", text: `Saved the last reply to ${zone}` }
+        }
+
+        case "validate":
+          await sendValidation(arg || DEFAULT_VALIDATION_MESSAGE)
+          return null
+
+        case "compress": {
+          const resolved = resolveOption(arg, sources.blocks, "block")
+          if ("error" in resolved) return { kind: "error", text: resolved.error }
+          const block = blocks?.find((b: Doc<"blocks">) => b._id === resolved.option.id)
+          if (!block) return { kind: "error", text: "Block not found" }
+          setNotice({ kind: "info", text: `Compressing "${resolved.option.label}"…` })
+          // Outcome is reported by the compression callbacks
+          await compressSingle(block)
+          return null
+        }
+
+        case "pin": {
+          if (!projectId) return { kind: "error", text: "Memory needs a session in a project" }
+          const resolved = resolveOption(arg, sources.memories, "memory entry")
+          if ("error" in resolved) return { kind: "error", text: resolved.error }
+          const pinned = await toggleMemoryPin({
+            sessionId,
+            entryId: resolved.option.id as Id<"memoryEntries">,
+          })
+          return { kind: "success", text: `${pinned ? "Pinned" : "Unpinned"} "${resolved.option.label}"` }
+        }
+
+        case "draft": {
+          const resolved = resolveOption(arg, sources.blocks, "block")
+          if ("error" in resolved) return { kind: "error", text: resolved.error }
+          const block = blocks?.find((b: Doc<"blocks">) => b._id === resolved.option.id)
+          if (!block) return { kind: "error", text: "Block not found" }
+          const toDraft = (block.contextMode ?? "default") !== "draft"
+          await setContextMode({ id: block._id, contextMode: toDraft ? "draft" : "default" })
+          return {
+            kind: "success",
+            text: `"${resolved.option.label}" is ${toDraft ? "now a draft" : "back in context"}`,
+          }
+        }
+
+        case "model": {
+          // Accept any model id when the provider couldn't list its models
+          const resolved = models.length > 0
+            ? resolveOption(arg, models, "model")
+            : arg
+              ? { option: { id: arg, label: arg } }
+              : { error: "Name a model" }
+          if ("error" in resolved) return { kind: "error", text: resolved.error }
+          const modelSettings = MODEL_SETTINGS[provider]
+          if (provider === "claude") {
+            setModel(resolved.option.id)
+          } else if (modelSettings) {
+            modelSettings.setModel(resolved.option.id)
+          } else {
+            return { kind: "error", text: `${getProvider(provider).label} doesn't support choosing a model` }
+          }
+          return { kind: "success", text: `Model set to ${resolved.option.id}` }
+        }
+
+        case "snapshot": {
+          if (!arg) return { kind: "error", text: "Usage: /snapshot <name>" }
+          await createSnapshot({ sessionId, name: arg })
+          return { kind: "success", text: `Saved snapshot "${arg}"` }
+        }
+
+        case "research": {
+          if (!arg) return { kind: "error", text: "Usage: /research <spec>" }
+          const researchBlock = blocks?.find((b: Doc<"blocks">) => b.type === "research")
+          if (researchBlock) {
+            await updateBlock({ id: researchBlock._id, content: arg })
+          } else {
+            await createBlock({ sessionId, content: arg, type: "research", zone: "WORKING" })
+          }
+          await startResearch({ sessionId })
+          return { kind: "success", text: "Research started — results stream into the research block" }
+        }
+
+        default:
+          return { kind: "error", text: `Unknown command /${name}` }
+      }
+    },
+    [
+      sessionId,
+      projectId,
+      messages,
+      provider,
+      blocks,
+      models,
+      sources,
+      saveMessage,
+      sendValidation,
+      setModel,
+      compressSingle,
+      toggleMemoryPin,
+      setContextMode,
+      createSnapshot,
+      createBlock,
+      updateBlock,
+      startResearch,
+    ]
+  )
+
+  /**
+   * Run input as a slash command. Returns false when it isn't one (send it as a message).
+   */
+  const run = useCallback(
+    async (input: string): Promise<boolean> => {
+      const parsed = parseSlashCommand(input)
+      if (!parsed) return false
+      setNotice(null)
+      try {
+        const result = await execute(parsed.command.name, parsed.arg)
+        if (result) setNotice(result)
+      } catch (err) {
+        setNotice({
+          kind: "error",
+          text: err instanceof Error ? err.message : `/${parsed.command.name} failed`,
+        })
+      }
+      return true
+    },
+    [execute]
+  )
+
+  return {
+    getSuggestions,
+    run,
+    notice,
+    dismissNotice: () => setNotice(null),
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from "vitest"
+import { budgetOverflow, isPolicyActive, planBudgetActions, type BudgetPolicyBlock } from "./budgetPolicy"
+
+const HOUR = 60 * 60 * 1000
+const NOW = 100 * HOUR
+
+const block = (id: string, overrides: Partial<BudgetPolicyBlock> = {}): BudgetPolicyBlock => ({
+  _id: id,
+  content: "x",
+  zone: "WORKING",
+  tokens: 1000,
+  createdAt: NOW - 10 * HOUR,
+  updatedAt: NOW - HOUR,
+  ...overrides,
+})
+
+const usage = (workingTokens: number, workingBudget = 5000) => ({
+  working: { tokens: workingTokens, budget: workingBudget },
+  total: { tokens: workingTokens, budget: 100_000 },
+})
+
+const plan = (blocks: BudgetPolicyBlock[], overflow: number, policy: Parameters<typeof planBudgetActions>[2]) =>
+  planBudgetActions(blocks, usage(5000 + overflow), policy, NOW).map((a) => `${a.kind}:${a.block._id}`)
+
+describe("budgetOverflow", () => {
+  it("takes the larger of the WORKING and total overflow", () => {
+    expect(budgetOverflow(usage(4000))).toBe(0)
+    expect(budgetOverflow(usage(6000))).toBe(1000)
+    expect(
+      budgetOverflow({ working: { tokens: 100, budget: 200 }, total: { tokens: 1500, budget: 1000 } })
+    ).toBe(500)
+  })
+})
+
+describe("isPolicyActive", () => {
+  it("needs at least one action turned on", () => {
+    expect(isPolicyActive(undefined)).toBe(false)
+    expect(isPolicyActive({ askBeforeEach: true })).toBe(false)
+    expect(isPolicyActive({ draftAfterHours: 24, askBeforeEach: false })).toBe(true)
+  })
+})
+
+describe("planBudgetActions", () => {
+  it("does nothing within budget", () => {
+    expect(plan([block("a")], 0, { compressAboveTokens: 500, askBeforeEach: false })).toEqual([])
+  })
+
+  it("compresses the oldest large blocks until the overflow is covered", () => {
+    const blocks = [
+      block("new", { createdAt: NOW - HOUR }),
+      block("old", { createdAt: NOW - 5 * HOUR }),
+      block("small", { createdAt: NOW - 9 * HOUR, tokens: 300 }),
+      block("oldest", { createdAt: NOW - 8 * HOUR }),
+    ]
+    // Each 1000-token block frees ~500
+    expect(plan(blocks, 800, { compressAboveTokens: 500, askBeforeEach: false })).toEqual([
+      "compress:oldest",
+      "compress:old",
+    ])
+  })
+
+  it("drafts stale blocks before compressing", () => {
+    const blocks = [
+      block("fresh", { createdAt: NOW - 20 * HOUR }),
+      block("stale", { updatedAt: NOW - 30 * HOUR, tokens: 400 }),
+    ]
+    expect(plan(blocks, 700, { compressAboveTokens: 500, draftAfterHours: 24, askBeforeEach: false })).toEqual([
+      "draft:stale",
+      "compress:fresh",
+    ])
+  })
+
+  it("skips pinned, draft, criteria and non-WORKING blocks, and never recompresses", () => {
+    const blocks = [
+      block("pinned", { isPinned: true, updatedAt: 0 }),
+      block("draft", { contextMode: "draft", updatedAt: 0 }),
+      block("criteria", { contextMode: "validation", updatedAt: 0 }),
+      block("compressed", { isCompressed: true }),
+      block("stable", { zone: "STABLE", updatedAt: 0 }),
+    ]
+    expect(plan(blocks, 5000, { compressAboveTokens: 100, draftAfterHours: 2, askBeforeEach: false })).toEqual([])
+  })
+
+  it("doesn't compress below the service's minimum size", () => {
+    expect(plan([block("a", { tokens: 80 })], 50, { compressAboveTokens: 10, askBeforeEach: false })).toEqual([])
+  })
+})
@@ -0,0 +1,116 @@
+/**
+ * Session budget policy: what to do before a brainstorm send when the WORKING
+ * zone or the session total is over budget.
+ *
+ * Two kinds of action free tokens, both undoable: moving stale WORKING blocks
+ * to draft (left out of context entirely) and compressing the oldest large
+ * WORKING blocks (~2x smaller). Stale blocks go first, as the least likely to
+ * matter to the next turn. Planning stops once the estimated savings cover the
+ * overflow. Pinned blocks, and blocks already in draft or criteria mode, are
+ * never touched.
+ */
+
+/** Mirrors budgetPolicyValidator in convex/lib/validators.ts */
+export interface BudgetPolicy {
+  /** Compress the oldest WORKING blocks of at least this many tokens; unset = never */
+  compressAboveTokens?: number
+  /** Move WORKING blocks unchanged for this many hours to draft; unset = never */
+  draftAfterHours?: number
+  /** Confirm each action instead of applying it */
+  askBeforeEach: boolean
+}
+
+export type BudgetActionKind = "compress" | "draft"
+
+export interface BudgetPolicyBlock {
+  _id: string
+  content: string
+  zone: string
+  tokens?: number
+  createdAt: number
+  updatedAt: number
+  contextMode?: "default" | "draft" | "validation"
+  isCompressed?: boolean
+  isPinned?: boolean
+}
+
+export interface BudgetUsage {
+  tokens: number
+  budget: number
+}
+
+export interface PlannedBudgetAction<B extends BudgetPolicyBlock = BudgetPolicyBlock> {
+  kind: BudgetActionKind
+  block: B
+  tokens: number
+  /** Estimated tokens freed */
+  savings: number
+}
+
+// Smallest block the compression service accepts
+export const MIN_COMPRESS_TOKENS = 100
+// Compression targets 2x (see TARGET_RATIO in convex/compression.ts)
+const EXPECTED_COMPRESSION_RATIO = 2
+const HOUR_MS = 60 * 60 * 1000
+
+const blockTokens = (block: BudgetPolicyBlock) => block.tokens ?? Math.ceil(block.content.length / 4)
+
+/**
+ * Tokens over budget: the larger overflow of the WORKING zone and the session total.
+ */
+export function budgetOverflow(usage: { working: BudgetUsage; total: BudgetUsage }): number {
+  return Math.max(0, usage.working.tokens - usage.working.budget, usage.total.tokens - usage.total.budget)
+}
+
+/**
+ * Whether a policy has any action turned on.
+ */
+export function isPolicyActive(policy: BudgetPolicy | undefined): policy is BudgetPolicy {
+  return !!policy && (policy.compressAboveTokens !== undefined || policy.draftAfterHours !== undefined)
+}
+
+/**
+ * Actions that bring the session back within budget, in the order to apply them.
+ * Empty when nothing is over budget; may fall short when too few blocks qualify.
+ */
+export function planBudgetActions<B extends BudgetPolicyBlock>(
+  blocks: B[],
+  usage: { working: BudgetUsage; total: BudgetUsage },
+  policy: BudgetPolicy,
+  now: number = Date.now()
+): PlannedBudgetAction<B>[] {
+  let remaining = budgetOverflow(usage)
+  if (remaining === 0) return []
+
+  const candidates = blocks.filter(
+    (b) => b.zone === "WORKING" && !b.isPinned && (b.contextMode ?? "default") === "default"
+  )
+  const plan: PlannedBudgetAction<B>[] = []
+  const take = (kind: BudgetActionKind, block: B, savings: number) => {
+    if (remaining <= 0 || savings <= 0) return
+    plan.push({ kind, block, tokens: blockTokens(block), savings })
+    remaining -= savings
+  }
+
+  if (policy.draftAfterHours !== undefined) {
+    const staleBefore = now - policy.draftAfterHours * HOUR_MS
+    candidates
+      .filter((b) => b.updatedAt <= staleBefore)
+      .sort((a, b) => a.updatedAt - b.updatedAt)
+      .forEach((block) => take("draft", block, blockTokens(block)))
+  }
+
+  if (policy.compressAboveTokens !== undefined) {
+    const minTokens = Math.max(policy.compressAboveTokens, MIN_COMPRESS_TOKENS)
+    const drafted = new Set(plan.map((action) => action.block._id))
+    candidates
+      .filter((b) => !drafted.has(b._id) && !b.isCompressed && blockTokens(b) >= minTokens)
+      .sort((a, b) => a.createdAt - b.createdAt)
+      .forEach((block) => {
+        const tokens = blockTokens(block)
+        take("compress", block, tokens - Math.ceil(tokens / EXPECTED_COMPRESSION_RATIO))
+      })
+  }
+
+  return plan
+}
@@ -15,7 +15,10 @@ import {
   estimateTokens,
   estimateQuality,
 } from "./strategies/semantic"
-import * as settings from "@/lib/llm/settings"
+import { compressStructural } from "./strategies/structural"
+import { compressStatistical } from "../../../convex/lib/extractiveSummary"
+import { checkFidelity } from "../../../convex/lib/compressionFidelity"
+import { getProvider, listClientProviders } from "@/lib/llm/registry"
 
 /**
  * Block interface (subset of Convex block type).
@@ -38,6 +41,14 @@ const MIN_TOKENS_FOR_COMPRESSION = 100
  */
 const MIN_COMPRESSION_RATIO = 1.2
 
+/**
+ * Whether a strategy runs locally without an LLM (so it needs no provider,
+ * not even the Claude Code backend).
+ */
+export function isLocalStrategy(strategy: CompressionStrategy): boolean {
+  return strategy === "structural"
+}
+
 /**
  * CompressionService handles all compression operations.
  */
@@ -52,9 +63,10 @@ export class CompressionService {
     // Build provider config
     this.providerConfig = {
       provider: this.provider,
-      ollamaUrl: config?.ollamaUrl || settings.ollama.getUrl(),
-      ollamaModel: config?.ollamaModel || settings.ollama.getModel(),
-      openrouterModel: config?.openrouterModel || settings.openrouter.getModel(),
+      model:
+        config?.model ||
+        (this.provider === "claude-code" ? undefined : getProvider(this.provider).getModel() ?? undefined),
+      onUsage: config?.onUsage,
     }
   }
 
@@ -62,9 +74,12 @@ export class CompressionService {
    * Auto-detect best available provider based on configuration.
    */
   private detectProvider(): CompressionProvider {
-    // Check if OpenRouter is configured
-    if (settings.openrouter.isConfigured()) {
-      return "openrouter"
+    // First client-side provider that needs (and has) an API key or URL
+    const configured = listClientProviders().find(
+      (p) => p.capabilities.requiresConfiguration && p.isConfigured()
+    )
+    if (configured) {
+      return configured.id
     }
 
     // Default to Ollama (assumes it's available locally)
@@ -150,7 +165,8 @@ export class CompressionService {
         tokensSaved: originalTokens - compressedTokens,
         compressedContent,
         strategy,
-        provider: this.provider,
+        fidelity: checkFidelity(block.content, compressedContent),
+        provider: strategy === "semantic" ? this.provider : undefined,
         durationMs: Date.now() - startTime,
       }
     } catch (error) {
@@ -208,19 +224,16 @@ export class CompressionService {
     switch (strategy) {
       case "semantic":
         return compressSemantic(content, {
-          provider: this.provider,
+          ...this.providerConfig,
           targetRatio: 2.0, // Target 50% reduction
           contentType,
-          ollamaModel: this.providerConfig.ollamaModel,
-          ollamaUrl: this.providerConfig.ollamaUrl,
-          openrouterModel: this.providerConfig.openrouterModel,
         })
 
       case "structural":
-        throw new Error("Structural compression not yet implemented")
+        return compressStructural(content, { contentType })
 
       case "statistical":
-        throw new Error("Statistical compression not yet implemented")
+        return compressStatistical(content, { targetRatio: 2.0 })
 
       default:
         throw new Error(`Unknown strategy: ${strategy}`)
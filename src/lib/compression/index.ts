@@ -4,7 +4,7 @@
  */
 
 // Main service
-export { CompressionService, createCompressionService } from "./compressionService"
+export { CompressionService, createCompressionService, isLocalStrategy } from "./compressionService"
 export type { Block } from "./compressionService"
 
 // Types
@@ -28,3 +28,9 @@ export {
   extractImportantWords,
   SEMANTIC_PROMPT_TEMPLATE,
 } from "./strategies/semantic"
+export { compressStructural } from "./strategies/structural"
+export { compressStatistical } from "../../../convex/lib/extractiveSummary"
+
+// Fidelity
+export { checkFidelity, extractFacts, formatFidelityShortfall } from "../../../convex/lib/compressionFidelity"
+export type { Fact, FactKind, FidelityReport } from "../../../convex/lib/compressionFidelity"
@@ -3,9 +3,9 @@
  * Preserves meaning while reducing token count.
  */
 
-import type { CompressionProvider, CompressionPromptVars } from "../types"
-import * as ollama from "@/lib/llm/ollama"
-import * as openrouter from "@/lib/llm/openrouter"
+import type { CompressionPromptVars, ProviderConfig } from "../types"
+import { getProvider } from "@/lib/llm/registry"
+import { readChat } from "@/lib/llm/provider"
 
 /**
  * Default compression prompt template.
@@ -32,14 +32,9 @@ COMPRESSED VERSION:`
  */
 export async function compressSemantic(
   content: string,
-  options: {
-    provider: CompressionProvider
+  options: ProviderConfig & {
     targetRatio?: number
     contentType?: string
-    // Provider-specific options
-    ollamaModel?: string
-    ollamaUrl?: string
-    openrouterModel?: string
   }
 ): Promise<string> {
   const targetRatio = options.targetRatio || 2.0
@@ -53,85 +48,25 @@ export async function compressSemantic(
     contentType,
   })
 
-  // Route to appropriate provider
-  switch (options.provider) {
-    case "ollama":
-      return compressWithOllama(prompt, options)
-    case "openrouter":
-      return compressWithOpenRouter(prompt, options)
-    case "claude-code":
-      throw new Error(
-        "Claude Code compression must be called via Convex action"
-      )
-    default:
-      throw new Error(`Unknown provider: ${options.provider}`)
+  if (options.provider === "claude-code") {
+    throw new Error(
+      "Claude Code compression must be called via Convex action"
+    )
   }
-}
-
-/**
- * Compress using Ollama (client-side).
- */
-async function compressWithOllama(
-  prompt: string,
-  options: {
-    ollamaModel?: string
-    ollamaUrl?: string
-  }
-): Promise<string> {
-  const messages: ollama.OllamaMessage[] = [
-    {
-      role: "user",
-      content: prompt,
-    },
-  ]
 
-  let compressed = ""
+  const llm = getProvider(options.provider)
 
   // Stream and collect full response
-  const generator = ollama.streamChat(messages, {
-    model: options.ollamaModel,
-    temperature: 0.2, // Low temperature for deterministic compression
-    topP: 0.95,
-  })
-
-  for await (const chunk of generator) {
-    compressed += chunk
-  }
-
-  return compressed.trim()
-}
-
-/**
- * Compress using OpenRouter (client-side).
- * Note: API key is retrieved from settings, not passed as parameter.
- */
-async function compressWithOpenRouter(
-  prompt: string,
-  options: {
-    openrouterModel?: string
-  }
-): Promise<string> {
-  const messages: openrouter.OpenRouterMessage[] = [
-    {
-      role: "user",
-      content: prompt,
-    },
-  ]
-
-  let compressed = ""
-
-  // Stream and collect full response
-  const generator = openrouter.streamChat(messages, {
-    model: options.openrouterModel,
-    temperature: 0.2, // Low temperature for deterministic compression
-    topP: 0.95,
-  })
-
-  for await (const chunk of generator) {
-    compressed += chunk
-  }
-
-  return compressed.trim()
+  const { text, usage } = await readChat(
+    llm.streamChat([{ role: "user", content: prompt }], {
+      model: options.model,
+      temperature: 0.2, // Low temperature for deterministic compression
+      topP: 0.95,
+    })
+  )
+  options.onUsage?.(options.provider, usage)
+
+  return text.trim()
 }
 
 /**
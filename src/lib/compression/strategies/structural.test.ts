@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest"
+import { compressStructural } from "./structural"
+
+describe("compressStructural", () => {
+  it("collapses whitespace and runs of blank lines", () => {
+    const input = "# Notes  \n\n\n\nFirst   line   here\t\tand more\n\n\n  - nested    item\n\n"
+    expect(compressStructural(input)).toBe("# Notes\n\nFirst line here and more\n\n  - nested item")
+  })
+
+  it("strips markdown decoration and HTML comments", () => {
+    const input = [
+      "## Overview ##",
+      "<!-- TODO: expand this -->",
+      "Use **Convex** for *storage* and _sync_, see <https://convex.dev>.",
+      "Keep `**literal**` and snake_case_names, 2 * 3 * 4.",
+      "",
+      "***",
+      "",
+      "[https://x.dev](https://x.dev) and [docs](https://x.dev/docs)",
+    ].join("\n")
+    expect(compressStructural(input)).toBe([
+      "## Overview",
+      "Use Convex for storage and sync, see https://convex.dev.",
+      "Keep `**literal**` and snake_case_names, 2 * 3 * 4.",
+      "",
+      "https://x.dev and [docs](https://x.dev/docs)",
+    ].join("\n"))
+  })
+
+  it("turns setext underlines into heading markers", () => {
+    expect(compressStructural("Title\n=====\n\nSection\n-------\nBody")).toBe("# Title\n\n## Section\nBody")
+  })
+
+  it("removes code comments per fence language but keeps strings", () => {
+    const input = [
+      "```ts",
+      "// Load the config",
+      "const url = \"http://example.com\" // trailing note",
+      "",
+      "/* block",
+      "   comment */",
+      "const n = 1",
+      "```",
+      "```python",
+      "#!/usr/bin/env python",
+      "def f():",
+      "    # explain",
+      '    return "#not-a-comment"',
+      "```",
+      "```sql",
+      "SELECT 1 -- one",
+      "```",
+    ].join("\n")
+    expect(compressStructural(input)).toBe([
+      "```ts",
+      'const url = "http://example.com"',
+      "const n = 1",
+      "```",
+      "```python",
+      "#!/usr/bin/env python",
+      "def f():",
+      '    return "#not-a-comment"',
+      "```",
+      "```sql",
+      "SELECT 1",
+      "```",
+    ].join("\n"))
+  })
+
+  it("leaves shell words containing # alone", () => {
+    const input = "```bash\necho ${#items[@]} # count\n```"
+    expect(compressStructural(input)).toBe("```bash\necho ${#items[@]}\n```")
+  })
+
+  it("treats a code block without fences as code", () => {
+    const input = "import os\n\n# Helper\ndef main():\n    print(os.getcwd())  # cwd\n"
+    expect(compressStructural(input, { contentType: "code" })).toBe("import os\ndef main():\n    print(os.getcwd())")
+  })
+
+  it("shortens separators and drops repeated table headers", () => {
+    const input = [
+      "| Name     | Value |",
+      "|:---------|------:|",
+      "| a        | 1     |",
+      "| Name     | Value |",
+      "| b        | 2     |",
+      "",
+      "| Name | Value |",
+      "|------|-------|",
+      "| c    | 3     |",
+    ].join("\n")
+    expect(compressStructural(input)).toBe([
+      "| Name | Value |",
+      "|:-|-:|",
+      "| a | 1 |",
+      "| b | 2 |",
+      "| c | 3 |",
+    ].join("\n"))
+  })
+
+  it("dedupes back-to-back lines and later copies of long lines", () => {
+    const boilerplate = "This document is confidential and for internal use only."
+    const input = ["Intro", "Intro", boilerplate, "", "- ok", "- ok", "- later", "", boilerplate, "End"].join("\n")
+    expect(compressStructural(input)).toBe(["Intro", boilerplate, "", "- ok", "- later", "", "End"].join("\n"))
+  })
+
+  it("is deterministic and idempotent", () => {
+    const input = "**Bold**  text\n\n\n<!-- c -->\n```js\nx() // y\n```\n| a | b |\n|---|---|\n| 1 | 2 |"
+    const once = compressStructural(input)
+    expect(compressStructural(input)).toBe(once)
+    expect(compressStructural(once)).toBe(once)
+  })
+})
@@ -0,0 +1,270 @@
+/**
+ * Structural compression strategy: deterministic, local text cleanup.
+ * No LLM calls, so it runs instantly and offline.
+ *
+ * Prose loses markdown decoration, HTML comments, repeated table headers,
+ * duplicate lines and extra whitespace. Fenced code (or a whole `code` block)
+ * loses comments and blank lines; indentation is kept. When a comment can't
+ * be told apart from code with certainty, it is kept.
+ */
+
+import { FENCE_OPEN, splitFences } from "../../../../convex/lib/markdownFences"
+
+interface CommentSyntax {
+  line: string[]
+  block: Array<[string, string]>
+  /** Quotes that open strings; the triple ones and backticks may span lines */
+  quotes: string[]
+  /** Line comments only start at the beginning of a word (shell, YAML) */
+  lineAtWordStart?: boolean
+}
+
+const C_LIKE: CommentSyntax = { line: ["//"], block: [["/*", "*/"]], quotes: ['"', "'", "`"] }
+const HASH: CommentSyntax = { line: ["#"], block: [], quotes: ['"', "'"], lineAtWordStart: true }
+const PYTHON: CommentSyntax = { ...HASH, quotes: ['"""', "'''", '"', "'"] }
+const CSS: CommentSyntax = { line: [], block: [["/*", "*/"]], quotes: ['"', "'"] }
+const SCSS: CommentSyntax = { ...CSS, line: ["//"] }
+const SQL: CommentSyntax = { line: ["--"], block: [["/*", "*/"]], quotes: ['"', "'"] }
+const LUA: CommentSyntax = { line: ["--"], block: [["--[[", "]]"]], quotes: ['"', "'"] }
+const HASKELL: CommentSyntax = { line: ["--"], block: [["{-", "-}"]], quotes: ['"'] }
+const MARKUP: CommentSyntax = { line: [], block: [["<!--", "-->"]], quotes: [] }
+const PHP: CommentSyntax = { ...C_LIKE, line: ["//", "#"] }
+
+const COMMENT_SYNTAX: Record<string, CommentSyntax> = {
+  js: C_LIKE, javascript: C_LIKE, jsx: C_LIKE, mjs: C_LIKE, cjs: C_LIKE,
+  ts: C_LIKE, typescript: C_LIKE, tsx: C_LIKE,
+  java: C_LIKE, kotlin: C_LIKE, kt: C_LIKE, scala: C_LIKE, groovy: C_LIKE,
+  c: C_LIKE, h: C_LIKE, cpp: C_LIKE, "c++": C_LIKE, cc: C_LIKE, hpp: C_LIKE,
+  cs: C_LIKE, csharp: C_LIKE, go: C_LIKE, rust: C_LIKE, rs: C_LIKE,
+  swift: C_LIKE, dart: C_LIKE, proto: C_LIKE, jsonc: C_LIKE,
+  php: PHP,
+  css: CSS, scss: SCSS, less: SCSS,
+  python: PYTHON, py: PYTHON,
+  ruby: HASH, rb: HASH, sh: HASH, bash: HASH, zsh: HASH, shell: HASH,
+  yaml: HASH, yml: HASH, toml: HASH, r: HASH, perl: HASH, pl: HASH,
+  dockerfile: HASH, makefile: HASH, make: HASH, graphql: HASH,
+  sql: SQL, lua: LUA, haskell: HASKELL, hs: HASKELL,
+  html: MARKUP, xml: MARKUP, svg: MARKUP, vue: MARKUP, svelte: MARKUP,
+}
+
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)+\|?\s*$/
+const HORIZONTAL_RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/
+const SETEXT_UNDERLINE = /^ {0,3}(=+|-+)\s*$/
+
+// Lines shorter than this are only deduplicated when they repeat back to back
+const MIN_DEDUPE_LENGTH = 40
+
+/**
+ * Best guess at the language of unfenced code, for comment syntax.
+ */
+function guessLanguage(code: string): string | undefined {
+  if (/^\s*(?:def \w+\(.*\):|class \w+.*:\s*$|from [\w.]+ import |import \w+\s*$)/m.test(code)) return "python"
+  if (/^\s*<(?:!DOCTYPE|html|div|\?xml)/im.test(code)) return "html"
+  if (/^#!.*\b(?:ba|z)?sh\b/.test(code)) return "sh"
+  if (/(?:^|\s)\/\/|\/\*/m.test(code)) return "js"
+  return undefined
+}
+
+// Remove comments, skipping over string literals; a leading shebang is kept
+function stripCodeComments(code: string, language: string): string {
+  const syntax = COMMENT_SYNTAX[language.toLowerCase()]
+  if (!syntax) return code
+
+  let out = ""
+  let i = 0
+  while (i < code.length) {
+    if (i === 0 && code.startsWith("#!")) {
+      const end = code.indexOf("\n")
+      out += end === -1 ? code : code.slice(0, end)
+      i = end === -1 ? code.length : end
+      continue
+    }
+
+    const quote = syntax.quotes.find((q) => code.startsWith(q, i))
+    if (quote) {
+      const multiline = quote.length === 3 || quote === "`"
+      let j = i + quote.length
+      while (j < code.length && !code.startsWith(quote, j)) {
+        if (code[j] === "\\") j++
+        else if (code[j] === "\n" && !multiline) break
+        j++
+      }
+      const end = code.startsWith(quote, j) ? j + quote.length : j
+      out += code.slice(i, end)
+      i = end
+      continue
+    }
+
+    const block = syntax.block.find(([open]) => code.startsWith(open, i))
+    if (block) {
+      const close = code.indexOf(block[1], i + block[0].length)
+      i = close === -1 ? code.length : close + block[1].length
+      continue
+    }
+
+    const atWordStart = i === 0 || /\s/.test(code[i - 1])
+    if (syntax.line.some((marker) => code.startsWith(marker, i)) && (!syntax.lineAtWordStart || atWordStart)) {
+      const end = code.indexOf("\n", i)
+      i = end === -1 ? code.length : end
+      continue
+    }
+
+    out += code[i]
+    i++
+  }
+
+  return out
+}
+
+// Code keeps its indentation but not its blank lines or trailing spaces
+function compactCode(code: string, language: string | undefined): string[] {
+  const stripped = language ? stripCodeComments(code, language) : code
+  return stripped
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .filter((line) => line !== "")
+}
+
+// Apply fn to the parts of a line outside `inline code` spans
+function outsideInlineCode(line: string, fn: (text: string) => string): string {
+  return line
+    .split(/(`+[^`]*`+)/)
+    .map((part, i) => (i % 2 === 1 ? part : fn(part)))
+    .join("")
+}
+
+function stripDecoration(text: string): string {
+  return text
+    .replace(/\*\*(?=\S)([^*\n]+?)(?<=\S)\*\*/g, "$1")
+    .replace(/(^|[^*\w])\*(?=[^\s*])([^*\n]+?)(?<=[^\s*])\*(?![*\w])/g, "$1$2")
+    .replace(/(^|\W)_(?=[^\s_])([^_\n]+?)(?<=[^\s_])_(?!\w)/g, "$1$2")
+    .replace(/(?<!!)\[([^\]\n]+)\]\(\s*\1\s*\)/g, "$1")
+    .replace(/<((?:https?|mailto):[^>\s]+)>/g, "$1")
+}
+
+const normalizeRow = (line: string) =>
+  line.trim().replace(/^\||\|$/g, "").split("|").map((cell) => cell.trim()).join("|")
+
+// |:----|----:| → |:-|-:|
+const compactSeparator = (line: string) =>
+  "|" + normalizeRow(line).split("|").map((cell) => cell.replace(/-+/, "-")).join("|") + "|"
+
+function compactProse(lines: string[]): string[] {
+  const out: string[] = []
+  let tableHeader: string | null = null
+  let inTable = false
+
+  for (let i = 0; i < lines.length; i++) {
+    const raw = lines[i].trimEnd()
+    const next = lines[i + 1] ?? ""
+
+    if (raw.trim() === "") {
+      inTable = false
+      out.push("")
+      continue
+    }
+
+    if (raw.includes("|") && TABLE_SEPARATOR.test(next)) {
+      const header = normalizeRow(raw)
+      const lastLine = out.filter((l) => l !== "").at(-1)
+      // Same header again: continue the earlier table instead of starting one
+      if (header === tableHeader && lastLine !== undefined && lastLine.includes("|")) {
+        while (out.at(-1) === "") out.pop()
+        inTable = true
+        i++
+        continue
+      }
+      tableHeader = header
+      inTable = true
+      out.push(raw.replace(/(\S)[ \t]{2,}/g, "$1 "))
+      out.push(compactSeparator(next))
+      i++
+      continue
+    }
+    if (inTable && tableHeader !== null && normalizeRow(raw) === tableHeader) {
+      continue // header repeated inside the table (page breaks in pasted tables)
+    }
+
+    if (HORIZONTAL_RULE.test(raw)) {
+      const previous = out.at(-1)
+      // "Title\n---" is a heading, not a rule
+      if (previous && raw.trim().startsWith("-") && !/\||^\s*(?:[-*+>#]|\d+[.)])/.test(previous)) {
+        out[out.length - 1] = `## ${previous.trim()}`
+      }
+      continue
+    }
+    if (SETEXT_UNDERLINE.test(raw) && raw.trim().startsWith("=") && out.at(-1)) {
+      out[out.length - 1] = `# ${out[out.length - 1].trim()}`
+      continue
+    }
+
+    let line = raw.replace(/(\S)[ \t]{2,}/g, "$1 ")
+    line = line.replace(/^( {0,3}#{1,6}\s+.*?)\s+#+$/, "$1")
+    line = outsideInlineCode(line, stripDecoration)
+    out.push(line)
+  }
+  return out
+}
+
+// Drop back-to-back repeats, and later copies of long lines anywhere
+function dedupeLines(lines: string[], seen: Set<string>): string[] {
+  const out: string[] = []
+  for (const line of lines) {
+    const key = line.trim()
+    if (key !== "" && out.at(-1)?.trim() === key) continue
+    if (key.length >= MIN_DEDUPE_LENGTH && !TABLE_SEPARATOR.test(key)) {
+      if (seen.has(key)) continue
+      seen.add(key)
+    }
+    out.push(line)
+  }
+  return out
+}
+
+// At most one blank line in a row, none at the ends
+function collapseBlankLines(lines: string[]): string[] {
+  const out: string[] = []
+  for (const line of lines) {
+    if (line === "" && (out.length === 0 || out.at(-1) === "")) continue
+    out.push(line)
+  }
+  while (out.at(-1) === "") out.pop()
+  return out
+}
+
+/**
+ * Compress content using the structural (deterministic, local) strategy.
+ */
+export function compressStructural(
+  content: string,
+  options: {
+    contentType?: string
+  } = {}
+): string {
+  const normalized = content.replace(/\r\n?/g, "\n")
+  const hasFences = normalized.split("\n").some((line) => FENCE_OPEN.test(line))
+
+  if (options.contentType === "code" && !hasFences) {
+    return compactCode(normalized, guessLanguage(normalized)).join("\n")
+  }
+
+  const lines: string[] = []
+  const seen = new Set<string>()
+  for (const segment of splitFences(normalized.split("\n"))) {
+    if (segment.fence) {
+      const [open, ...rest] = segment.lines
+      const closed = segment.closed === true
+      const body = closed ? rest.slice(0, -1) : rest
+      const language = open.match(FENCE_OPEN)?.[2] || guessLanguage(body.join("\n"))
+      lines.push(open.trimEnd(), ...compactCode(body.join("\n"), language), ...(closed ? [rest[rest.length - 1].trim()] : []))
+    } else {
+      // A comment on lines of its own goes with its line break
+      const text = segment.lines
+        .join("\n")
+        .replace(/^[ \t]*<!--[\s\S]*?-->[ \t]*(?:\n|$)/gm, "")
+        .replace(/<!--[\s\S]*?-->/g, "")
+      lines.push(...dedupeLines(compactProse(text.split("\n")), seen))
+    }
+  }
+  return collapseBlankLines(lines).join("\n")
+}
@@ -2,15 +2,19 @@
  * Compression types and interfaces.
  */
 
+import type { ChatResult, ClientProviderId } from "@/lib/llm/provider"
+import type { FidelityReport } from "../../../convex/lib/compressionFidelity"
+
 /**
  * Available compression strategies.
  */
 export type CompressionStrategy = "semantic" | "structural" | "statistical"
 
 /**
- * LLM providers that can perform compression.
+ * LLM providers that can perform compression: any client-side registry provider,
+ * or Claude Code via Convex action.
  */
-export type CompressionProvider = "ollama" | "openrouter" | "claude-code"
+export type CompressionProvider = ClientProviderId | "claude-code"
 
 /**
  * Request to compress one or more blocks.
@@ -40,6 +44,9 @@ export interface CompressionResult {
   compressedContent?: string
   strategy: CompressionStrategy
 
+  // Facts of the original missing from the compressed content
+  fidelity?: FidelityReport
+
   // Metadata
   provider?: CompressionProvider
   model?: string
@@ -94,12 +101,10 @@ export interface ZoneCompressionOptions {
  */
 export interface ProviderConfig {
   provider: CompressionProvider
-  // Ollama
-  ollamaUrl?: string
-  ollamaModel?: string
-  // OpenRouter
-  openrouterApiKey?: string
-  openrouterModel?: string
+  // Model override; API keys and URLs come from settings via the provider registry
+  model?: string
+  // Called with the usage of each LLM call, for the cost ledger
+  onUsage?: (provider: ClientProviderId, usage: ChatResult) => void
 }
 
 /**
@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest"
+import { buildContextManifest, diffContextManifest } from "./contextManifest"
+
+const blocks = [
+  { _id: "b2", content: "Goals", type: "note", zone: "WORKING", position: 0, tokens: 5, contentHash: "h2" },
+  { _id: "b1", content: "Persona", type: "persona", zone: "PERMANENT", position: 0, tokens: 10, contentHash: "h1" },
+  { _id: "b3", content: "Draft", type: "note", zone: "WORKING", position: 1, contextMode: "draft" as const },
+  { _id: "b4", content: "Criteria", type: "note", zone: "STABLE", position: 0, contextMode: "validation" as const },
+]
+
+const build = (overrides: Partial<Parameters<typeof buildContextManifest>[0]> = {}) =>
+  buildContextManifest({
+    blocks,
+    memoryEntryIds: ["m1"],
+    activeSkills: { "clarifying-questions": false, critic: true },
+    provider: "claude",
+    model: "claude-sonnet",
+    ...overrides,
+  })
+
+describe("buildContextManifest", () => {
+  it("records included blocks in zone order with hashes and tokens", () => {
+    const manifest = build()
+    expect(manifest.blocks).toEqual([
+      { id: "b1", zone: "PERMANENT", type: "persona", contentHash: "h1", tokens: 10 },
+      { id: "b2", zone: "WORKING", type: "note", contentHash: "h2", tokens: 5 },
+    ])
+    expect(manifest.memoryEntryIds).toEqual(["m1"])
+    expect(manifest.skills).toEqual(["critic"])
+    expect(manifest.model).toBe("claude-sonnet")
+    expect(manifest.mode).toBe("brainstorm")
+  })
+
+  it("includes validation blocks in validation mode and hashes content without a stored hash", () => {
+    const manifest = build({ mode: "validation" })
+    const criteria = manifest.blocks.find((b) => b.id === "b4")
+    expect(criteria?.contentHash).toMatch(/\S/)
+    expect(manifest.blocks.some((b) => b.id === "b3")).toBe(false)
+  })
+})
+
+describe("diffContextManifest", () => {
+  it("reports no changes against an identical state", () => {
+    expect(diffContextManifest(build(), build()).unchanged).toBe(true)
+  })
+
+  it("classifies edited, moved, removed and added blocks", () => {
+    const then = build()
+    const now = build({
+      blocks: [
+        { ...blocks[0], zone: "STABLE" },
+        { ...blocks[1], contentHash: "h1-edited", tokens: 12 },
+        { _id: "b5", content: "New", type: "note", zone: "WORKING", position: 2, tokens: 3, contentHash: "h5" },
+      ],
+    })
+    const diff = diffContextManifest(then, now)
+    expect(diff.blocks.map((b) => [b.id, b.status])).toEqual([
+      ["b1", "edited"],
+      ["b2", "moved"],
+      ["b5", "added"],
+    ])
+    expect(diff.tokens).toEqual({ then: 15, now: 20 })
+    expect(diff.unchanged).toBe(false)
+
+    const removed = diffContextManifest(then, build({ blocks: [blocks[1]] }))
+    expect(removed.blocks.find((b) => b.id === "b2")?.status).toBe("removed")
+  })
+
+  it("reports memory, skill and model changes", () => {
+    const diff = diffContextManifest(
+      build(),
+      build({ memoryEntryIds: ["m2"], activeSkills: { "clarifying-questions": true }, model: "claude-opus" })
+    )
+    expect(diff.memory).toEqual({ added: ["m2"], removed: ["m1"] })
+    expect(diff.skills).toEqual({ added: ["clarifying-questions"], removed: ["critic"] })
+    expect(diff.model).toEqual({ then: "claude-sonnet", now: "claude-opus", changed: true })
+  })
+})
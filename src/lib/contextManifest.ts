@@ -0,0 +1,160 @@
+/**
+ * Context provenance for brainstorm replies.
+ *
+ * A manifest records what was in the context when a reply was generated:
+ * the blocks that were assembled (with content hashes, zones and tokens),
+ * the project memory entries rendered into the system prompt, the active
+ * skills and the model. Diffing a manifest against one built from the
+ * current session shows what has changed since.
+ */
+
+import { computeContentHash } from "../../convex/lib/contentHash"
+import { isBlockExcluded } from "@/lib/llm/context"
+
+export type ContextMode = "brainstorm" | "validation"
+
+export interface ManifestBlock {
+  id: string
+  zone: string
+  type: string
+  contentHash: string
+  tokens?: number
+}
+
+export interface ContextManifest {
+  blocks: ManifestBlock[]
+  /** Project memory entries rendered into the prompt */
+  memoryEntryIds: string[]
+  /** Active ephemeral skill ids */
+  skills: string[]
+  provider: string
+  model?: string
+  mode: ContextMode
+  createdAt: number
+}
+
+interface ManifestSourceBlock {
+  _id: string
+  content: string
+  type: string
+  zone: string
+  position: number
+  contextMode?: "default" | "draft" | "validation"
+  tokens?: number
+  contentHash?: string
+}
+
+const ZONE_ORDER: Record<string, number> = { PERMANENT: 0, STABLE: 1, WORKING: 2 }
+
+/**
+ * Manifest for a turn, from the blocks and memory the turn's context is assembled from.
+ * Draft blocks (and criteria outside validation mode) are left out, as in assembly.
+ */
+export function buildContextManifest(input: {
+  blocks: ManifestSourceBlock[]
+  memoryEntryIds: string[]
+  activeSkills: Record<string, boolean>
+  provider: string
+  model?: string | null
+  mode?: ContextMode
+}): ContextManifest {
+  const mode = input.mode ?? "brainstorm"
+  const blocks = input.blocks
+    .filter((b) => !isBlockExcluded(b, mode))
+    .sort((a, b) => (ZONE_ORDER[a.zone] ?? 3) - (ZONE_ORDER[b.zone] ?? 3) || a.position - b.position)
+    .map((b) => ({
+      id: b._id,
+      zone: b.zone,
+      type: b.type,
+      contentHash: b.contentHash || computeContentHash(b.content),
+      ...(b.tokens !== undefined && { tokens: b.tokens }),
+    }))
+
+  return {
+    blocks,
+    memoryEntryIds: [...input.memoryEntryIds],
+    skills: Object.entries(input.activeSkills)
+      .filter(([, enabled]) => enabled)
+      .map(([id]) => id),
+    provider: input.provider,
+    ...(input.model && { model: input.model }),
+    mode,
+    createdAt: Date.now(),
+  }
+}
+
+export type ManifestBlockStatus = "unchanged" | "edited" | "moved" | "removed" | "added"
+
+export interface ManifestBlockDiff {
+  id: string
+  status: ManifestBlockStatus
+  /** Block as recorded in the manifest (missing for added blocks) */
+  then?: ManifestBlock
+  /** Block as it is now (missing for removed blocks) */
+  now?: ManifestBlock
+}
+
+export interface ContextManifestDiff {
+  /** Recorded blocks in manifest order, then blocks added since */
+  blocks: ManifestBlockDiff[]
+  memory: { added: string[]; removed: string[] }
+  skills: { added: string[]; removed: string[] }
+  model: { then?: string; now?: string; changed: boolean }
+  tokens: { then: number; now: number }
+  /** Nothing that reaches the model has changed */
+  unchanged: boolean
+}
+
+const sumTokens = (blocks: ManifestBlock[]) => blocks.reduce((sum, b) => sum + (b.tokens ?? 0), 0)
+
+function diffLists(then: string[], now: string[]) {
+  const thenSet = new Set(then)
+  const nowSet = new Set(now)
+  return {
+    added: now.filter((id) => !thenSet.has(id)),
+    removed: then.filter((id) => !nowSet.has(id)),
+  }
+}
+
+/**
+ * Compare a recorded manifest with the current one. A block is "edited" when
+ * its content hash differs and "moved" when only its zone does.
+ */
+export function diffContextManifest(then: ContextManifest, now: ContextManifest): ContextManifestDiff {
+  const nowById = new Map(now.blocks.map((b) => [b.id, b]))
+  const thenIds = new Set(then.blocks.map((b) => b.id))
+
+  const blocks: ManifestBlockDiff[] = then.blocks.map((recorded) => {
+    const current = nowById.get(recorded.id)
+    if (!current) return { id: recorded.id, status: "removed", then: recorded }
+    const status: ManifestBlockStatus =
+      current.contentHash !== recorded.contentHash
+        ? "edited"
+        : current.zone !== recorded.zone
+          ? "moved"
+          : "unchanged"
+    return { id: recorded.id, status, then: recorded, now: current }
+  })
+  for (const current of now.blocks) {
+    if (!thenIds.has(current.id)) blocks.push({ id: current.id, status: "added", now: current })
+  }
+
+  const memory = diffLists(then.memoryEntryIds, now.memoryEntryIds)
+  const skills = diffLists(then.skills, now.skills)
+  const modelChanged = (then.model ?? then.provider) !== (now.model ?? now.provider)
+
+  return {
+    blocks,
+    memory,
+    skills,
+    model: { then: then.model ?? then.provider, now: now.model ?? now.provider, changed: modelChanged },
+    tokens: { then: sumTokens(then.blocks), now: sumTokens(now.blocks) },
+    unchanged:
+      blocks.every((b) => b.status === "unchanged") &&
+      memory.added.length === 0 &&
+      memory.removed.length === 0 &&
+      skills.added.length === 0 &&
+      skills.removed.length === 0 &&
+      !modelChanged,
+  }
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest"
+import {
+  defaultLeaf,
+  getBranch,
+  getBranchPosition,
+  getChildren,
+  removeSubtree,
+  switchBranch,
+  withParents,
+  type TreeNode,
+} from "./conversationTree"
+
+// u1 → a1 → u2 → a2
+//    ↘ a1b → u3
+// u1b (edited root)
+const tree: TreeNode[] = [
+  { id: "u1", parentId: null },
+  { id: "a1", parentId: "u1" },
+  { id: "u2", parentId: "a1" },
+  { id: "a2", parentId: "u2" },
+  { id: "a1b", parentId: "u1" },
+  { id: "u3", parentId: "a1b" },
+  { id: "u1b", parentId: null },
+]
+
+const ids = (nodes: TreeNode[]) => nodes.map((n) => n.id)
+
+describe("withParents", () => {
+  it("chains legacy messages without parent links", () => {
+    expect(withParents([{ id: "a" }, { id: "b" }, { id: "c", parentId: "a" }])).toEqual([
+      { id: "a", parentId: null },
+      { id: "b", parentId: "a" },
+      { id: "c", parentId: "a" },
+    ])
+  })
+})
+
+describe("getBranch", () => {
+  it("returns the path from the root to the leaf", () => {
+    expect(ids(getBranch(tree, "a2"))).toEqual(["u1", "a1", "u2", "a2"])
+    expect(ids(getBranch(tree, "u3"))).toEqual(["u1", "a1b", "u3"])
+  })
+
+  it("returns nothing for a missing leaf", () => {
+    expect(getBranch(tree, null)).toEqual([])
+    expect(getBranch(tree, "nope")).toEqual([])
+  })
+
+  it("follows implicit links in legacy lists", () => {
+    expect(ids(getBranch([{ id: "a" }, { id: "b" }, { id: "c" }], "c"))).toEqual(["a", "b", "c"])
+  })
+})
+
+describe("getBranchPosition", () => {
+  it("counts siblings in creation order", () => {
+    expect(getBranchPosition(tree, "a1b")).toMatchObject({ index: 1, count: 2 })
+    expect(getBranchPosition(tree, "u1")).toMatchObject({ index: 0, count: 2 })
+    expect(getBranchPosition(tree, "a2")).toMatchObject({ index: 0, count: 1 })
+  })
+})
+
+describe("switchBranch", () => {
+  it("moves to a sibling and follows its newest replies", () => {
+    expect(switchBranch(tree, "a1", 1)).toBe("u3")
+    expect(switchBranch(tree, "a1b", -1)).toBe("a2")
+    expect(switchBranch(tree, "u1", 1)).toBe("u1b")
+  })
+
+  it("returns null past either end", () => {
+    expect(switchBranch(tree, "a1", -1)).toBeNull()
+    expect(switchBranch(tree, "u1b", 1)).toBeNull()
+  })
+})
+
+describe("removeSubtree", () => {
+  it("removes a node and its descendants", () => {
+    expect(ids(removeSubtree(tree, "a1"))).toEqual(["u1", "a1b", "u3", "u1b"])
+  })
+
+  it("keeps linked parents when removing from a legacy list", () => {
+    const remaining = removeSubtree([{ id: "a" }, { id: "b" }, { id: "c" }], "c")
+    expect(remaining).toEqual([
+      { id: "a", parentId: null },
+      { id: "b", parentId: "a" },
+    ])
+  })
+})
+
+describe("defaultLeaf / getChildren", () => {
+  it("defaults to the newest message and lists roots for null", () => {
+    expect(defaultLeaf(tree)).toBe("u1b")
+    expect(defaultLeaf([])).toBeNull()
+    expect(ids(getChildren(tree, null))).toEqual(["u1", "u1b"])
+  })
+})
@@ -0,0 +1,113 @@
+/**
+ * Branching conversation trees for brainstorm threads.
+ *
+ * Messages are kept as a flat list in creation order, each pointing at its
+ * parent. Editing or retrying adds a sibling instead of overwriting, and the
+ * visible conversation is the path from the root to the active leaf.
+ *
+ * `parentId` undefined means "follows the previous message" — conversations
+ * saved before branching existed are linear lists without parent links.
+ */
+
+export interface TreeNode {
+  id: string
+  /** Parent message id; null for a root, undefined for legacy linear messages */
+  parentId?: string | null
+}
+
+export interface BranchPosition {
+  /** 0-based index among siblings (creation order) */
+  index: number
+  count: number
+  siblingIds: string[]
+}
+
+/**
+ * Fill in missing parent links so legacy linear lists become a single chain.
+ */
+export function withParents<T extends TreeNode>(nodes: T[]): Array<T & { parentId: string | null }> {
+  return nodes.map((node, i) => ({
+    ...node,
+    parentId: node.parentId !== undefined ? node.parentId : i > 0 ? nodes[i - 1].id : null,
+  }))
+}
+
+function parentOf(nodes: TreeNode[], index: number): string | null {
+  const node = nodes[index]
+  if (node.parentId !== undefined) return node.parentId
+  return index > 0 ? nodes[index - 1].id : null
+}
+
+/**
+ * Children of a node (or the roots for null), in creation order.
+ */
+export function getChildren<T extends TreeNode>(nodes: T[], parentId: string | null): T[] {
+  return nodes.filter((_, i) => parentOf(nodes, i) === parentId)
+}
+
+/**
+ * Messages from the root to a leaf. Returns [] for a null or unknown leaf.
+ */
+export function getBranch<T extends TreeNode>(nodes: T[], leafId: string | null): T[] {
+  const indexById = new Map(nodes.map((n, i) => [n.id, i]))
+  const path: T[] = []
+  let index = leafId !== null ? indexById.get(leafId) : undefined
+  while (index !== undefined && path.length < nodes.length) {
+    path.push(nodes[index])
+    const parentId = parentOf(nodes, index)
+    index = parentId !== null ? indexById.get(parentId) : undefined
+  }
+  return path.reverse()
+}
+
+/**
+ * Follow the newest child from a node down to a leaf.
+ */
+export function latestLeaf(nodes: TreeNode[], fromId: string): string {
+  let leafId = fromId
+  for (;;) {
+    const children = getChildren(nodes, leafId)
+    if (children.length === 0) return leafId
+    leafId = children[children.length - 1].id
+  }
+}
+
+/**
+ * Default leaf when none is stored: the newest message's branch.
+ */
+export function defaultLeaf(nodes: TreeNode[]): string | null {
+  return nodes.length > 0 ? nodes[nodes.length - 1].id : null
+}
+
+/**
+ * Where a message sits among its siblings (for the ‹ 2/3 › navigator).
+ */
+export function getBranchPosition(nodes: TreeNode[], id: string): BranchPosition | null {
+  const index = nodes.findIndex((n) => n.id === id)
+  if (index === -1) return null
+  const siblingIds = getChildren(nodes, parentOf(nodes, index)).map((n) => n.id)
+  return { index: siblingIds.indexOf(id), count: siblingIds.length, siblingIds }
+}
+
+/**
+ * Leaf to activate when switching a message to its sibling `offset` steps away
+ * (-1 = previous, 1 = next). Returns null when there's no such sibling.
+ */
+export function switchBranch(nodes: TreeNode[], id: string, offset: number): string | null {
+  const position = getBranchPosition(nodes, id)
+  if (!position) return null
+  const target = position.siblingIds[position.index + offset]
+  return target ? latestLeaf(nodes, target) : null
+}
+
+/**
+ * Remove a node and everything below it. Returns the remaining nodes.
+ */
+export function removeSubtree<T extends TreeNode>(nodes: T[], id: string): T[] {
+  const linked = withParents(nodes)
+  const removed = new Set([id])
+  for (const node of linked) {
+    if (node.parentId !== null && removed.has(node.parentId)) removed.add(node.id)
+  }
+  return linked.filter((n) => !removed.has(n.id))
+}
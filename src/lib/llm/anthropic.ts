@@ -0,0 +1,281 @@
+/**
+ * Client-side Anthropic Messages API client.
+ * Calls the Anthropic API directly from the browser using user's API key.
+ *
+ * Unlike OpenRouter/Ollama, the request takes a separate `system` array and
+ * content blocks, so callers pass an AnthropicPrompt built by
+ * context.assembleAnthropicPrompt() — its cache_control breakpoints are sent as-is.
+ *
+ * API Documentation: https://docs.anthropic.com/en/api/messages
+ */
+
+import { anthropic as settings } from "./settings"
+import type { AnthropicPrompt } from "./context"
+import type { ModelPricing } from "./provider"
+
+export interface AnthropicUsage {
+  input_tokens?: number
+  output_tokens?: number
+  cache_creation_input_tokens?: number | null
+  cache_read_input_tokens?: number | null
+}
+
+/**
+ * Server-sent event payloads we care about. Other event types
+ * (content_block_start/stop, ping) are ignored.
+ */
+export type AnthropicStreamEvent =
+  | { type: "message_start"; message: { model: string; usage: AnthropicUsage } }
+  | { type: "content_block_delta"; index: number; delta: { type: string; text?: string } }
+  | { type: "message_delta"; delta: { stop_reason?: string | null }; usage?: AnthropicUsage }
+  | { type: "message_stop" }
+  | { type: "error"; error: { type: string; message: string } }
+
+export interface AnthropicModel {
+  id: string
+  display_name: string
+  created_at: string
+}
+
+export interface StreamChatOptions {
+  model?: string
+  temperature?: number
+  topP?: number
+  maxTokens?: number
+  signal?: AbortSignal
+}
+
+export interface StreamChatResult {
+  text: string
+  /** Uncached input tokens (excludes cache reads/writes) */
+  promptTokens?: number
+  completionTokens?: number
+  /** Input tokens written to the prompt cache (billed at 1.25x) */
+  cacheWriteTokens?: number
+  /** Input tokens served from the prompt cache (billed at 0.1x) */
+  cacheReadTokens?: number
+  stopReason?: string
+  model?: string
+}
+
+const ANTHROPIC_URL = "https://api.anthropic.com/v1"
+const ANTHROPIC_VERSION = "2023-06-01"
+const DEFAULT_MAX_TOKENS = 8192
+
+// $ per token for input/output; more specific prefixes first (as in modelCatalog.ts)
+const PRICING: Array<{ prefix: string; input: number; output: number }> = [
+  { prefix: "claude-opus-4-6", input: 5 / 1e6, output: 25 / 1e6 },
+  { prefix: "claude-opus-4-5", input: 5 / 1e6, output: 25 / 1e6 },
+  { prefix: "claude-opus-4", input: 15 / 1e6, output: 75 / 1e6 },
+  { prefix: "claude-sonnet-4", input: 3 / 1e6, output: 15 / 1e6 },
+  { prefix: "claude-3-7-sonnet", input: 3 / 1e6, output: 15 / 1e6 },
+  { prefix: "claude-3-5-sonnet", input: 3 / 1e6, output: 15 / 1e6 },
+  { prefix: "claude-haiku-4", input: 1 / 1e6, output: 5 / 1e6 },
+  { prefix: "claude-3-5-haiku", input: 0.8 / 1e6, output: 4 / 1e6 },
+]
+
+function buildHeaders(apiKey: string): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    "x-api-key": apiKey,
+    "anthropic-version": ANTHROPIC_VERSION,
+    // Required for CORS — the key is the user's own, stored in their browser
+    "anthropic-dangerous-direct-browser-access": "true",
+  }
+}
+
+/**
+ * Get pricing for a Claude model from the built-in table.
+ * Cache writes cost 1.25x input, cache reads 0.1x input.
+ * Returns null for unknown models.
+ */
+export function getModelPricing(modelId: string): ModelPricing | null {
+  const entry = PRICING.find((p) => modelId.startsWith(p.prefix))
+  if (!entry) return null
+  return {
+    input: entry.input,
+    output: entry.output,
+    cacheWrite: entry.input * 1.25,
+    cacheRead: entry.input * 0.1,
+  }
+}
+
+/**
+ * Stream a message from the Anthropic Messages API.
+ * Returns an async generator of text chunks.
+ */
+export async function* streamChat(
+  prompt: AnthropicPrompt,
+  options?: StreamChatOptions
+): AsyncGenerator<string, StreamChatResult, unknown> {
+  const apiKey = settings.getApiKey()
+  if (!apiKey) {
+    throw new Error("Anthropic API key not configured. Please add your API key in Settings.")
+  }
+
+  const model = options?.model || settings.getModel()
+
+  const response = await fetch(`${ANTHROPIC_URL}/messages`, {
+    method: "POST",
+    headers: buildHeaders(apiKey),
+    body: JSON.stringify({
+      model,
+      system: prompt.system,
+      messages: prompt.messages,
+      stream: true,
+      max_tokens: options?.maxTokens ?? DEFAULT_MAX_TOKENS,
+      temperature: options?.temperature ?? 0.7,
+      top_p: options?.topP,
+    }),
+    signal: options?.signal,
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(
+      `Anthropic error: ${response.status} ${response.statusText} - ${errorText}`
+    )
+  }
+
+  if (!response.body) {
+    throw new Error("No response body from Anthropic")
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+  const result: StreamChatResult = { text: "" }
+
+  // Returns text to yield, if any. Throws on stream error events.
+  const handleLine = (line: string): string | undefined => {
+    const trimmed = line.trim()
+    if (!trimmed.startsWith("data: ")) return undefined
+
+    let event: AnthropicStreamEvent
+    try {
+      event = JSON.parse(trimmed.slice(6))
+    } catch {
+      // Skip malformed JSON lines
+      return undefined
+    }
+
+    switch (event.type) {
+      case "message_start":
+        result.model = event.message.model
+        result.promptTokens = event.message.usage.input_tokens
+        result.cacheWriteTokens = event.message.usage.cache_creation_input_tokens ?? undefined
+        result.cacheReadTokens = event.message.usage.cache_read_input_tokens ?? undefined
+        result.completionTokens = event.message.usage.output_tokens
+        return undefined
+      case "content_block_delta":
+        if (event.delta.type === "text_delta" && event.delta.text) {
+          result.text += event.delta.text
+          return event.delta.text
+        }
+        return undefined
+      case "message_delta":
+        // output_tokens here is cumulative for the whole message
+        if (event.usage?.output_tokens !== undefined) {
+          result.completionTokens = event.usage.output_tokens
+        }
+        result.stopReason = event.delta.stop_reason ?? undefined
+        return undefined
+      case "error":
+        throw new Error(`Anthropic error: ${event.error.type} - ${event.error.message}`)
+      default:
+        return undefined
+    }
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split("\n")
+    buffer = lines.pop() || ""
+
+    for (const line of lines) {
+      const text = handleLine(line)
+      if (text) yield text
+    }
+  }
+
+  // Process any remaining buffer
+  if (buffer.trim()) {
+    const text = handleLine(buffer)
+    if (text) yield text
+  }
+
+  return result
+}
+
+/**
+ * Check if the Anthropic API is reachable and the API key is valid.
+ */
+export async function checkHealth(): Promise<{
+  ok: boolean
+  configured: boolean
+  error?: string
+  model?: string
+}> {
+  const apiKey = settings.getApiKey()
+
+  // Return early if no API key - don't make network request
+  if (!apiKey || apiKey.trim() === "") {
+    return {
+      ok: false,
+      configured: false,
+    }
+  }
+
+  try {
+    const response = await fetch(`${ANTHROPIC_URL}/models?limit=1`, {
+      method: "GET",
+      headers: buildHeaders(apiKey),
+      signal: AbortSignal.timeout(5000),
+    })
+
+    if (!response.ok) {
+      return {
+        ok: false,
+        configured: true,
+        error: `API error: ${response.status} ${response.statusText}`,
+      }
+    }
+
+    return {
+      ok: true,
+      configured: true,
+      model: settings.getModel(),
+    }
+  } catch (error) {
+    return {
+      ok: false,
+      configured: true,
+      error: error instanceof Error ? error.message : "Unknown error",
+    }
+  }
+}
+
+/**
+ * List models available to the configured API key.
+ */
+export async function listModels(): Promise<AnthropicModel[]> {
+  const apiKey = settings.getApiKey()
+  if (!apiKey) {
+    throw new Error("Anthropic API key not configured")
+  }
+
+  const response = await fetch(`${ANTHROPIC_URL}/models?limit=100`, {
+    method: "GET",
+    headers: buildHeaders(apiKey),
+  })
+
+  if (!response.ok) {
+    throw new Error(`Anthropic error: ${response.status} ${response.statusText}`)
+  }
+
+  const data = (await response.json()) as { data: AnthropicModel[] }
+  return data.data || []
+}
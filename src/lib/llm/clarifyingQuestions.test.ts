@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest"
+import {
+  formatAnswersMessage,
+  formatAnswersNote,
+  parseClarifyingQuestions,
+} from "./clarifyingQuestions"
+
+const reply = `A few things first.
+
+\`\`\`questions
+{"questions": [
+  {"id": "audience", "question": "Who is the audience?", "options": ["Casual", "Competitive", ""]},
+  {"id": "scope", "question": "What is out of scope?"}
+]}
+\`\`\``
+
+describe("parseClarifyingQuestions", () => {
+  it("reads a questions block and keeps the surrounding text", () => {
+    expect(parseClarifyingQuestions(reply)).toEqual({
+      intro: "A few things first.",
+      questions: [
+        { id: "audience", question: "Who is the audience?", options: ["Casual", "Competitive"] },
+        { id: "scope", question: "What is out of scope?" },
+      ],
+    })
+  })
+
+  it("accepts bare JSON and json blocks shaped like questions", () => {
+    const bare = parseClarifyingQuestions('{"questions": ["Which platform?"]}')
+    expect(bare?.questions).toEqual([{ id: "q1", question: "Which platform?" }])
+
+    const json = parseClarifyingQuestions('```json\n{"questions": [{"question": "Budget?"}]}\n```')
+    expect(json?.questions).toHaveLength(1)
+  })
+
+  it("ignores ordinary replies and other code blocks", () => {
+    expect(parseClarifyingQuestions("Here is the design.")).toBeNull()
+    expect(parseClarifyingQuestions('```json\n{"name": "x"}\n```')).toBeNull()
+    expect(parseClarifyingQuestions("```questions\nnot json\n```")).toBeNull()
+    expect(parseClarifyingQuestions('```questions\n{"questions": []}\n```')).toBeNull()
+  })
+
+  it("finds the questions block after other code blocks", () => {
+    const parsed = parseClarifyingQuestions(
+      'Current setup:\n\n```ts\nconst a = 1\n```\n\n```questions\n{"questions": ["Keep it?"]}\n```'
+    )
+    expect(parsed).toEqual({
+      intro: "Current setup:\n\n```ts\nconst a = 1\n```",
+      questions: [{ id: "q1", question: "Keep it?" }],
+    })
+
+    const json = parseClarifyingQuestions('```\nplain\n```\n\n```json\n{"questions": ["Which?"]}\n```')
+    expect(json?.questions).toEqual([{ id: "q1", question: "Which?" }])
+  })
+
+  it("makes duplicate ids unique", () => {
+    const parsed = parseClarifyingQuestions(
+      '{"questions": [{"id": "a", "question": "One?"}, {"id": "a", "question": "Two?"}]}'
+    )
+    expect(parsed?.questions.map((q) => q.id)).toEqual(["a", "a-2"])
+  })
+})
+
+describe("answers", () => {
+  const questions = [
+    { id: "audience", question: "Who is the audience?" },
+    { id: "scope", question: "What is out of scope?" },
+  ]
+
+  it("lists every question in the answers message", () => {
+    expect(formatAnswersMessage(questions, { audience: " Casual " })).toBe(
+      "Answers to your questions:\n\n" +
+        "1. Who is the audience?\n   → Casual\n" +
+        "2. What is out of scope?\n   → (no answer — use your judgement)"
+    )
+  })
+
+  it("keeps only answered questions in the note", () => {
+    expect(formatAnswersNote(questions, { scope: "Multiplayer" })).toBe(
+      "## Clarifications\n\n**What is out of scope?**\nMultiplayer"
+    )
+  })
+})
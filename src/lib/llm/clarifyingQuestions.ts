@@ -0,0 +1,122 @@
+/**
+ * Clarifying-questions mode: parse the model's `questions` block and fold the
+ * user's answers into the next turn.
+ *
+ * The "Clarifying Questions" skill asks the model to reply with a fenced
+ * `questions` JSON block when a request is ambiguous. The dialog renders the
+ * block as a form; the answers go back as an ordinary user message (and can be
+ * kept as a WORKING note), so this works the same for every provider.
+ */
+
+import { FENCE_OPEN, splitFences } from "../../../convex/lib/markdownFences"
+
+export interface ClarifyingQuestion {
+  id: string
+  question: string
+  /** Suggested answers (the user can still write their own) */
+  options?: string[]
+}
+
+export interface ClarifyingQuestions {
+  /** Text outside the questions block */
+  intro: string
+  questions: ClarifyingQuestion[]
+}
+
+/** Answers keyed by question id */
+export type ClarifyingAnswers = Record<string, string>
+
+/** First line of an answers message; the skill prompt refers to it */
+export const ANSWERS_HEADING = "Answers to your questions:"
+
+const MAX_QUESTIONS = 8
+
+function toQuestions(value: unknown): ClarifyingQuestion[] | null {
+  const list = Array.isArray(value)
+    ? value
+    : value && typeof value === "object" && Array.isArray((value as { questions?: unknown }).questions)
+      ? (value as { questions: unknown[] }).questions
+      : null
+  if (!list) return null
+
+  const questions: ClarifyingQuestion[] = []
+  const seen = new Set<string>()
+  for (const item of list.slice(0, MAX_QUESTIONS)) {
+    const raw = typeof item === "string" ? { question: item } : (item as Record<string, unknown>)
+    if (!raw || typeof raw.question !== "string" || !raw.question.trim()) continue
+    let id = typeof raw.id === "string" && raw.id.trim() ? raw.id.trim() : `q${questions.length + 1}`
+    if (seen.has(id)) id = `${id}-${questions.length + 1}`
+    seen.add(id)
+    const options = Array.isArray(raw.options)
+      ? raw.options.filter((o): o is string => typeof o === "string" && o.trim() !== "").map((o) => o.trim())
+      : []
+    questions.push({ id, question: raw.question.trim(), ...(options.length > 0 && { options }) })
+  }
+  return questions.length > 0 ? questions : null
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch {
+    return null
+  }
+}
+
+const hasQuestionsKey = (parsed: unknown) => !!parsed && typeof parsed === "object" && "questions" in parsed
+
+/**
+ * Questions from an assistant reply, or null if it isn't a questions reply.
+ * Accepts a ```questions block, another fenced block whose JSON has a
+ * "questions" key, or a reply that is only that JSON. Other code blocks in the
+ * reply are left alone.
+ */
+export function parseClarifyingQuestions(content: string): ClarifyingQuestions | null {
+  const segments = splitFences(content.split("\n"))
+  const fences = segments
+    .filter((segment) => segment.fence)
+    .map((segment) => ({
+      segment,
+      language: segment.lines[0].match(FENCE_OPEN)?.[2],
+      parsed: parseJson(segment.lines.slice(1, segment.closed ? -1 : undefined).join("\n").trim()),
+    }))
+  const block =
+    fences.find((fence) => fence.language === "questions") ?? fences.find((fence) => hasQuestionsKey(fence.parsed))
+  if (block) {
+    const questions = toQuestions(block.parsed)
+    if (!questions) return null
+    const intro = segments
+      .filter((segment) => segment !== block.segment)
+      .map((segment) => segment.lines.join("\n"))
+      .join("\n")
+      .trim()
+    return { intro, questions }
+  }
+
+  const trimmed = content.trim()
+  if (!trimmed.startsWith("{")) return null
+  const parsed = parseJson(trimmed)
+  if (!hasQuestionsKey(parsed)) return null
+  const questions = toQuestions(parsed)
+  return questions ? { intro: "", questions } : null
+}
+
+/**
+ * User message carrying the answers into the next turn.
+ */
+export function formatAnswersMessage(questions: ClarifyingQuestion[], answers: ClarifyingAnswers): string {
+  const lines = questions.map((q, i) => {
+    const answer = answers[q.id]?.trim()
+    return `${i + 1}. ${q.question}\n   → ${answer || "(no answer — use your judgement)"}`
+  })
+  return `${ANSWERS_HEADING}\n\n${lines.join("\n")}`
+}
+
+/**
+ * WORKING note recording the answered questions.
+ */
+export function formatAnswersNote(questions: ClarifyingQuestion[], answers: ClarifyingAnswers): string {
+  const answered = questions.filter((q) => answers[q.id]?.trim())
+  const sections = answered.map((q) => `**${q.question}**\n${answers[q.id].trim()}`)
+  return `## Clarifications\n\n${sections.join("\n\n")}`
+}
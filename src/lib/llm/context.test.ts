@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest"
+import { assembleAnthropicPrompt, toCacheableChatMessages, type Block } from "./context"
+
+function block(content: string, zone: string, position = 0): Block {
+  return { content, zone, position, type: "note" }
+}
+
+describe("toCacheableChatMessages", () => {
+  it("puts the cached system array first as a system message", () => {
+    const prompt = assembleAnthropicPrompt(
+      [block("Permanent info", "PERMANENT"), block("Stable info", "STABLE")],
+      [],
+      "Hello",
+      { systemPrompt: "Be brief" }
+    )
+    const messages = toCacheableChatMessages(prompt)
+
+    expect(messages.map((m) => m.role)).toEqual(["system", "user"])
+    expect(messages[0].content).toEqual([
+      { type: "text", text: "Be brief" },
+      { type: "text", text: "Permanent info", cache_control: { type: "ephemeral" } },
+    ])
+    expect(messages[1].content).toEqual([
+      { type: "text", text: "Reference Material:\n\nStable info", cache_control: { type: "ephemeral" } },
+      { type: "text", text: "Hello" },
+    ])
+  })
+
+  it("has no system message when the prompt has no system content", () => {
+    const messages = toCacheableChatMessages(assembleAnthropicPrompt([], [], "Hello"))
+    expect(messages).toEqual([{ role: "user", content: [{ type: "text", text: "Hello" }] }])
+  })
+})
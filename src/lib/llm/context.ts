@@ -39,7 +39,7 @@ export interface Block {
  * Check if a block should be excluded from context assembly.
  * Draft blocks are always excluded. Validation blocks are only included in validation mode.
  */
-function isBlockExcluded(
+export function isBlockExcluded(
   block: { contextMode?: string; type: string },
   mode: "brainstorm" | "validation" = "brainstorm"
 ): boolean {
@@ -49,6 +49,35 @@ function isBlockExcluded(
   return false
 }
 
+/**
+ * Group blocks by zone for assembly, sorted by position.
+ * system_prompt blocks are skipped — callers extract them via extractSystemPromptFromBlocks().
+ */
+function groupBlocksByZone(blocks: Block[], mode: "brainstorm" | "validation"): Record<Zone, Block[]> {
+  const byZone: Record<Zone, Block[]> = {
+    PERMANENT: [],
+    STABLE: [],
+    WORKING: [],
+  }
+
+  for (const block of blocks) {
+    if (block.type === "system_prompt" || isBlockExcluded(block, mode)) {
+      continue
+    }
+    const zone = block.zone as Zone
+    if (byZone[zone]) {
+      byZone[zone].push(block)
+    }
+  }
+
+  // Sort each zone by position (ascending)
+  for (const zone of Object.keys(byZone) as Zone[]) {
+    byZone[zone].sort((a, b) => a.position - b.position)
+  }
+
+  return byZone
+}
+
 /**
  * Extract the active system prompt from blocks.
  * The first system_prompt block in the PERMANENT zone (by position) is active.
@@ -76,28 +105,7 @@ export function extractSystemPromptFromBlocks(blocks: Block[], mode: "brainstorm
  */
 export function assembleContext(blocks: Block[], userPrompt: string, mode: "brainstorm" | "validation" = "brainstorm"): ContextMessage[] {
   const messages: ContextMessage[] = []
-
-  // Group blocks by zone, excluding system_prompt blocks
-  const byZone: Record<Zone, Block[]> = {
-    PERMANENT: [],
-    STABLE: [],
-    WORKING: [],
-  }
-
-  for (const block of blocks) {
-    if (block.type === "system_prompt" || isBlockExcluded(block, mode)) {
-      continue
-    }
-    const zone = block.zone as Zone
-    if (byZone[zone]) {
-      byZone[zone].push(block)
-    }
-  }
-
-  // Sort each zone by position (ascending)
-  for (const zone of Object.keys(byZone) as Zone[]) {
-    byZone[zone].sort((a, b) => a.position - b.position)
-  }
+  const byZone = groupBlocksByZone(blocks, mode)
 
   // 1. PERMANENT zone as system message (most stable, cached)
   const permanentContent = byZone.PERMANENT.map((b) => b.content).join("\n\n")
@@ -155,28 +163,7 @@ export function assembleContextWithConversation(
   mode: "brainstorm" | "validation" = "brainstorm"
 ): ContextMessage[] {
   const messages: ContextMessage[] = []
-
-  // Group blocks by zone, excluding system_prompt blocks
-  const byZone: Record<Zone, Block[]> = {
-    PERMANENT: [],
-    STABLE: [],
-    WORKING: [],
-  }
-
-  for (const block of blocks) {
-    if (block.type === "system_prompt" || isBlockExcluded(block, mode)) {
-      continue
-    }
-    const zone = block.zone as Zone
-    if (byZone[zone]) {
-      byZone[zone].push(block)
-    }
-  }
-
-  // Sort each zone by position (ascending)
-  for (const zone of Object.keys(byZone) as Zone[]) {
-    byZone[zone].sort((a, b) => a.position - b.position)
-  }
+  const byZone = groupBlocksByZone(blocks, mode)
 
   // 1. PERMANENT zone as system message
   const permanentContent = byZone.PERMANENT.map((b) => b.content).join("\n\n")
@@ -230,6 +217,216 @@ export function assembleContextWithConversation(
   return messages
 }
 
+/**
+ * Anthropic prompt-caching marker. "ephemeral" is the only cache type the
+ * Messages API supports (5-minute TTL, refreshed on every hit).
+ */
+export interface CacheControl {
+  type: "ephemeral"
+}
+
+export interface AnthropicTextBlock {
+  type: "text"
+  text: string
+  cache_control?: CacheControl
+}
+
+export interface AnthropicMessage {
+  role: "user" | "assistant"
+  content: AnthropicTextBlock[]
+}
+
+/**
+ * Request body fragment for the Anthropic Messages API (`system` + `messages`).
+ */
+export interface AnthropicPrompt {
+  system?: AnthropicTextBlock[]
+  messages: AnthropicMessage[]
+}
+
+/**
+ * OpenAI-style message with content parts, as accepted by OpenRouter.
+ * OpenRouter forwards `cache_control` on text parts to Anthropic models.
+ */
+export interface CacheableChatMessage {
+  role: "system" | "user" | "assistant"
+  content: string | AnthropicTextBlock[]
+}
+
+const EPHEMERAL_CACHE: CacheControl = { type: "ephemeral" }
+
+/**
+ * Assemble blocks and conversation history into an Anthropic Messages API payload
+ * with cache_control breakpoints.
+ *
+ * Same order as assembleContextWithConversation():
+ * System prompt -> PERMANENT -> STABLE -> WORKING -> Active Skills -> Conversation -> New message
+ *
+ * Breakpoints (2 of the 4 the API allows):
+ * 1. End of the system array (system prompt + PERMANENT zone)
+ * 2. End of the STABLE zone reference material
+ *
+ * Consecutive user segments are merged into one message with multiple text blocks
+ * so roles strictly alternate.
+ *
+ * @param blocks - All blocks for the session
+ * @param conversationHistory - Previous messages in the conversation
+ * @param newMessage - The new user message
+ * @param options.systemPrompt - Provider system prompt (system_prompt block, memory, suffixes), placed before PERMANENT
+ * @param options.activeSkillsContent - Optional formatted skill text to inject
+ */
+export function assembleAnthropicPrompt(
+  blocks: Block[],
+  conversationHistory: ConversationMessage[],
+  newMessage: string,
+  options: {
+    systemPrompt?: string
+    activeSkillsContent?: string
+    mode?: "brainstorm" | "validation"
+  } = {}
+): AnthropicPrompt {
+  const byZone = groupBlocksByZone(blocks, options.mode ?? "brainstorm")
+
+  // 1. System prompt + PERMANENT zone -> system array (breakpoint 1)
+  const system: AnthropicTextBlock[] = []
+  if (options.systemPrompt) {
+    system.push({ type: "text", text: options.systemPrompt })
+  }
+  const permanentContent = byZone.PERMANENT.map((b) => b.content).join("\n\n")
+  if (permanentContent) {
+    system.push({ type: "text", text: permanentContent })
+  }
+  if (system.length > 0) {
+    system[system.length - 1].cache_control = EPHEMERAL_CACHE
+  }
+
+  const messages: AnthropicMessage[] = []
+  const pushText = (role: "user" | "assistant", text: string, cache = false) => {
+    const block: AnthropicTextBlock = cache
+      ? { type: "text", text, cache_control: EPHEMERAL_CACHE }
+      : { type: "text", text }
+    const last = messages[messages.length - 1]
+    if (last && last.role === role) {
+      last.content.push(block)
+    } else {
+      messages.push({ role, content: [block] })
+    }
+  }
+
+  // 2. STABLE zone as reference material (breakpoint 2)
+  const stableContent = byZone.STABLE.map((b) => b.content).join("\n\n")
+  if (stableContent) {
+    pushText("user", `Reference Material:\n\n${stableContent}`, true)
+  }
+
+  // 3. WORKING zone — dynamic, never cached
+  const workingContent = byZone.WORKING.map((b) => b.content).join("\n\n")
+  if (workingContent) {
+    pushText("user", `Current Context:\n\n${workingContent}`)
+  }
+
+  // 4. Active skills
+  if (options.activeSkillsContent) {
+    pushText("user", `Active Skills:\n\n${options.activeSkillsContent}`)
+  }
+
+  // 5. Conversation history (a reply stopped before any text has no content to send)
+  for (const msg of conversationHistory) {
+    if (msg.content.trim()) {
+      pushText(msg.role, msg.content)
+    }
+  }
+
+  // 6. New user message (always last; the API rejects empty text blocks)
+  if (newMessage) {
+    pushText("user", newMessage)
+  }
+
+  return system.length > 0 ? { system, messages } : { messages }
+}
+
+/**
+ * Convert an Anthropic prompt into OpenAI-style chat messages with content parts.
+ * Used for OpenRouter's Anthropic routes, which honour `cache_control` on parts.
+ */
+export function toCacheableChatMessages(prompt: AnthropicPrompt): CacheableChatMessage[] {
+  const messages: CacheableChatMessage[] = []
+  if (prompt.system?.length) {
+    messages.push({ role: "system", content: prompt.system })
+  }
+  for (const msg of prompt.messages) {
+    messages.push({ role: msg.role, content: msg.content })
+  }
+  return messages
+}
+
+/**
+ * Inverse of toCacheableChatMessages(): split system messages into the `system`
+ * array and merge consecutive same-role messages so roles alternate.
+ * Plain string content becomes a single uncached text block.
+ */
+export function fromCacheableChatMessages(messages: CacheableChatMessage[]): AnthropicPrompt {
+  const toBlocks = (content: CacheableChatMessage["content"]): AnthropicTextBlock[] =>
+    typeof content === "string" ? (content ? [{ type: "text", text: content }] : []) : content
+
+  const system: AnthropicTextBlock[] = []
+  const result: AnthropicMessage[] = []
+  for (const msg of messages) {
+    const blocks = toBlocks(msg.content)
+    if (blocks.length === 0) continue
+    if (msg.role === "system") {
+      system.push(...blocks)
+      continue
+    }
+    const last = result[result.length - 1]
+    if (last && last.role === msg.role) {
+      last.content.push(...blocks)
+    } else {
+      result.push({ role: msg.role, content: [...blocks] })
+    }
+  }
+  return system.length > 0 ? { system, messages: result } : { messages: result }
+}
+
+/**
+ * Assemble chat messages for a client-side provider.
+ * With promptCaching, uses assembleAnthropicPrompt() so PERMANENT/STABLE carry
+ * cache_control breakpoints; otherwise the system prompt is sent as its own system
+ * message followed by assembleContextWithConversation().
+ */
+export function assembleChatMessages(
+  blocks: Block[],
+  conversationHistory: ConversationMessage[],
+  newMessage: string,
+  options: {
+    systemPrompt?: string
+    activeSkillsContent?: string
+    mode?: "brainstorm" | "validation"
+    promptCaching?: boolean
+  } = {}
+): CacheableChatMessage[] {
+  if (options.promptCaching) {
+    return toCacheableChatMessages(
+      assembleAnthropicPrompt(blocks, conversationHistory, newMessage, options)
+    )
+  }
+
+  const messages: CacheableChatMessage[] = []
+  if (options.systemPrompt) {
+    messages.push({ role: "system", content: options.systemPrompt })
+  }
+  messages.push(
+    ...assembleContextWithConversation(
+      blocks,
+      conversationHistory,
+      newMessage,
+      options.activeSkillsContent,
+      options.mode
+    )
+  )
+  return messages
+}
+
 /**
  * Calculate approximate token count for context.
  * Uses rough estimate of 4 characters per token.
@@ -3,11 +3,16 @@
  *
  * These modules call LLM providers directly from the browser:
  * - OpenRouter: requires API key in localStorage
+ * - Anthropic: requires API key in localStorage (direct Messages API)
  * - Ollama: requires CORS-enabled Ollama server
+ * - OpenAI-compatible: any `/v1/chat/completions` server (LM Studio, vLLM, llama.cpp)
+ *
+ * Each is wrapped in an LLMProvider adapter (see provider.ts) and looked up by id
+ * through the registry — prefer `registry.getProvider(id)` over the raw modules.
  *
  * Usage:
  * ```typescript
- * import { openrouter, ollama, context, settings } from "@/lib/llm"
+ * import { openrouter, ollama, registry, context, settings } from "@/lib/llm"
  *
  * // Configure settings
  * settings.openrouter.setApiKey("sk-...")
@@ -21,6 +26,12 @@
  *   console.log(chunk)
  * }
  *
+ * // Stream through any registered provider
+ * const llm = registry.getProvider("anthropic")
+ * for await (const chunk of llm.streamChat(messages)) {
+ *   console.log(chunk)
+ * }
+ *
  * // Stream from Ollama
  * for await (const chunk of ollama.streamChat(messages)) {
  *   console.log(chunk)
@@ -29,11 +40,31 @@
  */
 
 export * as openrouter from "./openrouter"
+export * as anthropic from "./anthropic"
 export * as ollama from "./ollama"
+export * as openaiCompatible from "./openaiCompatible"
 export * as context from "./context"
 export * as settings from "./settings"
+export * as registry from "./registry"
+export * as modelCatalog from "./modelCatalog"
 
 // Re-export commonly used types
+export type {
+  ProviderId,
+  ClientProviderId,
+  ChatMessage,
+  ChatOptions,
+  ChatResult,
+  LLMProvider,
+  ProviderHealth,
+  ModelPricing,
+} from "./provider"
 export type { ContextMessage, ConversationMessage, Block } from "./context"
+export type { ModelInfo, ZoneBudgets, BudgetPresetId } from "./modelCatalog"
 export type { StreamChatOptions as OpenRouterOptions, StreamChatResult as OpenRouterResult } from "./openrouter"
+export type { StreamChatOptions as AnthropicOptions, StreamChatResult as AnthropicResult } from "./anthropic"
 export type { StreamChatOptions as OllamaOptions, StreamChatResult as OllamaResult } from "./ollama"
+export type {
+  StreamChatOptions as OpenAICompatibleOptions,
+  StreamChatResult as OpenAICompatibleResult,
+} from "./openaiCompatible"
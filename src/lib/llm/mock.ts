@@ -0,0 +1,258 @@
+/**
+ * Client-side scripted mock provider — mirrors convex/lib/mockLLM.ts.
+ *
+ * Streams deterministic responses from a script (e2e/fixtures/mock-llm.json, or
+ * an override saved in Settings) with configurable chunking, latency, usage and
+ * errors, so brainstorm and compression run with no network.
+ * Hidden until enabled in Settings or with VITE_MOCK_LLM=true.
+ */
+
+import defaultScript from "../../../e2e/fixtures/mock-llm.json"
+import { mock as settings } from "./settings"
+
+export interface MockUsage {
+  inputTokens?: number
+  outputTokens?: number
+  cacheReadTokens?: number
+  cacheWriteTokens?: number
+  costUsd?: number
+}
+
+export interface MockStreamOptions {
+  /** Characters per streamed chunk (0 = whole reply in one chunk) */
+  chunkSize?: number
+  /** Delay before each chunk */
+  latencyMs?: number
+}
+
+export interface MockResponse extends MockStreamOptions {
+  /**
+   * Case-insensitive substring, or "/pattern/flags" for a regex.
+   * Omit for the fallback response.
+   */
+  match?: string
+  text: string
+  /** Fail the stream with this message */
+  error?: string
+  /** Chunks streamed before the error is thrown (default 0) */
+  errorAfterChunks?: number
+  /** Reported usage; unset fields are estimated from the text (~4 chars/token) */
+  usage?: MockUsage
+}
+
+export interface MockScript {
+  defaults?: MockStreamOptions
+  /** USD per token, used to derive costUsd when a response doesn't set one */
+  pricing?: { input: number; output: number }
+  responses: MockResponse[]
+}
+
+export interface MockResult {
+  text: string
+  model: string
+  usage: Required<Pick<MockUsage, "inputTokens" | "outputTokens" | "costUsd">> &
+    Pick<MockUsage, "cacheReadTokens" | "cacheWriteTokens">
+}
+
+export const MOCK_MODEL = "mock-scripted"
+
+export const DEFAULT_MOCK_SCRIPT: MockScript = defaultScript
+
+/**
+ * End offset of the pattern's first match in the input, or -1 if it doesn't match.
+ */
+function findMatchEnd(pattern: string, input: string): number {
+  const regex = pattern.match(/^\/(.+)\/([a-z]*)$/)
+  if (regex) {
+    const found = new RegExp(regex[1], regex[2]).exec(input)
+    return found ? found.index + found[0].length : -1
+  }
+  const index = input.toLowerCase().indexOf(pattern.toLowerCase())
+  return index === -1 ? -1 : index + pattern.length
+}
+
+/**
+ * Pick the scripted response for an input.
+ *
+ * When several patterns match, the one matching closest to the end of the input
+ * wins — the newest message outranks context and history. Ties go to script order.
+ * Falls back to the first response without a pattern, then to an echo.
+ */
+export function selectMockResponse(script: MockScript, input: string): MockResponse {
+  let best: MockResponse | undefined
+  let bestEnd = -1
+  for (const response of script.responses) {
+    if (response.match === undefined) continue
+    const end = findMatchEnd(response.match, input)
+    if (end > bestEnd) {
+      best = response
+      bestEnd = end
+    }
+  }
+  if (best) return best
+
+  const fallback = script.responses.find((r) => r.match === undefined)
+  return fallback ?? { text: `Mock response to: ${input.trim().slice(-200)}` }
+}
+
+/**
+ * Split text into fixed-size chunks.
+ */
+export function chunkMockText(text: string, chunkSize: number): string[] {
+  if (chunkSize <= 0 || text.length <= chunkSize) return [text]
+  const chunks: string[] = []
+  for (let i = 0; i < text.length; i += chunkSize) {
+    chunks.push(text.slice(i, i + chunkSize))
+  }
+  return chunks
+}
+
+/**
+ * Usage for a response, estimating whatever the script doesn't specify.
+ */
+export function getMockUsage(
+  script: MockScript,
+  response: MockResponse,
+  input: string
+): MockResult["usage"] {
+  const inputTokens = response.usage?.inputTokens ?? Math.ceil(input.length / 4)
+  const outputTokens = response.usage?.outputTokens ?? Math.ceil(response.text.length / 4)
+  const costUsd = response.usage?.costUsd ??
+    (script.pricing
+      ? inputTokens * script.pricing.input + outputTokens * script.pricing.output
+      : 0)
+  return {
+    inputTokens,
+    outputTokens,
+    cacheReadTokens: response.usage?.cacheReadTokens,
+    cacheWriteTokens: response.usage?.cacheWriteTokens,
+    costUsd,
+  }
+}
+
+// Same error fetch() throws on abort, so callers' AbortError handling applies
+function abortError(): Error {
+  return new DOMException("Mock stream aborted", "AbortError")
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError())
+    const timer = setTimeout(resolve, ms)
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer)
+      reject(abortError())
+    }, { once: true })
+  })
+}
+
+/**
+ * Stream the scripted response for an input.
+ * Returns an async generator of text chunks; throws the scripted error, if any.
+ */
+export async function* streamMockResponse(
+  script: MockScript,
+  input: string,
+  signal?: AbortSignal
+): AsyncGenerator<string, MockResult, unknown> {
+  const response = selectMockResponse(script, input)
+  const chunkSize = response.chunkSize ?? script.defaults?.chunkSize ?? 0
+  const latencyMs = response.latencyMs ?? script.defaults?.latencyMs ?? 0
+
+  const chunks = chunkMockText(response.text, chunkSize)
+  const errorAt = response.error !== undefined ? (response.errorAfterChunks ?? 0) : -1
+  let text = ""
+
+  for (let i = 0; i < chunks.length; i++) {
+    if (i === errorAt) {
+      throw new Error(`Mock error: ${response.error}`)
+    }
+    if (latencyMs > 0) {
+      await sleep(latencyMs, signal)
+    } else if (signal?.aborted) {
+      throw abortError()
+    }
+    text += chunks[i]
+    yield chunks[i]
+  }
+  if (errorAt >= chunks.length) {
+    throw new Error(`Mock error: ${response.error}`)
+  }
+
+  return { text, model: MOCK_MODEL, usage: getMockUsage(script, response, input) }
+}
+
+export interface MockMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+export interface StreamChatOptions {
+  model?: string
+  signal?: AbortSignal
+}
+
+export interface StreamChatResult {
+  text: string
+  promptTokens?: number
+  completionTokens?: number
+  cacheWriteTokens?: number
+  cacheReadTokens?: number
+  costUsd?: number
+  model?: string
+}
+
+/**
+ * The active script: the Settings override if present, otherwise the fixture file.
+ */
+export function getScript(): MockScript {
+  return settings.getScript() ?? DEFAULT_MOCK_SCRIPT
+}
+
+/**
+ * Stream the scripted reply for a conversation.
+ * Every message is matched, so the newest message decides when several patterns hit.
+ */
+export async function* streamChat(
+  messages: MockMessage[],
+  options?: StreamChatOptions
+): AsyncGenerator<string, StreamChatResult, unknown> {
+  if (!settings.isEnabled()) {
+    throw new Error("Mock provider is not enabled. Enable it in Settings.")
+  }
+
+  const input = messages.map((m) => m.content).join("\n\n")
+  const result = yield* streamMockResponse(getScript(), input, options?.signal)
+
+  return {
+    text: result.text,
+    promptTokens: result.usage.inputTokens,
+    completionTokens: result.usage.outputTokens,
+    cacheWriteTokens: result.usage.cacheWriteTokens,
+    cacheReadTokens: result.usage.cacheReadTokens,
+    costUsd: result.usage.costUsd,
+    model: result.model,
+  }
+}
+
+/**
+ * Mock health: ok when enabled, reported as disabled (hidden) otherwise.
+ */
+export async function checkHealth(): Promise<{
+  ok: boolean
+  configured: boolean
+  disabled?: boolean
+  model?: string
+}> {
+  if (!settings.isEnabled()) {
+    return { ok: false, configured: false, disabled: true }
+  }
+  return { ok: true, configured: true, model: MOCK_MODEL }
+}
+
+/**
+ * The mock serves a single scripted model.
+ */
+export async function listModels(): Promise<Array<{ id: string }>> {
+  return [{ id: MOCK_MODEL }]
+}
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest"
+import {
+  budgetsForModel,
+  checkContextFit,
+  expectedOutputTokens,
+  fromOllamaShow,
+  fromOpenRouterModel,
+  getClaudeModelInfo,
+} from "./modelCatalog"
+
+describe("getClaudeModelInfo", () => {
+  it("resolves Claude ids by prefix with pricing and caching", () => {
+    const info = getClaudeModelInfo("claude-sonnet-4-5-20250929")
+    expect(info).toMatchObject({ contextWindow: 200_000, maxOutput: 64_000, promptCaching: true })
+    expect(info?.pricing?.input).toBeCloseTo(3 / 1e6)
+  })
+
+  it("maps bare 'claude' to the default model and rejects other ids", () => {
+    expect(getClaudeModelInfo("claude")?.id).toBe("claude-sonnet-4-6")
+    expect(getClaudeModelInfo("gpt-4o")).toBeNull()
+  })
+})
+
+describe("fromOpenRouterModel", () => {
+  it("prefers the top provider's limits and parses cache pricing", () => {
+    const info = fromOpenRouterModel({
+      id: "anthropic/claude-sonnet-4.5",
+      name: "Claude Sonnet 4.5",
+      context_length: 1_000_000,
+      pricing: { prompt: "0.000003", completion: "0.000015", input_cache_read: "0.0000003" },
+      top_provider: { context_length: 200_000, max_completion_tokens: 64_000 },
+    })
+    expect(info).toMatchObject({
+      provider: "openrouter",
+      contextWindow: 200_000,
+      maxOutput: 64_000,
+      promptCaching: true,
+    })
+    expect(info.pricing?.cacheRead).toBeCloseTo(3e-7)
+  })
+
+  it("leaves free models without pricing", () => {
+    const info = fromOpenRouterModel({
+      id: "meta-llama/llama-3.3-70b-instruct:free",
+      name: "Llama 3.3 70B (free)",
+      context_length: 131_072,
+      pricing: { prompt: "0", completion: "0" },
+    })
+    expect(info.pricing).toBeUndefined()
+    expect(info.maxOutput).toBeUndefined()
+    expect(info.promptCaching).toBe(false)
+  })
+})
+
+describe("fromOllamaShow", () => {
+  it("uses an explicit num_ctx parameter first", () => {
+    const info = fromOllamaShow("llama3.2", {
+      parameters: "stop \"<|eot_id|>\"\nnum_ctx 8192",
+      model_info: { "llama.context_length": 131_072 },
+    })
+    expect(info?.contextWindow).toBe(8192)
+  })
+
+  it("falls back to the architecture's context length", () => {
+    const info = fromOllamaShow("qwen2.5", { model_info: { "qwen2.context_length": 32_768 } })
+    expect(info?.contextWindow).toBe(32_768)
+  })
+
+  it("returns null without any context length", () => {
+    expect(fromOllamaShow("mystery", {})).toBeNull()
+  })
+})
+
+describe("budgetsForModel", () => {
+  it("reproduces the original defaults for a 200K Claude model", () => {
+    expect(budgetsForModel({ contextWindow: 200_000, maxOutput: 64_000 })).toEqual({
+      permanent: 30_000,
+      stable: 50_000,
+      working: 40_000,
+      total: 150_000,
+    })
+  })
+
+  it("scales presets to small windows, leaving room for the reply", () => {
+    const budgets = budgetsForModel({ contextWindow: 8192 }, "conversation")
+    expect(budgets.total).toBe(6000)
+    expect(budgets.working).toBe(2000)
+    expect(budgets.total + expectedOutputTokens({ contextWindow: 8192 })).toBeLessThanOrEqual(8192)
+  })
+})
+
+describe("checkContextFit", () => {
+  it("reports overflow when context plus expected output exceeds the window", () => {
+    expect(checkContextFit(100_000, { contextWindow: 128_000, maxOutput: 16_384 })).toEqual({
+      fits: true,
+      required: 116_384,
+      contextWindow: 128_000,
+      overflow: 0,
+    })
+    expect(checkContextFit(7000, { contextWindow: 8192 }).overflow).toBe(7000 + 2048 - 8192)
+  })
+})
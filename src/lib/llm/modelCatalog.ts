@@ -0,0 +1,257 @@
+/**
+ * Model catalog — context window, max output, pricing and cache support per model.
+ *
+ * Merges three sources:
+ * - a built-in table for Claude (Claude Code and the Anthropic API)
+ * - OpenRouter's model list (context_length, top_provider, pricing)
+ * - Ollama's /api/show metadata (GGUF context length, num_ctx parameter)
+ *
+ * Zone budgets are derived from a model's context window with proportional
+ * presets, and checkContextFit() tells the budget panel when the assembled
+ * context plus the expected reply won't fit.
+ */
+
+import * as anthropic from "./anthropic"
+import * as ollama from "./ollama"
+import * as openrouter from "./openrouter"
+import * as settings from "./settings"
+import type { ModelPricing, ProviderId } from "./provider"
+
+export interface ModelInfo {
+  id: string
+  provider: ProviderId
+  name?: string
+  /** Tokens the model accepts (prompt + completion) */
+  contextWindow: number
+  /** Longest completion the model will produce */
+  maxOutput?: number
+  /** USD per token; undefined for free/self-hosted models */
+  pricing?: ModelPricing
+  /** Honours prompt caching (cache_control breakpoints or automatic prefix caching) */
+  promptCaching: boolean
+}
+
+export interface ZoneBudgets {
+  permanent: number
+  stable: number
+  working: number
+  total: number
+}
+
+// ============ Claude ============
+
+const CLAUDE_CONTEXT_WINDOW = 200_000
+
+// Max output tokens by model prefix (first match wins)
+const CLAUDE_MAX_OUTPUT: Array<{ prefix: string; maxOutput: number; name: string }> = [
+  { prefix: "claude-opus-4-6", maxOutput: 128_000, name: "Claude Opus 4.6" },
+  { prefix: "claude-opus-4-5", maxOutput: 64_000, name: "Claude Opus 4.5" },
+  { prefix: "claude-opus-4", maxOutput: 32_000, name: "Claude Opus 4" },
+  { prefix: "claude-sonnet-4-6", maxOutput: 64_000, name: "Claude Sonnet 4.6" },
+  { prefix: "claude-sonnet-4-5", maxOutput: 64_000, name: "Claude Sonnet 4.5" },
+  { prefix: "claude-sonnet-4", maxOutput: 64_000, name: "Claude Sonnet 4" },
+  { prefix: "claude-haiku-4", maxOutput: 64_000, name: "Claude Haiku 4.5" },
+  { prefix: "claude-3-7-sonnet", maxOutput: 64_000, name: "Claude Sonnet 3.7" },
+  { prefix: "claude-3-5", maxOutput: 8_192, name: "Claude 3.5" },
+]
+
+// Model Claude Code uses when none is picked
+const DEFAULT_CLAUDE_MODEL = "claude-sonnet-4-6"
+
+/**
+ * Built-in catalog entry for a Claude model id, or null if it isn't Claude.
+ * A bare "claude" (Claude Code's default) resolves to the default model.
+ */
+export function getClaudeModelInfo(modelId: string, provider: ProviderId = "claude"): ModelInfo | null {
+  const id = modelId === "claude" ? DEFAULT_CLAUDE_MODEL : modelId
+  const entry = CLAUDE_MAX_OUTPUT.find((e) => id.startsWith(e.prefix))
+  if (!entry) return null
+  return {
+    id,
+    provider,
+    name: entry.name,
+    contextWindow: CLAUDE_CONTEXT_WINDOW,
+    maxOutput: entry.maxOutput,
+    pricing: anthropic.getModelPricing(id) ?? undefined,
+    promptCaching: true,
+  }
+}
+
+// ============ OpenRouter ============
+
+/**
+ * Catalog entry from an OpenRouter /models item. Prices arrive as USD-per-token strings.
+ */
+export function fromOpenRouterModel(model: openrouter.OpenRouterModel): ModelInfo {
+  const price = (value?: string) => {
+    const parsed = value !== undefined ? parseFloat(value) : NaN
+    return Number.isFinite(parsed) ? parsed : undefined
+  }
+  const input = price(model.pricing.prompt) ?? 0
+  const output = price(model.pricing.completion) ?? 0
+  const cacheRead = price(model.pricing.input_cache_read)
+  const cacheWrite = price(model.pricing.input_cache_write)
+
+  return {
+    id: model.id,
+    provider: "openrouter",
+    name: model.name,
+    contextWindow: model.top_provider?.context_length ?? model.context_length,
+    maxOutput: model.top_provider?.max_completion_tokens ?? undefined,
+    pricing: input || output ? { input, output, cacheRead, cacheWrite } : undefined,
+    promptCaching: openrouter.supportsPromptCaching(model.id) || cacheRead !== undefined,
+  }
+}
+
+// ============ Ollama ============
+
+/**
+ * Catalog entry from Ollama's /api/show. An explicit `num_ctx` parameter wins over
+ * the model's trained context length, since that's what the server will allocate.
+ * Returns null when neither is reported.
+ */
+export function fromOllamaShow(modelName: string, show: ollama.OllamaShowResponse): ModelInfo | null {
+  const numCtx = show.parameters?.match(/^num_ctx\s+(\d+)/m)?.[1]
+  let contextWindow = numCtx ? parseInt(numCtx, 10) : undefined
+
+  if (!contextWindow && show.model_info) {
+    const key = Object.keys(show.model_info).find((k) => k.endsWith(".context_length"))
+    const value = key ? show.model_info[key] : undefined
+    if (typeof value === "number") contextWindow = value
+  }
+  if (!contextWindow) return null
+
+  return {
+    id: modelName,
+    provider: "ollama",
+    name: modelName,
+    contextWindow,
+    promptCaching: false,
+  }
+}
+
+// ============ Lookup ============
+
+const infoCache = new Map<string, Promise<ModelInfo | null>>()
+let openrouterModels: Promise<Map<string, ModelInfo>> | null = null
+
+function loadOpenRouterModels(): Promise<Map<string, ModelInfo>> {
+  if (!openrouterModels) {
+    openrouterModels = openrouter
+      .listModels()
+      .then((models) => new Map(models.map((m) => [m.id, fromOpenRouterModel(m)])))
+      .catch(() => {
+        // Retry on the next lookup (e.g. after the API key is entered)
+        openrouterModels = null
+        return new Map<string, ModelInfo>()
+      })
+  }
+  return openrouterModels
+}
+
+async function lookupModelInfo(modelId: string): Promise<ModelInfo | null> {
+  // OpenRouter ids are "vendor/model"
+  if (modelId.includes("/")) {
+    if (!settings.openrouter.isConfigured()) {
+      return getClaudeModelInfo(modelId.replace(/^anthropic\//, "").replace(/\./g, "-"), "openrouter")
+    }
+    return (await loadOpenRouterModels()).get(modelId) ?? null
+  }
+
+  const claude = getClaudeModelInfo(modelId)
+  if (claude) return claude
+
+  try {
+    return fromOllamaShow(modelId, await ollama.showModel(modelId))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Catalog entry for a model id (Claude, OpenRouter "vendor/model", or an Ollama tag).
+ * Results are cached for the page lifetime; unknown models resolve to null.
+ */
+export function getModelInfo(modelId: string): Promise<ModelInfo | null> {
+  let info = infoCache.get(modelId)
+  if (!info) {
+    info = lookupModelInfo(modelId)
+    infoCache.set(modelId, info)
+    // Don't cache misses — the model may show up once a provider is configured
+    info.then((result) => {
+      if (!result) infoCache.delete(modelId)
+    })
+  }
+  return info
+}
+
+// ============ Budgets ============
+
+export type BudgetPresetId = "balanced" | "reference" | "conversation"
+
+/** Share of the total budget given to each zone (zones may sum below 1) */
+export const BUDGET_PRESETS: Record<BudgetPresetId, { label: string; permanent: number; stable: number; working: number }> = {
+  // Matches the original fixed 30K/50K/40K of 150K
+  balanced: { label: "Balanced", permanent: 0.2, stable: 1 / 3, working: 0.27 },
+  // Large reference material in STABLE, short conversations
+  reference: { label: "Reference-heavy", permanent: 0.15, stable: 0.5, working: 0.2 },
+  // Long brainstorms in WORKING
+  conversation: { label: "Conversation-heavy", permanent: 0.15, stable: 0.25, working: 0.45 },
+}
+
+// Never plan to fill more than this share of the window (leaves room for tool
+// output, compaction and tokenizer error)
+const MAX_WINDOW_SHARE = 0.75
+// Reply space reserved when a model doesn't report its max output
+const DEFAULT_EXPECTED_OUTPUT = 8_192
+
+const roundDown = (n: number) => Math.max(0, Math.floor(n / 1000) * 1000)
+
+/**
+ * Tokens to reserve for the reply: the model's max output, capped at a quarter of
+ * the window so long-output models don't starve the context.
+ */
+export function expectedOutputTokens(info: Pick<ModelInfo, "contextWindow" | "maxOutput">): number {
+  return Math.min(info.maxOutput ?? DEFAULT_EXPECTED_OUTPUT, Math.floor(info.contextWindow / 4))
+}
+
+/**
+ * Zone budgets for a model: the total is what fits beside the expected reply
+ * (at most 75% of the window), split across zones by the preset's shares.
+ */
+export function budgetsForModel(
+  info: Pick<ModelInfo, "contextWindow" | "maxOutput">,
+  preset: BudgetPresetId = "balanced"
+): ZoneBudgets {
+  const total = roundDown(
+    Math.min(info.contextWindow * MAX_WINDOW_SHARE, info.contextWindow - expectedOutputTokens(info))
+  )
+  const shares = BUDGET_PRESETS[preset]
+  return {
+    permanent: roundDown(total * shares.permanent),
+    stable: roundDown(total * shares.stable),
+    working: roundDown(total * shares.working),
+    total,
+  }
+}
+
+export interface ContextFit {
+  fits: boolean
+  /** Context plus expected output */
+  required: number
+  contextWindow: number
+  /** Tokens over the window (0 when it fits) */
+  overflow: number
+}
+
+/**
+ * Whether the assembled context plus the expected reply fits the model's window.
+ */
+export function checkContextFit(
+  contextTokens: number,
+  info: Pick<ModelInfo, "contextWindow" | "maxOutput">
+): ContextFit {
+  const required = contextTokens + expectedOutputTokens(info)
+  const overflow = Math.max(0, required - info.contextWindow)
+  return { fits: overflow === 0, required, contextWindow: info.contextWindow, overflow }
+}
@@ -9,6 +9,7 @@
  */
 
 import { ollama as settings } from "./settings"
+import type { ResponseSchema } from "../../../convex/lib/structuredOutput"
 
 export interface OllamaMessage {
   role: "system" | "user" | "assistant"
@@ -38,12 +39,26 @@ export interface OllamaModel {
   digest: string
 }
 
+/** Response of /api/show (only the fields the model catalog reads) */
+export interface OllamaShowResponse {
+  /** Modelfile PARAMETER lines, e.g. "num_ctx 8192\nstop ..." */
+  parameters?: string
+  /** GGUF metadata, e.g. { "llama.context_length": 131072 } */
+  model_info?: Record<string, unknown>
+  details?: {
+    family?: string
+    parameter_size?: string
+  }
+}
+
 export interface StreamChatOptions {
   model?: string
   temperature?: number
   topP?: number
   maxTokens?: number
   signal?: AbortSignal
+  /** Native JSON Schema output (the `format` field) */
+  responseSchema?: ResponseSchema
 }
 
 export interface StreamChatResult {
@@ -76,6 +91,7 @@ export async function* streamChat(
         top_p: options?.topP,
         num_predict: options?.maxTokens,
       },
+      ...(options?.responseSchema && { format: options.responseSchema.schema }),
     }),
     signal: options?.signal,
   })
@@ -210,6 +226,25 @@ export async function listModels(): Promise<OllamaModel[]> {
   return data.models || []
 }
 
+/**
+ * Show a model's metadata (context length, Modelfile parameters).
+ */
+export async function showModel(modelName: string): Promise<OllamaShowResponse> {
+  const ollamaUrl = settings.getUrl()
+
+  const response = await fetch(`${ollamaUrl}/api/show`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ model: modelName }),
+  })
+
+  if (!response.ok) {
+    throw new Error(`Ollama error: ${response.status} ${response.statusText}`)
+  }
+
+  return (await response.json()) as OllamaShowResponse
+}
+
 /**
  * Check if a specific model is available.
  */
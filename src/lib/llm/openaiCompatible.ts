@@ -0,0 +1,269 @@
+/**
+ * Client-side client for any OpenAI-compatible server
+ * (LM Studio, vLLM, llama.cpp server, LocalAI, ...).
+ * Calls `/v1/chat/completions` and `/v1/models` directly from the browser.
+ *
+ * IMPORTANT: the server must allow CORS from the app's origin
+ * (e.g. `--allowed-origins` for vLLM, "Enable CORS" in LM Studio).
+ */
+
+import { openaiCompatible as settings } from "./settings"
+import type { ResponseSchema } from "../../../convex/lib/structuredOutput"
+
+export interface OpenAICompatibleMessage {
+  role: "system" | "user" | "assistant"
+  content: string
+}
+
+export interface OpenAICompatibleStreamChunk {
+  id?: string
+  model?: string
+  choices: Array<{
+    index: number
+    delta: {
+      role?: string
+      content?: string | null
+    }
+    finish_reason: string | null
+  }>
+  usage?: {
+    prompt_tokens: number
+    completion_tokens: number
+    total_tokens: number
+  } | null
+}
+
+export interface OpenAICompatibleModel {
+  id: string
+  object?: string
+  owned_by?: string
+}
+
+export interface StreamChatOptions {
+  model?: string
+  temperature?: number
+  topP?: number
+  maxTokens?: number
+  signal?: AbortSignal
+  /** Native JSON Schema output (response_format) */
+  responseSchema?: ResponseSchema
+}
+
+export interface StreamChatResult {
+  text: string
+  promptTokens?: number
+  completionTokens?: number
+  model?: string
+}
+
+/**
+ * Normalize a user-entered base URL to the `/v1` API root.
+ * Accepts "http://host:1234", "http://host:1234/" and "http://host:1234/v1".
+ */
+export function getApiRoot(baseUrl: string): string {
+  const trimmed = baseUrl.trim().replace(/\/+$/, "")
+  return trimmed.endsWith("/v1") ? trimmed : `${trimmed}/v1`
+}
+
+function buildHeaders(): Record<string, string> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" }
+  const apiKey = settings.getApiKey()
+  if (apiKey) {
+    headers.Authorization = `Bearer ${apiKey}`
+  }
+  return headers
+}
+
+/**
+ * Stream chat completion from an OpenAI-compatible server.
+ * Returns an async generator of text chunks.
+ */
+export async function* streamChat(
+  messages: OpenAICompatibleMessage[],
+  options?: StreamChatOptions
+): AsyncGenerator<string, StreamChatResult, unknown> {
+  const baseUrl = settings.getBaseUrl()
+  if (!baseUrl) {
+    throw new Error("OpenAI-compatible server URL not configured. Please add it in Settings.")
+  }
+
+  const model = options?.model || settings.getModel()
+  if (!model) {
+    throw new Error("OpenAI-compatible model not configured. Please select a model in Settings.")
+  }
+
+  const response = await fetch(`${getApiRoot(baseUrl)}/chat/completions`, {
+    method: "POST",
+    headers: buildHeaders(),
+    body: JSON.stringify({
+      model,
+      messages,
+      stream: true,
+      // Not every server supports this; those that don't simply ignore it
+      stream_options: { include_usage: true },
+      temperature: options?.temperature ?? 0.7,
+      top_p: options?.topP,
+      max_tokens: options?.maxTokens,
+      ...(options?.responseSchema && {
+        response_format: { type: "json_schema", json_schema: options.responseSchema },
+      }),
+    }),
+    signal: options?.signal,
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    throw new Error(
+      `OpenAI-compatible error: ${response.status} ${response.statusText} - ${errorText}`
+    )
+  }
+
+  if (!response.body) {
+    throw new Error("No response body from OpenAI-compatible server")
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ""
+  let fullText = ""
+  let finalUsage: OpenAICompatibleStreamChunk["usage"] | undefined
+  let responseModel: string | undefined
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split("\n")
+    buffer = lines.pop() || ""
+
+    for (const line of lines) {
+      const trimmed = line.trim()
+      if (!trimmed || !trimmed.startsWith("data:")) continue
+
+      const data = trimmed.slice(5).trim()
+      if (data === "[DONE]") continue
+
+      try {
+        const chunk: OpenAICompatibleStreamChunk = JSON.parse(data)
+        responseModel = chunk.model ?? responseModel
+
+        const content = chunk.choices?.[0]?.delta?.content
+        if (content) {
+          fullText += content
+          yield content
+        }
+
+        if (chunk.usage) {
+          finalUsage = chunk.usage
+        }
+      } catch {
+        // Skip malformed JSON lines
+      }
+    }
+  }
+
+  // Process any remaining buffer
+  const rest = buffer.trim()
+  if (rest.startsWith("data:")) {
+    const data = rest.slice(5).trim()
+    if (data !== "[DONE]") {
+      try {
+        const chunk: OpenAICompatibleStreamChunk = JSON.parse(data)
+        const content = chunk.choices?.[0]?.delta?.content
+        if (content) {
+          fullText += content
+          yield content
+        }
+        if (chunk.usage) {
+          finalUsage = chunk.usage
+        }
+      } catch {
+        // Skip malformed JSON
+      }
+    }
+  }
+
+  return {
+    text: fullText,
+    promptTokens: finalUsage?.prompt_tokens,
+    completionTokens: finalUsage?.completion_tokens,
+    model: responseModel ?? model,
+  }
+}
+
+/**
+ * Check if the OpenAI-compatible server is reachable.
+ */
+export async function checkHealth(): Promise<{
+  ok: boolean
+  configured: boolean
+  error?: string
+  model?: string
+}> {
+  const baseUrl = settings.getBaseUrl()
+
+  // Return early if no URL - don't make network request
+  if (!baseUrl) {
+    return {
+      ok: false,
+      configured: false,
+    }
+  }
+
+  try {
+    const response = await fetch(`${getApiRoot(baseUrl)}/models`, {
+      method: "GET",
+      headers: buildHeaders(),
+      signal: AbortSignal.timeout(5000),
+    })
+
+    if (!response.ok) {
+      return {
+        ok: false,
+        configured: true,
+        error: `HTTP ${response.status}: ${response.statusText}`,
+      }
+    }
+
+    return {
+      ok: true,
+      configured: true,
+      model: settings.getModel() || undefined,
+    }
+  } catch (error) {
+    let errorMessage = error instanceof Error ? error.message : "Unknown error"
+
+    if (errorMessage.includes("Failed to fetch") || errorMessage.includes("NetworkError")) {
+      errorMessage = `Cannot connect to ${baseUrl}. Make sure the server is running and allows CORS from this origin.`
+    }
+
+    return {
+      ok: false,
+      configured: true,
+      error: errorMessage,
+    }
+  }
+}
+
+/**
+ * List models served by the OpenAI-compatible server.
+ */
+export async function listModels(): Promise<OpenAICompatibleModel[]> {
+  const baseUrl = settings.getBaseUrl()
+  if (!baseUrl) {
+    throw new Error("OpenAI-compatible server URL not configured")
+  }
+
+  const response = await fetch(`${getApiRoot(baseUrl)}/models`, {
+    method: "GET",
+    headers: buildHeaders(),
+  })
+
+  if (!response.ok) {
+    throw new Error(`OpenAI-compatible error: ${response.status} ${response.statusText}`)
+  }
+
+  const data = (await response.json()) as { data: OpenAICompatibleModel[] }
+  return data.data || []
+}
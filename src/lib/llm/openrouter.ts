@@ -6,11 +6,14 @@
  */
 
 import { openrouter as settings } from "./settings"
+import type { CacheableChatMessage } from "./context"
+import type { ResponseSchema } from "../../../convex/lib/structuredOutput"
 
-export interface OpenRouterMessage {
-  role: "system" | "user" | "assistant"
-  content: string
-}
+/**
+ * Chat message. Content may be an array of text parts carrying Anthropic
+ * `cache_control` breakpoints (see context.toCacheableChatMessages).
+ */
+export type OpenRouterMessage = CacheableChatMessage
 
 export interface OpenRouterStreamChunk {
   id: string
@@ -29,6 +32,9 @@ export interface OpenRouterStreamChunk {
     prompt_tokens: number
     completion_tokens: number
     total_tokens: number
+    prompt_tokens_details?: {
+      cached_tokens?: number
+    }
   }
 }
 
@@ -40,6 +46,12 @@ export interface OpenRouterModel {
   pricing: {
     prompt: string
     completion: string
+    input_cache_read?: string
+    input_cache_write?: string
+  }
+  top_provider?: {
+    context_length?: number | null
+    max_completion_tokens?: number | null
   }
 }
 
@@ -49,12 +61,16 @@ export interface StreamChatOptions {
   topP?: number
   maxTokens?: number
   signal?: AbortSignal
+  /** Native JSON Schema output (response_format) */
+  responseSchema?: ResponseSchema
 }
 
 export interface StreamChatResult {
   text: string
   promptTokens?: number
   completionTokens?: number
+  /** Prompt tokens served from the provider's prompt cache */
+  cachedTokens?: number
   model?: string
 }
 
@@ -95,6 +111,14 @@ async function fetchAndCachePricing(): Promise<void> {
   }
 }
 
+/**
+ * Whether a model honours `cache_control` breakpoints when routed through OpenRouter.
+ * Only Anthropic models need explicit breakpoints; OpenAI/DeepSeek cache prefixes automatically.
+ */
+export function supportsPromptCaching(modelId: string): boolean {
+  return modelId.startsWith("anthropic/")
+}
+
 /**
  * Calculate cost from token counts and model pricing.
  */
@@ -136,6 +160,9 @@ export async function* streamChat(
       temperature: options?.temperature ?? 0.7,
       top_p: options?.topP,
       max_tokens: options?.maxTokens,
+      ...(options?.responseSchema && {
+        response_format: { type: "json_schema", json_schema: options.responseSchema },
+      }),
     }),
     signal: options?.signal,
   })
@@ -216,6 +243,7 @@ export async function* streamChat(
     text: fullText,
     promptTokens: finalUsage?.prompt_tokens,
     completionTokens: finalUsage?.completion_tokens,
+    cachedTokens: finalUsage?.prompt_tokens_details?.cached_tokens,
     model: responseModel,
   }
 }
@@ -0,0 +1,176 @@
+/**
+ * Unified LLM provider interface.
+ *
+ * Every provider module (ollama, openrouter, anthropic, openaiCompatible, mock, Claude Code)
+ * is wrapped in an LLMProvider adapter in registry.ts. Consumers — brainstorm,
+ * compression, memory drafting, research — talk to the interface and look
+ * providers up by id, so adding a provider means writing one adapter.
+ */
+
+import type { CacheableChatMessage } from "./context"
+import type { ResponseSchema } from "../../../convex/lib/structuredOutput"
+
+/**
+ * Registered provider ids. "claude" is Claude Code via the Agent SDK on the
+ * Convex backend; every other provider is called directly from the browser.
+ */
+export type ProviderId = "claude" | "ollama" | "openrouter" | "anthropic" | "openai-compatible" | "mock"
+
+/**
+ * Providers that stream from the browser via LLMProvider.streamChat().
+ */
+export type ClientProviderId = Exclude<ProviderId, "claude">
+
+/**
+ * Providers that can stream through a Convex action into the generations table.
+ * OpenRouter and Ollama also need deployment config (OPENROUTER_API_KEY, OLLAMA_URL).
+ */
+export type ServerProviderId = Extract<ProviderId, "claude" | "openrouter" | "ollama">
+
+export function isServerProviderId(id: ProviderId): id is ServerProviderId {
+  return id === "claude" || id === "openrouter" || id === "ollama"
+}
+
+/**
+ * Chat message accepted by every provider. Content may be an array of text parts
+ * carrying Anthropic `cache_control` breakpoints; providers without prompt caching
+ * flatten the parts into a plain string.
+ */
+export type ChatMessage = CacheableChatMessage
+
+export interface ChatOptions {
+  model?: string
+  temperature?: number
+  topP?: number
+  maxTokens?: number
+  signal?: AbortSignal
+  /** Ask for JSON matching this schema; ignored by providers without capabilities.structuredOutput */
+  responseSchema?: ResponseSchema
+}
+
+export interface ChatResult {
+  text: string
+  /** Uncached input tokens */
+  promptTokens?: number
+  completionTokens?: number
+  /** Input tokens written to the prompt cache */
+  cacheWriteTokens?: number
+  /** Input tokens served from the prompt cache */
+  cacheReadTokens?: number
+  /** Cost reported by the provider itself; takes precedence over getPricing() */
+  costUsd?: number
+  /** Model that actually served the request */
+  model?: string
+}
+
+export interface ProviderHealth {
+  ok: boolean
+  /** False when the provider needs an API key/URL that hasn't been entered */
+  configured?: boolean
+  /** Provider is switched off (feature flag) — hide it rather than show "offline" */
+  disabled?: boolean
+  error?: string
+  model?: string
+  version?: string
+}
+
+/**
+ * Latest health per provider; null while the first check is pending.
+ */
+export type ProviderHealthMap = Record<ProviderId, ProviderHealth | null>
+
+export interface ProviderModel {
+  id: string
+  name?: string
+  contextLength?: number
+}
+
+/**
+ * Model pricing in USD per token.
+ */
+export interface ModelPricing {
+  input: number
+  output: number
+  /** Price of a cache write per token (defaults to input) */
+  cacheWrite?: number
+  /** Price of a cache read per token (defaults to input) */
+  cacheRead?: number
+}
+
+export interface ProviderCapabilities {
+  /** Streams from the browser. False for providers only reachable through Convex actions. */
+  clientSide: boolean
+  /** Honours `cache_control` content parts for this model */
+  promptCaching: (model: string) => boolean
+  /** Reports token usage in ChatResult */
+  usage: boolean
+  /** Can run agentic tools (web search, file reads) — required for research */
+  agentTools: boolean
+  /** Constrains output to a JSON Schema natively (ChatOptions.responseSchema); others need schema prompting */
+  structuredOutput: boolean
+  /** Needs user configuration (API key or server URL) before use */
+  requiresConfiguration: boolean
+}
+
+export interface LLMProvider {
+  id: ProviderId
+  /** Human-readable name for selectors and status badges */
+  label: string
+  capabilities: ProviderCapabilities
+
+  /** Model used when a request doesn't specify one (from settings) */
+  getModel(): string | null
+  isConfigured(): boolean
+  checkHealth(): Promise<ProviderHealth>
+  listModels(): Promise<ProviderModel[]>
+  /** Pricing for a model, or null if unknown/free */
+  getPricing(model: string): Promise<ModelPricing | null>
+
+  /**
+   * Stream a chat completion. Yields text chunks and returns usage.
+   * Throws for providers where capabilities.clientSide is false.
+   */
+  streamChat(messages: ChatMessage[], options?: ChatOptions): AsyncGenerator<string, ChatResult, unknown>
+}
+
+/**
+ * Calculate request cost from a result's token counts.
+ */
+export function calculateCost(
+  usage: Pick<ChatResult, "promptTokens" | "completionTokens" | "cacheWriteTokens" | "cacheReadTokens">,
+  pricing: ModelPricing
+): number {
+  return (
+    (usage.promptTokens ?? 0) * pricing.input +
+    (usage.cacheWriteTokens ?? 0) * (pricing.cacheWrite ?? pricing.input) +
+    (usage.cacheReadTokens ?? 0) * (pricing.cacheRead ?? pricing.input) +
+    (usage.completionTokens ?? 0) * pricing.output
+  )
+}
+
+/**
+ * Read a chat stream to the end: its text and the provider's usage.
+ */
+export async function readChat(
+  stream: AsyncGenerator<string, ChatResult, unknown>
+): Promise<{ text: string; usage: ChatResult }> {
+  let text = ""
+  let result = await stream.next()
+  while (!result.done) {
+    text += result.value
+    result = await stream.next()
+  }
+  return { text, usage: result.value }
+}
+
+/**
+ * Flatten content parts into plain strings for providers without prompt caching.
+ */
+export function toPlainMessages(
+  messages: ChatMessage[]
+): Array<{ role: ChatMessage["role"]; content: string }> {
+  return messages.map((m) => ({
+    role: m.role,
+    content: typeof m.content === "string" ? m.content : m.content.map((part) => part.text).join("\n\n"),
+  }))
+}
@@ -0,0 +1,266 @@
+/**
+ * Provider registry — adapters from each provider module to LLMProvider.
+ *
+ * Registration order is the preference order used when auto-selecting a provider
+ * (e.g. compression falls back to the first configured client-side provider).
+ */
+
+import * as ollama from "./ollama"
+import * as openrouter from "./openrouter"
+import * as anthropic from "./anthropic"
+import * as openaiCompatible from "./openaiCompatible"
+import * as mock from "./mock"
+import * as settings from "./settings"
+import { fromCacheableChatMessages } from "./context"
+import {
+  toPlainMessages,
+  type ChatMessage,
+  type ChatOptions,
+  type ChatResult,
+  type ClientProviderId,
+  type LLMProvider,
+  type ProviderId,
+} from "./provider"
+
+const openrouterProvider: LLMProvider = {
+  id: "openrouter",
+  label: "OpenRouter",
+  capabilities: {
+    clientSide: true,
+    promptCaching: openrouter.supportsPromptCaching,
+    usage: true,
+    agentTools: false,
+    structuredOutput: true,
+    requiresConfiguration: true,
+  },
+  getModel: () => settings.openrouter.getModel(),
+  isConfigured: () => settings.openrouter.isConfigured(),
+  checkHealth: () => openrouter.checkHealth(),
+  async listModels() {
+    const models = await openrouter.listModels()
+    return models.map((m) => ({ id: m.id, name: m.name, contextLength: m.context_length }))
+  },
+  async getPricing(model) {
+    const pricing = await openrouter.getModelPricing(model)
+    return pricing ? { input: pricing.prompt, output: pricing.completion } : null
+  },
+  async *streamChat(messages, options) {
+    const result = yield* openrouter.streamChat(messages, options)
+    // OpenRouter reports cached tokens as part of prompt_tokens
+    const cacheRead = result.cachedTokens ?? 0
+    return {
+      text: result.text,
+      promptTokens: result.promptTokens !== undefined ? result.promptTokens - cacheRead : undefined,
+      completionTokens: result.completionTokens,
+      cacheReadTokens: result.cachedTokens,
+      model: result.model,
+    }
+  },
+}
+
+const anthropicProvider: LLMProvider = {
+  id: "anthropic",
+  label: "Anthropic API",
+  capabilities: {
+    clientSide: true,
+    promptCaching: () => true,
+    usage: true,
+    agentTools: false,
+    // No response_format in the Messages API; the schema goes in the system prompt
+    structuredOutput: false,
+    requiresConfiguration: true,
+  },
+  getModel: () => settings.anthropic.getModel(),
+  isConfigured: () => settings.anthropic.isConfigured(),
+  checkHealth: () => anthropic.checkHealth(),
+  async listModels() {
+    const models = await anthropic.listModels()
+    return models.map((m) => ({ id: m.id, name: m.display_name }))
+  },
+  getPricing: async (model) => anthropic.getModelPricing(model),
+  async *streamChat(messages, options) {
+    return yield* anthropic.streamChat(fromCacheableChatMessages(messages), options)
+  },
+}
+
+const openaiCompatibleProvider: LLMProvider = {
+  id: "openai-compatible",
+  label: "Local server",
+  capabilities: {
+    clientSide: true,
+    promptCaching: () => false,
+    usage: true,
+    agentTools: false,
+    structuredOutput: true,
+    requiresConfiguration: true,
+  },
+  getModel: () => settings.openaiCompatible.getModel(),
+  isConfigured: () => settings.openaiCompatible.isConfigured(),
+  checkHealth: () => openaiCompatible.checkHealth(),
+  async listModels() {
+    const models = await openaiCompatible.listModels()
+    return models.map((m) => ({ id: m.id }))
+  },
+  // Self-hosted inference has no per-token price
+  getPricing: async () => null,
+  async *streamChat(messages, options) {
+    return yield* openaiCompatible.streamChat(toPlainMessages(messages), options)
+  },
+}
+
+const ollamaProvider: LLMProvider = {
+  id: "ollama",
+  label: "Ollama",
+  capabilities: {
+    clientSide: true,
+    promptCaching: () => false,
+    usage: true,
+    agentTools: false,
+    structuredOutput: true,
+    // Defaults to localhost, so it's always "configured"
+    requiresConfiguration: false,
+  },
+  getModel: () => settings.ollama.getModel(),
+  isConfigured: () => true,
+  checkHealth: () => ollama.checkHealth(),
+  async listModels() {
+    const models = await ollama.listModels()
+    return models.map((m) => ({ id: m.name }))
+  },
+  getPricing: async () => null,
+  async *streamChat(messages, options) {
+    return yield* ollama.streamChat(toPlainMessages(messages), options)
+  },
+}
+
+const mockProvider: LLMProvider = {
+  id: "mock",
+  label: "Mock",
+  capabilities: {
+    clientSide: true,
+    promptCaching: () => false,
+    usage: true,
+    agentTools: false,
+    structuredOutput: false,
+    requiresConfiguration: true,
+  },
+  getModel: () => mock.MOCK_MODEL,
+  isConfigured: () => settings.mock.isEnabled(),
+  checkHealth: () => mock.checkHealth(),
+  listModels: () => mock.listModels(),
+  // Scripted usage carries its own cost (ChatResult.costUsd)
+  getPricing: async () => null,
+  async *streamChat(messages, options) {
+    return yield* mock.streamChat(toPlainMessages(messages), options)
+  },
+}
+
+// Models offered for Claude Code (undefined model = CLI default)
+const CLAUDE_CODE_MODELS = [
+  { id: "claude-sonnet-4-6", name: "Sonnet 4.6" },
+  { id: "claude-sonnet-4-5-20250929", name: "Sonnet 4.5" },
+  { id: "claude-opus-4-6", name: "Opus 4.6" },
+  { id: "claude-haiku-4-5-20251001", name: "Haiku 4.5" },
+]
+
+/**
+ * Claude Code via the Agent SDK. Runs in Convex actions (brainstorm generations,
+ * compression, memory drafting, research), so it can't stream from the browser;
+ * the adapter provides health, models and capabilities.
+ */
+const claudeProvider: LLMProvider = {
+  id: "claude",
+  label: "Claude",
+  capabilities: {
+    clientSide: false,
+    // The SDK caches via session resume rather than cache_control parts
+    promptCaching: () => false,
+    usage: true,
+    agentTools: true,
+    // Schema prompting server-side, validated when the generation completes
+    structuredOutput: false,
+    requiresConfiguration: false,
+  },
+  getModel: () => null,
+  isConfigured: () => true,
+  async checkHealth() {
+    try {
+      const convexUrl = import.meta.env.VITE_CONVEX_URL as string | undefined
+      const baseUrl = convexUrl
+        ? convexUrl.replace(":3210", ":3211")
+        : "http://127.0.0.1:3211"
+
+      const response = await fetch(`${baseUrl}/api/health/claude`)
+      if (response.ok) {
+        return await response.json()
+      }
+      return { ok: false, error: "Claude Code not available" }
+    } catch {
+      return { ok: false, error: "Failed to check Claude Code" }
+    }
+  },
+  listModels: async () => CLAUDE_CODE_MODELS,
+  // The SDK reports total_cost_usd itself
+  getPricing: async () => null,
+  streamChat() {
+    throw new Error("Claude Code runs on the backend and must be called via Convex action")
+  },
+}
+
+const providers = new Map<ProviderId, LLMProvider>()
+
+/**
+ * Register a provider (replaces any existing provider with the same id).
+ */
+export function registerProvider(provider: LLMProvider): void {
+  providers.set(provider.id, provider)
+}
+
+for (const provider of [
+  claudeProvider,
+  openrouterProvider,
+  anthropicProvider,
+  openaiCompatibleProvider,
+  ollamaProvider,
+  mockProvider,
+]) {
+  registerProvider(provider)
+}
+
+/**
+ * Look up a provider by id. Throws for unknown ids.
+ */
+export function getProvider(id: ProviderId): LLMProvider {
+  const provider = providers.get(id)
+  if (!provider) {
+    throw new Error(`Unknown provider: ${id}`)
+  }
+  return provider
+}
+
+/**
+ * All registered providers, in registration order.
+ */
+export function listProviders(): LLMProvider[] {
+  return [...providers.values()]
+}
+
+/**
+ * Providers that stream from the browser.
+ */
+export function listClientProviders(): Array<LLMProvider & { id: ClientProviderId }> {
+  return listProviders().filter(
+    (p): p is LLMProvider & { id: ClientProviderId } => p.capabilities.clientSide
+  )
+}
+
+/**
+ * Stream a chat completion through a registered provider.
+ */
+export function streamChat(
+  id: ProviderId,
+  messages: ChatMessage[],
+  options?: ChatOptions
+): AsyncGenerator<string, ChatResult, unknown> {
+  return getProvider(id).streamChat(messages, options)
+}
@@ -0,0 +1,66 @@
+import { describe, it, expect } from "vitest"
+import {
+  buildSummaryPrompt,
+  formatSummaryBlock,
+  planRollingSummary,
+  stripSummaryHeading,
+  unsummarizedHistory,
+} from "./rollingSummary"
+
+// Six turns of ~100 tokens per message
+const history = Array.from({ length: 12 }, (_, i) => ({
+  id: `m${i}`,
+  role: (i % 2 === 0 ? "user" : "assistant") as "user" | "assistant",
+  content: "x".repeat(400),
+}))
+
+const ids = (messages: Array<{ id: string }>) => messages.map((m) => m.id)
+
+describe("planRollingSummary", () => {
+  it("keeps everything under the threshold", () => {
+    const plan = planRollingSummary(history, null, { thresholdTokens: 2000, keepTurns: 2 })
+    expect(plan.fold).toEqual([])
+    expect(plan.keep).toHaveLength(12)
+  })
+
+  it("folds all but the last N user turns past the threshold", () => {
+    const plan = planRollingSummary(history, null, { thresholdTokens: 500, keepTurns: 2 })
+    expect(ids(plan.fold)).toEqual(["m0", "m1", "m2", "m3", "m4", "m5", "m6", "m7"])
+    expect(ids(plan.keep)).toEqual(["m8", "m9", "m10", "m11"])
+  })
+
+  it("only counts messages after the summarized prefix", () => {
+    const plan = planRollingSummary(history, "m7", { thresholdTokens: 500, keepTurns: 2 })
+    expect(plan.fold).toEqual([])
+    expect(ids(plan.keep)).toEqual(["m8", "m9", "m10", "m11"])
+  })
+
+  it("never folds when there are too few turns to keep", () => {
+    const plan = planRollingSummary(history.slice(0, 3), null, { thresholdTokens: 10, keepTurns: 4 })
+    expect(plan.fold).toEqual([])
+  })
+})
+
+describe("unsummarizedHistory", () => {
+  it("falls back to the full history when the summary is for another branch", () => {
+    expect(unsummarizedHistory(history, "elsewhere")).toHaveLength(12)
+    expect(ids(unsummarizedHistory(history, "m9"))).toEqual(["m10", "m11"])
+  })
+})
+
+describe("summary block content", () => {
+  it("round-trips the heading", () => {
+    const content = formatSummaryBlock("- Picked Postgres\n")
+    expect(stripSummaryHeading(content)).toBe("- Picked Postgres")
+    expect(stripSummaryHeading("user edited text")).toBe("user edited text")
+  })
+
+  it("includes the current summary and the new turns in the prompt", () => {
+    const prompt = buildSummaryPrompt("- Earlier point", [
+      { id: "a", role: "user", content: "Question?" },
+      { id: "b", role: "assistant", content: "Answer." },
+    ])
+    expect(prompt).toContain("CURRENT SUMMARY:\n- Earlier point")
+    expect(prompt).toContain("User: Question?\n\nAssistant: Answer.")
+  })
+})
@@ -0,0 +1,137 @@
+/**
+ * Rolling conversation summarization for long brainstorms.
+ *
+ * Once the turns not yet covered by the summary pass a token threshold, the
+ * older ones are folded into a `note` block in WORKING by the compression
+ * provider. Only the most recent turns are then sent verbatim; the summary
+ * reaches the model as an ordinary WORKING block, which the user can edit.
+ */
+
+import { getProvider } from "./registry"
+import { readChat, type ChatResult, type ClientProviderId } from "./provider"
+
+export interface RollingSummaryOptions {
+  /** Summarize once the unsummarized history exceeds this many tokens */
+  thresholdTokens: number
+  /** User turns (with their replies) kept verbatim */
+  keepTurns: number
+}
+
+export const DEFAULT_ROLLING_SUMMARY: RollingSummaryOptions = {
+  thresholdTokens: 8_000,
+  keepTurns: 4,
+}
+
+/** First line of the summary block; stripped before the summary is extended */
+export const SUMMARY_HEADING = "## Earlier in this conversation"
+
+interface SummaryMessage {
+  id: string
+  role: "user" | "assistant"
+  content: string
+}
+
+export interface RollingSummaryPlan<T> {
+  /** Messages to fold into the summary (empty when the history is under the threshold) */
+  fold: T[]
+  /** Messages sent verbatim after the summary */
+  keep: T[]
+}
+
+// Approximate token count (chars / 4), as in the compression strategies
+const estimateTokens = (text: string) => Math.ceil(text.length / 4)
+
+/**
+ * Messages after the summarized prefix. Falls back to the whole history when the
+ * summary doesn't cover this branch (e.g. after switching branches).
+ */
+export function unsummarizedHistory<T extends SummaryMessage>(
+  history: T[],
+  summarizedThroughId: string | null | undefined
+): T[] {
+  if (!summarizedThroughId) return history
+  const through = history.findIndex((m) => m.id === summarizedThroughId)
+  return through === -1 ? history : history.slice(through + 1)
+}
+
+/**
+ * Decide which unsummarized messages to fold into the summary. Folding starts
+ * only past the threshold and always keeps the last `keepTurns` user turns.
+ */
+export function planRollingSummary<T extends SummaryMessage>(
+  history: T[],
+  summarizedThroughId: string | null | undefined,
+  options: RollingSummaryOptions = DEFAULT_ROLLING_SUMMARY
+): RollingSummaryPlan<T> {
+  const pending = unsummarizedHistory(history, summarizedThroughId)
+  const tokens = pending.reduce((sum, m) => sum + estimateTokens(m.content), 0)
+  if (tokens <= options.thresholdTokens) return { fold: [], keep: pending }
+
+  // Start of the oldest kept user turn
+  let turns = 0
+  let keepFrom = pending.length
+  for (let i = pending.length - 1; i >= 0 && turns < options.keepTurns; i--) {
+    if (pending[i].role === "user") {
+      turns++
+      keepFrom = i
+    }
+  }
+  if (turns < options.keepTurns) return { fold: [], keep: pending }
+
+  return { fold: pending.slice(0, keepFrom), keep: pending.slice(keepFrom) }
+}
+
+/**
+ * Summary text from a summary block's content (without the heading).
+ */
+export function stripSummaryHeading(content: string): string {
+  return content.startsWith(SUMMARY_HEADING) ? content.slice(SUMMARY_HEADING.length).trim() : content.trim()
+}
+
+/**
+ * Block content for a summary.
+ */
+export function formatSummaryBlock(summary: string): string {
+  return `${SUMMARY_HEADING}\n\n${summary.trim()}`
+}
+
+/**
+ * Prompt asking the compression provider to extend the running summary with older turns.
+ */
+export function buildSummaryPrompt(previousSummary: string | null, messages: SummaryMessage[]): string {
+  const transcript = messages
+    .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`)
+    .join("\n\n")
+
+  return `You maintain a running summary of a brainstorming conversation so it can continue without the full transcript.
+
+${previousSummary ? `CURRENT SUMMARY:\n${previousSummary}\n\n` : ""}NEW TURNS TO ADD:
+${transcript}
+
+Write the updated summary:
+- Keep ALL decisions, conclusions, open questions, names, numbers and constraints
+- Note ideas that were rejected and why
+- Keep it chronological and concise; use short bullet points
+- Output ONLY the summary (no preamble or meta-commentary)
+
+UPDATED SUMMARY:`
+}
+
+/**
+ * Run a summary prompt through a client-side provider.
+ * Returns the summary with the call's usage, for the cost ledger.
+ */
+export async function summarizeWithProvider(
+  providerId: ClientProviderId,
+  prompt: string,
+  model?: string
+): Promise<{ summary: string; usage: ChatResult }> {
+  const llm = getProvider(providerId)
+  const { text, usage } = await readChat(
+    llm.streamChat([{ role: "user", content: prompt }], {
+      model,
+      temperature: 0.2,
+    })
+  )
+  return { summary: text.trim(), usage }
+}
@@ -3,26 +3,46 @@
  * Stores API keys and endpoints in localStorage (client-side only).
  */
 
+import type { ClientProviderId, ProviderId } from "./provider"
+import type { MockScript } from "./mock"
+import type { CompressionStrategy } from "../compression/types"
+
 // localStorage keys
 const KEYS = {
   OPENROUTER_API_KEY: "contextforge-openrouter-api-key",
   OPENROUTER_MODEL: "contextforge-openrouter-model",
+  ANTHROPIC_API_KEY: "contextforge-anthropic-api-key",
+  ANTHROPIC_MODEL: "contextforge-anthropic-model",
   OLLAMA_URL: "contextforge-ollama-url",
   OLLAMA_MODEL: "contextforge-ollama-model",
+  OPENAI_COMPATIBLE_URL: "contextforge-openai-compatible-url",
+  OPENAI_COMPATIBLE_API_KEY: "contextforge-openai-compatible-api-key",
+  OPENAI_COMPATIBLE_MODEL: "contextforge-openai-compatible-model",
+  MOCK_ENABLED: "contextforge-mock-enabled",
+  MOCK_SCRIPT: "contextforge-mock-script",
   COMPRESSION_PROVIDER: "contextforge-compression-provider",
+  COMPRESSION_STRATEGY: "contextforge-compression-strategy",
+  COMPRESSION_MIN_FIDELITY: "contextforge-compression-min-fidelity",
   BRAINSTORM_PROVIDER: "contextforge-brainstorm-provider",
   BRAINSTORM_MODEL: "contextforge-brainstorm-model",
+  BRAINSTORM_COMPARE_TARGETS: "contextforge-brainstorm-compare-targets",
+  BRAINSTORM_SERVER_GENERATION: "contextforge-brainstorm-server-generation",
+  BRAINSTORM_ROLLING_SUMMARY: "contextforge-brainstorm-rolling-summary",
+  BRAINSTORM_SELF_TALK_MARKERS: "contextforge-brainstorm-self-talk-markers",
+  BRAINSTORM_OUTPUT_SCHEMA: "contextforge-brainstorm-output-schema",
 } as const
 
-// Compression provider types
-export type CompressionProvider = "claude-code" | "ollama" | "openrouter"
+// Compression provider types (client-side registry providers, or Claude Code on the backend)
+export type CompressionProvider = ClientProviderId | "claude-code"
 
 // Default values
 const DEFAULTS = {
   OPENROUTER_MODEL: "anthropic/claude-sonnet-4",
+  ANTHROPIC_MODEL: "claude-sonnet-4-6",
   OLLAMA_URL: "http://localhost:11434",
   OLLAMA_MODEL: "llama3.2:latest",
   COMPRESSION_PROVIDER: "claude-code" as CompressionProvider,
+  COMPRESSION_STRATEGY: "semantic" as CompressionStrategy,
 } as const
 
 /**
@@ -54,6 +74,35 @@ export const openrouter = {
   },
 }
 
+/**
+ * Anthropic (direct Messages API) settings
+ */
+export const anthropic = {
+  getApiKey(): string | null {
+    return localStorage.getItem(KEYS.ANTHROPIC_API_KEY)
+  },
+
+  setApiKey(key: string): void {
+    localStorage.setItem(KEYS.ANTHROPIC_API_KEY, key)
+  },
+
+  clearApiKey(): void {
+    localStorage.removeItem(KEYS.ANTHROPIC_API_KEY)
+  },
+
+  getModel(): string {
+    return localStorage.getItem(KEYS.ANTHROPIC_MODEL) || DEFAULTS.ANTHROPIC_MODEL
+  },
+
+  setModel(model: string): void {
+    localStorage.setItem(KEYS.ANTHROPIC_MODEL, model)
+  },
+
+  isConfigured(): boolean {
+    return !!this.getApiKey()
+  },
+}
+
 /**
  * Ollama settings
  */
@@ -75,6 +124,89 @@ export const ollama = {
   },
 }
 
+/**
+ * OpenAI-compatible server settings (LM Studio, vLLM, llama.cpp server).
+ * No defaults: the feature is off until a base URL is entered.
+ */
+export const openaiCompatible = {
+  getBaseUrl(): string | null {
+    return localStorage.getItem(KEYS.OPENAI_COMPATIBLE_URL)
+  },
+
+  setBaseUrl(url: string): void {
+    if (url.trim()) {
+      localStorage.setItem(KEYS.OPENAI_COMPATIBLE_URL, url.trim())
+    } else {
+      localStorage.removeItem(KEYS.OPENAI_COMPATIBLE_URL)
+    }
+  },
+
+  /** Optional bearer token (vLLM --api-key, proxies) */
+  getApiKey(): string | null {
+    return localStorage.getItem(KEYS.OPENAI_COMPATIBLE_API_KEY)
+  },
+
+  setApiKey(key: string): void {
+    localStorage.setItem(KEYS.OPENAI_COMPATIBLE_API_KEY, key)
+  },
+
+  clearApiKey(): void {
+    localStorage.removeItem(KEYS.OPENAI_COMPATIBLE_API_KEY)
+  },
+
+  getModel(): string | null {
+    return localStorage.getItem(KEYS.OPENAI_COMPATIBLE_MODEL)
+  },
+
+  setModel(model: string): void {
+    localStorage.setItem(KEYS.OPENAI_COMPATIBLE_MODEL, model)
+  },
+
+  isConfigured(): boolean {
+    return !!this.getBaseUrl()
+  },
+}
+
+/**
+ * Scripted mock provider settings (offline development, e2e tests).
+ * Enabled per browser, or for every session with VITE_MOCK_LLM=true.
+ */
+export const mock = {
+  isEnabled(): boolean {
+    return (
+      import.meta.env.VITE_MOCK_LLM === "true" ||
+      localStorage.getItem(KEYS.MOCK_ENABLED) === "true"
+    )
+  },
+
+  setEnabled(enabled: boolean): void {
+    if (enabled) {
+      localStorage.setItem(KEYS.MOCK_ENABLED, "true")
+    } else {
+      localStorage.removeItem(KEYS.MOCK_ENABLED)
+    }
+  },
+
+  /** Script override; null means the bundled fixture (e2e/fixtures/mock-llm.json) */
+  getScript(): MockScript | null {
+    const raw = localStorage.getItem(KEYS.MOCK_SCRIPT)
+    if (!raw) return null
+    try {
+      return JSON.parse(raw) as MockScript
+    } catch {
+      return null
+    }
+  },
+
+  setScript(script: MockScript): void {
+    localStorage.setItem(KEYS.MOCK_SCRIPT, JSON.stringify(script))
+  },
+
+  clearScript(): void {
+    localStorage.removeItem(KEYS.MOCK_SCRIPT)
+  },
+}
+
 /**
  * Compression provider settings
  */
@@ -87,17 +219,45 @@ export const compression = {
   setProvider(provider: CompressionProvider): void {
     localStorage.setItem(KEYS.COMPRESSION_PROVIDER, provider)
   },
+
+  // Default strategy for the block and merge compress actions
+  getStrategy(): CompressionStrategy {
+    const strategy = localStorage.getItem(KEYS.COMPRESSION_STRATEGY) as CompressionStrategy | null
+    return strategy || DEFAULTS.COMPRESSION_STRATEGY
+  },
+
+  setStrategy(strategy: CompressionStrategy): void {
+    localStorage.setItem(KEYS.COMPRESSION_STRATEGY, strategy)
+  },
+
+  // Share of the original's facts (0-1) a compression must keep to be applied; 0 = no check
+  getMinFidelity(): number {
+    const value = Number(localStorage.getItem(KEYS.COMPRESSION_MIN_FIDELITY))
+    return Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0
+  },
+
+  setMinFidelity(minFidelity: number): void {
+    localStorage.setItem(KEYS.COMPRESSION_MIN_FIDELITY, String(Math.min(1, Math.max(0, minFidelity))))
+  },
+}
+
+/**
+ * A provider/model pair in brainstorm compare mode (null model = provider default)
+ */
+export interface CompareTarget {
+  provider: ProviderId
+  model: string | null
 }
 
 /**
  * Brainstorm provider/model preference
  */
 export const brainstorm = {
-  getProvider(): string {
-    return localStorage.getItem(KEYS.BRAINSTORM_PROVIDER) || "claude"
+  getProvider(): ProviderId {
+    return (localStorage.getItem(KEYS.BRAINSTORM_PROVIDER) as ProviderId | null) || "claude"
   },
 
-  setProvider(provider: string): void {
+  setProvider(provider: ProviderId): void {
     localStorage.setItem(KEYS.BRAINSTORM_PROVIDER, provider)
   },
 
@@ -112,6 +272,68 @@ export const brainstorm = {
       localStorage.removeItem(KEYS.BRAINSTORM_MODEL)
     }
   },
+
+  getCompareTargets(): CompareTarget[] {
+    try {
+      return JSON.parse(localStorage.getItem(KEYS.BRAINSTORM_COMPARE_TARGETS) || "[]")
+    } catch {
+      return []
+    }
+  },
+
+  setCompareTargets(targets: CompareTarget[]): void {
+    localStorage.setItem(KEYS.BRAINSTORM_COMPARE_TARGETS, JSON.stringify(targets))
+  },
+
+  /** Run OpenRouter/Ollama on the Convex backend when the deployment supports it */
+  getServerGeneration(): boolean {
+    return localStorage.getItem(KEYS.BRAINSTORM_SERVER_GENERATION) === "true"
+  },
+
+  setServerGeneration(enabled: boolean): void {
+    localStorage.setItem(KEYS.BRAINSTORM_SERVER_GENERATION, String(enabled))
+  },
+
+  /** Fold older turns into a WORKING summary block once the conversation gets long */
+  getRollingSummary(): boolean {
+    return localStorage.getItem(KEYS.BRAINSTORM_ROLLING_SUMMARY) === "true"
+  },
+
+  setRollingSummary(enabled: boolean): void {
+    localStorage.setItem(KEYS.BRAINSTORM_ROLLING_SUMMARY, String(enabled))
+  },
+
+  /** Extra self-talk markers, checked on every provider's stream in addition to the built-in ones */
+  getSelfTalkMarkers(): string[] {
+    try {
+      const markers = JSON.parse(localStorage.getItem(KEYS.BRAINSTORM_SELF_TALK_MARKERS) || "[]")
+      return Array.isArray(markers) ? markers.filter((m): m is string => typeof m === "string" && m !== "") : []
+    } catch {
+      return []
+    }
+  },
+
+  setSelfTalkMarkers(markers: string[]): void {
+    const cleaned = markers.filter((m) => m.trim() !== "")
+    if (cleaned.length > 0) {
+      localStorage.setItem(KEYS.BRAINSTORM_SELF_TALK_MARKERS, JSON.stringify(cleaned))
+    } else {
+      localStorage.removeItem(KEYS.BRAINSTORM_SELF_TALK_MARKERS)
+    }
+  },
+
+  /** JSON Schema text for structured-output mode (kept while the mode is off) */
+  getOutputSchema(): string | null {
+    return localStorage.getItem(KEYS.BRAINSTORM_OUTPUT_SCHEMA)
+  },
+
+  setOutputSchema(schema: string | null): void {
+    if (schema?.trim()) {
+      localStorage.setItem(KEYS.BRAINSTORM_OUTPUT_SCHEMA, schema)
+    } else {
+      localStorage.removeItem(KEYS.BRAINSTORM_OUTPUT_SCHEMA)
+    }
+  },
 }
 
 /**
@@ -121,9 +343,17 @@ export function getAllSettings(): Record<string, string | null> {
   return {
     openrouterApiKey: openrouter.getApiKey() ? "[CONFIGURED]" : null,
     openrouterModel: openrouter.getModel(),
+    anthropicApiKey: anthropic.getApiKey() ? "[CONFIGURED]" : null,
+    anthropicModel: anthropic.getModel(),
     ollamaUrl: ollama.getUrl(),
     ollamaModel: ollama.getModel(),
+    openaiCompatibleUrl: openaiCompatible.getBaseUrl(),
+    openaiCompatibleApiKey: openaiCompatible.getApiKey() ? "[CONFIGURED]" : null,
+    openaiCompatibleModel: openaiCompatible.getModel(),
+    mockEnabled: String(mock.isEnabled()),
     compressionProvider: compression.getProvider(),
+    compressionStrategy: compression.getStrategy(),
+    compressionMinFidelity: String(compression.getMinFidelity()),
   }
 }
 
@@ -10,6 +10,11 @@ import {
   BRAINSTORMING_SKILL_LABEL,
   BRAINSTORMING_SKILL_CONTENT,
 } from "./brainstorming"
+import {
+  QUESTIONING_SKILL_ID,
+  QUESTIONING_SKILL_LABEL,
+  QUESTIONING_SKILL_CONTENT,
+} from "./questioning"
 
 export interface SkillDefinition {
   id: string
@@ -23,10 +28,16 @@ export const SKILLS: Record<string, SkillDefinition> = {
     label: BRAINSTORMING_SKILL_LABEL,
     content: BRAINSTORMING_SKILL_CONTENT,
   },
+  [QUESTIONING_SKILL_ID]: {
+    id: QUESTIONING_SKILL_ID,
+    label: QUESTIONING_SKILL_LABEL,
+    content: QUESTIONING_SKILL_CONTENT,
+  },
 }
 
 export const DEFAULT_ACTIVE_SKILLS: Record<string, boolean> = {
   [BRAINSTORMING_SKILL_ID]: true,
+  [QUESTIONING_SKILL_ID]: false,
 }
 
 /**
@@ -0,0 +1,40 @@
+/**
+ * Clarifying-questions skill.
+ * See docs/design/DESIGN-brainstorm-questioning.md
+ *
+ * Asks the model to return its open questions as a `questions` JSON block
+ * before generating. The brainstorm dialog renders that block as a form and
+ * sends the answers back as the next user turn (lib/llm/clarifyingQuestions.ts).
+ * Mirrored in convex/lib/skills.ts for the server-side providers.
+ */
+
+export const QUESTIONING_SKILL_ID = "clarifying-questions"
+export const QUESTIONING_SKILL_LABEL = "Clarifying Questions"
+
+export const QUESTIONING_SKILL_CONTENT = `# Clarifying Questions Before Generating
+
+Before producing a design, draft or plan, check whether the request leaves open decisions that would change your answer (audience, scope, constraints, format, success criteria). Use the context blocks first — never ask about something they already answer.
+
+## When something important is unclear
+
+Reply with one short sentence, then ONLY a fenced block tagged \`questions\`. The user answers all of them at once in a form, so this replaces asking one question per message.
+
+\`\`\`questions
+{"questions": [
+  {"id": "audience", "question": "Who is the primary audience?", "options": ["Casual players", "Competitive players", "Families"]},
+  {"id": "scope", "question": "What should be explicitly out of scope?"}
+]}
+\`\`\`
+
+- Ask at most 5 questions, most important first
+- Give 2-5 short options when the answers are knowable; the user can always write their own answer
+- Leave out options for open-ended questions
+- Write nothing after the block
+
+## When the request is clear
+
+Skip the questions and answer normally.
+
+## After the answers
+
+A message starting with "Answers to your questions" contains the user's answers. Treat them as decisions, then generate. Ask another round only if something essential is still unclear.`
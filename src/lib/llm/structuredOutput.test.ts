@@ -0,0 +1,76 @@
+import { describe, it, expect } from "vitest"
+import { generateStructured, StructuredOutputError, withSchemaInstruction } from "./structuredOutput"
+import type { ChatMessage, ChatOptions, LLMProvider } from "./provider"
+import type { ResponseSchema } from "../../../convex/lib/structuredOutput"
+
+const responseSchema: ResponseSchema = {
+  name: "risk",
+  schema: {
+    type: "object",
+    required: ["risk", "severity"],
+    properties: { risk: { type: "string" }, severity: { enum: ["low", "high"] } },
+  },
+}
+
+// Provider replying from a script and recording each request
+function scriptedProvider(replies: string[], native: boolean) {
+  const calls: Array<{ messages: ChatMessage[]; options?: ChatOptions }> = []
+  const llm = {
+    capabilities: { structuredOutput: native },
+    async *streamChat(messages: ChatMessage[], options?: ChatOptions) {
+      calls.push({ messages, options })
+      const text = replies[calls.length - 1] ?? ""
+      yield text
+      return { text, promptTokens: 10, completionTokens: 5 }
+    },
+  } as unknown as LLMProvider
+  return { llm, calls }
+}
+
+describe("withSchemaInstruction", () => {
+  it("appends to the system message, or adds one", () => {
+    const withSystem = withSchemaInstruction(
+      [{ role: "system", content: "Be brief." }, { role: "user", content: "Go" }],
+      responseSchema
+    )
+    expect(withSystem[0].content).toMatch(/^Be brief\.\n\nRespond with ONLY a JSON value/)
+
+    const withoutSystem = withSchemaInstruction([{ role: "user", content: "Go" }], responseSchema)
+    expect(withoutSystem[0].role).toBe("system")
+    expect(withoutSystem).toHaveLength(2)
+  })
+})
+
+describe("generateStructured", () => {
+  it("passes the schema natively and skips the prompt instruction", async () => {
+    const { llm, calls } = scriptedProvider(['{"risk": "Lock-in", "severity": "high"}'], true)
+    const result = await generateStructured(llm, [{ role: "user", content: "Top risk?" }], responseSchema)
+    expect(result).toMatchObject({ value: { risk: "Lock-in", severity: "high" }, attempts: 1 })
+    expect(calls[0].options?.responseSchema).toBe(responseSchema)
+    expect(calls[0].messages).toEqual([{ role: "user", content: "Top risk?" }])
+  })
+
+  it("repairs an invalid reply with its validation errors", async () => {
+    const { llm, calls } = scriptedProvider(
+      ['{"risk": "Lock-in", "severity": "medium"}', '{"risk": "Lock-in", "severity": "high"}'],
+      false
+    )
+    const result = await generateStructured(llm, [{ role: "user", content: "Top risk?" }], responseSchema)
+    expect(result.attempts).toBe(2)
+    expect(result.usage).toMatchObject({ promptTokens: 20, completionTokens: 10 })
+    expect(calls[0].options?.responseSchema).toBeUndefined()
+    const repair = calls[1].messages.slice(-2)
+    expect(repair[0]).toEqual({ role: "assistant", content: '{"risk": "Lock-in", "severity": "medium"}' })
+    expect(repair[1].content).toContain('$.severity: must be one of "low", "high"')
+  })
+
+  it("gives up after the repair budget", async () => {
+    const { llm, calls } = scriptedProvider(["nope", "still no", "no"], false)
+    const error = await generateStructured(llm, [{ role: "user", content: "Top risk?" }], responseSchema, {
+      maxRepairs: 1,
+    }).catch((err: unknown) => err)
+    expect(error).toBeInstanceOf(StructuredOutputError)
+    expect((error as StructuredOutputError).usage).toMatchObject({ promptTokens: 20, completionTokens: 10 })
+    expect(calls).toHaveLength(2)
+  })
+})
@@ -0,0 +1,122 @@
+/**
+ * Structured output from client-side providers: native JSON mode where the
+ * provider has one, schema prompting otherwise, then validation with repair
+ * retries. Parsing, validation and prompts live in convex/lib/structuredOutput.ts
+ * (shared with the server-side generation actions).
+ */
+
+import type { ChatMessage, ChatOptions, ChatResult, LLMProvider } from "./provider"
+import {
+  MAX_STRUCTURED_REPAIRS,
+  buildRepairPrompt,
+  buildSchemaInstruction,
+  checkStructuredReply,
+  type ResponseSchema,
+} from "../../../convex/lib/structuredOutput"
+
+export interface StructuredResult {
+  value: unknown
+  /** Raw text of the accepted reply */
+  text: string
+  /** Replies requested, including repairs */
+  attempts: number
+  /** Usage of every attempt added up; repairs are billed too */
+  usage: ChatResult
+}
+
+/**
+ * Thrown when every attempt failed validation; carries the last reply, its
+ * errors and the usage of all attempts.
+ */
+export class StructuredOutputError extends Error {
+  readonly errors: string[]
+  readonly text: string
+  readonly usage: ChatResult
+
+  constructor(errors: string[], text: string, usage: ChatResult) {
+    super(`Reply did not match the schema: ${errors[0] ?? "unknown error"}`)
+    this.name = "StructuredOutputError"
+    this.errors = errors
+    this.text = text
+    this.usage = usage
+  }
+}
+
+const sum = (a: number | undefined, b: number | undefined) =>
+  a === undefined && b === undefined ? undefined : (a ?? 0) + (b ?? 0)
+
+// Usage of two attempts together; a reported cost only counts if every attempt has one
+function addUsage(total: ChatResult | undefined, usage: ChatResult): ChatResult {
+  if (!total) return usage
+  return {
+    text: usage.text,
+    promptTokens: sum(total.promptTokens, usage.promptTokens),
+    completionTokens: sum(total.completionTokens, usage.completionTokens),
+    cacheWriteTokens: sum(total.cacheWriteTokens, usage.cacheWriteTokens),
+    cacheReadTokens: sum(total.cacheReadTokens, usage.cacheReadTokens),
+    costUsd: total.costUsd !== undefined && usage.costUsd !== undefined ? total.costUsd + usage.costUsd : undefined,
+    model: usage.model ?? total.model,
+  }
+}
+
+/**
+ * Add the schema instruction to the system message (or start one) for
+ * providers without a native JSON mode.
+ */
+export function withSchemaInstruction(messages: ChatMessage[], responseSchema: ResponseSchema): ChatMessage[] {
+  const instruction = buildSchemaInstruction(responseSchema.schema)
+  const systemIndex = messages.findIndex((m) => m.role === "system")
+  if (systemIndex === -1) {
+    return [{ role: "system", content: instruction.trimStart() }, ...messages]
+  }
+  return messages.map((m, i) => {
+    if (i !== systemIndex) return m
+    const content = typeof m.content === "string"
+      ? m.content + instruction
+      : [...m.content, { type: "text" as const, text: instruction.trimStart() }]
+    return { ...m, content }
+  })
+}
+
+/**
+ * Request a reply matching the schema, sending failed replies back with their
+ * validation errors up to `maxRepairs` times.
+ */
+export async function generateStructured(
+  llm: LLMProvider,
+  messages: ChatMessage[],
+  responseSchema: ResponseSchema,
+  options: Omit<ChatOptions, "responseSchema"> & { maxRepairs?: number } = {}
+): Promise<StructuredResult> {
+  const { maxRepairs = MAX_STRUCTURED_REPAIRS, ...chatOptions } = options
+  const native = llm.capabilities.structuredOutput
+  let conversation = native ? messages : withSchemaInstruction(messages, responseSchema)
+  let usage: ChatResult | undefined
+
+  for (let attempt = 1; ; attempt++) {
+    const generator = llm.streamChat(conversation, {
+      ...chatOptions,
+      ...(native && { responseSchema }),
+    })
+    let text = ""
+    let result = await generator.next()
+    while (!result.done) {
+      text += result.value
+      result = await generator.next()
+    }
+    usage = addUsage(usage, result.value)
+
+    const check = checkStructuredReply(text, responseSchema.schema)
+    if (check.ok) {
+      return { value: check.value, text, attempts: attempt, usage }
+    }
+    if (attempt > maxRepairs) {
+      throw new StructuredOutputError(check.errors, text, usage)
+    }
+    conversation = [
+      ...conversation,
+      { role: "assistant", content: text },
+      { role: "user", content: buildRepairPrompt(check.errors) },
+    ]
+  }
+}
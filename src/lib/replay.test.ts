@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest"
+import { estimateReplyTokens, replayTurnsFrom, summarizeReplay } from "./replay"
+
+describe("replayTurnsFrom", () => {
+  it("pairs each user message with the reply that followed", () => {
+    expect(
+      replayTurnsFrom([
+        { id: "u1", role: "user", content: "Hi" },
+        { id: "a1", role: "assistant", content: "Hello" },
+        { id: "u2", role: "user", content: "Again" },
+        { id: "u3", role: "user", content: "Unanswered" },
+      ])
+    ).toEqual([
+      { messageId: "u1", user: "Hi", original: "Hello" },
+      { messageId: "u2", user: "Again" },
+      { messageId: "u3", user: "Unanswered" },
+    ])
+  })
+})
+
+describe("summarizeReplay", () => {
+  it("totals replayed turns and prices the token delta", () => {
+    const summary = summarizeReplay(
+      [
+        { original: "a".repeat(40), replayed: "b".repeat(80), costUsd: 0.01 },
+        { original: "c".repeat(40), replayed: "d".repeat(20), costUsd: 0.02 },
+        { original: "not replayed yet" },
+      ],
+      { input: 0.000001, output: 0.00001 }
+    )
+    expect(summary).toMatchObject({
+      completed: 2,
+      originalTokens: 20,
+      replayedTokens: 25,
+      tokenDelta: 5,
+    })
+    expect(summary.costUsd).toBeCloseTo(0.03)
+    expect(summary.costDeltaUsd).toBeCloseTo(0.00005)
+  })
+
+  it("leaves the cost delta out without pricing", () => {
+    expect(summarizeReplay([{ replayed: "x" }]).costDeltaUsd).toBeUndefined()
+    expect(estimateReplyTokens("")).toBe(0)
+  })
+})
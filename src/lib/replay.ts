@@ -0,0 +1,87 @@
+/**
+ * Conversation replay: re-run a thread's user turns against another context
+ * (a snapshot or the current blocks) or model, for regression-style checks.
+ *
+ * Turns run in order and each replayed reply becomes the history for the next,
+ * so the replay is the conversation as it would go now. Original replies
+ * don't record usage, so token deltas compare estimates of both texts.
+ */
+
+import type { ModelPricing } from "@/lib/llm/provider"
+
+export interface ReplayTurnSource {
+  /** Id of the user message in the original thread */
+  messageId: string
+  user: string
+  /** The assistant reply that followed, if any */
+  original?: string
+}
+
+/**
+ * User turns of a branch, each with the assistant reply that followed it.
+ */
+export function replayTurnsFrom(
+  messages: { id: string; role: "user" | "assistant"; content: string }[]
+): ReplayTurnSource[] {
+  const turns: ReplayTurnSource[] = []
+  messages.forEach((message, i) => {
+    if (message.role !== "user") return
+    const next = messages[i + 1]
+    turns.push({
+      messageId: message.id,
+      user: message.content,
+      ...(next?.role === "assistant" && { original: next.content }),
+    })
+  })
+  return turns
+}
+
+/** Token estimate (chars / 4), applied to both sides so deltas are comparable */
+export function estimateReplyTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+export interface ReplayTurnOutcome {
+  original?: string
+  replayed?: string
+  /** Cost reported for the replayed turn */
+  costUsd?: number
+}
+
+export interface ReplaySummary {
+  /** Turns with a replayed reply */
+  completed: number
+  originalTokens: number
+  replayedTokens: number
+  tokenDelta: number
+  /** Reported cost of the replayed turns */
+  costUsd: number
+  /** Estimated cost of the token delta at the replay model's output price */
+  costDeltaUsd?: number
+}
+
+/**
+ * Totals over the replayed turns; turns not yet replayed are left out of both sides.
+ */
+export function summarizeReplay(turns: ReplayTurnOutcome[], pricing?: ModelPricing | null): ReplaySummary {
+  let completed = 0
+  let originalTokens = 0
+  let replayedTokens = 0
+  let costUsd = 0
+  for (const turn of turns) {
+    if (turn.replayed === undefined) continue
+    completed++
+    originalTokens += estimateReplyTokens(turn.original ?? "")
+    replayedTokens += estimateReplyTokens(turn.replayed)
+    costUsd += turn.costUsd ?? 0
+  }
+  const tokenDelta = replayedTokens - originalTokens
+  return {
+    completed,
+    originalTokens,
+    replayedTokens,
+    tokenDelta,
+    costUsd,
+    ...(pricing && { costDeltaUsd: tokenDelta * pricing.output }),
+  }
+}
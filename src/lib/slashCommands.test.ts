@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest"
+import {
+  getSlashSuggestions,
+  matchOptions,
+  parseSlashCommand,
+  parseZone,
+  resolveOption,
+  type SlashSources,
+} from "./slashCommands"
+
+const sources: SlashSources = {
+  blocks: [
+    { id: "b1", label: "API design notes" },
+    { id: "b2", label: "API error codes" },
+    { id: "b3", label: "Launch checklist" },
+  ],
+  memories: [{ id: "m1", label: "Use Postgres" }],
+  models: [
+    { id: "claude-sonnet-4-6", label: "claude-sonnet-4-6" },
+    { id: "claude-opus-4-6", label: "claude-opus-4-6" },
+  ],
+}
+
+describe("parseSlashCommand", () => {
+  it("parses known commands with their argument", () => {
+    const parsed = parseSlashCommand("/save  working ")
+    expect(parsed?.command.name).toBe("save")
+    expect(parsed?.arg).toBe("working")
+    expect(parseSlashCommand("/VALIDATE")?.arg).toBe("")
+  })
+
+  it("treats unknown commands and paths as ordinary messages", () => {
+    expect(parseSlashCommand("/usr/local/bin is on my PATH")).toBeNull()
+    expect(parseSlashCommand("/frobnicate now")).toBeNull()
+    expect(parseSlashCommand("hello /save")).toBeNull()
+  })
+})
+
+describe("matchOptions / resolveOption", () => {
+  it("prefers exact, then prefix, then substring matches", () => {
+    expect(matchOptions("api design notes", sources.blocks).map((o) => o.id)).toEqual(["b1"])
+    expect(matchOptions("API", sources.blocks).map((o) => o.id)).toEqual(["b1", "b2"])
+    expect(matchOptions("check", sources.blocks).map((o) => o.id)).toEqual(["b3"])
+  })
+
+  it("reports missing and ambiguous arguments", () => {
+    expect(resolveOption("launch", sources.blocks, "block")).toEqual({ option: sources.blocks[2] })
+    expect(resolveOption("api", sources.blocks, "block")).toEqual({
+      error: '"api" matches 2 blocks: "API design notes", "API error codes"',
+    })
+    expect(resolveOption("zzz", sources.blocks, "block")).toEqual({ error: 'No block matches "zzz"' })
+    expect(resolveOption("", sources.blocks, "block")).toEqual({ error: "Name a block" })
+  })
+})
+
+describe("parseZone", () => {
+  it("accepts zone names and prefixes in any case", () => {
+    expect(parseZone("Working")).toBe("WORKING")
+    expect(parseZone("perm")).toBe("PERMANENT")
+    expect(parseZone("")).toBeNull()
+    expect(parseZone("archive")).toBeNull()
+  })
+})
+
+describe("getSlashSuggestions", () => {
+  it("completes command names", () => {
+    expect(getSlashSuggestions("/s", sources).map((s) => s.completion)).toEqual(["/save ", "/snapshot "])
+    expect(getSlashSuggestions("hello", sources)).toEqual([])
+  })
+
+  it("completes arguments from the command's source", () => {
+    expect(getSlashSuggestions("/draft api", sources).map((s) => s.completion)).toEqual([
+      "/draft API design notes",
+      "/draft API error codes",
+    ])
+    expect(getSlashSuggestions("/model opus", sources).map((s) => s.label)).toEqual(["claude-opus-4-6"])
+    expect(getSlashSuggestions("/save ", sources)).toHaveLength(3)
+  })
+
+  it("stops suggesting once the argument is complete", () => {
+    expect(getSlashSuggestions("/pin Use Postgres", sources)).toEqual([])
+  })
+})
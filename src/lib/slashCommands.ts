@@ -0,0 +1,163 @@
+/**
+ * Slash commands for the brainstorm input.
+ *
+ * Parsing, autocomplete and argument matching live here; the commands run in
+ * useSlashCommands against existing Convex mutations. Arguments are matched
+ * by label (block title, memory entry title, model id): an exact match wins,
+ * then a unique prefix, then a unique substring.
+ */
+
+export type SlashArgKind = "zone" | "block" | "memory" | "model" | "text" | "none"
+
+export type SlashCommandName =
+  | "save"
+  | "validate"
+  | "compress"
+  | "pin"
+  | "draft"
+  | "model"
+  | "snapshot"
+  | "research"
+
+export interface SlashCommandSpec {
+  name: SlashCommandName
+  arg: SlashArgKind
+  /** Argument placeholder shown in the menu */
+  usage: string
+  description: string
+}
+
+export const SLASH_COMMANDS: SlashCommandSpec[] = [
+  { name: "save", arg: "zone", usage: "<zone>", description: "Save the last reply as a block" },
+  { name: "validate", arg: "text", usage: "[message]", description: "Send with validation criteria" },
+  { name: "compress", arg: "block", usage: "<block>", description: "Compress a block" },
+  { name: "pin", arg: "memory", usage: "<memory>", description: "Pin or unpin a memory entry" },
+  { name: "draft", arg: "block", usage: "<block>", description: "Toggle a block's draft mode" },
+  { name: "model", arg: "model", usage: "<name>", description: "Switch the model" },
+  { name: "snapshot", arg: "text", usage: "<name>", description: "Save a snapshot of the session" },
+  { name: "research", arg: "text", usage: "<spec>", description: "Run research from a spec" },
+]
+
+/** Something a command argument can refer to */
+export interface SlashOption {
+  id: string
+  label: string
+  detail?: string
+}
+
+export interface SlashSources {
+  blocks: SlashOption[]
+  memories: SlashOption[]
+  models: SlashOption[]
+}
+
+export interface SlashSuggestion {
+  label: string
+  detail?: string
+  /** Input text after accepting the suggestion */
+  completion: string
+}
+
+export interface ParsedSlashCommand {
+  command: SlashCommandSpec
+  arg: string
+}
+
+const ZONE_OPTIONS: SlashOption[] = [
+  { id: "WORKING", label: "working" },
+  { id: "STABLE", label: "stable" },
+  { id: "PERMANENT", label: "permanent" },
+]
+
+/**
+ * Parse input as a known command ("/name arg"). Input starting with "/" that
+ * doesn't name a command (e.g. a file path) is an ordinary message.
+ */
+export function parseSlashCommand(input: string): ParsedSlashCommand | null {
+  const match = input.trim().match(/^\/(\w+)(?:\s+([\s\S]*))?$/)
+  if (!match) return null
+  const command = SLASH_COMMANDS.find((c) => c.name === match[1].toLowerCase())
+  return command ? { command, arg: (match[2] ?? "").trim() } : null
+}
+
+/**
+ * Options matching a query, best first: exact label/id matches, else prefix
+ * matches, else substring matches (all case-insensitive).
+ */
+export function matchOptions(query: string, options: SlashOption[]): SlashOption[] {
+  const q = query.trim().toLowerCase()
+  if (!q) return options
+  const exact = options.filter((o) => o.label.toLowerCase() === q || o.id.toLowerCase() === q)
+  if (exact.length > 0) return exact
+  const prefix = options.filter((o) => o.label.toLowerCase().startsWith(q))
+  if (prefix.length > 0) return prefix
+  return options.filter((o) => o.label.toLowerCase().includes(q))
+}
+
+/**
+ * Resolve a command argument to one option, or explain why it can't.
+ */
+export function resolveOption(
+  query: string,
+  options: SlashOption[],
+  noun: string
+): { option: SlashOption } | { error: string } {
+  if (!query.trim()) return { error: `Name a ${noun}` }
+  const matches = matchOptions(query, options)
+  if (matches.length === 0) return { error: `No ${noun} matches "${query}"` }
+  if (matches.length > 1) {
+    const names = matches.slice(0, 3).map((o) => `"${o.label}"`).join(", ")
+    return { error: `"${query}" matches ${matches.length} ${noun}s: ${names}${matches.length > 3 ? ", …" : ""}` }
+  }
+  return { option: matches[0] }
+}
+
+/**
+ * Zone id for a zone argument ("working", "Stable", "perm"…), or null.
+ */
+export function parseZone(arg: string): "PERMANENT" | "STABLE" | "WORKING" | null {
+  const matches = matchOptions(arg, ZONE_OPTIONS)
+  return arg.trim() && matches.length === 1 ? (matches[0].id as "PERMANENT" | "STABLE" | "WORKING") : null
+}
+
+function optionsFor(kind: SlashArgKind, sources: SlashSources): SlashOption[] {
+  switch (kind) {
+    case "zone":
+      return ZONE_OPTIONS
+    case "block":
+      return sources.blocks
+    case "memory":
+      return sources.memories
+    case "model":
+      return sources.models
+    default:
+      return []
+  }
+}
+
+/**
+ * Autocomplete for the current input: command names while typing "/na", then
+ * the command's argument options.
+ */
+export function getSlashSuggestions(input: string, sources: SlashSources, limit = 8): SlashSuggestion[] {
+  if (!input.startsWith("/")) return []
+
+  const nameMatch = input.match(/^\/(\w*)$/)
+  if (nameMatch) {
+    const partial = nameMatch[1].toLowerCase()
+    return SLASH_COMMANDS.filter((c) => c.name.startsWith(partial)).map((c) => ({
+      label: `/${c.name} ${c.usage}`,
+      detail: c.description,
+      completion: c.arg === "none" ? `/${c.name}` : `/${c.name} `,
+    }))
+  }
+
+  const parsed = parseSlashCommand(input)
+  if (!parsed || !/\s/.test(input)) return []
+  const { command, arg } = parsed
+
+  return matchOptions(arg, optionsFor(command.arg, sources))
+    .filter((o) => o.label.toLowerCase() !== arg.toLowerCase())
+    .slice(0, limit)
+    .map((o) => ({ label: o.label, detail: o.detail, completion: `/${command.name} ${o.label}` }))
+}
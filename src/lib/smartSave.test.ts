@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest"
+import { splitReply } from "./smartSave"
+
+describe("splitReply", () => {
+  it("keeps plain prose as one assistant message", () => {
+    expect(splitReply("Sounds good.\n\nLet's do it.")).toEqual([
+      { type: "assistant_message", content: "Sounds good.\n\nLet's do it." },
+    ])
+  })
+
+  it("extracts fences as code and titles them with a heading right above", () => {
+    const reply = [
+      "Here is the setup.",
+      "",
+      "## Server",
+      "```ts",
+      "const x = 1",
+      "",
+      "## not a heading inside code",
+      "```",
+      "",
+      "```sh",
+      "npm start",
+      "```",
+    ].join("\n")
+    expect(splitReply(reply)).toEqual([
+      { type: "assistant_message", content: "Here is the setup." },
+      { type: "code", content: "## Server\n\n```ts\nconst x = 1\n\n## not a heading inside code\n```" },
+      { type: "code", content: "```sh\nnpm start\n```" },
+    ])
+  })
+
+  it("splits headed sections at the top heading level into documents", () => {
+    const reply = "# Spec\nIntro\n## Details\nMore\n# Plan\nSteps"
+    expect(splitReply(reply)).toEqual([
+      { type: "document", content: "# Spec\nIntro\n## Details\nMore" },
+      { type: "document", content: "# Plan\nSteps" },
+    ])
+  })
+
+  it("turns checklists into notes", () => {
+    const reply = "## Overview\nA plan.\n\n## Todo\n- [ ] Write tests\n- [x] Draft spec\n1. [ ] Ship"
+    expect(splitReply(reply)).toEqual([
+      { type: "document", content: "## Overview\nA plan." },
+      { type: "note", content: "## Todo\n- [ ] Write tests\n- [x] Draft spec\n1. [ ] Ship" },
+    ])
+  })
+
+  it("runs an unclosed fence to the end", () => {
+    expect(splitReply("Intro\n```py\nprint(1)")).toEqual([
+      { type: "assistant_message", content: "Intro" },
+      { type: "code", content: "```py\nprint(1)" },
+    ])
+  })
+})
@@ -0,0 +1,80 @@
+/**
+ * Smart save: split a brainstorm reply into typed blocks.
+ *
+ * Fenced code becomes `code`, headed sections become `document` and
+ * checklists become `note`. Prose that fits none of these (an intro or a
+ * closing remark) stays `assistant_message`, as a plain save would. A heading
+ * directly above a fence goes with the code so the block keeps its title.
+ */
+
+import { splitFences } from "../../convex/lib/markdownFences"
+
+export type ReplyPieceType = "code" | "document" | "note" | "assistant_message"
+
+export interface ReplyPiece {
+  type: ReplyPieceType
+  content: string
+}
+
+const HEADING = /^ {0,3}(#{1,6})\s+\S/
+const CHECKLIST_ITEM = /^\s*(?:[-*+]|\d+[.)])\s+\[[ xX]\]\s/
+
+// Split text at headings of the reply's top level; deeper headings stay in their section
+function splitSections(lines: string[], level: number): string[][] {
+  const sections: string[][] = [[]]
+  for (const line of lines) {
+    const heading = line.match(HEADING)
+    if (heading && heading[1].length <= level && sections[sections.length - 1].some((l) => l.trim())) {
+      sections.push([])
+    }
+    sections[sections.length - 1].push(line)
+  }
+  return sections
+}
+
+function classifyText(content: string): ReplyPieceType {
+  const lines = content.split("\n").filter((l) => l.trim())
+  const checklist = lines.filter((l) => CHECKLIST_ITEM.test(l)).length
+  // Mostly checklist items (a heading or a lead-in line is fine)
+  if (checklist > 0 && checklist * 2 >= lines.length) return "note"
+  if (HEADING.test(lines[0] ?? "")) return "document"
+  return "assistant_message"
+}
+
+/**
+ * Pieces of a reply in their original order. Plain prose comes back as a
+ * single `assistant_message` piece.
+ */
+export function splitReply(content: string): ReplyPiece[] {
+  const segments = splitFences(content.split("\n"))
+
+  const headingLevels = segments
+    .filter((s) => !s.fence)
+    .flatMap((s) => s.lines.map((l) => l.match(HEADING)?.[1].length ?? 7))
+  const level = Math.min(7, ...headingLevels)
+
+  const pieces: ReplyPiece[] = []
+  let pendingHeading: string | null = null
+  for (const segment of segments) {
+    if (segment.fence) {
+      const code = segment.lines.join("\n").trim()
+      pieces.push({ type: "code", content: pendingHeading ? `${pendingHeading}\n\n${code}` : code })
+      pendingHeading = null
+      continue
+    }
+    const sections = splitSections(segment.lines, level)
+    for (const [i, section] of sections.entries()) {
+      const text = section.join("\n").trim()
+      if (!text) continue
+      // A lone heading right before a fence titles the code
+      const isLast = i === sections.length - 1
+      if (isLast && !text.includes("\n") && HEADING.test(text) && segment !== segments[segments.length - 1]) {
+        pendingHeading = text
+        continue
+      }
+      pieces.push({ type: classifyText(text), content: text })
+    }
+  }
+
+  return pieces.length > 0 ? pieces : [{ type: "assistant_message", content: content.trim() }]
+}
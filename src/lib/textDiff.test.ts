@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest"
+import { diffSimilarity, diffText } from "./textDiff"
+
+const join = (segments: { type: string; text: string }[], keep: string) =>
+  segments.filter((s) => s.type === "equal" || s.type === keep).map((s) => s.text).join("")
+
+describe("diffText", () => {
+  it("marks changed words and keeps both texts recoverable", () => {
+    const before = "The quick brown fox jumps over the lazy dog."
+    const after = "The quick red fox leaps over the lazy dog."
+    const segments = diffText(before, after)
+    expect(segments).toEqual([
+      { type: "equal", text: "The quick " },
+      { type: "removed", text: "brown " },
+      { type: "added", text: "red " },
+      { type: "equal", text: "fox " },
+      { type: "removed", text: "jumps " },
+      { type: "added", text: "leaps " },
+      { type: "equal", text: "over the lazy dog." },
+    ])
+    expect(join(segments, "removed")).toBe(before)
+    expect(join(segments, "added")).toBe(after)
+  })
+
+  it("handles empty and identical inputs", () => {
+    expect(diffText("", "")).toEqual([])
+    expect(diffText("same text", "same text")).toEqual([{ type: "equal", text: "same text" }])
+    expect(diffText("", "new")).toEqual([{ type: "added", text: "new" }])
+    expect(diffText("old", "")).toEqual([{ type: "removed", text: "old" }])
+  })
+})
+
+describe("diffSimilarity", () => {
+  it("is 1 for identical text and 0 for nothing shared", () => {
+    expect(diffSimilarity(diffText("a b c", "a b c"))).toBe(1)
+    expect(diffSimilarity(diffText("one", "two"))).toBe(0)
+    const partial = diffSimilarity(diffText("a b c d", "a b x y"))
+    expect(partial).toBeGreaterThan(0)
+    expect(partial).toBeLessThan(1)
+  })
+})
@@ -0,0 +1,99 @@
+/**
+ * Word-level text diff for comparing two replies side by side.
+ *
+ * Longest-common-subsequence over words (whitespace kept with the word before
+ * it), so re-wrapped text still lines up. Very long inputs fall back to
+ * comparing whole lines to keep the table small.
+ */
+
+export interface DiffSegment {
+  type: "equal" | "added" | "removed"
+  text: string
+}
+
+// Above this many LCS cells, diff by line instead of by word
+const MAX_WORD_CELLS = 4_000_000
+
+function tokenize(text: string, byLine: boolean): string[] {
+  return (byLine ? text.match(/[^\n]*\n|[^\n]+$/g) : text.match(/\S+\s*|\s+/g)) ?? []
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegment["type"], text: string) {
+  const last = segments[segments.length - 1]
+  if (last?.type === type) {
+    last.text += text
+  } else {
+    segments.push({ type, text })
+  }
+}
+
+/**
+ * Diff `before` against `after`: "removed" text is only in before, "added" only in after.
+ * Joining the equal and removed segments gives back `before`; equal and added give `after`.
+ */
+export function diffText(before: string, after: string): DiffSegment[] {
+  let a = tokenize(before, false)
+  let b = tokenize(after, false)
+  if (a.length * b.length > MAX_WORD_CELLS) {
+    a = tokenize(before, true)
+    b = tokenize(after, true)
+  }
+
+  // Trim the common prefix and suffix before building the table
+  let start = 0
+  while (start < a.length && start < b.length && a[start] === b[start]) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--
+    endB--
+  }
+
+  const segments: DiffSegment[] = []
+  if (start > 0) pushSegment(segments, "equal", a.slice(0, start).join(""))
+
+  const n = endA - start
+  const m = endB - start
+  // lcs[i][j]: LCS length of a[start+i..endA) and b[start+j..endB)
+  const lcs = Array.from({ length: n + 1 }, () => new Uint32Array(m + 1))
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i][j] = a[start + i] === b[start + j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (a[start + i] === b[start + j]) {
+      pushSegment(segments, "equal", a[start + i])
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      pushSegment(segments, "removed", a[start + i])
+      i++
+    } else {
+      pushSegment(segments, "added", b[start + j])
+      j++
+    }
+  }
+  while (i < n) pushSegment(segments, "removed", a[start + i++])
+  while (j < m) pushSegment(segments, "added", b[start + j++])
+
+  if (endA < a.length) pushSegment(segments, "equal", a.slice(endA).join(""))
+  return segments
+}
+
+/**
+ * Share of `before` and `after` kept unchanged, from 0 (nothing shared) to 1 (identical).
+ */
+export function diffSimilarity(segments: DiffSegment[]): number {
+  let equal = 0
+  let total = 0
+  for (const segment of segments) {
+    const length = segment.text.length
+    total += segment.type === "equal" ? length * 2 : length
+    if (segment.type === "equal") equal += length * 2
+  }
+  return total === 0 ? 1 : equal / total
+}
@@ -18,7 +18,8 @@ import ReactMarkdown from "react-markdown"
 import gfm from "remark-gfm"
 import breaks from "remark-breaks"
 import { MarkdownComponents } from "@/components/MarkdownComponents"
-import { Puzzle, Upload, Link as LinkIcon, FolderSearch, Link2 } from "lucide-react"
+import { Puzzle, Upload, Link as LinkIcon, FolderSearch, Link2, Minimize2 } from "lucide-react"
+import { CompressionOriginalDialog, type CompressionOriginalView } from "@/components/compression/CompressionOriginalDialog"
 
 // Format date for display
 function formatDate(timestamp: number): string {
@@ -31,6 +32,7 @@ function BlockEditor({ blockId }: { blockId: Id<"blocks"> }) {
   const block = useQuery(api.blocks.get, { id: blockId })
   const updateBlock = useMutation(api.blocks.update)
   const removeBlock = useMutation(api.blocks.remove)
+  const revertCompression = useMutation(api.blocks.revertCompression)
 
   const [content, setContent] = useState("")
   const [type, setType] = useState<string>("note")
@@ -39,6 +41,7 @@ function BlockEditor({ blockId }: { blockId: Id<"blocks"> }) {
   const [isEditing, setIsEditing] = useState(false)
   const [pendingType, setPendingType] = useState<string>("note")
   const [isSavingType, setIsSavingType] = useState(false)
+  const [originalView, setOriginalView] = useState<CompressionOriginalView | null>(null)
   const blockTypesByCategory = useMemo(() => getBlockTypesByCategory(), [])
 
   // Initialize form when block loads
@@ -110,6 +113,13 @@ function BlockEditor({ blockId }: { blockId: Id<"blocks"> }) {
     }
   }
 
+  // Start editing from the current content (it may have changed since load, e.g. by a revert)
+  const handleEdit = () => {
+    setContent(block?.content ?? "")
+    setIsDirty(false)
+    setIsEditing(true)
+  }
+
   // Cancel edit mode or go back
   const handleCancel = () => {
     if (isEditing) {
@@ -130,6 +140,23 @@ function BlockEditor({ blockId }: { blockId: Id<"blocks"> }) {
     navigate({ to: "/app" })
   }
 
+  // A merged block is deleted by revert; an in-place revert changes the content under the editor
+  const handleReverted = (restoredCount: number) => {
+    if (restoredCount > 1 || block?.mergedFromCount) {
+      navigate({ to: "/app" })
+    } else {
+      setIsEditing(false)
+      setIsDirty(false)
+    }
+  }
+
+  const handleRevert = async () => {
+    if (!confirm("Revert this block to its content from before compression?")) return
+
+    const { restoredBlockIds } = await revertCompression({ blockId })
+    handleReverted(restoredBlockIds.length)
+  }
+
   // Loading state
   if (block === undefined) {
     return (
@@ -212,6 +239,38 @@ function BlockEditor({ blockId }: { blockId: Id<"blocks"> }) {
         </div>
       )}
 
+      {/* Compression state */}
+      {block.compressionOriginalId && (
+        <div className="flex items-center justify-between gap-2 px-3 py-2 rounded-md bg-blue-500/10 border border-blue-500/20 text-sm">
+          <div className="flex items-center gap-2">
+            <Minimize2 className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+            <span>
+              {block.mergedFromCount ? `Merged from ${block.mergedFromCount} blocks and compressed` : "Compressed"}
+              {block.compressionRatio ? ` ${block.compressionRatio.toFixed(1)}x` : ""}
+              {block.compressionStrategy ? ` (${block.compressionStrategy})` : ""}
+            </span>
+          </div>
+          <div className="flex gap-1">
+            <Button variant="ghost" size="sm" onClick={() => setOriginalView("original")} disabled={isDirty}>
+              Show original
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => setOriginalView("diff")} disabled={isDirty}>
+              Diff
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleRevert} disabled={isDirty}>
+              Revert compression
+            </Button>
+          </div>
+          <CompressionOriginalDialog
+            blockId={blockId}
+            content={block.content}
+            view={originalView}
+            onViewChange={setOriginalView}
+            onReverted={handleReverted}
+          />
+        </div>
+      )}
+
       {/* Actions */}
       <div className="flex items-center justify-between pt-4 border-t border-border">
         <div className="flex gap-3 items-center">
@@ -232,7 +291,7 @@ function BlockEditor({ blockId }: { blockId: Id<"blocks"> }) {
             {isDirty ? "Discard" : "Back"}
           </Button>
           {!isEditing ? (
-            <Button onClick={() => setIsEditing(true)}>Edit</Button>
+            <Button onClick={handleEdit}>Edit</Button>
           ) : (
             <Button onClick={handleSave} disabled={!isDirty || isSaving}>
               {isSaving ? "Saving..." : "Save Changes"}
@@ -282,7 +341,7 @@ function BlockEditor({ blockId }: { blockId: Id<"blocks"> }) {
                 remarkPlugins={[gfm, breaks]}
                 components={MarkdownComponents}
               >
-                {content || 'No content yet. Click "Edit" to add content.'}
+                {block.content || 'No content yet. Click "Edit" to add content.'}
               </ReactMarkdown>
             </div>
           )}
@@ -300,7 +359,7 @@ function BlockEditor({ blockId }: { blockId: Id<"blocks"> }) {
 
           {/* Character count */}
           <p className="mt-1 text-xs text-muted-foreground">
-            {content.length} characters
+            {(isEditing ? content : block.content).length} characters
           </p>
         </div>
       </div>
@@ -27,8 +27,10 @@ import {
 import { useNavigate } from "@tanstack/react-router"
 import { useCompression } from "@/hooks/useCompression"
 import { useConfirmDelete } from "@/hooks/useConfirmDelete"
-import { Minimize2, Puzzle, Upload, Link as LinkIcon, FolderSearch, Download, Link2, Unlink2 } from "lucide-react"
+import { Minimize2, Puzzle, Upload, Link as LinkIcon, FolderSearch, Download, Link2, Unlink2, Pin } from "lucide-react"
 import { CompressionDialog } from "@/components/compression/CompressionDialog"
+import { CompressionOriginalDialog, type CompressionOriginalView } from "@/components/compression/CompressionOriginalDialog"
+import type { CompressionStrategy } from "@/lib/compression"
 import { ConfirmDialog } from "@/components/ui/confirm-dialog"
 import { DebouncedButton } from "@/components/ui/debounced-button"
 import { useToast } from "@/components/ui/toast"
@@ -223,6 +225,8 @@ function BlockCard({
   contentHash,
   researchSource,
   researchPath,
+  hasCompressionOriginal,
+  isPinned,
 }: {
   id: Id<"blocks">
   content: string
@@ -247,12 +251,18 @@ function BlockCard({
   contentHash?: string
   researchSource?: "web" | "local"
   researchPath?: string
+  hasCompressionOriginal?: boolean
+  isPinned?: boolean
 }) {
   const [showActions, setShowActions] = useState(false)
   const [copied, setCopied] = useState(false)
+  const [originalView, setOriginalView] = useState<CompressionOriginalView | null>(null)
+  const [isRevertConfirmOpen, setIsRevertConfirmOpen] = useState(false)
+  const revertCompression = useMutation(api.blocks.revertCompression)
   const removeBlock = useMutation(api.blocks.remove)
   const moveBlock = useMutation(api.blocks.move)
   const setContextModeMutation = useMutation(api.blocks.setContextMode)
+  const setPinned = useMutation(api.blocks.setPinned)
   const unlinkBlock = useMutation(api.blocks.unlink)
   const createLinkedBlock = useMutation(api.blocks.createLinked)
   const { toast } = useToast()
@@ -294,6 +304,22 @@ function BlockCard({
     deleteConfirm.requestDelete({ id, content })
   }
 
+  const handleRevertCompression = async () => {
+    try {
+      const { restoredBlockIds } = await revertCompression({ blockId: id })
+      handleReverted(restoredBlockIds.length)
+    } catch (err) {
+      toast.error("Revert failed", err instanceof Error ? err.message : "Unknown error")
+    }
+  }
+
+  const handleReverted = (restoredCount: number) => {
+    toast.success(
+      "Compression reverted",
+      restoredCount > 1 ? `Restored ${restoredCount} merged blocks` : "Original content restored"
+    )
+  }
+
   const handleMove = async (e: React.MouseEvent, targetZone: Zone) => {
     e.stopPropagation()
     await moveBlock({ id, zone: targetZone })
@@ -324,10 +350,7 @@ function BlockCard({
 
   const handleCompress = async (e: React.MouseEvent) => {
     e.stopPropagation()
-    await compressSingle(
-      { _id: id, content, type, tokens, isCompressed },
-      "semantic"
-    )
+    await compressSingle({ _id: id, content, type, tokens, isCompressed })
   }
 
   const typeMeta = getBlockTypeMetadata(type)
@@ -387,6 +410,11 @@ function BlockCard({
               {compressionRatio.toFixed(1)}x
             </span>
           )}
+          {isPinned && (
+            <span title="Pinned — never compressed or drafted by the budget policy" className="inline-flex items-center">
+              <Pin className="w-2.5 h-2.5 text-muted-foreground" />
+            </span>
+          )}
           {refBlockId && (
             <span title="Linked block — used in multiple sessions" className="inline-flex items-center">
               <Link2 className="w-2.5 h-2.5 text-muted-foreground" />
@@ -429,6 +457,16 @@ function BlockCard({
             >
               {copied ? "Copied!" : "Copy"}
             </button>
+            <button
+              onClick={(e) => {
+                e.stopPropagation()
+                setPinned({ id, isPinned: !isPinned })
+              }}
+              title={isPinned ? "Let the budget policy compress or draft this block" : "Keep the budget policy away from this block"}
+              className="px-1.5 py-0.5 text-[10px] rounded hover:bg-muted"
+            >
+              {isPinned ? "Unpin" : "Pin"}
+            </button>
             <Link
               to="/app/blocks/$blockId"
               params={{ blockId: id }}
@@ -487,6 +525,28 @@ function BlockCard({
               {ZONE_INDEX[z] > ZONE_INDEX[zone] ? "→" : "←"} {ZONE_INFO[z].label}
             </button>
           ))}
+          {hasCompressionOriginal && (
+            <div className="flex gap-0.5 ml-auto">
+              <button
+                onClick={(e) => { e.stopPropagation(); setOriginalView("original") }}
+                className="px-1.5 py-0.5 text-[10px] rounded hover:bg-muted"
+              >
+                Original
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); setOriginalView("diff") }}
+                className="px-1.5 py-0.5 text-[10px] rounded hover:bg-muted"
+              >
+                Diff
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); setIsRevertConfirmOpen(true) }}
+                className="px-1.5 py-0.5 text-[10px] rounded hover:bg-muted"
+              >
+                Revert
+              </button>
+            </div>
+          )}
         </div>
       )}
 
@@ -516,6 +576,27 @@ function BlockCard({
         onConfirm={deleteConfirm.confirmDelete}
         loading={deleteConfirm.isDeleting}
       />
+
+      {hasCompressionOriginal && (
+        <>
+          <CompressionOriginalDialog
+            blockId={id}
+            content={content}
+            view={originalView}
+            onViewChange={setOriginalView}
+            onReverted={handleReverted}
+          />
+          <ConfirmDialog
+            open={isRevertConfirmOpen}
+            onOpenChange={setIsRevertConfirmOpen}
+            title="Revert compression?"
+            description="The block goes back to its content from before compression. A merged block is replaced by the blocks it was merged from, in their former zones."
+            confirmLabel="Revert"
+            destructive={false}
+            onConfirm={handleRevertCompression}
+          />
+        </>
+      )}
     </div>
   )
 }
@@ -573,7 +654,7 @@ function ZoneColumn({
     setIsZoneCompressionDialogOpen(true)
   }
 
-  const handleZoneCompressConfirm = async (targetZone: string, targetType: string) => {
+  const handleZoneCompressConfirm = async (targetZone: string, targetType: string, strategy: CompressionStrategy) => {
     if (!blocks || blocks.length === 0) return
     await compressAndMerge(
       blocks.map((b) => ({
@@ -584,7 +665,7 @@ function ZoneColumn({
         isCompressed: b.isCompressed,
       })),
       {
-        strategy: "semantic",
+        strategy,
         targetZone: zone, // Keep in same zone
         targetType,
       }
@@ -707,6 +788,8 @@ function ZoneColumn({
                   contentHash={block.contentHash}
                   researchSource={block.researchSource}
                   researchPath={block.researchPath}
+                  hasCompressionOriginal={!!block.compressionOriginalId}
+                  isPinned={block.isPinned}
                 />
               </SortableBlock>
             ))
@@ -953,9 +1036,9 @@ function HomePage() {
     setIsCompressionDialogOpen(true)
   }
 
-  const handleCompress = async (targetZone: string, targetType: string) => {
+  const handleCompress = async (targetZone: string, targetType: string, strategy: CompressionStrategy) => {
     await compressAndMerge(selectedBlocks, {
-      strategy: "semantic",
+      strategy,
       targetZone,
       targetType,
     })
@@ -7,6 +7,7 @@ import { createFileRoute, Link, useNavigate } from "@tanstack/react-router"
 import { useQuery, useMutation } from "convex/react"
 import { api } from "../../../convex/_generated/api"
 import { Button } from "@/components/ui/button"
+import { ProjectCosts } from "@/components/projects"
 import { useSession } from "@/contexts/SessionContext"
 import type { Id, Doc } from "../../../convex/_generated/dataModel"
 
@@ -442,6 +443,9 @@ function ProjectDashboard() {
         )}
       </div>
 
+      {/* Costs and spending caps */}
+      <ProjectCosts project={project} />
+
       {/* Dialogs */}
       {showEditDialog && (
         <EditProjectDialog
@@ -4,12 +4,25 @@
 
 import { useState } from "react"
 import { createFileRoute } from "@tanstack/react-router"
+import { useQuery } from "convex/react"
+import { api } from "../../../convex/_generated/api"
 import { Button } from "@/components/ui/button"
 import { DebouncedButton } from "@/components/ui/debounced-button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { openrouter, ollama } from "@/lib/llm"
-import { openrouter as openrouterSettings, ollama as ollamaSettings, compression as compressionSettings, type CompressionProvider } from "@/lib/llm/settings"
+import { openrouter, ollama, anthropic, openaiCompatible } from "@/lib/llm"
+import { DEFAULT_MOCK_SCRIPT, type MockScript } from "@/lib/llm/mock"
+import {
+  openrouter as openrouterSettings,
+  anthropic as anthropicSettings,
+  ollama as ollamaSettings,
+  openaiCompatible as openaiCompatibleSettings,
+  mock as mockSettings,
+  compression as compressionSettings,
+  brainstorm as brainstormSettings,
+  type CompressionProvider,
+} from "@/lib/llm/settings"
+import type { CompressionStrategy } from "@/lib/compression"
 
 // Provider health status
 interface ProviderStatus {
@@ -139,6 +152,129 @@ function OpenRouterSettings() {
   )
 }
 
+function AnthropicSettings() {
+  const [apiKey, setApiKey] = useState(() => {
+    const key = anthropicSettings.getApiKey()
+    return key ? "sk-****" + key.slice(-4) : ""
+  })
+  const [model, setModel] = useState(() => anthropicSettings.getModel())
+  const [models, setModels] = useState<anthropic.AnthropicModel[]>([])
+  const [saved, setSaved] = useState(false)
+  const [status, setStatus] = useState<ProviderStatus>({ checking: false, ok: false })
+
+  const handleSave = () => {
+    if (apiKey && !apiKey.startsWith("sk-****")) {
+      anthropicSettings.setApiKey(apiKey)
+    }
+    anthropicSettings.setModel(model)
+    setSaved(true)
+    setTimeout(() => setSaved(false), 2000)
+  }
+
+  const handleTest = async () => {
+    setStatus({ checking: true, ok: false })
+    const result = await anthropic.checkHealth()
+    setStatus({
+      checking: false,
+      ok: result.ok,
+      error: result.error,
+      model: result.model,
+    })
+    // Populate model suggestions once the key is known to work
+    if (result.ok) {
+      anthropic.listModels().then(setModels).catch(() => setModels([]))
+    }
+  }
+
+  const handleClear = () => {
+    anthropicSettings.clearApiKey()
+    setApiKey("")
+    setModels([])
+    setStatus({ checking: false, ok: false })
+  }
+
+  return (
+    <div className="rounded-lg border border-border p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Anthropic API</h3>
+          <p className="text-sm text-muted-foreground">
+            Call Claude directly via the Messages API, with prompt caching
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {status.ok && (
+            <span className="text-sm text-green-600 dark:text-green-400">Connected</span>
+          )}
+          {status.error && (
+            <span className="text-sm text-red-600 dark:text-red-400">{status.error}</span>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="anthropic-key">API Key</Label>
+          <div className="flex gap-2">
+            <Input
+              id="anthropic-key"
+              type="password"
+              placeholder="sk-ant-..."
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              className="flex-1"
+            />
+            <Button variant="outline" size="sm" onClick={handleClear}>
+              Clear
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Get your API key from{" "}
+            <a
+              href="https://console.anthropic.com/settings/keys"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-primary hover:underline"
+            >
+              console.anthropic.com
+            </a>
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="anthropic-model">Model</Label>
+          <Input
+            id="anthropic-model"
+            placeholder="claude-sonnet-4-6"
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            list="anthropic-models"
+          />
+          <datalist id="anthropic-models">
+            {models.map((m) => (
+              <option key={m.id} value={m.id}>
+                {m.display_name}
+              </option>
+            ))}
+          </datalist>
+          <p className="text-xs text-muted-foreground">
+            Test the connection to load the models available to your key
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 pt-2">
+        <DebouncedButton onClick={handleSave} disabled={!apiKey} debounceMs={500}>
+          {saved ? "Saved!" : "Save"}
+        </DebouncedButton>
+        <Button variant="outline" onClick={handleTest} disabled={status.checking}>
+          {status.checking ? "Testing..." : "Test Connection"}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
 function OllamaSettings() {
   const [url, setUrl] = useState(() => ollamaSettings.getUrl())
   const [model, setModel] = useState(() => ollamaSettings.getModel())
@@ -233,6 +369,209 @@ function OllamaSettings() {
   )
 }
 
+function OpenAICompatibleSettings() {
+  const [url, setUrl] = useState(() => openaiCompatibleSettings.getBaseUrl() ?? "")
+  const [apiKey, setApiKey] = useState(() => {
+    const key = openaiCompatibleSettings.getApiKey()
+    return key ? "****" + key.slice(-4) : ""
+  })
+  const [model, setModel] = useState(() => openaiCompatibleSettings.getModel() ?? "")
+  const [models, setModels] = useState<openaiCompatible.OpenAICompatibleModel[]>([])
+  const [saved, setSaved] = useState(false)
+  const [status, setStatus] = useState<ProviderStatus>({ checking: false, ok: false })
+
+  const handleSave = () => {
+    openaiCompatibleSettings.setBaseUrl(url)
+    if (!apiKey) {
+      openaiCompatibleSettings.clearApiKey()
+    } else if (!apiKey.startsWith("****")) {
+      openaiCompatibleSettings.setApiKey(apiKey)
+    }
+    openaiCompatibleSettings.setModel(model)
+    setSaved(true)
+    setTimeout(() => setSaved(false), 2000)
+  }
+
+  const handleTest = async () => {
+    setStatus({ checking: true, ok: false })
+    const result = await openaiCompatible.checkHealth()
+    setStatus({
+      checking: false,
+      ok: result.ok,
+      error: result.error ?? (result.configured ? undefined : "Save a server URL first"),
+      model: result.model,
+    })
+    // Populate model suggestions from /v1/models
+    if (result.ok) {
+      openaiCompatible.listModels().then(setModels).catch(() => setModels([]))
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-border p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">OpenAI-compatible Server</h3>
+          <p className="text-sm text-muted-foreground">
+            LM Studio, vLLM, llama.cpp server or any other /v1/chat/completions endpoint
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          {status.ok && (
+            <span className="text-sm text-green-600 dark:text-green-400">Connected</span>
+          )}
+          {status.error && (
+            <span className="text-sm text-red-600 dark:text-red-400 max-w-xs truncate">
+              {status.error}
+            </span>
+          )}
+        </div>
+      </div>
+
+      <div className="grid gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="openai-compatible-url">Base URL</Label>
+          <Input
+            id="openai-compatible-url"
+            placeholder="http://localhost:1234/v1"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            With or without the trailing /v1. The server must allow CORS from this origin.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="openai-compatible-key">API Key (optional)</Label>
+          <Input
+            id="openai-compatible-key"
+            type="password"
+            placeholder="Sent as a Bearer token"
+            value={apiKey}
+            onChange={(e) => setApiKey(e.target.value)}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="openai-compatible-model">Model</Label>
+          <Input
+            id="openai-compatible-model"
+            placeholder="qwen2.5-7b-instruct"
+            value={model}
+            onChange={(e) => setModel(e.target.value)}
+            list="openai-compatible-models"
+          />
+          <datalist id="openai-compatible-models">
+            {models.map((m) => (
+              <option key={m.id} value={m.id} />
+            ))}
+          </datalist>
+          <p className="text-xs text-muted-foreground">
+            Test the connection to load the models from /v1/models
+          </p>
+        </div>
+      </div>
+
+      <div className="flex items-center gap-2 pt-2">
+        <DebouncedButton onClick={handleSave} disabled={!url} debounceMs={500}>
+          {saved ? "Saved!" : "Save"}
+        </DebouncedButton>
+        <Button variant="outline" onClick={handleTest} disabled={status.checking}>
+          {status.checking ? "Testing..." : "Test Connection"}
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+function MockProviderSettings() {
+  const [enabled, setEnabled] = useState(() => mockSettings.isEnabled())
+  const [script, setScript] = useState(() =>
+    JSON.stringify(mockSettings.getScript() ?? DEFAULT_MOCK_SCRIPT, null, 2)
+  )
+  const [saved, setSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleToggle = (value: boolean) => {
+    setEnabled(value)
+    mockSettings.setEnabled(value)
+  }
+
+  const handleSave = () => {
+    let parsed: MockScript
+    try {
+      parsed = JSON.parse(script)
+    } catch {
+      setError("Script is not valid JSON")
+      return
+    }
+    if (!Array.isArray(parsed.responses)) {
+      setError("Script needs a \"responses\" array")
+      return
+    }
+    setError(null)
+    mockSettings.setScript(parsed)
+    setSaved(true)
+    setTimeout(() => setSaved(false), 2000)
+  }
+
+  const handleReset = () => {
+    mockSettings.clearScript()
+    setScript(JSON.stringify(DEFAULT_MOCK_SCRIPT, null, 2))
+    setError(null)
+  }
+
+  return (
+    <div className="rounded-lg border border-border p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold">Mock Provider</h3>
+          <p className="text-sm text-muted-foreground">
+            Scripted responses for offline development and testing — no network calls
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => handleToggle(e.target.checked)}
+          />
+          Enabled
+        </label>
+      </div>
+
+      {enabled && (
+        <div className="space-y-2">
+          <Label htmlFor="mock-script">Script</Label>
+          <textarea
+            id="mock-script"
+            value={script}
+            onChange={(e) => setScript(e.target.value)}
+            spellCheck={false}
+            className="w-full min-h-[200px] rounded-md border border-input bg-background px-3 py-2 text-xs font-mono"
+          />
+          <p className="text-xs text-muted-foreground">
+            Each response&apos;s "match" is looked up in the conversation; the match nearest the end wins,
+            otherwise the response without a match is used. Per response: chunkSize, latencyMs, usage,
+            error, errorAfterChunks.
+            The backend mock (MOCK_LLM_ENABLED) uses e2e/fixtures/mock-llm.json or MOCK_LLM_SCRIPT.
+          </p>
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+          <div className="flex items-center gap-2 pt-2">
+            <DebouncedButton onClick={handleSave} debounceMs={500}>
+              {saved ? "Saved!" : "Save Script"}
+            </DebouncedButton>
+            <Button variant="outline" onClick={handleReset}>
+              Reset to Fixture
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
 function ClaudeCodeSettings() {
   return (
     <div className="rounded-lg border border-border p-6 space-y-4 opacity-60">
@@ -256,6 +595,10 @@ function ClaudeCodeSettings() {
 
 function CompressionProviderSettings() {
   const [provider, setProvider] = useState<CompressionProvider>(() => compressionSettings.getProvider())
+  const [strategy, setStrategy] = useState<CompressionStrategy>(() => compressionSettings.getStrategy())
+  const [minFidelityPercent, setMinFidelityPercent] = useState(() =>
+    Math.round(compressionSettings.getMinFidelity() * 100)
+  )
   const [saved, setSaved] = useState(false)
 
   const handleProviderChange = (value: CompressionProvider) => {
@@ -265,6 +608,39 @@ function CompressionProviderSettings() {
     setTimeout(() => setSaved(false), 2000)
   }
 
+  const handleStrategyChange = (value: CompressionStrategy) => {
+    setStrategy(value)
+    compressionSettings.setStrategy(value)
+    setSaved(true)
+    setTimeout(() => setSaved(false), 2000)
+  }
+
+  const handleMinFidelityChange = (value: string) => {
+    const percent = Math.min(100, Math.max(0, Math.round(Number(value) || 0)))
+    setMinFidelityPercent(percent)
+    compressionSettings.setMinFidelity(percent / 100)
+    setSaved(true)
+    setTimeout(() => setSaved(false), 2000)
+  }
+
+  const strategies: Array<{ value: CompressionStrategy; label: string; description: string }> = [
+    {
+      value: "semantic",
+      label: "Semantic",
+      description: "The provider above summarizes the content (biggest savings)",
+    },
+    {
+      value: "structural",
+      label: "Structural",
+      description: "Local cleanup: whitespace, markdown decoration, code comments, repeated lines. Instant and offline",
+    },
+    {
+      value: "statistical",
+      label: "Statistical",
+      description: "Extractive summary that keeps the most central sentences verbatim, plus headings, numbers, names and list items. Reproducible and offline",
+    },
+  ]
+
   const providers: Array<{ value: CompressionProvider; label: string; description: string }> = [
     {
       value: "claude-code",
@@ -281,6 +657,16 @@ function CompressionProviderSettings() {
       label: "Ollama",
       description: "Uses local Ollama server (requires Ollama setup above)",
     },
+    {
+      value: "openai-compatible",
+      label: "OpenAI-compatible Server",
+      description: "Uses your LM Studio/vLLM/llama.cpp server (requires setup above)",
+    },
+    {
+      value: "mock",
+      label: "Mock",
+      description: "Returns scripted responses (requires enabling the mock provider above)",
+    },
   ]
 
   return (
@@ -288,7 +674,7 @@ function CompressionProviderSettings() {
       <div>
         <h3 className="text-lg font-semibold">Compression Provider</h3>
         <p className="text-sm text-muted-foreground">
-          Choose which LLM provider to use for block compression
+          Choose which LLM provider and default strategy to use for block compression
         </p>
       </div>
 
@@ -320,10 +706,147 @@ function CompressionProviderSettings() {
         ))}
       </div>
 
+      <div className="space-y-3">
+        <Label>Default strategy</Label>
+        {strategies.map((s) => (
+          <div key={s.value} className="flex items-start space-x-3">
+            <input
+              type="radio"
+              id={`strategy-${s.value}`}
+              name="compression-strategy"
+              value={s.value}
+              checked={strategy === s.value}
+              onChange={(e) => handleStrategyChange(e.target.value as CompressionStrategy)}
+              className="mt-1"
+            />
+            <div className="flex-1">
+              <label
+                htmlFor={`strategy-${s.value}`}
+                className="text-sm font-medium cursor-pointer"
+              >
+                {s.label}
+              </label>
+              <p className="text-xs text-muted-foreground mt-0.5">
+                {s.description}
+              </p>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="compression-min-fidelity">Minimum fidelity (%)</Label>
+        <Input
+          id="compression-min-fidelity"
+          type="number"
+          min={0}
+          max={100}
+          step={5}
+          value={minFidelityPercent}
+          onChange={(e) => handleMinFidelityChange(e.target.value)}
+          className="w-24"
+        />
+        <p className="text-xs text-muted-foreground">
+          Share of the original's names, numbers, dates, URLs, code identifiers and headings a compression
+          must keep to be applied. 0 applies every compression.
+        </p>
+      </div>
+
       {saved && (
         <p className="text-sm text-green-600 dark:text-green-400">
-          Compression provider saved!
+          Compression settings saved!
+        </p>
+      )}
+    </div>
+  )
+}
+
+// Markers are edited one per line; "\n" stands for a newline (e.g. "\n\nMe:")
+const showMarker = (marker: string) => marker.replace(/\n/g, "\\n")
+const formatMarkers = (markers: string[]) => markers.map(showMarker).join("\n")
+const parseMarkers = (text: string) =>
+  text.split("\n").map((line) => line.replace(/\\n/g, "\n")).filter((m) => m.trim() !== "")
+
+function SelfTalkSettings() {
+  const [markers, setMarkers] = useState(() => formatMarkers(brainstormSettings.getSelfTalkMarkers()))
+  const [saved, setSaved] = useState(false)
+
+  const handleSave = () => {
+    const parsed = parseMarkers(markers)
+    brainstormSettings.setSelfTalkMarkers(parsed)
+    setMarkers(formatMarkers(parsed))
+    setSaved(true)
+    setTimeout(() => setSaved(false), 2000)
+  }
+
+  return (
+    <div className="rounded-lg border border-border p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold">Self-talk Markers</h3>
+        <p className="text-sm text-muted-foreground">
+          With "Prevent self-talk" on, a reply is cut off where the model starts writing the
+          user&apos;s next turn. Role tags and chat-template tokens are built in; add markers your models use.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="self-talk-markers">Extra markers</Label>
+        <textarea
+          id="self-talk-markers"
+          value={markers}
+          onChange={(e) => setMarkers(e.target.value)}
+          spellCheck={false}
+          placeholder={"\\n\\nUser:\n<|human|>"}
+          className="w-full min-h-[100px] rounded-md border border-input bg-background px-3 py-2 text-xs font-mono"
+        />
+        <p className="text-xs text-muted-foreground">
+          One marker per line, matched exactly (case-sensitive). Write \n for a line break.
+          Applies to every provider, including Claude Code.
         </p>
+      </div>
+
+      <DebouncedButton onClick={handleSave} debounceMs={500}>
+        {saved ? "Saved!" : "Save Markers"}
+      </DebouncedButton>
+
+      <SelfTalkStats />
+    </div>
+  )
+}
+
+// How often each model has been cut off for self-talk, across your sessions
+function SelfTalkStats() {
+  const stats = useQuery(api.generations.getSelfTalkStats)
+  if (stats === undefined) return null
+
+  return (
+    <div className="space-y-2">
+      <Label>Detections</Label>
+      {stats.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No self-talk detected yet.</p>
+      ) : (
+        <table className="w-full text-xs">
+          <thead className="text-muted-foreground">
+            <tr>
+              <th className="text-left font-medium py-1">Model</th>
+              <th className="text-right font-medium py-1">Times</th>
+              <th className="text-left font-medium py-1 pl-4">Markers</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stats.map((row) => (
+              <tr key={`${row.provider}:${row.model}`} className="border-t border-border">
+                <td className="py-1">
+                  <span className="text-muted-foreground">{row.provider}</span> {row.model}
+                </td>
+                <td className="py-1 text-right tabular-nums">{row.detections}</td>
+                <td className="py-1 pl-4 font-mono">
+                  {row.markers.map((m) => `${showMarker(m.marker)} ×${m.count}`).join(", ")}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
       )}
     </div>
   )
@@ -347,11 +870,19 @@ function SettingsPage() {
 
         <div className="grid gap-4">
           <OpenRouterSettings />
+          <AnthropicSettings />
           <OllamaSettings />
+          <OpenAICompatibleSettings />
           <ClaudeCodeSettings />
+          <MockProviderSettings />
         </div>
       </div>
 
+      <div className="space-y-4">
+        <h2 className="text-xl font-semibold">Brainstorm Settings</h2>
+        <SelfTalkSettings />
+      </div>
+
       <div className="space-y-4">
         <h2 className="text-xl font-semibold">Compression Settings</h2>
         <CompressionProviderSettings />